@@ -0,0 +1,185 @@
+using System.Text.RegularExpressions;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+
+namespace FollowInvestments.Api.Tests;
+
+public class OfxStatementParserTests
+{
+    private readonly OfxStatementParser _parser = new();
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public void DetectsTheStatement(string file)
+    {
+        var registry = new StatementParserRegistry(new IStatementParser[]
+        {
+            new QuestradeStatementParser(),
+            new WealthsimpleStatementParser(),
+            _parser
+        });
+
+        Assert.Same(_parser, registry.Detect(StatementFixtures.Read(file)));
+    }
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public void ReadsTrades(string file)
+    {
+        var result = Parse(file);
+
+        var buy = Assert.Single(result.Transactions, t => t.Type == TransactionType.Buy && t.Name == "VTI");
+        Assert.Equal(new DateTime(2024, 1, 5), buy.Date);
+        Assert.Equal(10m, buy.Quantity);
+        Assert.Equal(230.50m, buy.Value);
+        Assert.Equal(4.95m, buy.Fees);
+        Assert.Equal(Currency.USD, buy.Currency);
+        Assert.Equal(Category.ETF, buy.Category);
+        Assert.Equal("Bought VTI", buy.Description);
+        Assert.Equal("U1234567", buy.SourceAccount);
+
+        var sell = Assert.Single(result.Transactions, t => t.Type == TransactionType.Sell);
+        Assert.Equal("VTI", sell.Name);
+        Assert.Equal(new DateTime(2024, 1, 25), sell.Date);
+        Assert.Equal(4m, sell.Quantity);
+        Assert.Equal(240.00m, sell.Value);
+        Assert.Equal(4.95m, sell.Fees);
+    }
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public void ReadsIncomeWithTheTaxWithheld(string file)
+    {
+        var result = Parse(file);
+
+        var dividend = Assert.Single(result.Transactions,
+            t => t.Type == TransactionType.Dividend && t.Name == "VTI");
+        Assert.Equal(new DateTime(2024, 1, 20), dividend.Date);
+        Assert.Equal(1m, dividend.Quantity);
+        Assert.Equal(8.40m, dividend.Value);
+        Assert.Equal(1.26m, dividend.Taxes);
+    }
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public void SplitsReinvestmentsIntoIncomeAndABuy(string file)
+    {
+        var result = Parse(file);
+
+        var reinvestment = result.Transactions.Where(t => t.Name == "VFIAX").ToList();
+        Assert.Equal(2, reinvestment.Count);
+
+        var income = Assert.Single(reinvestment, t => t.Type == TransactionType.Dividend);
+        Assert.Equal(205.00m, income.Value);
+        Assert.Equal(new DateTime(2024, 1, 21), income.Date);
+
+        var buy = Assert.Single(reinvestment, t => t.Type == TransactionType.Buy);
+        Assert.Equal(0.5m, buy.Quantity);
+        Assert.Equal(410.00m, buy.Value);
+        Assert.Equal(new DateTime(2024, 1, 21), buy.Date);
+
+        // Both halves come from one FITID and still need IDs of their own
+        Assert.NotEqual(income.ExternalId, buy.ExternalId);
+    }
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public void ReadsBankTransactionsAsCash(string file)
+    {
+        var result = Parse(file);
+        var cash = result.Transactions.Where(t => t.Category == Category.Cash).ToList();
+
+        Assert.All(cash, t => Assert.Equal(InvestmentLedgerService.CashPositionName, t.Name));
+
+        var deposit = Assert.Single(cash, t => t.Type == TransactionType.Deposit);
+        Assert.Equal(new DateTime(2024, 1, 2), deposit.Date);
+        Assert.Equal(10000.00m, deposit.Value);
+        Assert.Equal("Contribution", deposit.Description);
+
+        var fee = Assert.Single(cash, t => t.Type == TransactionType.Fee);
+        Assert.Equal(25.00m, fee.Value);
+
+        var interest = Assert.Single(cash, t => t.Type == TransactionType.Dividend);
+        Assert.Equal(1.37m, interest.Value);
+        Assert.Equal("Interest - Cash sweep", interest.Description);
+    }
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public void ReadsPositions(string file)
+    {
+        var result = Parse(file);
+
+        Assert.Equal(2, result.Positions.Count);
+
+        var stock = Assert.Single(result.Positions, p => p.Name == "VTI");
+        Assert.Equal(new DateTime(2024, 1, 31), stock.Date);
+        Assert.Equal(25m, stock.Quantity);
+        Assert.Equal(235.10m, stock.UnitPrice);
+        Assert.Equal("U1234567", stock.SourceAccount);
+
+        // Without a unit price the market value is spread over the units
+        var fund = Assert.Single(result.Positions, p => p.Name == "VFIAX");
+        Assert.Equal(3.5m, fund.Quantity);
+        Assert.Equal(412m, fund.UnitPrice);
+    }
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public void SkipsTransfers(string file)
+    {
+        var result = Parse(file);
+
+        var skipped = Assert.Single(result.Skipped);
+        Assert.Equal("TRANSFER transactions are not imported", skipped.Reason);
+        Assert.Equal(8, result.Transactions.Count);
+    }
+
+    [Fact]
+    public void GivesTheSameExternalIdsInEveryFormat()
+    {
+        var expected = ExternalIds(Parse(StatementFixtures.Brokerage[0]));
+
+        Assert.Equal(10, expected.Distinct().Count());
+        foreach (var file in StatementFixtures.Brokerage.Skip(1))
+        {
+            Assert.Equal(expected, ExternalIds(Parse(file)));
+        }
+    }
+
+    [Fact]
+    public void IdentifiesTradesByTheirFitIdRatherThanTheirPlaceInTheFile()
+    {
+        var full = Parse("brokerage-xml.ofx");
+
+        // A statement for a later period no longer holds the first buy
+        var content = Regex.Replace(StatementFixtures.Read("brokerage-xml.ofx"), @"\s*<BUYSTOCK>.*?</BUYSTOCK>", string.Empty, RegexOptions.Singleline);
+        var overlapping = _parser.Parse(content);
+
+        var sell = Assert.Single(overlapping.Transactions, t => t.Type == TransactionType.Sell);
+        Assert.Equal(full.Transactions.Single(t => t.Type == TransactionType.Sell).ExternalId, sell.ExternalId);
+    }
+
+    [Fact]
+    public void KeepsTheFitIdsOfThisAppsExport()
+    {
+        var result = Parse("exported.ofx");
+
+        var deposit = Assert.Single(result.Transactions, t => t.Category == Category.Cash);
+        Assert.Equal("questrade:3f6c0a9e1b2d4c5e8f7a6b5c4d3e2f10", deposit.ExternalId);
+
+        var buy = Assert.Single(result.Transactions, t => t.Type == TransactionType.Buy);
+        Assert.Equal("followinvestments:42", buy.ExternalId);
+        Assert.Equal(42, OfxExportService.ExportedTransactionId(buy.ExternalId));
+        Assert.Equal("Tom & Co", buy.Description);
+        Assert.Equal(Currency.CAD, buy.Currency);
+        Assert.Equal("7", buy.SourceAccount);
+    }
+
+    private StatementParseResult Parse(string file) => _parser.Parse(StatementFixtures.Read(file));
+
+    private static List<string> ExternalIds(StatementParseResult result) => result.Transactions
+        .Select(t => t.ExternalId)
+        .Concat(result.Positions.Select(p => p.ExternalId))
+        .ToList();
+}
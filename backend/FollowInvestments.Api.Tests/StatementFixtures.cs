@@ -0,0 +1,19 @@
+namespace FollowInvestments.Api.Tests;
+
+// Statements under Fixtures, copied next to the test assembly. The four brokerage files hold the same
+// statement as OFX 1.x SGML, OFX 2.x XML and both flavours of Quicken QFX
+public static class StatementFixtures
+{
+    public static readonly string[] Brokerage =
+    {
+        "brokerage-sgml.ofx",
+        "brokerage-xml.ofx",
+        "brokerage-sgml.qfx",
+        "brokerage-xml.qfx"
+    };
+
+    public static IEnumerable<object[]> BrokerageFiles => Brokerage.Select(name => new object[] { name });
+
+    public static string Read(string name) =>
+        File.ReadAllText(Path.Combine(AppContext.BaseDirectory, "Fixtures", name));
+}
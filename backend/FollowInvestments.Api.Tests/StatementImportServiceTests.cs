@@ -0,0 +1,134 @@
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+
+namespace FollowInvestments.Api.Tests;
+
+public class StatementImportServiceTests : IDisposable
+{
+    private const int UserId = 1;
+    private const int AccountId = 7;
+
+    private readonly InvestmentContext _context;
+    private readonly StatementImportService _service;
+
+    public StatementImportServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<InvestmentContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        _context = new InvestmentContext(options);
+        _context.Users.Add(new User { Id = UserId, Name = "Investor", Email = "investor@example.com", PasswordHash = "hash" });
+        _context.Accounts.Add(new Account { Id = AccountId, Name = "Brokerage", UserId = UserId });
+        _context.SaveChanges();
+
+        _service = new StatementImportService(
+            _context,
+            new StatementParserRegistry(new IStatementParser[] { new OfxStatementParser() }),
+            new NoRatesCurrencyService(),
+            NullLogger<StatementImportService>.Instance);
+    }
+
+    public void Dispose() => _context.Dispose();
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public async Task ImportsTransactionsAndUnitsHeldBeforeTheStatement(string file)
+    {
+        var result = await _service.ImportAsync(UserId, Request(file));
+
+        // Eight transactions, and buys for the 19 VTI and 3 VFIAX units the positions hold beyond them
+        Assert.Equal(10, result.ImportedCount);
+        Assert.Equal(0, result.DuplicateRows);
+        Assert.Equal(19m, _context.Investments.Single(i => i.Name == "VTI" && i.Date == new DateTime(2024, 1, 31)).Quantity);
+        Assert.Equal(3m, _context.Investments.Single(i => i.Name == "VFIAX" && i.Date == new DateTime(2024, 1, 31)).Quantity);
+    }
+
+    [Theory]
+    [MemberData(nameof(StatementFixtures.BrokerageFiles), MemberType = typeof(StatementFixtures))]
+    public async Task SkipsEveryFitIdOnReimport(string file)
+    {
+        await _service.ImportAsync(UserId, Request(file));
+        var reimport = await _service.ImportAsync(UserId, Request(file));
+
+        Assert.Equal(0, reimport.ImportedCount);
+        Assert.Equal(0, reimport.NewRows);
+        Assert.Equal(8, reimport.DuplicateRows);
+        Assert.All(reimport.Rows, r => Assert.True(r.IsDuplicate));
+        Assert.Equal(10, _context.Investments.Count());
+    }
+
+    [Fact]
+    public async Task SkipsTheSameStatementDownloadedInAnotherFormat()
+    {
+        await _service.ImportAsync(UserId, Request("brokerage-xml.qfx"));
+
+        var preview = await _service.PreviewAsync(UserId, Request("brokerage-sgml.ofx"));
+
+        Assert.Equal(0, preview.NewRows);
+        Assert.Equal(8, preview.DuplicateRows);
+    }
+
+    [Fact]
+    public async Task SkipsTheTransactionsOfAnExportWhenItIsImportedBack()
+    {
+        // One transaction entered by hand and one imported from another broker's statement
+        _context.Investments.AddRange(
+            new Investment
+            {
+                Id = 42,
+                Name = "XEQT.TO",
+                Quantity = 10,
+                Value = 28.5m,
+                Currency = Currency.CAD,
+                Date = new DateTime(2024, 2, 5),
+                Category = Category.ETF,
+                Type = TransactionType.Buy,
+                AccountId = AccountId,
+                UserId = UserId
+            },
+            new Investment
+            {
+                Name = InvestmentLedgerService.CashPositionName,
+                Quantity = 1,
+                Value = 500,
+                Currency = Currency.CAD,
+                Date = new DateTime(2024, 2, 1),
+                Category = Category.Cash,
+                Type = TransactionType.Deposit,
+                AccountId = AccountId,
+                UserId = UserId,
+                ExternalId = "questrade:3f6c0a9e1b2d4c5e8f7a6b5c4d3e2f10"
+            });
+        await _context.SaveChangesAsync();
+
+        var result = await _service.ImportAsync(UserId, Request("exported.ofx"));
+
+        Assert.Equal(0, result.ImportedCount);
+        Assert.Equal(2, result.DuplicateRows);
+        Assert.Equal(2, _context.Investments.Count());
+    }
+
+    private static StatementImportRequest Request(string file) => new()
+    {
+        Content = StatementFixtures.Read(file),
+        DryRun = false,
+        DefaultAccountId = AccountId
+    };
+
+    // Exchange rates are not needed to decide what a statement adds
+    private class NoRatesCurrencyService : ICurrencyService
+    {
+        public Task<decimal?> GetExchangeRateAsync(string fromCurrency, string toCurrency) => Task.FromResult<decimal?>(null);
+        public Task UpdateAllExchangeRatesAsync() => Task.CompletedTask;
+        public Task<decimal> ConvertCurrencyAsync(decimal amount, string fromCurrency, string toCurrency) => Task.FromResult(amount);
+        public Task<Dictionary<string, decimal>> GetAllCurrentRatesAsync() => Task.FromResult(new Dictionary<string, decimal>());
+        public Task<DateTime?> GetLastUpdateTimeAsync() => Task.FromResult<DateTime?>(null);
+        public Task<List<(DateOnly Date, decimal Value)>> GetRateHistoryAsync(string fromCurrency, string toCurrency, DateOnly startDate, DateOnly endDate) =>
+            Task.FromResult(new List<(DateOnly Date, decimal Value)>());
+        public Task<decimal?> GetHistoricalRateAsync(string fromCurrency, string toCurrency, DateOnly date) => Task.FromResult<decimal?>(null);
+        public Task<int> FillTransactionRatesAsync(IEnumerable<Investment> investments, Currency homeCurrency) => Task.FromResult(0);
+    }
+}
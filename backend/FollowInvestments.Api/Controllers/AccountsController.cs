@@ -2,6 +2,7 @@ using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
 using FollowInvestments.Api.Data;
 using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
 using FollowInvestments.Api.Extensions;
 
 namespace FollowInvestments.Api.Controllers;
@@ -11,10 +12,12 @@ namespace FollowInvestments.Api.Controllers;
 public class AccountsController : ControllerBase
 {
     private readonly InvestmentContext _context;
+    private readonly ICacheService _cacheService;
 
-    public AccountsController(InvestmentContext context)
+    public AccountsController(InvestmentContext context, ICacheService cacheService)
     {
         _context = context;
+        _cacheService = cacheService;
     }
 
     [HttpGet]
@@ -51,12 +54,13 @@ public class AccountsController : ControllerBase
         var account = new Account
         {
             Name = request.Name,
-            Goal1 = request.Goal1,
-            Goal2 = request.Goal2,
-            Goal3 = request.Goal3,
-            Goal4 = request.Goal4,
-            Goal5 = request.Goal5,
             SortOrder = request.SortOrder,
+            Type = request.Type,
+            BenchmarkSymbol = NormalizeBenchmarkSymbol(request.BenchmarkSymbol),
+            ContributionAmount = request.ContributionAmount,
+            ContributionFrequency = request.ContributionFrequency,
+            ExpectedAnnualReturn = request.ExpectedAnnualReturn,
+            TracksCash = request.TracksCash,
             UserId = userId
         };
 
@@ -85,12 +89,14 @@ public class AccountsController : ControllerBase
 
         // Update only allowed fields
         existingAccount.Name = request.Name;
-        existingAccount.Goal1 = request.Goal1;
-        existingAccount.Goal2 = request.Goal2;
-        existingAccount.Goal3 = request.Goal3;
-        existingAccount.Goal4 = request.Goal4;
-        existingAccount.Goal5 = request.Goal5;
         existingAccount.SortOrder = request.SortOrder;
+        existingAccount.Type = request.Type;
+        existingAccount.BenchmarkSymbol = NormalizeBenchmarkSymbol(request.BenchmarkSymbol);
+        existingAccount.ContributionAmount = request.ContributionAmount;
+        existingAccount.ContributionFrequency = request.ContributionFrequency;
+        existingAccount.ExpectedAnnualReturn = request.ExpectedAnnualReturn;
+        var tracksCashChanged = existingAccount.TracksCash != request.TracksCash;
+        existingAccount.TracksCash = request.TracksCash;
 
         try
         {
@@ -108,6 +114,20 @@ public class AccountsController : ControllerBase
             }
         }
 
+        // Goal projections on the dashboard follow the contribution plan
+        await _cacheService.RemoveAsync($"dashboard_user_{userId}");
+
+        // Tracking cash changes the account's value and the flows its returns are measured from
+        if (tracksCashChanged)
+        {
+            await _cacheService.RemoveAsync($"timeline_user_{userId}");
+            await _cacheService.RemoveByPatternAsync(PortfolioValuationService.CacheKeyPattern(userId));
+            foreach (var cacheKey in InvestmentReturnService.CacheKeys(userId))
+            {
+                await _cacheService.RemoveAsync(cacheKey);
+            }
+        }
+
         return NoContent();
     }
 
@@ -136,6 +156,11 @@ public class AccountsController : ControllerBase
         return NoContent();
     }
 
+    private static string? NormalizeBenchmarkSymbol(string? symbol)
+    {
+        return string.IsNullOrWhiteSpace(symbol) ? null : symbol.Trim().ToUpper();
+    }
+
     private bool AccountExists(int id)
     {
         var userId = User.GetUserId();
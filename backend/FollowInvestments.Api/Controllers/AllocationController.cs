@@ -0,0 +1,143 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class AllocationController : ControllerBase
+{
+    private readonly InvestmentContext _context;
+    private readonly IRebalancingService _rebalancingService;
+
+    public AllocationController(InvestmentContext context, IRebalancingService rebalancingService)
+    {
+        _context = context;
+        _rebalancingService = rebalancingService;
+    }
+
+    [HttpGet("targets")]
+    public async Task<ActionResult<List<AllocationTarget>>> GetTargets([FromQuery] int? accountId = null)
+    {
+        var userId = User.GetUserId();
+        return await _context.AllocationTargets
+            .Where(t => t.UserId == userId && t.AccountId == accountId)
+            .OrderBy(t => t.Dimension)
+            .ThenByDescending(t => t.TargetPercentage)
+            .ToListAsync();
+    }
+
+    // Replaces every target of one dimension, for the portfolio or one account
+    [HttpPut("targets")]
+    public async Task<ActionResult<List<AllocationTarget>>> SaveTargets([FromBody] SaveAllocationTargetsRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (request.AccountId.HasValue &&
+            !await _context.Accounts.AnyAsync(a => a.Id == request.AccountId.Value && a.UserId == userId))
+        {
+            return NotFound();
+        }
+
+        var targets = new List<AllocationTarget>();
+        foreach (var item in request.Targets.Where(t => t.TargetPercentage > 0))
+        {
+            var key = NormalizeKey(item.Key, request.Dimension);
+            if (key == null)
+            {
+                return BadRequest($"'{item.Key}' is not a valid {request.Dimension.ToString().ToLower()}");
+            }
+
+            if (targets.Any(t => t.Key == key))
+            {
+                return BadRequest($"'{key}' has more than one target");
+            }
+
+            targets.Add(new AllocationTarget
+            {
+                UserId = userId,
+                AccountId = request.AccountId,
+                Dimension = request.Dimension,
+                Key = key,
+                TargetPercentage = item.TargetPercentage
+            });
+        }
+
+        // An empty list clears the targets, otherwise they have to cover the whole portfolio
+        var totalPercentage = targets.Sum(t => t.TargetPercentage);
+        if (targets.Any() && totalPercentage != 100)
+        {
+            return BadRequest($"Targets must add up to 100%, they add up to {totalPercentage}%");
+        }
+
+        var existing = await _context.AllocationTargets
+            .Where(t => t.UserId == userId && t.AccountId == request.AccountId && t.Dimension == request.Dimension)
+            .ToListAsync();
+
+        _context.AllocationTargets.RemoveRange(existing);
+        _context.AllocationTargets.AddRange(targets);
+        await _context.SaveChangesAsync();
+
+        return targets;
+    }
+
+    [HttpGet("rebalance")]
+    public async Task<ActionResult<RebalancingPlan>> GetRebalancingPlan(
+        [FromQuery] AllocationDimension dimension = AllocationDimension.Category,
+        [FromQuery] Currency currency = Currency.CAD,
+        [FromQuery] int? accountId = null,
+        [FromQuery] decimal contribution = 0,
+        [FromQuery] bool contributionsOnly = false)
+    {
+        if (contribution < 0)
+        {
+            return BadRequest("Contribution cannot be negative");
+        }
+
+        var userId = User.GetUserId();
+
+        var query = _context.Investments
+            .Include(i => i.Account)
+            .Where(i => i.UserId == userId);
+
+        if (accountId.HasValue)
+        {
+            if (!await _context.Accounts.AnyAsync(a => a.Id == accountId.Value && a.UserId == userId))
+            {
+                return NotFound();
+            }
+
+            query = query.Where(i => i.AccountId == accountId.Value);
+        }
+
+        var investments = await query.ToListAsync();
+        var targets = await _context.AllocationTargets
+            .Where(t => t.UserId == userId && t.AccountId == accountId && t.Dimension == dimension)
+            .ToListAsync();
+
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        var costBasisMethod = user?.CostBasisMethod ?? CostBasisMethod.AverageCost;
+
+        return await _rebalancingService.CalculateRebalancingAsync(
+            investments, targets, dimension, currency, costBasisMethod, contribution, contributionsOnly);
+    }
+
+    // Keys are stored the way holdings report them, so "stocks" becomes "Stocks" and "cad" becomes "CAD"
+    private static string? NormalizeKey(string key, AllocationDimension dimension)
+    {
+        var trimmed = key.Trim();
+        if (string.IsNullOrEmpty(trimmed))
+            return null;
+
+        return dimension switch
+        {
+            AllocationDimension.Category => Enum.TryParse<Category>(trimmed, true, out var category) && Enum.IsDefined(category) ? category.ToString() : null,
+            AllocationDimension.Currency => Enum.TryParse<Currency>(trimmed, true, out var currency) && Enum.IsDefined(currency) ? currency.ToString() : null,
+            _ => trimmed
+        };
+    }
+}
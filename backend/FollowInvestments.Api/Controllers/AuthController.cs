@@ -3,6 +3,7 @@ using Microsoft.EntityFrameworkCore;
 using FollowInvestments.Api.Data;
 using FollowInvestments.Api.Models;
 using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
 using System.ComponentModel.DataAnnotations;
 
 namespace FollowInvestments.Api.Controllers;
@@ -13,12 +14,14 @@ public class AuthController : ControllerBase
 {
     private readonly InvestmentContext _context;
     private readonly IPasswordService _passwordService;
+    private readonly ICacheService _cacheService;
     private readonly ILogger<AuthController> _logger;
 
-    public AuthController(InvestmentContext context, IPasswordService passwordService, ILogger<AuthController> logger)
+    public AuthController(InvestmentContext context, IPasswordService passwordService, ICacheService cacheService, ILogger<AuthController> logger)
     {
         _context = context;
         _passwordService = passwordService;
+        _cacheService = cacheService;
         _logger = logger;
     }
 
@@ -65,6 +68,8 @@ public class AuthController : ControllerBase
                 Name = user.Name,
                 Email = user.Email,
                 Role = user.Role,
+                CostBasisMethod = user.CostBasisMethod,
+                HomeCurrency = user.HomeCurrency,
                 CreatedAt = user.CreatedAt
             };
 
@@ -110,6 +115,8 @@ public class AuthController : ControllerBase
                 Name = user.Name,
                 Email = user.Email,
                 Role = user.Role,
+                CostBasisMethod = user.CostBasisMethod,
+                HomeCurrency = user.HomeCurrency,
                 CreatedAt = user.CreatedAt
             };
 
@@ -141,6 +148,8 @@ public class AuthController : ControllerBase
                     Name = u.Name,
                     Email = u.Email,
                     Role = u.Role,
+                    CostBasisMethod = u.CostBasisMethod,
+                    HomeCurrency = u.HomeCurrency,
                     CreatedAt = u.CreatedAt
                 })
                 .ToListAsync();
@@ -153,4 +162,63 @@ public class AuthController : ControllerBase
             return StatusCode(500, new { message = "Internal server error" });
         }
     }
+
+    [HttpPut("settings")]
+    public async Task<IActionResult> UpdateSettings([FromBody] UpdateUserSettingsRequest request)
+    {
+        try
+        {
+            var userId = User.GetUserId();
+            var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+
+            if (user == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            user.CostBasisMethod = request.CostBasisMethod;
+
+            if (request.HomeCurrency.HasValue && request.HomeCurrency.Value != user.HomeCurrency)
+            {
+                user.HomeCurrency = request.HomeCurrency.Value;
+
+                // Stored rates convert into the old home currency, they are backfilled again when needed
+                var investments = await _context.Investments.Where(i => i.UserId == userId).ToListAsync();
+                foreach (var investment in investments)
+                {
+                    investment.FxRate = null;
+                }
+            }
+
+            user.UpdatedAt = DateTime.UtcNow;
+            await _context.SaveChangesAsync();
+
+            // Cost basis and gains depend on the lot matching method and the home currency
+            await _cacheService.RemoveAsync($"dashboard_user_{userId}");
+            await _cacheService.RemoveAsync($"timeline_user_{userId}");
+            await _cacheService.RemoveByPatternAsync(PortfolioValuationService.CacheKeyPattern(userId));
+            foreach (var cacheKey in InvestmentReturnService.CacheKeys(userId))
+            {
+                await _cacheService.RemoveAsync(cacheKey);
+            }
+
+            var userResponse = new UserResponse
+            {
+                Id = user.Id,
+                Name = user.Name,
+                Email = user.Email,
+                Role = user.Role,
+                CostBasisMethod = user.CostBasisMethod,
+                HomeCurrency = user.HomeCurrency,
+                CreatedAt = user.CreatedAt
+            };
+
+            return Ok(new { message = "Settings updated successfully", user = userResponse });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating user settings");
+            return StatusCode(500, new { message = "Internal server error" });
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+using Microsoft.AspNetCore.Mvc;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class ContributionRoomController : ControllerBase
+{
+    private readonly IContributionRoomService _contributionRoomService;
+
+    public ContributionRoomController(IContributionRoomService contributionRoomService)
+    {
+        _contributionRoomService = contributionRoomService;
+    }
+
+    [HttpGet]
+    public async Task<ActionResult<List<ContributionRoomSummary>>> GetSummaries()
+    {
+        return await _contributionRoomService.GetSummariesAsync(User.GetUserId());
+    }
+
+    // Sets the room received in a year, or goes back to the default when the amount is empty
+    [HttpPut("{accountType}/{year}")]
+    public async Task<IActionResult> SetLimit(AccountType accountType, int year, [FromBody] SetContributionLimitRequest request)
+    {
+        if (!ContributionRoomCalculator.TracksRoom(accountType))
+        {
+            return BadRequest($"{accountType} accounts have no contribution room");
+        }
+
+        if (year < 2000 || year > DateTime.UtcNow.Year + 1)
+        {
+            return BadRequest("Year is out of range");
+        }
+
+        await _contributionRoomService.SetLimitAsync(User.GetUserId(), accountType, year, request.Amount);
+        return NoContent();
+    }
+}
@@ -0,0 +1,102 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class CorporateActionsController : ControllerBase
+{
+    private readonly InvestmentContext _context;
+    private readonly ICorporateActionService _corporateActionService;
+    private readonly ICacheService _cacheService;
+
+    public CorporateActionsController(InvestmentContext context, ICorporateActionService corporateActionService, ICacheService cacheService)
+    {
+        _context = context;
+        _corporateActionService = corporateActionService;
+        _cacheService = cacheService;
+    }
+
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<CorporateAction>>> GetCorporateActions()
+    {
+        var userId = User.GetUserId();
+        return await _context.CorporateActions
+            .Where(a => a.UserId == userId)
+            .OrderByDescending(a => a.Date)
+            .ThenBy(a => a.Symbol)
+            .ToListAsync();
+    }
+
+    [HttpPost]
+    public async Task<ActionResult<CorporateAction>> PostCorporateAction([FromBody] CreateCorporateActionRequest request)
+    {
+        var error = CorporateActionCalculator.Validate(request);
+        if (error != null)
+        {
+            return BadRequest(error);
+        }
+
+        var userId = User.GetUserId();
+        var action = await _corporateActionService.CreateAsync(userId, request);
+        await InvalidateDashboardCache(userId);
+
+        return Ok(action);
+    }
+
+    [HttpPost("import")]
+    public async Task<ActionResult<object>> ImportCorporateActions([FromBody] CorporateActionImportRequest request)
+    {
+        if (request.Rows.Count == 0)
+        {
+            return BadRequest("No corporate actions to import");
+        }
+
+        try
+        {
+            var userId = User.GetUserId();
+            var imported = await _corporateActionService.ImportAsync(userId, request.Rows);
+            await InvalidateDashboardCache(userId);
+            return Ok(new { imported });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> DeleteCorporateAction(int id)
+    {
+        var userId = User.GetUserId();
+        var action = await _context.CorporateActions.FirstOrDefaultAsync(a => a.Id == id && a.UserId == userId);
+        if (action == null)
+        {
+            return NotFound();
+        }
+
+        _context.CorporateActions.Remove(action);
+        await _context.SaveChangesAsync();
+        await InvalidateDashboardCache(userId);
+
+        return NoContent();
+    }
+
+    // Corporate actions restate the holdings in the dashboard, the cost and valuation timelines and the returns
+    private async Task InvalidateDashboardCache(int userId)
+    {
+        await _cacheService.RemoveAsync($"dashboard_user_{userId}");
+        await _cacheService.RemoveAsync($"timeline_user_{userId}");
+        await _cacheService.RemoveByPatternAsync(PortfolioValuationService.CacheKeyPattern(userId));
+
+        foreach (var cacheKey in InvestmentReturnService.CacheKeys(userId))
+        {
+            await _cacheService.RemoveAsync(cacheKey);
+        }
+    }
+}
@@ -20,6 +20,13 @@ public class CurrencyController : ControllerBase
         _logger = logger;
     }
 
+    // Codes, symbols and formatting of every supported currency, the frontend builds its selectors from this
+    [HttpGet("currencies")]
+    public ActionResult<IReadOnlyList<CurrencyInfo>> GetCurrencies()
+    {
+        return Ok(CurrencyRegistry.All);
+    }
+
     [HttpGet("rates")]
     public async Task<ActionResult<Dictionary<string, decimal>>> GetAllRates()
     {
@@ -0,0 +1,165 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class GoalsController : ControllerBase
+{
+    private readonly InvestmentContext _context;
+    private readonly IGoalService _goalService;
+    private readonly IInvestmentPerformanceService _performanceService;
+    private readonly ICacheService _cacheService;
+
+    public GoalsController(InvestmentContext context, IGoalService goalService, IInvestmentPerformanceService performanceService, ICacheService cacheService)
+    {
+        _context = context;
+        _goalService = goalService;
+        _performanceService = performanceService;
+        _cacheService = cacheService;
+    }
+
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<Goal>>> GetGoals([FromQuery] int? accountId = null)
+    {
+        var userId = User.GetUserId();
+        var query = _context.Goals.Where(g => g.UserId == userId);
+
+        if (accountId.HasValue)
+        {
+            query = query.Where(g => g.AccountId == accountId.Value);
+        }
+
+        return await query
+            .OrderBy(g => g.TargetDate)
+            .ToListAsync();
+    }
+
+    [HttpGet("progress")]
+    public async Task<ActionResult<List<GoalProgress>>> GetGoalsProgress()
+    {
+        var userId = User.GetUserId();
+        var goals = await _context.Goals
+            .Where(g => g.UserId == userId)
+            .ToListAsync();
+        var accounts = await _context.Accounts
+            .Where(a => a.UserId == userId)
+            .OrderBy(a => a.SortOrder)
+            .ThenBy(a => a.Name)
+            .ToListAsync();
+        var investments = await _context.Investments
+            .Where(i => i.UserId == userId)
+            .ToListAsync();
+        var performances = await _performanceService.CalculateAllAccountsPerformanceAsync(userId);
+
+        var accountValues = await _goalService.GetAccountValuesAsync(accounts, investments, performances);
+        return await _goalService.CalculateProgressAsync(goals, accountValues);
+    }
+
+    [HttpGet("{id}")]
+    public async Task<ActionResult<Goal>> GetGoal(int id)
+    {
+        var userId = User.GetUserId();
+        var goal = await _context.Goals.FirstOrDefaultAsync(g => g.Id == id && g.UserId == userId);
+
+        if (goal == null)
+        {
+            return NotFound();
+        }
+
+        return goal;
+    }
+
+    [HttpPost]
+    public async Task<ActionResult<Goal>> PostGoal([FromBody] CreateGoalRequest request)
+    {
+        var userId = User.GetUserId();
+        if (!await AccountBelongsToUser(request.AccountId, userId))
+        {
+            return BadRequest("Account not found");
+        }
+
+        var goal = new Goal
+        {
+            UserId = userId,
+            AccountId = request.AccountId,
+            Name = string.IsNullOrWhiteSpace(request.Name) ? null : request.Name.Trim(),
+            TargetDate = request.TargetDate,
+            TargetAmount = request.TargetAmount,
+            Currency = request.Currency
+        };
+
+        _context.Goals.Add(goal);
+        await _context.SaveChangesAsync();
+        await InvalidateDashboardCache(userId);
+
+        return CreatedAtAction(nameof(GetGoal), new { id = goal.Id }, goal);
+    }
+
+    [HttpPut("{id}")]
+    public async Task<IActionResult> PutGoal(int id, [FromBody] UpdateGoalRequest request)
+    {
+        if (id != request.Id)
+        {
+            return BadRequest("ID mismatch");
+        }
+
+        var userId = User.GetUserId();
+        var goal = await _context.Goals.FirstOrDefaultAsync(g => g.Id == id && g.UserId == userId);
+        if (goal == null)
+        {
+            return NotFound();
+        }
+
+        if (!await AccountBelongsToUser(request.AccountId, userId))
+        {
+            return BadRequest("Account not found");
+        }
+
+        goal.AccountId = request.AccountId;
+        goal.Name = string.IsNullOrWhiteSpace(request.Name) ? null : request.Name.Trim();
+        goal.TargetDate = request.TargetDate;
+        goal.TargetAmount = request.TargetAmount;
+        goal.Currency = request.Currency;
+        goal.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+        await InvalidateDashboardCache(userId);
+
+        return NoContent();
+    }
+
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> DeleteGoal(int id)
+    {
+        var userId = User.GetUserId();
+        var goal = await _context.Goals.FirstOrDefaultAsync(g => g.Id == id && g.UserId == userId);
+        if (goal == null)
+        {
+            return NotFound();
+        }
+
+        _context.Goals.Remove(goal);
+        await _context.SaveChangesAsync();
+        await InvalidateDashboardCache(userId);
+
+        return NoContent();
+    }
+
+    private async Task<bool> AccountBelongsToUser(int? accountId, int userId)
+    {
+        return !accountId.HasValue || await _context.Accounts.AnyAsync(a => a.Id == accountId.Value && a.UserId == userId);
+    }
+
+    // Goal progress and markers are part of the cached dashboard and timeline
+    private async Task InvalidateDashboardCache(int userId)
+    {
+        await _cacheService.RemoveAsync($"dashboard_user_{userId}");
+        await _cacheService.RemoveAsync($"timeline_user_{userId}");
+    }
+}
@@ -0,0 +1,81 @@
+using Microsoft.AspNetCore.Mvc;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class IndexRatesController : ControllerBase
+{
+    private readonly IFixedIncomeService _fixedIncomeService;
+    private readonly ICacheService _cacheService;
+    private readonly ILogger<IndexRatesController> _logger;
+
+    public IndexRatesController(IFixedIncomeService fixedIncomeService, ICacheService cacheService, ILogger<IndexRatesController> logger)
+    {
+        _fixedIncomeService = fixedIncomeService;
+        _cacheService = cacheService;
+        _logger = logger;
+    }
+
+    [HttpGet]
+    public async Task<ActionResult<List<IndexRateSummary>>> GetSummary()
+    {
+        return await _fixedIncomeService.GetSummaryAsync();
+    }
+
+    [HttpPost("import")]
+    public async Task<ActionResult<object>> ImportRates([FromBody] IndexRateImportRequest request)
+    {
+        if (request.Rows.Count == 0)
+        {
+            return BadRequest("No rates to import");
+        }
+
+        try
+        {
+            var imported = await _fixedIncomeService.ImportRatesAsync(request.Indexer, request.Rows);
+            await InvalidateDashboardCache(User.GetUserId());
+            return Ok(new { imported });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
+    [HttpPost("sync/{indexer}")]
+    public async Task<ActionResult<object>> SyncRates(FixedIncomeIndexer indexer)
+    {
+        if (indexer == FixedIncomeIndexer.Prefixed)
+        {
+            return BadRequest("Prefixed bonds have no index rates");
+        }
+
+        try
+        {
+            var imported = await _fixedIncomeService.SyncRatesAsync(indexer);
+            await InvalidateDashboardCache(User.GetUserId());
+            return Ok(new { imported });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Could not sync {Indexer} rates", indexer);
+            return StatusCode(502, ex.Message);
+        }
+    }
+
+    // Accrued holdings are valued in the dashboard, the valuation timeline and the returns
+    private async Task InvalidateDashboardCache(int userId)
+    {
+        await _cacheService.RemoveAsync($"dashboard_user_{userId}");
+        await _cacheService.RemoveByPatternAsync(PortfolioValuationService.CacheKeyPattern(userId));
+
+        foreach (var cacheKey in InvestmentReturnService.CacheKeys(userId))
+        {
+            await _cacheService.RemoveAsync(cacheKey);
+        }
+    }
+}
@@ -13,12 +13,26 @@ public class InvestmentsController : ControllerBase
 {
     private readonly InvestmentContext _context;
     private readonly IInvestmentPerformanceService _performanceService;
+    private readonly IInvestmentLedgerService _ledgerService;
+    private readonly IInvestmentImportService _importService;
+    private readonly IPortfolioValuationService _valuationService;
+    private readonly IInvestmentReturnService _returnService;
+    private readonly IGoalService _goalService;
+    private readonly ICurrencyService _currencyService;
+    private readonly ICorporateActionService _corporateActionService;
     private readonly ICacheService _cacheService;
 
-    public InvestmentsController(InvestmentContext context, IInvestmentPerformanceService performanceService, ICacheService cacheService)
+    public InvestmentsController(InvestmentContext context, IInvestmentPerformanceService performanceService, IInvestmentLedgerService ledgerService, IInvestmentImportService importService, IPortfolioValuationService valuationService, IInvestmentReturnService returnService, IGoalService goalService, ICurrencyService currencyService, ICorporateActionService corporateActionService, ICacheService cacheService)
     {
         _context = context;
         _performanceService = performanceService;
+        _ledgerService = ledgerService;
+        _importService = importService;
+        _valuationService = valuationService;
+        _returnService = returnService;
+        _goalService = goalService;
+        _currencyService = currencyService;
+        _corporateActionService = corporateActionService;
         _cacheService = cacheService;
     }
 
@@ -57,19 +71,26 @@ public class InvestmentsController : ControllerBase
             .ThenBy(a => a.Name)
             .ToListAsync();
         
-        // Group by category, account, and name - sum total (quantity * value)
-        var groupedInvestments = investments
-            .GroupBy(i => new { i.Category, AccountName = i.Account.Name, InvestmentName = i.Name })
-            .Select(g => new GroupedInvestment
+        // Replay the transaction ledger into net positions - total is the open cost basis
+        var costBasisMethod = await GetCostBasisMethodAsync(userId);
+        var corporateActions = await _corporateActionService.GetActionsAsync(investments, DateOnly.FromDateTime(DateTime.UtcNow));
+        var positions = _ledgerService.BuildPositions(investments, costBasisMethod, corporateActions);
+        var groupedInvestments = positions
+            .Select(p => new GroupedInvestment
             {
-                Category = g.Key.Category.ToString(),
-                Account = g.Key.AccountName,
-                Name = g.Key.InvestmentName,
-                TotalQuantity = g.Sum(i => i.Quantity),
-                AverageValue = g.Average(i => i.Value),
-                Total = g.Sum(i => i.Total),
-                Currency = g.First().Currency.ToString(),
-                Country = g.First().Country
+                Category = p.Category.ToString(),
+                Account = p.AccountName,
+                Name = p.Name,
+                TotalQuantity = p.Quantity,
+                AverageValue = p.AverageCost,
+                Total = p.CostBasis,
+                Currency = p.Currency.ToString(),
+                Country = p.Country,
+                RealizedGain = p.RealizedGain,
+                Income = p.Income,
+                TrailingIncome = p.TrailingIncome(DateTime.UtcNow),
+                YieldOnCost = p.YieldOnCost(DateTime.UtcNow),
+                Fees = p.Fees
             })
             .ToList();
         
@@ -89,54 +110,59 @@ public class InvestmentsController : ControllerBase
             .Select(g => new { Country = g.Key, Total = g.Sum(i => i.Total) })
             .ToList();
 
-        var assetsByCategory = investments
+        var portfolioCostBasis = groupedInvestments.Sum(i => i.Total);
+        var assetsByCategory = groupedInvestments
+            .Where(i => i.TotalQuantity != 0)
             .GroupBy(i => i.Category)
             .Select(g => new AssetByCategory 
             { 
-                Category = g.Key.ToString(), 
+                Category = g.Key, 
                 Total = g.Sum(i => i.Total),
                 Count = g.Count(),
-                Percentage = investments.Sum(i => i.Total) > 0 ? 
-                    Math.Round((double)(g.Sum(i => i.Total) / investments.Sum(i => i.Total)) * 100, 2) : 0
+                Percentage = portfolioCostBasis > 0 ? 
+                    Math.Round((double)(g.Sum(i => i.Total) / portfolioCostBasis) * 100, 2) : 0
             })
             .OrderByDescending(a => a.Total)
             .ToList();
 
         // Calculate account performance including gains/losses
-        var accountPerformances = await _performanceService.CalculateAllAccountsPerformanceAsync();
+        var accountPerformances = await _performanceService.CalculateAllAccountsPerformanceAsync(userId);
         
-        // Calculate account goals progress - get all accounts, not just those with investments
-        var accountGoals = allAccounts.Select(account => 
+        // Current value and contribution plan of every account, not just those with investments
+        var accountValues = await _goalService.GetAccountValuesAsync(allAccounts, investments, accountPerformances);
+
+        var goals = await _context.Goals
+            .Where(g => g.UserId == userId)
+            .ToListAsync();
+        var goalProgress = await _goalService.CalculateProgressAsync(goals, accountValues);
+
+        var accountGoals = accountValues.Select(accountValue => new AccountGoalProgress
         {
-            var accountInvestments = investments.Where(i => i.AccountId == account.Id).ToList();
-            var performance = accountPerformances.FirstOrDefault(ap => ap.AccountId == account.Id);
-            
-            // Use current value from performance if available, otherwise use book value
-            var currentValue = performance?.CurrentValue ?? accountInvestments.Sum(i => i.Total);
-            
-            // Determine currency based on investments, default to CAD if no investments
-            var currency = accountInvestments.FirstOrDefault()?.Currency.ToString() ?? "CAD";
-            
-            return new AccountGoalProgress
-            {
-                AccountId = account.Id,
-                AccountName = account.Name,
-                CurrentValue = currentValue,
-                Currency = currency,
-                Goals = new GoalValues
-                {
-                    Year1 = account.Goal1,
-                    Year2 = account.Goal2,
-                    Year3 = account.Goal3,
-                    Year4 = account.Goal4,
-                    Year5 = account.Goal5
-                },
-                Performance = performance
-            };
+            AccountId = accountValue.AccountId,
+            AccountName = accountValue.AccountName,
+            CurrentValue = accountValue.Value,
+            Currency = accountValue.Currency.ToString(),
+            Goals = goalProgress.Where(g => g.AccountId == accountValue.AccountId).ToList(),
+            Performance = accountPerformances.FirstOrDefault(ap => ap.AccountId == accountValue.AccountId)
         }).ToList();
 
+        // Income received per month and currency over the last 12 months
+        var firstIncomeMonth = new DateTime(DateTime.UtcNow.Year, DateTime.UtcNow.Month, 1).AddMonths(-11);
+        var monthlyIncome = positions
+            .SelectMany(p => p.IncomeEntries.Select(i => new { i.Date, i.Amount, p.Currency }))
+            .Where(i => i.Date >= firstIncomeMonth)
+            .GroupBy(i => new { i.Date.Year, i.Date.Month, i.Currency })
+            .Select(g => new MonthlyIncome
+            {
+                Month = new DateTime(g.Key.Year, g.Key.Month, 1),
+                Currency = g.Key.Currency.ToString(),
+                Amount = g.Sum(i => i.Amount)
+            })
+            .OrderBy(m => m.Month)
+            .ToList();
+
         // Generate timeline data for dashboard
-        var timelineData = await GenerateTimelineData(investments, allAccounts);
+        var timelineData = GenerateTimelineData(investments, allAccounts, goals, costBasisMethod, corporateActions);
 
         var dashboardData = new DashboardData
         {
@@ -146,6 +172,8 @@ public class InvestmentsController : ControllerBase
             AssetsByCountry = assetsByCountry,
             AssetsByCategory = assetsByCategory,
             AccountGoals = accountGoals,
+            PortfolioGoals = goalProgress.Where(g => g.AccountId == null).ToList(),
+            MonthlyIncome = monthlyIncome,
             TimelineData = timelineData
         };
 
@@ -155,6 +183,101 @@ public class InvestmentsController : ControllerBase
         return dashboardData;
     }
 
+    // Markets investments can be assigned to, with the symbol suffix used to infer them
+    [HttpGet("exchanges")]
+    public ActionResult<IReadOnlyList<ExchangeInfo>> GetExchanges()
+    {
+        return Ok(ExchangeRegistry.All);
+    }
+
+    // Open quoted holdings without a usable symbol: nothing could be guessed from the name,
+    // or the symbol has never returned a price
+    [HttpGet("symbols/unmapped")]
+    public async Task<ActionResult<List<UnmappedHolding>>> GetUnmappedHoldings()
+    {
+        var userId = User.GetUserId();
+        var investments = await _context.Investments
+            .Include(i => i.Account)
+            .Where(i => i.UserId == userId)
+            .ToListAsync();
+
+        var corporateActions = await _corporateActionService.GetActionsAsync(investments, DateOnly.FromDateTime(DateTime.UtcNow));
+        var positions = _ledgerService.BuildPositions(investments, corporateActions: corporateActions)
+            .Where(p => p.IsOpen && InvestmentSymbolMapper.HasMarketPrice(p.Category))
+            .ToList();
+
+        var symbols = positions
+            .Select(InvestmentSymbolMapper.MapPositionToSymbol)
+            .Where(s => !string.IsNullOrEmpty(s))
+            .Distinct()
+            .ToList();
+        var pricedSymbols = (await _context.StockPrices
+            .Where(sp => symbols.Contains(sp.Symbol))
+            .Select(sp => sp.Symbol)
+            .Distinct()
+            .ToListAsync())
+            .ToHashSet();
+
+        var unmapped = new List<UnmappedHolding>();
+        foreach (var position in positions)
+        {
+            var symbol = InvestmentSymbolMapper.MapPositionToSymbol(position);
+            if (!string.IsNullOrEmpty(symbol) && pricedSymbols.Contains(symbol))
+                continue;
+
+            unmapped.Add(new UnmappedHolding
+            {
+                AccountId = position.AccountId,
+                AccountName = position.AccountName,
+                Name = position.Name,
+                Currency = position.Currency.ToString(),
+                Category = position.Category.ToString(),
+                Ticker = position.Transactions.Select(t => t.Ticker).FirstOrDefault(t => t != null),
+                SuggestedSymbol = symbol,
+                TransactionCount = position.Transactions.Count
+            });
+        }
+
+        return unmapped.OrderBy(u => u.AccountName).ThenBy(u => u.Name).ToList();
+    }
+
+    // Sets the ticker on every transaction of each holding in one go
+    [HttpPut("symbols")]
+    public async Task<IActionResult> UpdateSymbolMappings([FromBody] SymbolMappingRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (request.Mappings.Count == 0)
+        {
+            return BadRequest("No mappings to save");
+        }
+
+        var accountIds = request.Mappings.Select(m => m.AccountId).Distinct().ToList();
+        var investments = await _context.Investments
+            .Where(i => i.UserId == userId && accountIds.Contains(i.AccountId))
+            .ToListAsync();
+
+        var updated = 0;
+        foreach (var mapping in request.Mappings)
+        {
+            var name = mapping.Name.Trim().ToUpper();
+            var ticker = NormalizeTicker(mapping.Ticker);
+
+            foreach (var investment in investments.Where(i =>
+                i.AccountId == mapping.AccountId && i.Currency == mapping.Currency && i.Name.Trim().ToUpper() == name))
+            {
+                investment.Ticker = ticker;
+                investment.Exchange ??= ExchangeRegistry.InferFromSymbol(ticker ?? investment.Name);
+                updated++;
+            }
+        }
+
+        await _context.SaveChangesAsync();
+        await InvalidateDashboardCache(userId);
+
+        return Ok(new { updatedCount = updated });
+    }
+
     [HttpGet("{id:int}")]
     public async Task<ActionResult<Investment>> GetInvestment(int id)
     {
@@ -183,6 +306,16 @@ public class InvestmentsController : ControllerBase
             return BadRequest("Invalid account or account does not belong to user");
         }
 
+        if (investment.Indexer.HasValue && !investment.IndexerRate.HasValue)
+        {
+            return BadRequest("Indexed investments need a rate");
+        }
+
+        if (investment.Value <= 0 || investment.Quantity <= 0)
+        {
+            return BadRequest("Value and quantity must be greater than zero");
+        }
+
         var newInvestment = new Investment
         {
             Name = investment.Name,
@@ -192,10 +325,24 @@ public class InvestmentsController : ControllerBase
             Date = investment.Date.Kind == DateTimeKind.Unspecified ? DateTime.SpecifyKind(investment.Date, DateTimeKind.Utc) : investment.Date,
             Description = investment.Description,
             Category = investment.Category,
+            Type = investment.Type,
             AccountId = investment.AccountId,
+            Ticker = NormalizeTicker(investment.Ticker),
+            Exchange = investment.Exchange ?? ExchangeRegistry.InferFromSymbol(NormalizeTicker(investment.Ticker) ?? investment.Name),
+            ExposureCountry = string.IsNullOrWhiteSpace(investment.ExposureCountry) ? null : investment.ExposureCountry.Trim(),
+            Indexer = investment.Indexer,
+            IndexerRate = investment.Indexer.HasValue ? investment.IndexerRate : null,
+            MaturityDate = investment.Indexer.HasValue ? investment.MaturityDate : null,
+            IsTaxExempt = investment.IsTaxExempt,
+            Fees = investment.Fees,
+            Taxes = investment.Taxes,
+            CostCurrency = CostCurrencyOf(investment.Fees, investment.Taxes, investment.CostCurrency, investment.Currency),
             UserId = userId
         };
 
+        // Capture the rate of the transaction date now, performance backfills it if no quote was found
+        await _currencyService.FillTransactionRatesAsync(new[] { newInvestment }, await GetHomeCurrencyAsync(userId));
+
         _context.Investments.Add(newInvestment);
         await _context.SaveChangesAsync();
 
@@ -205,6 +352,54 @@ public class InvestmentsController : ControllerBase
         return CreatedAtAction(nameof(GetInvestment), new { id = newInvestment.Id }, newInvestment);
     }
 
+    [HttpPost("bulk")]
+    public async Task<ActionResult<BulkImportResult>> BulkImport([FromBody] BulkImportRequest request)
+    {
+        var userId = User.GetUserId();
+
+        if (request.Rows.Count == 0)
+        {
+            return BadRequest("No rows to import");
+        }
+
+        var decimalSeparator = string.IsNullOrEmpty(request.DecimalSeparator) ? (char?)null : request.DecimalSeparator[0];
+        var dateOrder = string.IsNullOrEmpty(request.DateOrder) ? null : request.DateOrder;
+        if (request.DryRun)
+        {
+            return Ok(await _importService.ValidateAsync(userId, request.Rows, decimalSeparator, dateOrder));
+        }
+
+        var result = await _importService.ImportAsync(userId, request.Rows, decimalSeparator, dateOrder);
+        if (result.ImportedCount == 0)
+        {
+            return BadRequest(result);
+        }
+
+        // Invalidate dashboard cache
+        await InvalidateDashboardCache(userId);
+
+        return Ok(result);
+    }
+
+    private async Task<CostBasisMethod> GetCostBasisMethodAsync(int userId)
+    {
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        return user?.CostBasisMethod ?? CostBasisMethod.AverageCost;
+    }
+
+    private static string? NormalizeTicker(string? ticker) =>
+        string.IsNullOrWhiteSpace(ticker) ? null : ticker.Trim().ToUpper();
+
+    // Only costs charged in a currency other than the transaction's keep theirs, so they need a rate
+    private static Currency? CostCurrencyOf(decimal? fees, decimal? taxes, Currency? costCurrency, Currency currency) =>
+        (fees ?? 0) + (taxes ?? 0) > 0 && costCurrency != currency ? costCurrency : null;
+
+    private async Task<Currency> GetHomeCurrencyAsync(int userId)
+    {
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        return user?.HomeCurrency ?? Currency.CAD;
+    }
+
     private async Task InvalidateDashboardCache(int userId)
     {
         var dashboardCacheKey = $"dashboard_user_{userId}";
@@ -212,6 +407,12 @@ public class InvestmentsController : ControllerBase
         
         await _cacheService.RemoveAsync(dashboardCacheKey);
         await _cacheService.RemoveAsync(timelineCacheKey);
+        await _cacheService.RemoveByPatternAsync(PortfolioValuationService.CacheKeyPattern(userId));
+
+        foreach (var cacheKey in InvestmentReturnService.CacheKeys(userId))
+        {
+            await _cacheService.RemoveAsync(cacheKey);
+        }
     }
 
     [HttpPut("{id}/test")]
@@ -245,15 +446,51 @@ public class InvestmentsController : ControllerBase
                 return NotFound();
             }
 
+            if (updateRequest.Indexer.HasValue && !updateRequest.IndexerRate.HasValue)
+            {
+                return BadRequest("Indexed investments need a rate");
+            }
+
+            if (updateRequest.Value <= 0 || updateRequest.Quantity <= 0)
+            {
+                return BadRequest("Value and quantity must be greater than zero");
+            }
+
+            // The stored rate belongs to the old date or currency
+            var newDate = updateRequest.Date.Kind == DateTimeKind.Unspecified ? DateTime.SpecifyKind(updateRequest.Date, DateTimeKind.Utc) : updateRequest.Date;
+            if (existingInvestment.Date.Date != newDate.Date || existingInvestment.Currency != updateRequest.Currency)
+            {
+                existingInvestment.FxRate = null;
+            }
+
+            var costCurrency = CostCurrencyOf(updateRequest.Fees, updateRequest.Taxes, updateRequest.CostCurrency, updateRequest.Currency);
+            if (existingInvestment.Date.Date != newDate.Date || existingInvestment.Currency != updateRequest.Currency ||
+                existingInvestment.CostCurrency != costCurrency)
+            {
+                existingInvestment.CostFxRate = null;
+            }
+
             // Update only the fields from the request
             existingInvestment.Name = updateRequest.Name;
             existingInvestment.Value = updateRequest.Value;
             existingInvestment.Quantity = updateRequest.Quantity;
             existingInvestment.Currency = updateRequest.Currency;
-            existingInvestment.Date = updateRequest.Date.Kind == DateTimeKind.Unspecified ? DateTime.SpecifyKind(updateRequest.Date, DateTimeKind.Utc) : updateRequest.Date;
+            existingInvestment.Date = newDate;
             existingInvestment.Description = updateRequest.Description;
             existingInvestment.Category = updateRequest.Category;
+            existingInvestment.Type = updateRequest.Type;
             existingInvestment.AccountId = updateRequest.AccountId;
+            existingInvestment.Ticker = NormalizeTicker(updateRequest.Ticker);
+            existingInvestment.Exchange = updateRequest.Exchange ?? ExchangeRegistry.InferFromSymbol(existingInvestment.Ticker ?? updateRequest.Name);
+            existingInvestment.ExposureCountry = string.IsNullOrWhiteSpace(updateRequest.ExposureCountry) ? null : updateRequest.ExposureCountry.Trim();
+            existingInvestment.Indexer = updateRequest.Indexer;
+            existingInvestment.IndexerRate = updateRequest.Indexer.HasValue ? updateRequest.IndexerRate : null;
+            existingInvestment.MaturityDate = updateRequest.Indexer.HasValue ? updateRequest.MaturityDate : null;
+            existingInvestment.IsTaxExempt = updateRequest.IsTaxExempt;
+            existingInvestment.Fees = updateRequest.Fees;
+            existingInvestment.Taxes = updateRequest.Taxes;
+            existingInvestment.CostCurrency = costCurrency;
+            await _currencyService.FillTransactionRatesAsync(new[] { existingInvestment }, await GetHomeCurrencyAsync(userId));
 
             await _context.SaveChangesAsync();
             
@@ -311,6 +548,14 @@ public class InvestmentsController : ControllerBase
             .ThenBy(a => a.Name)
             .ToListAsync();
 
+        var goals = await _context.Goals
+            .Where(g => g.UserId == userId)
+            .ToListAsync();
+
+        var costBasisMethod = await GetCostBasisMethodAsync(userId);
+        // Corporate actions restate the lots later sales close and add the cost of bonus shares
+        var corporateActions = await _corporateActionService.GetActionsAsync(investments, DateOnly.FromDateTime(DateTime.UtcNow));
+
         // Create timeline data points based on investment dates
         var timelinePoints = new List<TimelinePoint>();
         
@@ -321,50 +566,29 @@ public class InvestmentsController : ControllerBase
             .OrderBy(d => d)
             .ToList();
 
-        // Calculate cumulative portfolio value at each date
+        // Calculate the net cost basis of open positions at each date
         foreach (var date in investmentDates)
         {
-            var investmentsUpToDate = investments
-                .Where(i => i.Date.Date <= date)
-                .ToList();
+            var positionsAtDate = _ledgerService.BuildPositions(investments.Where(i => i.Date.Date <= date), costBasisMethod, corporateActions);
 
-            var totalValue = investmentsUpToDate.Sum(i => i.Total);
-            
             timelinePoints.Add(new TimelinePoint
             {
                 Date = date,
-                TotalValue = totalValue,
-                BrlValue = investmentsUpToDate.Where(i => i.Currency == Currency.BRL).Sum(i => i.Total),
-                CadValue = investmentsUpToDate.Where(i => i.Currency == Currency.CAD).Sum(i => i.Total)
+                TotalValue = positionsAtDate.Sum(p => p.CostBasis),
+                Values = positionsAtDate
+                    .GroupBy(p => p.Currency)
+                    .ToDictionary(g => g.Key.ToString(), g => g.Sum(p => p.CostBasis))
             });
         }
 
-        // Create goal markers for visualization
-        var goalMarkers = new List<GoalMarker>();
-        var currentYear = DateTime.Now.Year;
-        
-        foreach (var account in allAccounts)
-        {
-            var currency = GetAccountCurrency(account);
-            if (account.Goal1.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 1, Value = account.Goal1.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 1" });
-            if (account.Goal2.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 2, Value = account.Goal2.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 2" });
-            if (account.Goal3.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 3, Value = account.Goal3.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 3" });
-            if (account.Goal4.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 4, Value = account.Goal4.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 4" });
-            if (account.Goal5.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 5, Value = account.Goal5.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 5" });
-        }
+        var goalMarkers = GoalService.BuildGoalMarkers(goals, allAccounts);
 
         var timelineData = new InvestmentTimelineData
         {
             TimelinePoints = timelinePoints,
             GoalMarkers = goalMarkers,
             CurrentTotalValue = timelinePoints.LastOrDefault()?.TotalValue ?? 0,
-            CurrentBrlValue = timelinePoints.LastOrDefault()?.BrlValue ?? 0,
-            CurrentCadValue = timelinePoints.LastOrDefault()?.CadValue ?? 0
+            CurrentValues = timelinePoints.LastOrDefault()?.Values ?? new Dictionary<string, decimal>()
         };
 
         // Cache the result for 1 hour
@@ -373,16 +597,76 @@ public class InvestmentsController : ControllerBase
         return timelineData;
     }
 
-    private string GetAccountCurrency(Account account)
+    [HttpGet("portfolio/valuation")]
+    public async Task<ActionResult<ValuationTimelineData>> GetValuationTimeline(
+        [FromQuery] TimelineResolution resolution = TimelineResolution.Weekly,
+        [FromQuery] Currency currency = Currency.CAD,
+        [FromQuery] int? accountId = null,
+        [FromQuery] string? benchmark = null)
     {
-        // Determine account currency based on its investments
-        var accountInvestments = _context.Investments.Where(i => i.AccountId == account.Id).ToList();
-        if (!accountInvestments.Any()) return "CAD"; // Default
-        
-        var brlCount = accountInvestments.Count(i => i.Currency == Currency.BRL);
-        var cadCount = accountInvestments.Count(i => i.Currency == Currency.CAD);
-        
-        return brlCount > cadCount ? "BRL" : "CAD";
+        var userId = User.GetUserId();
+        var benchmarkSymbol = string.IsNullOrWhiteSpace(benchmark) ? null : benchmark.Trim().ToUpper();
+        var cacheKey = PortfolioValuationService.CacheKey(userId, resolution, currency, accountId, benchmarkSymbol);
+
+        var cachedData = await _cacheService.GetAsync<ValuationTimelineData>(cacheKey);
+        if (cachedData != null)
+        {
+            return Ok(cachedData);
+        }
+
+        var query = _context.Investments
+            .Include(i => i.Account)
+            .Where(i => i.UserId == userId);
+
+        if (accountId.HasValue)
+        {
+            if (!await _context.Accounts.AnyAsync(a => a.Id == accountId.Value && a.UserId == userId))
+            {
+                return NotFound($"Account with ID {accountId} not found");
+            }
+
+            query = query.Where(i => i.AccountId == accountId.Value);
+        }
+
+        var investments = await query.ToListAsync();
+
+        var costBasisMethod = await GetCostBasisMethodAsync(userId);
+        var valuationData = await _valuationService.GetValuationTimelineAsync(investments, resolution, currency, costBasisMethod, benchmarkSymbol);
+
+        // Cache the result for 1 hour
+        await _cacheService.SetAsync(cacheKey, valuationData, TimeSpan.FromHours(1));
+
+        return valuationData;
+    }
+
+    [HttpGet("portfolio/returns")]
+    public async Task<ActionResult<PortfolioReturns>> GetPortfolioReturns([FromQuery] Currency currency = Currency.CAD)
+    {
+        var userId = User.GetUserId();
+        var cacheKey = InvestmentReturnService.CacheKey(userId, currency);
+
+        var cachedData = await _cacheService.GetAsync<PortfolioReturns>(cacheKey);
+        if (cachedData != null)
+        {
+            return Ok(cachedData);
+        }
+
+        var investments = await _context.Investments
+            .Include(i => i.Account)
+            .Where(i => i.UserId == userId)
+            .ToListAsync();
+
+        var costBasisMethod = await GetCostBasisMethodAsync(userId);
+        var portfolioReturns = new PortfolioReturns
+        {
+            Currency = currency.ToString(),
+            Returns = await _returnService.CalculateReturnsAsync(investments, currency, costBasisMethod)
+        };
+
+        // Cache the result for 1 hour
+        await _cacheService.SetAsync(cacheKey, portfolioReturns, TimeSpan.FromHours(1));
+
+        return portfolioReturns;
     }
 
     [HttpGet("account/{accountId}/performance")]
@@ -408,7 +692,7 @@ public class InvestmentsController : ControllerBase
     {
         try
         {
-            var performances = await _performanceService.CalculateAllAccountsPerformanceAsync();
+            var performances = await _performanceService.CalculateAllAccountsPerformanceAsync(User.GetUserId());
             return Ok(performances);
         }
         catch (Exception ex)
@@ -417,7 +701,7 @@ public class InvestmentsController : ControllerBase
         }
     }
 
-    private async Task<InvestmentTimelineData> GenerateTimelineData(List<Investment> investments, List<Account> allAccounts)
+    private InvestmentTimelineData GenerateTimelineData(List<Investment> investments, List<Account> allAccounts, List<Goal> goals, CostBasisMethod costBasisMethod, List<CorporateAction> corporateActions)
     {
         // Create timeline data points based on investment dates
         var timelinePoints = new List<TimelinePoint>();
@@ -429,50 +713,29 @@ public class InvestmentsController : ControllerBase
             .OrderBy(d => d)
             .ToList();
 
-        // Calculate cumulative portfolio value at each date
+        // Calculate the net cost basis of open positions at each date
         foreach (var date in investmentDates)
         {
-            var investmentsUpToDate = investments
-                .Where(i => i.Date.Date <= date)
-                .ToList();
+            var positionsAtDate = _ledgerService.BuildPositions(investments.Where(i => i.Date.Date <= date), costBasisMethod, corporateActions);
 
-            var totalValue = investmentsUpToDate.Sum(i => i.Total);
-            
             timelinePoints.Add(new TimelinePoint
             {
                 Date = date,
-                TotalValue = totalValue,
-                BrlValue = investmentsUpToDate.Where(i => i.Currency == Currency.BRL).Sum(i => i.Total),
-                CadValue = investmentsUpToDate.Where(i => i.Currency == Currency.CAD).Sum(i => i.Total)
+                TotalValue = positionsAtDate.Sum(p => p.CostBasis),
+                Values = positionsAtDate
+                    .GroupBy(p => p.Currency)
+                    .ToDictionary(g => g.Key.ToString(), g => g.Sum(p => p.CostBasis))
             });
         }
 
-        // Create goal markers for visualization
-        var goalMarkers = new List<GoalMarker>();
-        var currentYear = DateTime.Now.Year;
-        
-        foreach (var account in allAccounts)
-        {
-            var currency = GetAccountCurrency(account);
-            if (account.Goal1.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 1, Value = account.Goal1.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 1" });
-            if (account.Goal2.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 2, Value = account.Goal2.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 2" });
-            if (account.Goal3.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 3, Value = account.Goal3.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 3" });
-            if (account.Goal4.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 4, Value = account.Goal4.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 4" });
-            if (account.Goal5.HasValue)
-                goalMarkers.Add(new GoalMarker { Year = currentYear + 5, Value = account.Goal5.Value, Currency = currency, AccountName = account.Name, Label = $"{account.Name} Year 5" });
-        }
+        var goalMarkers = GoalService.BuildGoalMarkers(goals, allAccounts);
 
         return new InvestmentTimelineData
         {
             TimelinePoints = timelinePoints,
             GoalMarkers = goalMarkers,
             CurrentTotalValue = timelinePoints.LastOrDefault()?.TotalValue ?? 0,
-            CurrentBrlValue = timelinePoints.LastOrDefault()?.BrlValue ?? 0,
-            CurrentCadValue = timelinePoints.LastOrDefault()?.CadValue ?? 0
+            CurrentValues = timelinePoints.LastOrDefault()?.Values ?? new Dictionary<string, decimal>()
         };
     }
 
@@ -491,9 +754,24 @@ public class DashboardData
     public object AssetsByCountry { get; set; } = new();
     public List<AssetByCategory> AssetsByCategory { get; set; } = new();
     public List<AccountGoalProgress> AccountGoals { get; set; } = new();
+    public List<GoalProgress> PortfolioGoals { get; set; } = new();
+    public List<MonthlyIncome> MonthlyIncome { get; set; } = new();
     public InvestmentTimelineData? TimelineData { get; set; }
 }
 
+public class PortfolioReturns
+{
+    public string Currency { get; set; } = string.Empty;
+    public List<PeriodReturn> Returns { get; set; } = new();
+}
+
+public class MonthlyIncome
+{
+    public DateTime Month { get; set; }
+    public string Currency { get; set; } = string.Empty;
+    public decimal Amount { get; set; }
+}
+
 public class GroupedInvestment
 {
     public string Category { get; set; } = string.Empty;
@@ -504,6 +782,11 @@ public class GroupedInvestment
     public decimal Total { get; set; }
     public string Currency { get; set; } = string.Empty;
     public string Country { get; set; } = string.Empty;
+    public decimal RealizedGain { get; set; }
+    public decimal Income { get; set; }
+    public decimal TrailingIncome { get; set; }
+    public decimal YieldOnCost { get; set; }
+    public decimal Fees { get; set; }
 }
 
 public class AssetByCategory
@@ -520,16 +803,6 @@ public class AccountGoalProgress
     public string AccountName { get; set; } = string.Empty;
     public decimal CurrentValue { get; set; }
     public string Currency { get; set; } = string.Empty;
-    public GoalValues Goals { get; set; } = new();
+    public List<GoalProgress> Goals { get; set; } = new();
     public AccountPerformance? Performance { get; set; }
 }
-
-public class GoalValues
-{
-    public decimal? Year1 { get; set; }
-    public decimal? Year2 { get; set; }
-    public decimal? Year3 { get; set; }
-    public decimal? Year4 { get; set; }
-    public decimal? Year5 { get; set; }
-}
-
@@ -0,0 +1,65 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class PlannerController : ControllerBase
+{
+    private readonly InvestmentContext _context;
+    private readonly IPlannerService _plannerService;
+
+    public PlannerController(InvestmentContext context, IPlannerService plannerService)
+    {
+        _context = context;
+        _plannerService = plannerService;
+    }
+
+    // Starting value and historical return and volatility per category, used as the simulation defaults
+    [HttpGet("assumptions")]
+    public async Task<ActionResult<PlannerAssumptions>> GetAssumptions([FromQuery] Currency currency = Currency.CAD)
+    {
+        var userId = User.GetUserId();
+        var investments = await _context.Investments
+            .Include(i => i.Account)
+            .Where(i => i.UserId == userId)
+            .ToListAsync();
+
+        return await _plannerService.GetAssumptionsAsync(investments, currency, await GetCostBasisMethodAsync(userId));
+    }
+
+    [HttpPost("simulate")]
+    public async Task<ActionResult<PlannerSimulation>> Simulate([FromBody] PlannerSimulationRequest request)
+    {
+        if (request.WithdrawalStartYear > request.Years)
+        {
+            return BadRequest("Withdrawals must start within the time horizon");
+        }
+
+        var userId = User.GetUserId();
+        var investments = await _context.Investments
+            .Include(i => i.Account)
+            .Where(i => i.UserId == userId)
+            .ToListAsync();
+        var accounts = await _context.Accounts
+            .Where(a => a.UserId == userId)
+            .ToListAsync();
+        var goals = await _context.Goals
+            .Where(g => g.UserId == userId)
+            .ToListAsync();
+
+        return await _plannerService.SimulateAsync(
+            investments, GoalService.BuildGoalMarkers(goals, accounts), request, await GetCostBasisMethodAsync(userId));
+    }
+
+    private async Task<CostBasisMethod> GetCostBasisMethodAsync(int userId)
+    {
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        return user?.CostBasisMethod ?? CostBasisMethod.AverageCost;
+    }
+}
@@ -0,0 +1,91 @@
+using System.Text;
+using Microsoft.AspNetCore.Mvc;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class StatementsController : ControllerBase
+{
+    private readonly IStatementParserRegistry _parsers;
+    private readonly IStatementImportService _statementImportService;
+    private readonly IOfxExportService _ofxExportService;
+    private readonly ICacheService _cacheService;
+
+    public StatementsController(IStatementParserRegistry parsers, IStatementImportService statementImportService, IOfxExportService ofxExportService, ICacheService cacheService)
+    {
+        _parsers = parsers;
+        _statementImportService = statementImportService;
+        _ofxExportService = ofxExportService;
+        _cacheService = cacheService;
+    }
+
+    [HttpGet("parsers")]
+    public ActionResult<IEnumerable<StatementParserInfo>> GetParsers()
+    {
+        return Ok(_parsers.All);
+    }
+
+    [HttpPost("import")]
+    public async Task<ActionResult<StatementImportResult>> ImportStatement([FromBody] StatementImportRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Content))
+        {
+            return BadRequest("The statement is empty");
+        }
+
+        try
+        {
+            var userId = User.GetUserId();
+            if (request.DryRun)
+            {
+                return Ok(await _statementImportService.PreviewAsync(userId, request));
+            }
+
+            var result = await _statementImportService.ImportAsync(userId, request);
+            if (result.InvalidRows > 0)
+            {
+                return BadRequest(result);
+            }
+
+            if (result.ImportedCount > 0)
+            {
+                await InvalidateDashboardCache(userId);
+            }
+
+            return Ok(result);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(ex.Message);
+        }
+    }
+
+    [HttpGet("ofx/{accountId}")]
+    public async Task<IActionResult> ExportOfx(int accountId)
+    {
+        var userId = User.GetUserId();
+        var ofx = await _ofxExportService.ExportAccountAsync(userId, accountId);
+        if (ofx == null)
+        {
+            return NotFound();
+        }
+
+        return File(Encoding.UTF8.GetBytes(ofx), "application/x-ofx", $"account-{accountId}.ofx");
+    }
+
+    private async Task InvalidateDashboardCache(int userId)
+    {
+        await _cacheService.RemoveAsync($"dashboard_user_{userId}");
+        await _cacheService.RemoveAsync($"timeline_user_{userId}");
+        await _cacheService.RemoveByPatternAsync(PortfolioValuationService.CacheKeyPattern(userId));
+
+        foreach (var cacheKey in InvestmentReturnService.CacheKeys(userId))
+        {
+            await _cacheService.RemoveAsync(cacheKey);
+        }
+    }
+}
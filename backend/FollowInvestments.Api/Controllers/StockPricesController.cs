@@ -154,6 +154,26 @@ public class StockPricesController : ControllerBase
         }
     }
 
+    // Symbol search for autocomplete, matched by ticker or company name
+    [HttpGet("lookup")]
+    public async Task<ActionResult<List<SymbolSearchResult>>> LookupSymbols([FromQuery] string query)
+    {
+        if (string.IsNullOrWhiteSpace(query))
+        {
+            return BadRequest("Query is required");
+        }
+
+        try
+        {
+            return Ok(await _yahooFinanceService.SearchSymbolsAsync(query.Trim()));
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogError(ex, "Error looking up symbols for query: {Query}", query);
+            return StatusCode(502, "Symbol lookup is unavailable");
+        }
+    }
+
     private async Task<List<StockPrice>> GetStockPricesFromDatabase(string symbol, DateOnly startDate, DateOnly endDate)
     {
         return await _context.StockPrices
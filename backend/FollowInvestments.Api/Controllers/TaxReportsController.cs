@@ -0,0 +1,80 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class TaxReportsController : ControllerBase
+{
+    private readonly InvestmentContext _context;
+    private readonly ITaxReportService _taxReportService;
+    private readonly ILogger<TaxReportsController> _logger;
+
+    public TaxReportsController(InvestmentContext context, ITaxReportService taxReportService, ILogger<TaxReportsController> logger)
+    {
+        _context = context;
+        _taxReportService = taxReportService;
+        _logger = logger;
+    }
+
+    // Tax years with transactions, newest first
+    [HttpGet("years")]
+    public async Task<ActionResult<List<int>>> GetYears()
+    {
+        var userId = User.GetUserId();
+        return await _context.Investments
+            .Where(i => i.UserId == userId)
+            .Select(i => i.Date.Year)
+            .Distinct()
+            .OrderByDescending(y => y)
+            .ToListAsync();
+    }
+
+    [HttpGet("brazil/gains")]
+    public async Task<ActionResult<BrazilGainsReport>> GetBrazilGains([FromQuery] int year)
+    {
+        return _taxReportService.GetBrazilGains(await LoadInvestmentsAsync(), year);
+    }
+
+    [HttpGet("brazil/assets")]
+    public async Task<ActionResult<BrazilAssetsReport>> GetBrazilAssets([FromQuery] int year)
+    {
+        try
+        {
+            return await _taxReportService.GetBrazilAssetsAsync(await LoadInvestmentsAsync(), year);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Could not build the {Year} Bens e Direitos report", year);
+            return StatusCode(502, ex.Message);
+        }
+    }
+
+    [HttpGet("canada/acb")]
+    public async Task<ActionResult<AcbReport>> GetAcbReport([FromQuery] int year)
+    {
+        try
+        {
+            return await _taxReportService.GetAcbReportAsync(await LoadInvestmentsAsync(), year);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Could not build the {Year} ACB report", year);
+            return StatusCode(502, ex.Message);
+        }
+    }
+
+    private async Task<List<Investment>> LoadInvestmentsAsync()
+    {
+        var userId = User.GetUserId();
+        return await _context.Investments
+            .Include(i => i.Account)
+            .Where(i => i.UserId == userId)
+            .ToListAsync();
+    }
+}
@@ -0,0 +1,140 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.EntityFrameworkCore;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using FollowInvestments.Api.Services;
+using FollowInvestments.Api.Extensions;
+
+namespace FollowInvestments.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class ValuationsController : ControllerBase
+{
+    private readonly InvestmentContext _context;
+    private readonly ICacheService _cacheService;
+
+    public ValuationsController(InvestmentContext context, ICacheService cacheService)
+    {
+        _context = context;
+        _cacheService = cacheService;
+    }
+
+    [HttpGet]
+    public async Task<ActionResult<IEnumerable<ManualValuation>>> GetValuations([FromQuery] int? accountId = null)
+    {
+        var userId = User.GetUserId();
+        var query = _context.ManualValuations.Where(v => v.UserId == userId);
+
+        if (accountId.HasValue)
+        {
+            query = query.Where(v => v.AccountId == accountId.Value);
+        }
+
+        return await query
+            .OrderBy(v => v.Name)
+            .ThenByDescending(v => v.Date)
+            .ToListAsync();
+    }
+
+    [HttpGet("{id}")]
+    public async Task<ActionResult<ManualValuation>> GetValuation(int id)
+    {
+        var userId = User.GetUserId();
+        var valuation = await _context.ManualValuations.FirstOrDefaultAsync(v => v.Id == id && v.UserId == userId);
+
+        if (valuation == null)
+        {
+            return NotFound();
+        }
+
+        return valuation;
+    }
+
+    [HttpPost]
+    public async Task<ActionResult<ManualValuation>> PostValuation([FromBody] CreateManualValuationRequest request)
+    {
+        var userId = User.GetUserId();
+        if (!await _context.Accounts.AnyAsync(a => a.Id == request.AccountId && a.UserId == userId))
+        {
+            return BadRequest("Account not found");
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Name))
+        {
+            return BadRequest("Name is required");
+        }
+
+        var valuation = new ManualValuation
+        {
+            UserId = userId,
+            AccountId = request.AccountId,
+            Name = request.Name.Trim(),
+            Currency = request.Currency,
+            Date = request.Date,
+            Value = request.Value,
+            Note = string.IsNullOrWhiteSpace(request.Note) ? null : request.Note.Trim()
+        };
+
+        _context.ManualValuations.Add(valuation);
+        await _context.SaveChangesAsync();
+        await InvalidateDashboardCache(userId);
+
+        return CreatedAtAction(nameof(GetValuation), new { id = valuation.Id }, valuation);
+    }
+
+    [HttpPut("{id}")]
+    public async Task<IActionResult> PutValuation(int id, [FromBody] UpdateManualValuationRequest request)
+    {
+        if (id != request.Id)
+        {
+            return BadRequest("ID mismatch");
+        }
+
+        var userId = User.GetUserId();
+        var valuation = await _context.ManualValuations.FirstOrDefaultAsync(v => v.Id == id && v.UserId == userId);
+        if (valuation == null)
+        {
+            return NotFound();
+        }
+
+        valuation.Date = request.Date;
+        valuation.Value = request.Value;
+        valuation.Note = string.IsNullOrWhiteSpace(request.Note) ? null : request.Note.Trim();
+        valuation.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+        await InvalidateDashboardCache(userId);
+
+        return NoContent();
+    }
+
+    [HttpDelete("{id}")]
+    public async Task<IActionResult> DeleteValuation(int id)
+    {
+        var userId = User.GetUserId();
+        var valuation = await _context.ManualValuations.FirstOrDefaultAsync(v => v.Id == id && v.UserId == userId);
+        if (valuation == null)
+        {
+            return NotFound();
+        }
+
+        _context.ManualValuations.Remove(valuation);
+        await _context.SaveChangesAsync();
+        await InvalidateDashboardCache(userId);
+
+        return NoContent();
+    }
+
+    // Valuations price holdings in the dashboard, the valuation timeline and the returns
+    private async Task InvalidateDashboardCache(int userId)
+    {
+        await _cacheService.RemoveAsync($"dashboard_user_{userId}");
+        await _cacheService.RemoveByPatternAsync(PortfolioValuationService.CacheKeyPattern(userId));
+
+        foreach (var cacheKey in InvestmentReturnService.CacheKeys(userId))
+        {
+            await _cacheService.RemoveAsync(cacheKey);
+        }
+    }
+}
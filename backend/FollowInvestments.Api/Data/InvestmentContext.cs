@@ -13,7 +13,14 @@ public class InvestmentContext : DbContext
     public DbSet<Account> Accounts { get; set; }
     public DbSet<StockPrice> StockPrices { get; set; }
     public DbSet<ExchangeRate> ExchangeRates { get; set; }
+    public DbSet<ExchangeRateHistory> ExchangeRateHistory { get; set; }
     public DbSet<User> Users { get; set; }
+    public DbSet<AllocationTarget> AllocationTargets { get; set; }
+    public DbSet<Goal> Goals { get; set; }
+    public DbSet<ManualValuation> ManualValuations { get; set; }
+    public DbSet<IndexRate> IndexRates { get; set; }
+    public DbSet<ContributionLimit> ContributionLimits { get; set; }
+    public DbSet<CorporateAction> CorporateActions { get; set; }
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -26,13 +33,55 @@ public class InvestmentContext : DbContext
                 
             entity.Property(e => e.Category)
                 .HasConversion<string>();
+
+            entity.Property(e => e.Type)
+                .HasConversion<string>();
+
+            entity.Property(e => e.Exchange)
+                .HasConversion<string>()
+                .HasMaxLength(20);
                 
             entity.Property(e => e.Value)
                 .HasColumnType("decimal(18,2)");
+
+            entity.Property(e => e.FxRate)
+                .HasColumnType("decimal(18,8)");
+
+            entity.Property(e => e.Indexer)
+                .HasConversion<string>()
+                .HasMaxLength(10);
+
+            entity.Property(e => e.IndexerRate)
+                .HasColumnType("decimal(9,4)");
+
+            entity.Property(e => e.MaturityDate)
+                .HasColumnType("date");
+
+            entity.Property(e => e.Fees)
+                .HasColumnType("decimal(18,2)");
+
+            entity.Property(e => e.Taxes)
+                .HasColumnType("decimal(18,2)");
+
+            entity.Property(e => e.CostCurrency)
+                .HasConversion<string>()
+                .HasMaxLength(3);
+
+            entity.Property(e => e.CostFxRate)
+                .HasColumnType("decimal(18,8)");
                 
             entity.Property(e => e.Date)
                 .HasColumnType("timestamp without time zone");
 
+            entity.Property(e => e.ExternalId)
+                .HasMaxLength(100);
+
+            // A statement line is imported once per user; transactions without one are not constrained
+            // because PostgreSQL treats nulls as distinct
+            entity.HasIndex(e => new { e.UserId, e.ExternalId })
+                .IsUnique()
+                .HasDatabaseName("UK_Investments_User_ExternalId");
+
             // Configure relationship with Account
             entity.HasOne(e => e.Account)
                 .WithMany(a => a.Investments)
@@ -53,17 +102,13 @@ public class InvestmentContext : DbContext
             entity.Property(e => e.Name)
                 .IsRequired()
                 .HasMaxLength(100);
-                
-            entity.Property(e => e.Goal1)
-                .HasColumnType("decimal(18,2)");
-            entity.Property(e => e.Goal2)
-                .HasColumnType("decimal(18,2)");
-            entity.Property(e => e.Goal3)
-                .HasColumnType("decimal(18,2)");
-            entity.Property(e => e.Goal4)
-                .HasColumnType("decimal(18,2)");
-            entity.Property(e => e.Goal5)
-                .HasColumnType("decimal(18,2)");
+
+            entity.Property(e => e.ContributionFrequency)
+                .HasConversion<string>();
+
+            entity.Property(e => e.Type)
+                .HasConversion<string>()
+                .HasMaxLength(10);
 
             // Configure relationship with User
             entity.HasOne(e => e.User)
@@ -160,6 +205,260 @@ public class InvestmentContext : DbContext
                 .HasDatabaseName("IDX_ExchangeRates_Lookup");
         });
 
+        modelBuilder.Entity<ExchangeRateHistory>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.FromCurrency)
+                .IsRequired()
+                .HasMaxLength(3);
+
+            entity.Property(e => e.ToCurrency)
+                .IsRequired()
+                .HasMaxLength(3);
+
+            entity.Property(e => e.RateDate)
+                .IsRequired()
+                .HasColumnType("date");
+
+            entity.Property(e => e.Rate)
+                .IsRequired()
+                .HasColumnType("decimal(18,8)");
+
+            entity.Property(e => e.CreatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            // Unique constraint: one rate per currency pair and day
+            entity.HasIndex(e => new { e.FromCurrency, e.ToCurrency, e.RateDate })
+                .IsUnique()
+                .HasDatabaseName("UK_ExchangeRateHistory_Currencies_Date");
+        });
+
+        modelBuilder.Entity<IndexRate>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Indexer)
+                .HasConversion<string>()
+                .HasMaxLength(10);
+
+            entity.Property(e => e.Date)
+                .IsRequired()
+                .HasColumnType("date");
+
+            entity.Property(e => e.Rate)
+                .IsRequired()
+                .HasColumnType("decimal(12,8)");
+
+            entity.Property(e => e.CreatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            // Unique constraint: one rate per index and day
+            entity.HasIndex(e => new { e.Indexer, e.Date })
+                .IsUnique()
+                .HasDatabaseName("UK_IndexRates_Indexer_Date");
+        });
+
+        modelBuilder.Entity<ContributionLimit>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.AccountType)
+                .HasConversion<string>()
+                .HasMaxLength(10);
+
+            entity.Property(e => e.Amount)
+                .HasColumnType("decimal(18,2)");
+
+            entity.Property(e => e.CreatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.Property(e => e.UpdatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.HasOne<User>()
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Unique constraint: one amount per account type and year
+            entity.HasIndex(e => new { e.UserId, e.AccountType, e.Year })
+                .IsUnique()
+                .HasDatabaseName("UK_ContributionLimits_User_Type_Year");
+        });
+
+        modelBuilder.Entity<AllocationTarget>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Dimension)
+                .HasConversion<string>()
+                .HasMaxLength(20);
+
+            entity.Property(e => e.Key)
+                .IsRequired()
+                .HasMaxLength(50);
+
+            entity.Property(e => e.TargetPercentage)
+                .HasColumnType("decimal(5,2)");
+
+            entity.Property(e => e.CreatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.Property(e => e.UpdatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.HasOne<User>()
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Account targets go away with their account
+            entity.HasOne<Account>()
+                .WithMany()
+                .HasForeignKey(e => e.AccountId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.UserId, e.AccountId, e.Dimension })
+                .HasDatabaseName("IDX_AllocationTargets_User_Account_Dimension");
+        });
+
+        modelBuilder.Entity<Goal>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Name)
+                .HasMaxLength(100);
+
+            entity.Property(e => e.TargetDate)
+                .IsRequired()
+                .HasColumnType("date");
+
+            entity.Property(e => e.TargetAmount)
+                .HasColumnType("decimal(18,2)");
+
+            entity.Property(e => e.Currency)
+                .HasConversion<string>()
+                .HasMaxLength(3);
+
+            entity.Property(e => e.CreatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.Property(e => e.UpdatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.HasOne<User>()
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Account goals go away with their account
+            entity.HasOne<Account>()
+                .WithMany()
+                .HasForeignKey(e => e.AccountId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.UserId, e.TargetDate })
+                .HasDatabaseName("IDX_Goals_User_TargetDate");
+        });
+
+        modelBuilder.Entity<CorporateAction>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Type)
+                .HasConversion<string>()
+                .HasMaxLength(20);
+
+            entity.Property(e => e.Date)
+                .IsRequired()
+                .HasColumnType("date");
+
+            entity.Property(e => e.Symbol)
+                .IsRequired()
+                .HasMaxLength(20);
+
+            entity.Property(e => e.NewSymbol)
+                .HasMaxLength(20);
+
+            entity.Property(e => e.RatioFrom)
+                .HasColumnType("decimal(18,8)");
+
+            entity.Property(e => e.RatioTo)
+                .HasColumnType("decimal(18,8)");
+
+            entity.Property(e => e.BonusUnitCost)
+                .HasColumnType("decimal(18,8)");
+
+            entity.Property(e => e.Note)
+                .HasMaxLength(200);
+
+            entity.Property(e => e.CreatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.HasOne<User>()
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.UserId, e.Date })
+                .HasDatabaseName("IDX_CorporateActions_User_Date");
+        });
+
+        modelBuilder.Entity<ManualValuation>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Name)
+                .IsRequired()
+                .HasMaxLength(200);
+
+            entity.Property(e => e.Currency)
+                .HasConversion<string>()
+                .HasMaxLength(3);
+
+            entity.Property(e => e.Date)
+                .IsRequired()
+                .HasColumnType("date");
+
+            entity.Property(e => e.Value)
+                .HasColumnType("decimal(18,2)");
+
+            entity.Property(e => e.Note)
+                .HasMaxLength(200);
+
+            entity.Property(e => e.CreatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.Property(e => e.UpdatedAt)
+                .HasColumnType("timestamp without time zone")
+                .HasDefaultValueSql("CURRENT_TIMESTAMP");
+
+            entity.HasOne<User>()
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Valuations go away with their account
+            entity.HasOne<Account>()
+                .WithMany()
+                .HasForeignKey(e => e.AccountId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.AccountId, e.Date })
+                .HasDatabaseName("IDX_ManualValuations_Account_Date");
+        });
+
         modelBuilder.Entity<User>(entity =>
         {
             entity.HasKey(e => e.Id);
@@ -179,6 +478,12 @@ public class InvestmentContext : DbContext
                 .IsRequired()
                 .HasMaxLength(20)
                 .HasDefaultValue("user");
+
+            entity.Property(e => e.CostBasisMethod)
+                .HasConversion<string>();
+
+            entity.Property(e => e.HomeCurrency)
+                .HasConversion<string>();
                 
             entity.Property(e => e.CreatedAt)
                 .HasColumnType("timestamp without time zone")
@@ -0,0 +1,30 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTransactionType : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            // Existing rows were all implicit purchases
+            migrationBuilder.AddColumn<string>(
+                name: "Type",
+                table: "Investments",
+                type: "text",
+                nullable: false,
+                defaultValue: "Buy");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "Type",
+                table: "Investments");
+        }
+    }
+}
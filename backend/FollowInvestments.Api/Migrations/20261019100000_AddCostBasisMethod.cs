@@ -0,0 +1,29 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCostBasisMethod : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "CostBasisMethod",
+                table: "Users",
+                type: "text",
+                nullable: false,
+                defaultValue: "AverageCost");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CostBasisMethod",
+                table: "Users");
+        }
+    }
+}
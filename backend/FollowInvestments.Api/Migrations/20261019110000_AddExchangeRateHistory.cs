@@ -0,0 +1,46 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddExchangeRateHistory : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "ExchangeRateHistory",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    FromCurrency = table.Column<string>(type: "character varying(3)", maxLength: 3, nullable: false),
+                    ToCurrency = table.Column<string>(type: "character varying(3)", maxLength: 3, nullable: false),
+                    RateDate = table.Column<DateOnly>(type: "date", nullable: false),
+                    Rate = table.Column<decimal>(type: "numeric(18,8)", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp without time zone", nullable: false, defaultValueSql: "CURRENT_TIMESTAMP")
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_ExchangeRateHistory", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "UK_ExchangeRateHistory_Currencies_Date",
+                table: "ExchangeRateHistory",
+                columns: new[] { "FromCurrency", "ToCurrency", "RateDate" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "ExchangeRateHistory");
+        }
+    }
+}
@@ -0,0 +1,167 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddGoals : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "Goals",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    UserId = table.Column<int>(type: "integer", nullable: false),
+                    AccountId = table.Column<int>(type: "integer", nullable: true),
+                    Name = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: true),
+                    TargetDate = table.Column<DateOnly>(type: "date", nullable: false),
+                    TargetAmount = table.Column<decimal>(type: "numeric(18,2)", nullable: false),
+                    Currency = table.Column<string>(type: "character varying(3)", maxLength: 3, nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp without time zone", nullable: false, defaultValueSql: "CURRENT_TIMESTAMP"),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamp without time zone", nullable: false, defaultValueSql: "CURRENT_TIMESTAMP")
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_Goals", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_Goals_Accounts_AccountId",
+                        column: x => x.AccountId,
+                        principalTable: "Accounts",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_Goals_Users_UserId",
+                        column: x => x.UserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Goals_AccountId",
+                table: "Goals",
+                column: "AccountId");
+
+            migrationBuilder.CreateIndex(
+                name: "IDX_Goals_User_TargetDate",
+                table: "Goals",
+                columns: new[] { "UserId", "TargetDate" });
+
+            // The dashboard showed GoalN as the goal for the end of 2024 + N, so that is the date each one keeps.
+            // The currency is the one most of the account's transactions are in, CAD for an account without any.
+            migrationBuilder.Sql(@"
+                INSERT INTO ""Goals"" (""UserId"", ""AccountId"", ""TargetDate"", ""TargetAmount"", ""Currency"")
+                SELECT a.""UserId"", a.""Id"", make_date(2024 + g.n, 12, 31), g.amount,
+                    COALESCE((
+                        SELECT i.""Currency"" FROM ""Investments"" i
+                        WHERE i.""AccountId"" = a.""Id""
+                        GROUP BY i.""Currency""
+                        ORDER BY COUNT(*) DESC, i.""Currency""
+                        LIMIT 1), 'CAD')
+                FROM ""Accounts"" a
+                CROSS JOIN LATERAL (VALUES (1, a.""Goal1""), (2, a.""Goal2""), (3, a.""Goal3""), (4, a.""Goal4""), (5, a.""Goal5"")) AS g(n, amount)
+                WHERE g.amount IS NOT NULL AND g.amount > 0;
+            ");
+
+            migrationBuilder.DropColumn(
+                name: "Goal1",
+                table: "Accounts");
+
+            migrationBuilder.DropColumn(
+                name: "Goal2",
+                table: "Accounts");
+
+            migrationBuilder.DropColumn(
+                name: "Goal3",
+                table: "Accounts");
+
+            migrationBuilder.DropColumn(
+                name: "Goal4",
+                table: "Accounts");
+
+            migrationBuilder.DropColumn(
+                name: "Goal5",
+                table: "Accounts");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<decimal>(
+                name: "Goal1",
+                table: "Accounts",
+                type: "numeric(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "Goal2",
+                table: "Accounts",
+                type: "numeric(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "Goal3",
+                table: "Accounts",
+                type: "numeric(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "Goal4",
+                table: "Accounts",
+                type: "numeric(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "Goal5",
+                table: "Accounts",
+                type: "numeric(18,2)",
+                nullable: true);
+
+            // Only account goals due at the end of 2025 to 2029 fit back into the five columns
+            migrationBuilder.Sql(@"
+                UPDATE ""Accounts"" a
+                SET ""Goal1"" = g.""TargetAmount""
+                FROM ""Goals"" g
+                WHERE g.""AccountId"" = a.""Id"" AND EXTRACT(YEAR FROM g.""TargetDate"") = 2025;
+            ");
+
+            migrationBuilder.Sql(@"
+                UPDATE ""Accounts"" a
+                SET ""Goal2"" = g.""TargetAmount""
+                FROM ""Goals"" g
+                WHERE g.""AccountId"" = a.""Id"" AND EXTRACT(YEAR FROM g.""TargetDate"") = 2026;
+            ");
+
+            migrationBuilder.Sql(@"
+                UPDATE ""Accounts"" a
+                SET ""Goal3"" = g.""TargetAmount""
+                FROM ""Goals"" g
+                WHERE g.""AccountId"" = a.""Id"" AND EXTRACT(YEAR FROM g.""TargetDate"") = 2027;
+            ");
+
+            migrationBuilder.Sql(@"
+                UPDATE ""Accounts"" a
+                SET ""Goal4"" = g.""TargetAmount""
+                FROM ""Goals"" g
+                WHERE g.""AccountId"" = a.""Id"" AND EXTRACT(YEAR FROM g.""TargetDate"") = 2028;
+            ");
+
+            migrationBuilder.Sql(@"
+                UPDATE ""Accounts"" a
+                SET ""Goal5"" = g.""TargetAmount""
+                FROM ""Goals"" g
+                WHERE g.""AccountId"" = a.""Id"" AND EXTRACT(YEAR FROM g.""TargetDate"") = 2029;
+            ");
+
+            migrationBuilder.DropTable(
+                name: "Goals");
+        }
+    }
+}
@@ -0,0 +1,49 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddContributionPlans : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<decimal>(
+                name: "ContributionAmount",
+                table: "Accounts",
+                type: "numeric(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ContributionFrequency",
+                table: "Accounts",
+                type: "text",
+                nullable: false,
+                defaultValue: "Monthly");
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "ExpectedAnnualReturn",
+                table: "Accounts",
+                type: "numeric(5,2)",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "ContributionAmount",
+                table: "Accounts");
+
+            migrationBuilder.DropColumn(
+                name: "ContributionFrequency",
+                table: "Accounts");
+
+            migrationBuilder.DropColumn(
+                name: "ExpectedAnnualReturn",
+                table: "Accounts");
+        }
+    }
+}
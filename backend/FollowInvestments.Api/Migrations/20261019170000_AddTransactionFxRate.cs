@@ -0,0 +1,39 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTransactionFxRate : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<decimal>(
+                name: "FxRate",
+                table: "Investments",
+                type: "numeric(18,8)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "HomeCurrency",
+                table: "Users",
+                type: "text",
+                nullable: false,
+                defaultValue: "CAD");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "FxRate",
+                table: "Investments");
+
+            migrationBuilder.DropColumn(
+                name: "HomeCurrency",
+                table: "Users");
+        }
+    }
+}
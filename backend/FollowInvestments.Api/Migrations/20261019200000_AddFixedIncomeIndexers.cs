@@ -0,0 +1,87 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddFixedIncomeIndexers : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Indexer",
+                table: "Investments",
+                type: "character varying(10)",
+                maxLength: 10,
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "IndexerRate",
+                table: "Investments",
+                type: "numeric(9,4)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "IsTaxExempt",
+                table: "Investments",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<DateOnly>(
+                name: "MaturityDate",
+                table: "Investments",
+                type: "date",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "IndexRates",
+                columns: table => new
+                {
+                    Id = table.Column<long>(type: "bigint", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    Indexer = table.Column<string>(type: "character varying(10)", maxLength: 10, nullable: false),
+                    Date = table.Column<DateOnly>(type: "date", nullable: false),
+                    Rate = table.Column<decimal>(type: "numeric(12,8)", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp without time zone", nullable: false, defaultValueSql: "CURRENT_TIMESTAMP")
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_IndexRates", x => x.Id);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "UK_IndexRates_Indexer_Date",
+                table: "IndexRates",
+                columns: new[] { "Indexer", "Date" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "IndexRates");
+
+            migrationBuilder.DropColumn(
+                name: "Indexer",
+                table: "Investments");
+
+            migrationBuilder.DropColumn(
+                name: "IndexerRate",
+                table: "Investments");
+
+            migrationBuilder.DropColumn(
+                name: "IsTaxExempt",
+                table: "Investments");
+
+            migrationBuilder.DropColumn(
+                name: "MaturityDate",
+                table: "Investments");
+        }
+    }
+}
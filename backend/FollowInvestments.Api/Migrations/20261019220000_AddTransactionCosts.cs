@@ -0,0 +1,59 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTransactionCosts : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "CostCurrency",
+                table: "Investments",
+                type: "character varying(3)",
+                maxLength: 3,
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "CostFxRate",
+                table: "Investments",
+                type: "numeric(18,8)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "Fees",
+                table: "Investments",
+                type: "numeric(18,2)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "Taxes",
+                table: "Investments",
+                type: "numeric(18,2)",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CostCurrency",
+                table: "Investments");
+
+            migrationBuilder.DropColumn(
+                name: "CostFxRate",
+                table: "Investments");
+
+            migrationBuilder.DropColumn(
+                name: "Fees",
+                table: "Investments");
+
+            migrationBuilder.DropColumn(
+                name: "Taxes",
+                table: "Investments");
+        }
+    }
+}
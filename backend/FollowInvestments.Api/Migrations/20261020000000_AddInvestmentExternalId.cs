@@ -0,0 +1,48 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace FollowInvestments.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddInvestmentExternalId : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_Investments_UserId",
+                table: "Investments");
+
+            migrationBuilder.AddColumn<string>(
+                name: "ExternalId",
+                table: "Investments",
+                type: "character varying(100)",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "UK_Investments_User_ExternalId",
+                table: "Investments",
+                columns: new[] { "UserId", "ExternalId" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "UK_Investments_User_ExternalId",
+                table: "Investments");
+
+            migrationBuilder.DropColumn(
+                name: "ExternalId",
+                table: "Investments");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Investments_UserId",
+                table: "Investments",
+                column: "UserId");
+        }
+    }
+}
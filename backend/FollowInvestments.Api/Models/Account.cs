@@ -13,22 +13,28 @@ public class Account
     [MaxLength(100)]
     public string Name { get; set; } = string.Empty;
 
-    [Column(TypeName = "decimal(18,2)")]
-    public decimal? Goal1 { get; set; }
+    public int SortOrder { get; set; } = 0;
 
-    [Column(TypeName = "decimal(18,2)")]
-    public decimal? Goal2 { get; set; }
+    // Tax wrapper of the account; registered accounts track contribution room and stay out of capital gains reports
+    public AccountType Type { get; set; } = AccountType.Regular;
 
-    [Column(TypeName = "decimal(18,2)")]
-    public decimal? Goal3 { get; set; }
+    // Index the account is compared against, e.g. "^BVSP" or "^GSPTSE"
+    [MaxLength(20)]
+    public string? BenchmarkSymbol { get; set; }
 
+    // Recurring contribution plan used to project goals, in the account currency
     [Column(TypeName = "decimal(18,2)")]
-    public decimal? Goal4 { get; set; }
+    public decimal? ContributionAmount { get; set; }
 
-    [Column(TypeName = "decimal(18,2)")]
-    public decimal? Goal5 { get; set; }
+    public ContributionFrequency ContributionFrequency { get; set; } = ContributionFrequency.Monthly;
 
-    public int SortOrder { get; set; } = 0;
+    // Assumed annual return in percent, when unset goals are projected with the account's historical return
+    [Column(TypeName = "decimal(5,2)")]
+    public decimal? ExpectedAnnualReturn { get; set; }
+
+    // Cash transactions form a balance that buys and fees draw from and sales and dividends add to; when off
+    // they are a holding of their own, so accounts created before cash tracking keep their values
+    public bool TracksCash { get; set; }
 
     // Foreign key to User
     [Required]
@@ -45,12 +51,22 @@ public class CreateAccountRequest
     [MaxLength(100)]
     public string Name { get; set; } = string.Empty;
 
-    public decimal? Goal1 { get; set; }
-    public decimal? Goal2 { get; set; }
-    public decimal? Goal3 { get; set; }
-    public decimal? Goal4 { get; set; }
-    public decimal? Goal5 { get; set; }
     public int SortOrder { get; set; } = 0;
+
+    public AccountType Type { get; set; } = AccountType.Regular;
+
+    [MaxLength(20)]
+    public string? BenchmarkSymbol { get; set; }
+
+    [Range(0, double.MaxValue)]
+    public decimal? ContributionAmount { get; set; }
+
+    public ContributionFrequency ContributionFrequency { get; set; } = ContributionFrequency.Monthly;
+
+    [Range(-100, 100)]
+    public decimal? ExpectedAnnualReturn { get; set; }
+
+    public bool TracksCash { get; set; }
 }
 
 public class UpdateAccountRequest
@@ -62,10 +78,39 @@ public class UpdateAccountRequest
     [MaxLength(100)]
     public string Name { get; set; } = string.Empty;
 
-    public decimal? Goal1 { get; set; }
-    public decimal? Goal2 { get; set; }
-    public decimal? Goal3 { get; set; }
-    public decimal? Goal4 { get; set; }
-    public decimal? Goal5 { get; set; }
     public int SortOrder { get; set; } = 0;
-}
\ No newline at end of file
+
+    public AccountType Type { get; set; } = AccountType.Regular;
+
+    [MaxLength(20)]
+    public string? BenchmarkSymbol { get; set; }
+
+    [Range(0, double.MaxValue)]
+    public decimal? ContributionAmount { get; set; }
+
+    public ContributionFrequency ContributionFrequency { get; set; } = ContributionFrequency.Monthly;
+
+    [Range(-100, 100)]
+    public decimal? ExpectedAnnualReturn { get; set; }
+
+    public bool TracksCash { get; set; }
+}
+public enum ContributionFrequency
+{
+    Weekly,
+    Biweekly,
+    Monthly,
+    Quarterly,
+    Yearly
+}
+
+// Regular is a non-registered account in Canada and a common brokerage account in Brazil
+public enum AccountType
+{
+    Regular,
+    Tfsa,
+    Rrsp,
+    Fhsa,
+    Pgbl,
+    Vgbl
+}
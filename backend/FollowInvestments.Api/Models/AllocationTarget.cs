@@ -0,0 +1,58 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace FollowInvestments.Api.Models;
+
+// Desired share of one category, country or currency, for the whole portfolio or a single account
+public class AllocationTarget
+{
+    [Key]
+    public int Id { get; set; }
+
+    [Required]
+    public int UserId { get; set; }
+
+    // Null for portfolio-level targets
+    public int? AccountId { get; set; }
+
+    [Required]
+    public AllocationDimension Dimension { get; set; }
+
+    // Category name, country or currency code depending on the dimension
+    [Required]
+    [MaxLength(50)]
+    public string Key { get; set; } = string.Empty;
+
+    [Column(TypeName = "decimal(5,2)")]
+    public decimal TargetPercentage { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public enum AllocationDimension
+{
+    Category,
+    Country,
+    Currency
+}
+
+public class SaveAllocationTargetsRequest
+{
+    public int? AccountId { get; set; }
+
+    [Required]
+    public AllocationDimension Dimension { get; set; }
+
+    public List<AllocationTargetItem> Targets { get; set; } = new();
+}
+
+public class AllocationTargetItem
+{
+    [Required]
+    [MaxLength(50)]
+    public string Key { get; set; } = string.Empty;
+
+    [Range(0, 100)]
+    public decimal TargetPercentage { get; set; }
+}
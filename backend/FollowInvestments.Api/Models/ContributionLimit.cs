@@ -0,0 +1,60 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace FollowInvestments.Api.Models;
+
+// Contribution room a user received for one registered account type in one year, e.g. the RRSP deduction
+// limit from a notice of assessment. Replaces the statutory default of that year.
+public class ContributionLimit
+{
+    [Key]
+    [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+    public int Id { get; set; }
+
+    [Required]
+    public int UserId { get; set; }
+
+    [Required]
+    public AccountType AccountType { get; set; }
+
+    public int Year { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Amount { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public class SetContributionLimitRequest
+{
+    // Null goes back to the statutory default
+    [Range(0, double.MaxValue)]
+    public decimal? Amount { get; set; }
+}
+
+// Room of one registered account type, shared by every account of that type
+public class ContributionRoomSummary
+{
+    public string AccountType { get; set; } = string.Empty;
+    public string Currency { get; set; } = string.Empty;
+    public List<string> Accounts { get; set; } = new();
+    // Room left this year, null until the room of some year is known
+    public decimal? Remaining { get; set; }
+    public bool IsOverContributed { get; set; }
+    public List<ContributionRoomYear> Years { get; set; } = new();
+}
+
+public class ContributionRoomYear
+{
+    public int Year { get; set; }
+    // Room granted in the year, null when it has no default and none was entered
+    public decimal? NewRoom { get; set; }
+    public bool IsDefault { get; set; }
+    // Unused room carried in plus the new room
+    public decimal? Available { get; set; }
+    public decimal Contributions { get; set; }
+    public decimal Withdrawals { get; set; }
+    public decimal? Remaining { get; set; }
+    public bool IsOverContributed { get; set; }
+}
@@ -0,0 +1,91 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace FollowInvestments.Api.Models;
+
+// A split, grupamento, bonificação, ticker change or merger of a security. Positions are restated by it when
+// they are built; the transactions recorded before it keep the quantities and prices they were entered with.
+public class CorporateAction
+{
+    [Key]
+    [DatabaseGenerated(DatabaseGeneratedOption.Identity)]
+    public int Id { get; set; }
+
+    [Required]
+    public int UserId { get; set; }
+
+    [Required]
+    public CorporateActionType Type { get; set; }
+
+    // First day the security trades on the new terms; transactions from this day on are recorded in new units
+    [Required]
+    [Column(TypeName = "date")]
+    public DateOnly Date { get; set; }
+
+    // Ticker of the holding before the action, e.g. "PETR4"; without an exchange suffix it matches any listing
+    [Required]
+    [MaxLength(20)]
+    public string Symbol { get; set; } = string.Empty;
+
+    // Ticker the holding continues under after a symbol change or a merger
+    [MaxLength(20)]
+    public string? NewSymbol { get; set; }
+
+    // RatioFrom units held before the action become RatioTo units: 1 to 2 in a 2-for-1 split,
+    // 10 to 1 in a 10:1 grupamento, 10 to 11 in a 10% bonificação
+    [Column(TypeName = "decimal(18,8)")]
+    public decimal RatioFrom { get; set; } = 1m;
+
+    [Column(TypeName = "decimal(18,8)")]
+    public decimal RatioTo { get; set; } = 1m;
+
+    // Cost the company assigns to each bonus share (custo atribuído), added to the cost basis
+    [Column(TypeName = "decimal(18,8)")]
+    public decimal? BonusUnitCost { get; set; }
+
+    [MaxLength(200)]
+    public string? Note { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public enum CorporateActionType
+{
+    Split,
+    ReverseSplit,
+    Bonus,
+    SymbolChange,
+    Merger
+}
+
+public class CreateCorporateActionRequest
+{
+    [Required]
+    public CorporateActionType Type { get; set; }
+
+    [Required]
+    public DateOnly Date { get; set; }
+
+    [Required]
+    [MaxLength(20)]
+    public string Symbol { get; set; } = string.Empty;
+
+    [MaxLength(20)]
+    public string? NewSymbol { get; set; }
+
+    public decimal RatioFrom { get; set; } = 1m;
+
+    public decimal RatioTo { get; set; } = 1m;
+
+    [Range(0, double.MaxValue)]
+    public decimal? BonusUnitCost { get; set; }
+
+    [MaxLength(200)]
+    public string? Note { get; set; }
+}
+
+public class CorporateActionImportRequest
+{
+    [Required]
+    public List<CreateCorporateActionRequest> Rows { get; set; } = new();
+}
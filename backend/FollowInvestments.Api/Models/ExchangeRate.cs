@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
 
 namespace FollowInvestments.Api.Models;
 
@@ -23,4 +24,26 @@ public class ExchangeRate
     
     // Computed property for currency pair symbol (e.g., "CADUSD=X")
     public string CurrencyPair => $"{FromCurrency}{ToCurrency}=X";
+}
+
+// Daily closing rate for a currency pair, used to value the portfolio on past dates
+public class ExchangeRateHistory
+{
+    [Key]
+    public long Id { get; set; }
+
+    [Required]
+    public string FromCurrency { get; set; } = string.Empty;
+
+    [Required]
+    public string ToCurrency { get; set; } = string.Empty;
+
+    [Required]
+    [Column(TypeName = "date")]
+    public DateOnly RateDate { get; set; }
+
+    [Required]
+    public decimal Rate { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace FollowInvestments.Api.Models;
+
+// Amount to reach by a date, for one account or for the whole portfolio
+public class Goal
+{
+    [Key]
+    public int Id { get; set; }
+
+    [Required]
+    public int UserId { get; set; }
+
+    // Null for portfolio goals
+    public int? AccountId { get; set; }
+
+    [MaxLength(100)]
+    public string? Name { get; set; }
+
+    [Required]
+    [Column(TypeName = "date")]
+    public DateOnly TargetDate { get; set; }
+
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal TargetAmount { get; set; }
+
+    [Required]
+    public Currency Currency { get; set; } = Currency.CAD;
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public class CreateGoalRequest
+{
+    public int? AccountId { get; set; }
+
+    [MaxLength(100)]
+    public string? Name { get; set; }
+
+    [Required]
+    public DateOnly TargetDate { get; set; }
+
+    [Range(0.01, double.MaxValue)]
+    public decimal TargetAmount { get; set; }
+
+    [Required]
+    public Currency Currency { get; set; } = Currency.CAD;
+}
+
+public class UpdateGoalRequest
+{
+    [Required]
+    public int Id { get; set; }
+
+    public int? AccountId { get; set; }
+
+    [MaxLength(100)]
+    public string? Name { get; set; }
+
+    [Required]
+    public DateOnly TargetDate { get; set; }
+
+    [Range(0.01, double.MaxValue)]
+    public decimal TargetAmount { get; set; }
+
+    [Required]
+    public Currency Currency { get; set; } = Currency.CAD;
+}
+
+public enum GoalStatus
+{
+    OnTrack,
+    AtRisk,
+    OffTrack
+}
@@ -0,0 +1,59 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace FollowInvestments.Api.Models;
+
+// Published rate of a fixed income index on a date, as the Banco Central series give it:
+// percent per business day for the CDI and the Selic, percent for the month for the IPCA
+// (dated on the first of the month)
+public class IndexRate
+{
+    [Key]
+    public long Id { get; set; }
+
+    [Required]
+    public FixedIncomeIndexer Indexer { get; set; }
+
+    [Required]
+    [Column(TypeName = "date")]
+    public DateOnly Date { get; set; }
+
+    [Column(TypeName = "decimal(12,8)")]
+    public decimal Rate { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public class IndexRateImportRequest
+{
+    [Required]
+    public FixedIncomeIndexer Indexer { get; set; }
+
+    [Required]
+    public List<IndexRateRow> Rows { get; set; } = new();
+}
+
+public class IndexRateRow
+{
+    [Required]
+    public DateOnly Date { get; set; }
+
+    public decimal Rate { get; set; }
+}
+
+// Stored coverage of one index
+public class IndexRateSummary
+{
+    public string Indexer { get; set; } = string.Empty;
+    public int Count { get; set; }
+    public DateOnly? FirstDate { get; set; }
+    public DateOnly? LastDate { get; set; }
+    public decimal? LatestRate { get; set; }
+}
+
+// One observation of a Banco Central SGS series
+public class BcbSeriesValue
+{
+    public string Data { get; set; } = string.Empty;
+    public string Valor { get; set; } = string.Empty;
+}
@@ -1,6 +1,7 @@
 using System.ComponentModel.DataAnnotations;
 using System.ComponentModel.DataAnnotations.Schema;
 using System.Text.Json.Serialization;
+using FollowInvestments.Api.Services;
 
 namespace FollowInvestments.Api.Models;
 
@@ -35,9 +36,62 @@ public class Investment
     [Required]
     public Category Category { get; set; }
 
+    [Required]
+    public TransactionType Type { get; set; } = TransactionType.Buy;
+
     [Required]
     public int AccountId { get; set; }
 
+    // Yahoo Finance symbol picked by the user, e.g. "VFV.TO"; when empty one is guessed from the name
+    [MaxLength(20)]
+    public string? Ticker { get; set; }
+
+    // Market the asset trades on, inferred from the symbol suffix when not set
+    public Exchange? Exchange { get; set; }
+
+    // Country the asset is exposed to when it differs from where it trades, e.g. a US ETF listed on the TSX
+    [MaxLength(100)]
+    public string? ExposureCountry { get; set; }
+
+    // Units of the owner's home currency per unit of Currency on Date, captured at entry or backfilled
+    // from historical quotes; null until a rate for that day has been found
+    [Column(TypeName = "decimal(18,8)")]
+    public decimal? FxRate { get; set; }
+
+    // Index a fixed income purchase accrues with; null for holdings that are not accrued
+    public FixedIncomeIndexer? Indexer { get; set; }
+
+    // Percent of the CDI or Selic (e.g. 110), spread over IPCA or annual rate of a prefixed bond, in percent a year
+    [Column(TypeName = "decimal(9,4)")]
+    public decimal? IndexerRate { get; set; }
+
+    // Accrual stops on this date
+    [Column(TypeName = "date")]
+    public DateOnly? MaturityDate { get; set; }
+
+    // LCIs, LCAs and incentivized debentures pay no income tax on their yield
+    public bool IsTaxExempt { get; set; }
+
+    // Brokerage commissions and exchange fees such as B3 emolumentos
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? Fees { get; set; }
+
+    // Taxes charged on the transaction, e.g. IOF on a currency exchange or tax withheld from a dividend
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal? Taxes { get; set; }
+
+    // Currency the fees and taxes were charged in, the transaction's currency when null
+    public Currency? CostCurrency { get; set; }
+
+    // Units of Currency per unit of CostCurrency on Date; null until a rate for that day has been found
+    [Column(TypeName = "decimal(18,8)")]
+    public decimal? CostFxRate { get; set; }
+
+    // Identifier of the statement line the transaction was imported from, e.g. "questrade:3f2a...", so
+    // importing the same statement again skips it; null for transactions entered by hand
+    [MaxLength(100)]
+    public string? ExternalId { get; set; }
+
     // Foreign key to User
     [Required]
     public int UserId { get; set; }
@@ -46,22 +100,64 @@ public class Investment
     public Account Account { get; set; } = null!;
     public virtual User User { get; set; } = null!;
 
-    public string Country => Currency switch
+    // Exposure first, then the market it trades on, then the country of its currency
+    public string Country
     {
-        Currency.BRL => "Brazil",
-        Currency.CAD => "Canada", 
-        Currency.USD => "United States",
-        _ => "Unknown"
-    };
+        get
+        {
+            if (!string.IsNullOrWhiteSpace(ExposureCountry))
+                return ExposureCountry;
+
+            var exchange = Exchange ?? ExchangeRegistry.InferFromSymbol(Ticker ?? Name);
+            return exchange.HasValue
+                ? ExchangeRegistry.Get(exchange.Value)?.Country ?? CurrencyRegistry.GetCountry(Currency)
+                : CurrencyRegistry.GetCountry(Currency);
+        }
+    }
     
     public decimal Total => Quantity * Value;
+
+    // Fees and taxes in the transaction's currency; those charged in another currency count once their rate is found
+    public decimal Costs
+    {
+        get
+        {
+            var costs = (Fees ?? 0) + (Taxes ?? 0);
+            if (!CostCurrency.HasValue || CostCurrency == Currency)
+                return costs;
+
+            return CostFxRate.HasValue ? costs * CostFxRate.Value : 0;
+        }
+    }
+
+    // Money that changed hands: costs add to what a purchase or fee took and come off what a sale or dividend paid
+    public decimal NetAmount => Type switch
+    {
+        TransactionType.Sell or TransactionType.Withdrawal or TransactionType.Dividend => Total - Costs,
+        _ => Total + Costs
+    };
 }
 
 public enum Currency
 {
     BRL,
     CAD,
-    USD
+    USD,
+    EUR,
+    GBP,
+    JPY
+}
+
+public enum Exchange
+{
+    B3,
+    TSX,
+    TSXV,
+    NYSE,
+    Nasdaq,
+    LSE,
+    Xetra,
+    TSE
 }
 
 public enum Category
@@ -76,6 +172,24 @@ public enum Category
     ManagedPortfolioBlock
 }
 
+public enum FixedIncomeIndexer
+{
+    Prefixed,
+    Cdi,
+    Selic,
+    Ipca
+}
+
+public enum TransactionType
+{
+    Buy,
+    Sell,
+    Dividend,
+    Deposit,
+    Withdrawal,
+    Fee
+}
+
 public class CreateInvestmentRequest
 {
     [Required]
@@ -101,8 +215,34 @@ public class CreateInvestmentRequest
     [Required]
     public Category Category { get; set; }
 
+    public TransactionType Type { get; set; } = TransactionType.Buy;
+
     [Required]
     public int AccountId { get; set; }
+
+    [MaxLength(20)]
+    public string? Ticker { get; set; }
+
+    public Exchange? Exchange { get; set; }
+
+    [MaxLength(100)]
+    public string? ExposureCountry { get; set; }
+
+    public FixedIncomeIndexer? Indexer { get; set; }
+
+    public decimal? IndexerRate { get; set; }
+
+    public DateOnly? MaturityDate { get; set; }
+
+    public bool IsTaxExempt { get; set; }
+
+    [Range(0, double.MaxValue)]
+    public decimal? Fees { get; set; }
+
+    [Range(0, double.MaxValue)]
+    public decimal? Taxes { get; set; }
+
+    public Currency? CostCurrency { get; set; }
 }
 
 public class UpdateInvestmentRequest
@@ -131,6 +271,131 @@ public class UpdateInvestmentRequest
     [JsonPropertyName("category")]
     public Category Category { get; set; }
 
+    [JsonPropertyName("type")]
+    public TransactionType Type { get; set; } = TransactionType.Buy;
+
     [JsonPropertyName("accountId")]
     public int AccountId { get; set; }
-}
\ No newline at end of file
+
+    [JsonPropertyName("ticker")]
+    [MaxLength(20)]
+    public string? Ticker { get; set; }
+
+    [JsonPropertyName("exchange")]
+    public Exchange? Exchange { get; set; }
+
+    [JsonPropertyName("exposureCountry")]
+    [MaxLength(100)]
+    public string? ExposureCountry { get; set; }
+
+    [JsonPropertyName("indexer")]
+    public FixedIncomeIndexer? Indexer { get; set; }
+
+    [JsonPropertyName("indexerRate")]
+    public decimal? IndexerRate { get; set; }
+
+    [JsonPropertyName("maturityDate")]
+    public DateOnly? MaturityDate { get; set; }
+
+    [JsonPropertyName("isTaxExempt")]
+    public bool IsTaxExempt { get; set; }
+
+    [JsonPropertyName("fees")]
+    [Range(0, double.MaxValue)]
+    public decimal? Fees { get; set; }
+
+    [JsonPropertyName("taxes")]
+    [Range(0, double.MaxValue)]
+    public decimal? Taxes { get; set; }
+
+    [JsonPropertyName("costCurrency")]
+    public Currency? CostCurrency { get; set; }
+}
+
+public class ImportInvestmentRow
+{
+    [JsonPropertyName("name")]
+    public string? Name { get; set; }
+
+    [JsonPropertyName("value")]
+    public string? Value { get; set; }
+
+    [JsonPropertyName("quantity")]
+    public string? Quantity { get; set; }
+
+    [JsonPropertyName("currency")]
+    public string? Currency { get; set; }
+
+    [JsonPropertyName("date")]
+    public string? Date { get; set; }
+
+    [JsonPropertyName("description")]
+    public string? Description { get; set; }
+
+    [JsonPropertyName("category")]
+    public string? Category { get; set; }
+
+    [JsonPropertyName("type")]
+    public string? Type { get; set; }
+
+    [JsonPropertyName("account")]
+    public string? Account { get; set; }
+}
+
+public class BulkImportRequest
+{
+    [JsonPropertyName("dryRun")]
+    public bool DryRun { get; set; } = true;
+
+    // "." or "," for every number in the file; detected from the file's numbers when empty
+    [JsonPropertyName("decimalSeparator")]
+    [RegularExpression("^[.,]$")]
+    public string? DecimalSeparator { get; set; }
+
+    // "DMY" or "MDY" for every date written with a day and month; detected from the file's dates when empty
+    [JsonPropertyName("dateOrder")]
+    [RegularExpression("^(DMY|MDY)$")]
+    public string? DateOrder { get; set; }
+
+    [Required]
+    [JsonPropertyName("rows")]
+    public List<ImportInvestmentRow> Rows { get; set; } = new();
+}
+
+// A quoted holding whose symbol is missing or has no prices, listed so the user can fix it
+public class UnmappedHolding
+{
+    public int AccountId { get; set; }
+    public string AccountName { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string Currency { get; set; } = string.Empty;
+    public string Category { get; set; } = string.Empty;
+    public string? Ticker { get; set; }
+    // Symbol guessed from the name, empty when nothing could be guessed
+    public string SuggestedSymbol { get; set; } = string.Empty;
+    public int TransactionCount { get; set; }
+}
+
+public class SymbolMappingRequest
+{
+    [Required]
+    public List<SymbolMapping> Mappings { get; set; } = new();
+}
+
+// Ticker for every transaction of one holding, identified like the ledger does by account, name and currency
+public class SymbolMapping
+{
+    [Required]
+    public int AccountId { get; set; }
+
+    [Required]
+    [MaxLength(200)]
+    public string Name { get; set; } = string.Empty;
+
+    [Required]
+    public Currency Currency { get; set; }
+
+    // Empty clears the ticker so the name is guessed again
+    [MaxLength(20)]
+    public string? Ticker { get; set; }
+}
@@ -0,0 +1,76 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace FollowInvestments.Api.Models;
+
+// What a holding without a market price was worth on a date, e.g. a CDB statement balance or a
+// managed portfolio NAV. The holding is matched like the ledger does: account, name and currency.
+public class ManualValuation
+{
+    [Key]
+    public int Id { get; set; }
+
+    [Required]
+    public int UserId { get; set; }
+
+    [Required]
+    public int AccountId { get; set; }
+
+    [Required]
+    [MaxLength(200)]
+    public string Name { get; set; } = string.Empty;
+
+    [Required]
+    public Currency Currency { get; set; } = Currency.CAD;
+
+    [Required]
+    [Column(TypeName = "date")]
+    public DateOnly Date { get; set; }
+
+    // Value of the whole holding, not per unit
+    [Column(TypeName = "decimal(18,2)")]
+    public decimal Value { get; set; }
+
+    [MaxLength(200)]
+    public string? Note { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public class CreateManualValuationRequest
+{
+    [Required]
+    public int AccountId { get; set; }
+
+    [Required]
+    [MaxLength(200)]
+    public string Name { get; set; } = string.Empty;
+
+    [Required]
+    public Currency Currency { get; set; } = Currency.CAD;
+
+    [Required]
+    public DateOnly Date { get; set; }
+
+    [Range(0, double.MaxValue)]
+    public decimal Value { get; set; }
+
+    [MaxLength(200)]
+    public string? Note { get; set; }
+}
+
+public class UpdateManualValuationRequest
+{
+    [Required]
+    public int Id { get; set; }
+
+    [Required]
+    public DateOnly Date { get; set; }
+
+    [Range(0, double.MaxValue)]
+    public decimal Value { get; set; }
+
+    [MaxLength(200)]
+    public string? Note { get; set; }
+}
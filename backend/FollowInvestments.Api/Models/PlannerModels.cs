@@ -0,0 +1,49 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace FollowInvestments.Api.Models;
+
+public class PlannerSimulationRequest
+{
+    public Currency Currency { get; set; } = Currency.CAD;
+
+    [Range(1, 60)]
+    public int Years { get; set; } = 30;
+
+    // Contributions and withdrawals are in today's money and grow with inflation
+    [Range(0, double.MaxValue)]
+    public decimal MonthlyContribution { get; set; }
+
+    // Years from now when contributions stop and withdrawals begin, null for no withdrawal phase
+    [Range(0, 60)]
+    public int? WithdrawalStartYear { get; set; }
+
+    [Range(0, double.MaxValue)]
+    public decimal MonthlyWithdrawal { get; set; }
+
+    [Range(-10, 50)]
+    public decimal InflationRate { get; set; } = 2;
+
+    [Range(100, 10000)]
+    public int Simulations { get; set; } = 1000;
+
+    // Repeats the same simulation when set
+    public int? Seed { get; set; }
+
+    // Historical category assumptions are used when empty
+    public List<CategoryAssumptionItem> Categories { get; set; } = new();
+}
+
+public class CategoryAssumptionItem
+{
+    [Required]
+    public string Category { get; set; } = string.Empty;
+
+    [Range(0, 100)]
+    public decimal Weight { get; set; }
+
+    [Range(-99, 100)]
+    public decimal AnnualReturn { get; set; }
+
+    [Range(0, 200)]
+    public decimal AnnualVolatility { get; set; }
+}
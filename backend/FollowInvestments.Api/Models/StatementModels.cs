@@ -0,0 +1,107 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace FollowInvestments.Api.Models;
+
+// One line of a broker statement in our terms, before it is assigned to one of the user's accounts
+public class StatementTransaction
+{
+    // Line of the file the transaction was read from, counting the header
+    public int LineNumber { get; set; }
+    // Stable across imports of the same file, see StatementReader.ExternalId
+    public string ExternalId { get; set; } = string.Empty;
+    // Account number or institution the statement names for the line, empty when it covers a single account
+    public string SourceAccount { get; set; } = string.Empty;
+    public DateTime Date { get; set; }
+    public TransactionType Type { get; set; }
+    // Guessed from the statement; a holding already in the account keeps its own category
+    public Category Category { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public decimal Quantity { get; set; }
+    public decimal Value { get; set; }
+    public Currency Currency { get; set; }
+    public Exchange? Exchange { get; set; }
+    public decimal? Fees { get; set; }
+    public decimal? Taxes { get; set; }
+    public string Description { get; set; } = string.Empty;
+}
+
+// A line the parser recognized but does not import, e.g. a currency conversion or an options trade
+public class StatementSkippedLine
+{
+    public int LineNumber { get; set; }
+    public string Reason { get; set; } = string.Empty;
+}
+
+// Units of a security the statement reports as held on a date, e.g. an OFX <INVPOS>
+public class StatementPosition
+{
+    public int LineNumber { get; set; }
+    public string ExternalId { get; set; } = string.Empty;
+    public string SourceAccount { get; set; } = string.Empty;
+    public DateTime Date { get; set; }
+    public Category Category { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public decimal Quantity { get; set; }
+    // Market price on Date, which stands in for the cost of units bought before the statement period
+    public decimal UnitPrice { get; set; }
+    public Currency Currency { get; set; }
+    public Exchange? Exchange { get; set; }
+}
+
+public class StatementParseResult
+{
+    public List<StatementTransaction> Transactions { get; set; } = new();
+    public List<StatementPosition> Positions { get; set; } = new();
+    public List<StatementSkippedLine> Skipped { get; set; } = new();
+}
+
+public class StatementParserInfo
+{
+    public string Id { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string Description { get; set; } = string.Empty;
+}
+
+public class StatementImportRequest
+{
+    [Required]
+    public string Content { get; set; } = string.Empty;
+
+    // Parser id such as "questrade"; detected from the content when empty
+    [MaxLength(50)]
+    public string? Parser { get; set; }
+
+    public bool DryRun { get; set; } = true;
+
+    // Our account for each account named in the statement
+    public Dictionary<string, int> AccountMap { get; set; } = new();
+
+    // Account for lines whose source account is not mapped, e.g. a statement that covers a single account
+    public int? DefaultAccountId { get; set; }
+}
+
+public class StatementImportResult
+{
+    public bool DryRun { get; set; }
+    public string Parser { get; set; } = string.Empty;
+    public string ParserName { get; set; } = string.Empty;
+    // Accounts named in the statement, for the user to map to theirs
+    public List<string> SourceAccounts { get; set; } = new();
+    public List<StatementImportRow> Rows { get; set; } = new();
+    public List<StatementSkippedLine> Skipped { get; set; } = new();
+    public int NewRows { get; set; }
+    public int DuplicateRows { get; set; }
+    public int InvalidRows { get; set; }
+    public int ImportedCount { get; set; }
+}
+
+public class StatementImportRow
+{
+    public StatementTransaction Transaction { get; set; } = new();
+    public int? AccountId { get; set; }
+    public string? AccountName { get; set; }
+    // Imported before, from this or an earlier statement
+    public bool IsDuplicate { get; set; }
+    public bool IsValid => Errors.Count == 0;
+    public List<string> Errors { get; set; } = new();
+}
@@ -102,4 +102,29 @@ public class ChartError
 {
     public string Code { get; set; } = string.Empty;
     public string Description { get; set; } = string.Empty;
+}
+
+// Yahoo Finance symbol search response
+public class YahooSearchResponse
+{
+    public List<YahooSearchQuote>? Quotes { get; set; }
+}
+
+public class YahooSearchQuote
+{
+    public string? Symbol { get; set; }
+    public string? Shortname { get; set; }
+    public string? Longname { get; set; }
+    public string? Exchange { get; set; }
+    public string? ExchDisp { get; set; }
+    public string? QuoteType { get; set; }
+}
+
+public class SymbolSearchResult
+{
+    public string Symbol { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string Exchange { get; set; } = string.Empty;
+    // Yahoo quote type, e.g. EQUITY or ETF
+    public string Type { get; set; } = string.Empty;
 }
\ No newline at end of file
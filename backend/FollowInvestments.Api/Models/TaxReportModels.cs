@@ -0,0 +1,112 @@
+namespace FollowInvestments.Api.Models;
+
+// Brazilian swing-trade results of one tax year, month by month, in BRL
+public class BrazilGainsReport
+{
+    public int Year { get; set; }
+    // Losses carried from earlier years, stocks and ETFs share one pool and FIIs have their own
+    public decimal OpeningCommonLoss { get; set; }
+    public decimal OpeningFiiLoss { get; set; }
+    public List<BrazilMonthlyGain> Months { get; set; } = new();
+    public List<TaxableSale> Sales { get; set; } = new();
+    public decimal TotalExemptGain { get; set; }
+    public decimal TotalTax { get; set; }
+}
+
+public class BrazilMonthlyGain
+{
+    public int Month { get; set; }
+    // Stock sales up to R$20,000 in a month are exempt
+    public decimal StockSales { get; set; }
+    public bool IsExempt { get; set; }
+    public decimal ExemptGain { get; set; }
+    public decimal CommonGain { get; set; }
+    public decimal CommonLossBalance { get; set; }
+    public decimal CommonTaxBase { get; set; }
+    public decimal CommonTax { get; set; }
+    public decimal FiiGain { get; set; }
+    public decimal FiiLossBalance { get; set; }
+    public decimal FiiTaxBase { get; set; }
+    public decimal FiiTax { get; set; }
+    public decimal TotalTax { get; set; }
+}
+
+// One sale with its cost basis, in the report currency
+public class TaxableSale
+{
+    public DateTime Date { get; set; }
+    public string Symbol { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string Category { get; set; } = string.Empty;
+    public decimal Quantity { get; set; }
+    public decimal Proceeds { get; set; }
+    public decimal CostBasis { get; set; }
+    public decimal Gain { get; set; }
+}
+
+// Year-end positions at cost in BRL, as listed under "Bens e Direitos"
+public class BrazilAssetsReport
+{
+    public int Year { get; set; }
+    public List<BrazilAssetItem> Assets { get; set; } = new();
+    public decimal TotalPreviousYear { get; set; }
+    public decimal TotalCurrentYear { get; set; }
+}
+
+public class BrazilAssetItem
+{
+    public string AccountName { get; set; } = string.Empty;
+    public string Symbol { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public string Category { get; set; } = string.Empty;
+    public string Country { get; set; } = string.Empty;
+    public string Currency { get; set; } = string.Empty;
+    public decimal Quantity { get; set; }
+    public string Description { get; set; } = string.Empty;
+    // Cost of the position on December 31 of the previous and of the report year
+    public decimal PreviousYearValue { get; set; }
+    public decimal CurrentYearValue { get; set; }
+}
+
+// Canadian adjusted cost base per security, in CAD
+public class AcbReport
+{
+    public int Year { get; set; }
+    public List<AcbSecurity> Securities { get; set; } = new();
+    public decimal TotalCapitalGain { get; set; }
+    public decimal TotalTaxableCapitalGain { get; set; }
+    public decimal TotalDeniedLoss { get; set; }
+}
+
+public class AcbSecurity
+{
+    public string Symbol { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    // Shares and cost base held when the year began
+    public decimal OpeningQuantity { get; set; }
+    public decimal OpeningAdjustedCostBase { get; set; }
+    public decimal Quantity { get; set; }
+    public decimal AdjustedCostBase { get; set; }
+    public decimal CapitalGain { get; set; }
+    public decimal DeniedLoss { get; set; }
+    public List<AcbEntry> Entries { get; set; } = new();
+}
+
+// One acquisition or disposition and the pool after it
+public class AcbEntry
+{
+    public DateTime Date { get; set; }
+    public string Type { get; set; } = string.Empty;
+    public string AccountName { get; set; } = string.Empty;
+    public decimal Quantity { get; set; }
+    public string Currency { get; set; } = string.Empty;
+    // Rate to CAD on the transaction date
+    public decimal FxRate { get; set; }
+    public decimal Amount { get; set; }
+    public decimal? CostBasis { get; set; }
+    public decimal? CapitalGain { get; set; }
+    // Superficial loss denied on a sale, added to the cost base of the shares bought back
+    public decimal? DeniedLoss { get; set; }
+    public decimal SharesAfter { get; set; }
+    public decimal AcbAfter { get; set; }
+}
@@ -5,23 +5,64 @@ public class InvestmentTimelineData
     public List<TimelinePoint> TimelinePoints { get; set; } = new();
     public List<GoalMarker> GoalMarkers { get; set; } = new();
     public decimal CurrentTotalValue { get; set; }
-    public decimal CurrentBrlValue { get; set; }
-    public decimal CurrentCadValue { get; set; }
+    // Net cost basis per currency code, only currencies with holdings are present
+    public Dictionary<string, decimal> CurrentValues { get; set; } = new();
 }
 
 public class TimelinePoint
 {
     public DateTime Date { get; set; }
     public decimal TotalValue { get; set; }
-    public decimal BrlValue { get; set; }
-    public decimal CadValue { get; set; }
+    public Dictionary<string, decimal> Values { get; set; } = new();
 }
 
 public class GoalMarker
 {
+    public int GoalId { get; set; }
+    public int? AccountId { get; set; }
+    public DateTime Date { get; set; }
     public int Year { get; set; }
     public decimal Value { get; set; }
     public string Currency { get; set; } = string.Empty;
     public string AccountName { get; set; } = string.Empty;
     public string Label { get; set; } = string.Empty;
+}
+
+public enum TimelineResolution
+{
+    Daily,
+    Weekly,
+    Monthly
+}
+
+public class ValuationTimelineData
+{
+    public TimelineResolution Resolution { get; set; }
+    public string Currency { get; set; } = string.Empty;
+    public List<ValuationPoint> Points { get; set; } = new();
+    public decimal CurrentMarketValue { get; set; }
+    public decimal CurrentCostBasis { get; set; }
+    public List<string> SymbolsWithoutPrices { get; set; } = new();
+    public string? BenchmarkSymbol { get; set; }
+    public decimal? CurrentBenchmarkValue { get; set; }
+    public List<ManualValuationMarker> ManualValuations { get; set; } = new();
+}
+
+public class ValuationPoint
+{
+    public DateTime Date { get; set; }
+    public decimal MarketValue { get; set; }
+    public decimal CostBasis { get; set; }
+    // Money added (positive) or taken out (negative) since the previous point
+    public decimal NetContribution { get; set; }
+    // What the same contributions would be worth invested in the benchmark
+    public decimal? BenchmarkValue { get; set; }
+}
+
+// A manual valuation of a holding without market price, in the timeline currency
+public class ManualValuationMarker
+{
+    public DateTime Date { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public decimal Value { get; set; }
 }
\ No newline at end of file
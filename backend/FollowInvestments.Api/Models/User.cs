@@ -26,6 +26,13 @@ public class User
     [StringLength(20)]
     public string Role { get; set; } = "user"; // Default role is "user"
 
+    [Required]
+    public CostBasisMethod CostBasisMethod { get; set; } = CostBasisMethod.AverageCost;
+
+    // Currency the cost of foreign holdings is measured in, at the rate of each transaction date
+    [Required]
+    public Currency HomeCurrency { get; set; } = Currency.CAD;
+
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
 
@@ -40,6 +47,12 @@ public enum UserRole
     Admin
 }
 
+public enum CostBasisMethod
+{
+    AverageCost,
+    Fifo
+}
+
 // DTOs for user operations
 public class RegisterUserRequest
 {
@@ -89,10 +102,27 @@ public class UserResponse
     [JsonPropertyName("role")]
     public string Role { get; set; } = string.Empty;
 
+    [JsonPropertyName("costBasisMethod")]
+    public CostBasisMethod CostBasisMethod { get; set; }
+
+    [JsonPropertyName("homeCurrency")]
+    public Currency HomeCurrency { get; set; }
+
     [JsonPropertyName("createdAt")]
     public DateTime CreatedAt { get; set; }
 }
 
+public class UpdateUserSettingsRequest
+{
+    [Required]
+    [JsonPropertyName("costBasisMethod")]
+    public CostBasisMethod CostBasisMethod { get; set; }
+
+    // Left unchanged when not sent
+    [JsonPropertyName("homeCurrency")]
+    public Currency? HomeCurrency { get; set; }
+}
+
 public class AuthResponse
 {
     [JsonPropertyName("token")]
@@ -60,12 +60,54 @@ builder.Services.AddSwaggerGen(c =>
 // Add HttpClient and Yahoo Finance service
 builder.Services.AddHttpClient<IYahooFinanceService, YahooFinanceService>();
 
-// Add Investment Performance service
+// Add Investment Ledger and Performance services
+builder.Services.AddScoped<IInvestmentLedgerService, InvestmentLedgerService>();
 builder.Services.AddScoped<IInvestmentPerformanceService, InvestmentPerformanceService>();
 
+// Add Corporate Action service
+builder.Services.AddScoped<ICorporateActionService, CorporateActionService>();
+
+// Add Investment Import service
+builder.Services.AddScoped<IInvestmentImportService, InvestmentImportService>();
+
+// Add broker statement parsers; supporting another broker takes one more parser registered here
+builder.Services.AddSingleton<IStatementParser, B3StatementParser>();
+builder.Services.AddSingleton<IStatementParser, QuestradeStatementParser>();
+builder.Services.AddSingleton<IStatementParser, WealthsimpleStatementParser>();
+builder.Services.AddSingleton<IStatementParser, OfxStatementParser>();
+builder.Services.AddSingleton<IStatementParserRegistry, StatementParserRegistry>();
+builder.Services.AddScoped<IStatementImportService, StatementImportService>();
+
+// Add OFX Export service
+builder.Services.AddScoped<IOfxExportService, OfxExportService>();
+
+// Add Portfolio Valuation service
+builder.Services.AddScoped<IPortfolioValuationService, PortfolioValuationService>();
+
+// Add Investment Return service
+builder.Services.AddScoped<IInvestmentReturnService, InvestmentReturnService>();
+
+// Add Goal service
+builder.Services.AddScoped<IGoalService, GoalService>();
+
+// Add Rebalancing service
+builder.Services.AddScoped<IRebalancingService, RebalancingService>();
+
+// Add Planner service
+builder.Services.AddScoped<IPlannerService, PlannerService>();
+
+// Add Contribution Room service
+builder.Services.AddScoped<IContributionRoomService, ContributionRoomService>();
+
+// Add Tax Report service
+builder.Services.AddScoped<ITaxReportService, TaxReportService>();
+
 // Add Currency service with HttpClient
 builder.Services.AddHttpClient<ICurrencyService, CurrencyService>();
 
+// Add Fixed Income service with HttpClient
+builder.Services.AddHttpClient<IFixedIncomeService, FixedIncomeService>();
+
 // Add Password service
 builder.Services.AddScoped<IPasswordService, PasswordService>();
 
@@ -0,0 +1,112 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Trades from the "Extrato de Negociação" of the B3 Área do Investidor saved as CSV, or from the older CEI
+// negotiation export. Neither lists brokerage fees, which are only on the broker's nota de corretagem
+public class B3StatementParser : IStatementParser
+{
+    private static readonly string[] DateFormats = { "dd/MM/yyyy", "dd/MM/yy", "yyyy-MM-dd" };
+
+    // Área do Investidor and CEI name the same columns differently
+    private static readonly string[] InvestorAreaColumns = { "Data do Negócio", "Código de Negociação", "Quantidade" };
+    private static readonly string[] CeiColumns = { "Data Negócio", "C/V", "Quantidade" };
+
+    public string Id => "b3";
+    public string Name => "B3 Extrato de Negociação / CEI";
+    public string Description => "Negotiation statement from the B3 Área do Investidor or the CEI, saved as CSV. Trades only; add fees from the nota de corretagem by hand.";
+
+    public bool CanParse(string content) => ReadTable(content) != null;
+
+    public StatementParseResult Parse(string content)
+    {
+        var result = new StatementParseResult();
+        var table = ReadTable(content);
+        if (table == null)
+            return result;
+
+        var occurrences = new Dictionary<string, int>();
+        foreach (var row in table.Rows)
+        {
+            var market = table.Get(row, "Mercado");
+            var normalizedMarket = StatementReader.Normalize(market);
+            if (normalizedMarket.Length > 0 && !normalizedMarket.Contains("vista") && !normalizedMarket.Contains("fracion"))
+            {
+                result.Skipped.Add(new StatementSkippedLine { LineNumber = row.LineNumber, Reason = $"{market} trades are not imported" });
+                continue;
+            }
+
+            var side = StatementReader.Normalize(table.Get(row, "Tipo de Movimentação", "C/V"));
+            TransactionType type;
+            if (side is "compra" or "c")
+                type = TransactionType.Buy;
+            else if (side is "venda" or "v")
+                type = TransactionType.Sell;
+            else
+            {
+                result.Skipped.Add(new StatementSkippedLine { LineNumber = row.LineNumber, Reason = $"Unknown trade side '{side}'" });
+                continue;
+            }
+
+            var ticker = table.Get(row, "Código de Negociação", "Código").Trim().ToUpperInvariant();
+            // Odd lots trade as "PETR4F" and are the same holding as round lots of "PETR4"
+            if (normalizedMarket.Contains("fracion") && ticker.Length > 5 && ticker.EndsWith('F'))
+                ticker = ticker[..^1];
+
+            if (string.IsNullOrEmpty(ticker) ||
+                !StatementReader.TryParseDate(table.Get(row, "Data do Negócio", "Data Negócio"), DateFormats, out var date) ||
+                !StatementReader.TryParseDecimal(table.Get(row, "Quantidade"), true, out var quantity) || quantity == 0)
+            {
+                result.Skipped.Add(new StatementSkippedLine { LineNumber = row.LineNumber, Reason = "Missing ticker, date or quantity" });
+                continue;
+            }
+
+            quantity = Math.Abs(quantity);
+            if (!StatementReader.TryParseDecimal(table.Get(row, "Preço", "Preço (R$)"), true, out var price) &&
+                StatementReader.TryParseDecimal(table.Get(row, "Valor", "Valor Total (R$)"), true, out var total))
+            {
+                price = total / quantity;
+            }
+
+            // CEI quotes some securities per thousand units
+            if (StatementReader.TryParseDecimal(table.Get(row, "Fator de Cotação"), true, out var factor) && factor > 1)
+                price /= factor;
+
+            var institution = table.Get(row, "Instituição");
+            var specification = table.Get(row, "Especificação do Ativo");
+            result.Transactions.Add(new StatementTransaction
+            {
+                LineNumber = row.LineNumber,
+                ExternalId = StatementReader.ExternalId(Id, StatementReader.Key(date.ToString("yyyy-MM-dd"), type, ticker, quantity, price, institution), occurrences),
+                SourceAccount = institution,
+                Date = date,
+                Type = type,
+                Category = GuessCategory(ticker, specification),
+                Name = ticker,
+                Quantity = quantity,
+                Value = Math.Abs(price),
+                Currency = Currency.BRL,
+                Exchange = Exchange.B3,
+                Description = string.IsNullOrEmpty(specification) ? market : $"{specification} - {market}"
+            });
+        }
+
+        return result;
+    }
+
+    private static StatementTable? ReadTable(string content) =>
+        StatementReader.ReadTable(content, InvestorAreaColumns) ?? StatementReader.ReadTable(content, CeiColumns);
+
+    // CEI names funds in the specification ("FII XP LOG CI", "ISHARES BOVA CI"); without it a ticker ending
+    // in 11 is most often a real estate fund, although units and ETFs end in 11 as well
+    private static Category GuessCategory(string ticker, string specification)
+    {
+        var spec = specification.ToUpperInvariant();
+        if (spec.Contains("FII"))
+            return Category.FIIs;
+        if (spec.Contains("ETF") || spec.Contains("ISHARES"))
+            return Category.ETF;
+
+        return spec.Length == 0 && ticker.EndsWith("11") ? Category.FIIs : Category.Stocks;
+    }
+}
@@ -0,0 +1,102 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Yearly contribution room of registered accounts. TFSA room carries forward and withdrawals come back the next
+// January; RRSP room carries forward with a $2,000 over-contribution allowance; FHSA room is $8,000 a year up to
+// $40,000, with at most $8,000 carried; PGBL deductions are capped at 12% of each year's income with nothing carried.
+public static class ContributionRoomCalculator
+{
+    public const decimal RrspOverContributionAllowance = 2000m;
+    public const decimal FhsaAnnualLimit = 8000m;
+    public const decimal FhsaLifetimeLimit = 40000m;
+    private const int FhsaFirstYear = 2023;
+
+    // TFSA dollar limits since the account was introduced; later years repeat the last announced one
+    private static readonly SortedDictionary<int, decimal> TfsaLimits = new()
+    {
+        [2009] = 5000m, [2010] = 5000m, [2011] = 5000m, [2012] = 5000m,
+        [2013] = 5500m, [2014] = 5500m, [2015] = 10000m,
+        [2016] = 5500m, [2017] = 5500m, [2018] = 5500m,
+        [2019] = 6000m, [2020] = 6000m, [2021] = 6000m, [2022] = 6000m,
+        [2023] = 6500m, [2024] = 7000m, [2025] = 7000m, [2026] = 7000m
+    };
+
+    // VGBL contributions are not deductible, so they have no room to track
+    public static bool TracksRoom(AccountType type) =>
+        type == AccountType.Tfsa || type == AccountType.Rrsp || type == AccountType.Fhsa || type == AccountType.Pgbl;
+
+    public static Currency RoomCurrency(AccountType type) =>
+        type == AccountType.Pgbl || type == AccountType.Vgbl ? Currency.BRL : Currency.CAD;
+
+    // Room every holder receives in the year; RRSP and PGBL room depends on income and has to be entered
+    public static decimal? DefaultRoom(AccountType type, int year) => type switch
+    {
+        AccountType.Tfsa when year >= TfsaLimits.Keys.First() =>
+            TfsaLimits.TryGetValue(year, out var limit) ? limit : TfsaLimits.Last().Value,
+        AccountType.Fhsa when year >= FhsaFirstYear => FhsaAnnualLimit,
+        _ => null
+    };
+
+    public static List<ContributionRoomYear> Calculate(
+        AccountType type,
+        int firstYear,
+        int lastYear,
+        IReadOnlyDictionary<int, decimal> enteredRoom,
+        IReadOnlyDictionary<int, decimal> contributions,
+        IReadOnlyDictionary<int, decimal> withdrawals)
+    {
+        var years = new List<ContributionRoomYear>();
+        decimal? carried = null;
+        var previousWithdrawals = 0m;
+        var fhsaGranted = 0m;
+
+        for (var year = firstYear; year <= lastYear; year++)
+        {
+            var isDefault = !enteredRoom.TryGetValue(year, out var entered);
+            var newRoom = isDefault ? DefaultRoom(type, year) : entered;
+
+            if (type == AccountType.Fhsa && newRoom.HasValue)
+            {
+                newRoom = Math.Max(Math.Min(newRoom.Value, FhsaLifetimeLimit - fhsaGranted), 0m);
+                fhsaGranted += newRoom.Value;
+            }
+
+            // Room is only known from the first year with a known amount on
+            decimal? available = null;
+            if (newRoom.HasValue || carried.HasValue)
+            {
+                var carry = type switch
+                {
+                    AccountType.Tfsa => (carried ?? 0m) + previousWithdrawals,
+                    AccountType.Fhsa => Math.Min(carried ?? 0m, FhsaAnnualLimit),
+                    AccountType.Pgbl => 0m,
+                    _ => carried ?? 0m
+                };
+                available = carry + (newRoom ?? 0m);
+            }
+
+            var contributed = contributions.GetValueOrDefault(year);
+            var withdrawn = withdrawals.GetValueOrDefault(year);
+            var remaining = available - contributed;
+            var allowance = type == AccountType.Rrsp ? RrspOverContributionAllowance : 0m;
+
+            years.Add(new ContributionRoomYear
+            {
+                Year = year,
+                NewRoom = newRoom,
+                IsDefault = isDefault,
+                Available = available,
+                Contributions = Math.Round(contributed, 2),
+                Withdrawals = Math.Round(withdrawn, 2),
+                Remaining = remaining.HasValue ? Math.Round(remaining.Value, 2) : null,
+                IsOverContributed = remaining < -allowance
+            });
+
+            carried = remaining;
+            previousWithdrawals = type == AccountType.Tfsa ? withdrawn : 0m;
+        }
+
+        return years;
+    }
+}
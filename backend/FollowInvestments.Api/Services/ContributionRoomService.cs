@@ -0,0 +1,124 @@
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IContributionRoomService
+{
+    Task<List<ContributionRoomSummary>> GetSummariesAsync(int userId);
+    Task SetLimitAsync(int userId, AccountType accountType, int year, decimal? amount);
+}
+
+public class ContributionRoomService : IContributionRoomService
+{
+    private readonly InvestmentContext _context;
+    private readonly ICurrencyService _currencyService;
+
+    public ContributionRoomService(InvestmentContext context, ICurrencyService currencyService)
+    {
+        _context = context;
+        _currencyService = currencyService;
+    }
+
+    // Contributions are the deposits recorded against every account of a type, converted at their date's rate
+    public async Task<List<ContributionRoomSummary>> GetSummariesAsync(int userId)
+    {
+        var currentYear = DateTime.UtcNow.Year;
+        var accounts = await _context.Accounts
+            .Where(a => a.UserId == userId)
+            .OrderBy(a => a.SortOrder)
+            .ThenBy(a => a.Name)
+            .ToListAsync();
+        var limits = await _context.ContributionLimits
+            .Where(l => l.UserId == userId)
+            .ToListAsync();
+
+        var types = accounts.Select(a => a.Type)
+            .Concat(limits.Select(l => l.AccountType))
+            .Where(ContributionRoomCalculator.TracksRoom)
+            .Distinct()
+            .OrderBy(t => t);
+
+        var summaries = new List<ContributionRoomSummary>();
+        foreach (var type in types)
+        {
+            var currency = ContributionRoomCalculator.RoomCurrency(type);
+            var accountIds = accounts.Where(a => a.Type == type).Select(a => a.Id).ToList();
+            var flows = await _context.Investments
+                .Where(i => i.UserId == userId && accountIds.Contains(i.AccountId) &&
+                    (i.Type == TransactionType.Deposit || i.Type == TransactionType.Withdrawal))
+                .ToListAsync();
+
+            var contributions = new Dictionary<int, decimal>();
+            var withdrawals = new Dictionary<int, decimal>();
+            foreach (var flow in flows)
+            {
+                var amount = await ConvertAsync(flow, currency);
+                var totals = flow.Type == TransactionType.Deposit ? contributions : withdrawals;
+                totals[flow.Date.Year] = totals.GetValueOrDefault(flow.Date.Year) + amount;
+            }
+
+            var typeLimits = limits.Where(l => l.AccountType == type).ToDictionary(l => l.Year, l => l.Amount);
+            var firstYear = contributions.Keys.Concat(withdrawals.Keys).Concat(typeLimits.Keys)
+                .DefaultIfEmpty(currentYear)
+                .Min();
+            var years = ContributionRoomCalculator.Calculate(
+                type, Math.Min(firstYear, currentYear), Math.Max(currentYear, typeLimits.Keys.DefaultIfEmpty(currentYear).Max()),
+                typeLimits, contributions, withdrawals);
+
+            var current = years.First(y => y.Year == currentYear);
+            summaries.Add(new ContributionRoomSummary
+            {
+                AccountType = type.ToString(),
+                Currency = currency.ToString(),
+                Accounts = accounts.Where(a => a.Type == type).Select(a => a.Name).ToList(),
+                Remaining = current.Remaining,
+                IsOverContributed = current.IsOverContributed,
+                Years = years
+            });
+        }
+
+        return summaries;
+    }
+
+    public async Task SetLimitAsync(int userId, AccountType accountType, int year, decimal? amount)
+    {
+        var existing = await _context.ContributionLimits
+            .FirstOrDefaultAsync(l => l.UserId == userId && l.AccountType == accountType && l.Year == year);
+
+        if (!amount.HasValue)
+        {
+            if (existing != null)
+                _context.ContributionLimits.Remove(existing);
+        }
+        else if (existing != null)
+        {
+            existing.Amount = amount.Value;
+            existing.UpdatedAt = DateTime.UtcNow;
+        }
+        else
+        {
+            _context.ContributionLimits.Add(new ContributionLimit
+            {
+                UserId = userId,
+                AccountType = accountType,
+                Year = year,
+                Amount = amount.Value
+            });
+        }
+
+        await _context.SaveChangesAsync();
+    }
+
+    private async Task<decimal> ConvertAsync(Investment flow, Currency currency)
+    {
+        if (flow.Currency == currency)
+            return flow.Total;
+
+        var rate = await _currencyService.GetHistoricalRateAsync(flow.Currency.ToString(), currency.ToString(), DateOnly.FromDateTime(flow.Date));
+        return rate.HasValue
+            ? flow.Total * rate.Value
+            : await _currencyService.ConvertCurrencyAsync(flow.Total, flow.Currency.ToString(), currency.ToString());
+    }
+}
@@ -0,0 +1,114 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Restates open lots for corporate actions while the ledger replays a holding. A lot keeps its total cost:
+// a split or grupamento spreads it over more or fewer units, a bonificação adds the cost assigned to the
+// new shares and a symbol change or merger moves the lot to the new ticker.
+public static class CorporateActionCalculator
+{
+    // Ticker the units of a transaction are held under: the symbol it is quoted with, otherwise its name
+    public static string SymbolOf(Investment transaction)
+    {
+        var symbol = InvestmentSymbolMapper.HasMarketPrice(transaction.Category)
+            ? InvestmentSymbolMapper.MapInvestmentToSymbol(transaction)
+            : string.Empty;
+
+        return string.IsNullOrEmpty(symbol) ? transaction.Name.Trim().ToUpper() : symbol;
+    }
+
+    // "PETR4" matches a holding quoted as "PETR4.SA", while "RY.TO" only matches the TSX listing
+    public static bool Matches(CorporateAction action, string symbol)
+    {
+        var actionSymbol = action.Symbol.Trim().ToUpper();
+        return symbol == actionSymbol ||
+            (ExchangeRegistry.InferFromSymbol(actionSymbol) == null && StripSuffix(symbol) == actionSymbol);
+    }
+
+    public static bool ChangesSymbol(CorporateAction action) =>
+        action.Type == CorporateActionType.SymbolChange || action.Type == CorporateActionType.Merger;
+
+    // Ticker a holding ends up under after its symbol changes and mergers, in date order so chains are followed
+    public static string Resolve(string symbol, IEnumerable<CorporateAction> actions)
+    {
+        foreach (var action in actions.Where(ChangesSymbol).OrderBy(a => a.Date).ThenBy(a => a.Id))
+        {
+            if (Matches(action, symbol))
+                symbol = Rename(action, symbol);
+        }
+
+        return symbol;
+    }
+
+    public static void Apply(CorporateAction action, IEnumerable<LedgerLot> lots)
+    {
+        foreach (var lot in lots.Where(l => Matches(action, l.Symbol)))
+        {
+            if (action.Type != CorporateActionType.SymbolChange)
+            {
+                var cost = lot.Quantity * lot.UnitCost;
+                var quantity = lot.Quantity * Ratio(action);
+                if (action.Type == CorporateActionType.Bonus && action.BonusUnitCost.HasValue)
+                    cost += (quantity - lot.Quantity) * action.BonusUnitCost.Value;
+
+                lot.Quantity = quantity;
+                if (quantity != 0)
+                    lot.UnitCost = cost / quantity;
+            }
+
+            if (ChangesSymbol(action))
+                lot.Symbol = Rename(action, lot.Symbol);
+        }
+    }
+
+    // Null when the action is consistent, otherwise what is wrong with it
+    public static string? Validate(CreateCorporateActionRequest request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Symbol))
+            return "Symbol is required";
+
+        if (request.Type is CorporateActionType.SymbolChange or CorporateActionType.Merger)
+        {
+            if (string.IsNullOrWhiteSpace(request.NewSymbol))
+                return "New symbol is required";
+            if (string.Equals(request.NewSymbol.Trim(), request.Symbol.Trim(), StringComparison.OrdinalIgnoreCase))
+                return "New symbol must differ from the symbol";
+        }
+
+        if (request.Type == CorporateActionType.SymbolChange)
+            return null;
+
+        if (request.RatioFrom <= 0 || request.RatioTo <= 0)
+            return "Ratio must be positive";
+
+        return request.Type switch
+        {
+            CorporateActionType.Split or CorporateActionType.Bonus when request.RatioTo <= request.RatioFrom =>
+                "A split or bonus must increase the number of units",
+            CorporateActionType.ReverseSplit when request.RatioTo >= request.RatioFrom =>
+                "A reverse split must decrease the number of units",
+            _ => null
+        };
+    }
+
+    public static string StripSuffix(string symbol)
+    {
+        var suffix = SuffixOf(symbol);
+        return suffix != null ? symbol[..^suffix.Length] : symbol;
+    }
+
+    private static decimal Ratio(CorporateAction action) =>
+        action.RatioFrom > 0 ? action.RatioTo / action.RatioFrom : 1m;
+
+    // The new ticker keeps the listing of the old one unless it names its own, so "ABCD3.SA" renamed to
+    // "WXYZ3" is quoted as "WXYZ3.SA"
+    private static string Rename(CorporateAction action, string symbol)
+    {
+        var newSymbol = (action.NewSymbol ?? symbol).Trim().ToUpper();
+        var suffix = SuffixOf(symbol);
+        return suffix != null && ExchangeRegistry.InferFromSymbol(newSymbol) == null ? newSymbol + suffix : newSymbol;
+    }
+
+    private static string? SuffixOf(string symbol) =>
+        ExchangeRegistry.All.FirstOrDefault(e => e.Suffix != null && symbol.EndsWith(e.Suffix))?.Suffix;
+}
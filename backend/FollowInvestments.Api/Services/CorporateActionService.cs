@@ -0,0 +1,93 @@
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace FollowInvestments.Api.Services;
+
+public interface ICorporateActionService
+{
+    Task<List<CorporateAction>> GetActionsAsync(IEnumerable<Investment> investments, DateOnly asOf);
+    Task<CorporateAction> CreateAsync(int userId, CreateCorporateActionRequest request);
+    Task<int> ImportAsync(int userId, List<CreateCorporateActionRequest> rows);
+}
+
+public class CorporateActionService : ICorporateActionService
+{
+    private readonly InvestmentContext _context;
+
+    public CorporateActionService(InvestmentContext context)
+    {
+        _context = context;
+    }
+
+    // Actions entered by the owners of the transactions that are in effect on the date
+    public async Task<List<CorporateAction>> GetActionsAsync(IEnumerable<Investment> investments, DateOnly asOf)
+    {
+        var userIds = investments.Select(i => i.UserId).Distinct().ToList();
+        if (!userIds.Any())
+            return new List<CorporateAction>();
+
+        return await _context.CorporateActions
+            .Where(a => userIds.Contains(a.UserId) && a.Date <= asOf)
+            .OrderBy(a => a.Date)
+            .ThenBy(a => a.Id)
+            .ToListAsync();
+    }
+
+    public async Task<CorporateAction> CreateAsync(int userId, CreateCorporateActionRequest request)
+    {
+        var action = ToAction(userId, request);
+        _context.CorporateActions.Add(action);
+        await _context.SaveChangesAsync();
+        return action;
+    }
+
+    // Actions already stored for the same symbol, type and date are skipped, so a list can be imported again
+    public async Task<int> ImportAsync(int userId, List<CreateCorporateActionRequest> rows)
+    {
+        var invalid = rows
+            .Select((row, index) => (Line: index + 1, Error: CorporateActionCalculator.Validate(row)))
+            .FirstOrDefault(r => r.Error != null);
+        if (invalid.Error != null)
+            throw new InvalidOperationException($"Row {invalid.Line}: {invalid.Error}");
+
+        var existing = (await _context.CorporateActions
+            .Where(a => a.UserId == userId)
+            .Select(a => new { a.Type, a.Date, a.Symbol })
+            .ToListAsync())
+            .Select(a => (a.Type, a.Date, a.Symbol))
+            .ToHashSet();
+
+        var imported = 0;
+        foreach (var action in rows.Select(row => ToAction(userId, row)))
+        {
+            if (!existing.Add((action.Type, action.Date, action.Symbol)))
+                continue;
+
+            _context.CorporateActions.Add(action);
+            imported++;
+        }
+
+        await _context.SaveChangesAsync();
+        return imported;
+    }
+
+    // Symbol changes keep the number of units, whatever ratio was sent
+    private static CorporateAction ToAction(int userId, CreateCorporateActionRequest request)
+    {
+        var keepsUnits = request.Type == CorporateActionType.SymbolChange;
+
+        return new CorporateAction
+        {
+            UserId = userId,
+            Type = request.Type,
+            Date = request.Date,
+            Symbol = request.Symbol.Trim().ToUpper(),
+            NewSymbol = string.IsNullOrWhiteSpace(request.NewSymbol) ? null : request.NewSymbol.Trim().ToUpper(),
+            RatioFrom = keepsUnits ? 1m : request.RatioFrom,
+            RatioTo = keepsUnits ? 1m : request.RatioTo,
+            BonusUnitCost = request.Type == CorporateActionType.Bonus ? request.BonusUnitCost : null,
+            Note = string.IsNullOrWhiteSpace(request.Note) ? null : request.Note.Trim()
+        };
+    }
+}
@@ -0,0 +1,41 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Every supported currency is described here once; exchange rates, countries and the frontend
+// formatting all come from this list, so a new currency only needs an enum member and an entry
+public static class CurrencyRegistry
+{
+    public static readonly IReadOnlyList<CurrencyInfo> All = new List<CurrencyInfo>
+    {
+        new() { Code = Currency.BRL, Symbol = "R$", Locale = "pt-BR", Country = "Brazil", CountryCode = "BRA", Decimals = 2 },
+        new() { Code = Currency.CAD, Symbol = "CA$", Locale = "en-CA", Country = "Canada", CountryCode = "CAN", Decimals = 2 },
+        new() { Code = Currency.USD, Symbol = "US$", Locale = "en-US", Country = "United States", CountryCode = "USA", Decimals = 2 },
+        new() { Code = Currency.EUR, Symbol = "€", Locale = "de-DE", Country = "Eurozone", CountryCode = "EU", Decimals = 2 },
+        new() { Code = Currency.GBP, Symbol = "£", Locale = "en-GB", Country = "United Kingdom", CountryCode = "GBR", Decimals = 2 },
+        new() { Code = Currency.JPY, Symbol = "¥", Locale = "ja-JP", Country = "Japan", CountryCode = "JPN", Decimals = 0 }
+    };
+
+    public static CurrencyInfo? Get(Currency currency) => All.FirstOrDefault(c => c.Code == currency);
+
+    public static string GetCountry(Currency currency) => Get(currency)?.Country ?? "Unknown";
+
+    // Every ordered pair of registered currencies, e.g. ("CAD", "BRL") and ("BRL", "CAD")
+    public static IEnumerable<(string From, string To)> GetPairs() =>
+        from source in All
+        from target in All
+        where source.Code != target.Code
+        select (source.Code.ToString(), target.Code.ToString());
+}
+
+public class CurrencyInfo
+{
+    public Currency Code { get; set; }
+    public string Symbol { get; set; } = string.Empty;
+    // BCP 47 locale used to group digits, e.g. "pt-BR" writes 1.234,56
+    public string Locale { get; set; } = string.Empty;
+    public string Country { get; set; } = string.Empty;
+    // ISO 3166 alpha-3 code shown next to accounts, or a short label for currency unions
+    public string CountryCode { get; set; } = string.Empty;
+    public int Decimals { get; set; }
+}
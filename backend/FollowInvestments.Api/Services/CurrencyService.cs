@@ -7,21 +7,20 @@ namespace FollowInvestments.Api.Services;
 
 public class CurrencyService : ICurrencyService
 {
+    // Stored history is refetched when it starts after the requested range or ends before it by more than this many days,
+    // and a past rate is only used for a date this close to it (weekends and holidays have no quotes)
+    private const int HistoryToleranceDays = 7;
+
     private readonly InvestmentContext _context;
     private readonly HttpClient _httpClient;
+    private readonly IYahooFinanceService _yahooFinanceService;
     private readonly ILogger<CurrencyService> _logger;
 
-    // Currency pairs we need to track (all pairs between USD, CAD, BRL)
-    private readonly string[] _currencyPairs = {
-        "CADUSD=X", "USDCAD=X",
-        "BRLUSD=X", "USDBRL=X", 
-        "CADBRL=X", "BRLCAD=X"
-    };
-
-    public CurrencyService(InvestmentContext context, HttpClient httpClient, ILogger<CurrencyService> logger)
+    public CurrencyService(InvestmentContext context, HttpClient httpClient, IYahooFinanceService yahooFinanceService, ILogger<CurrencyService> logger)
     {
         _context = context;
         _httpClient = httpClient;
+        _yahooFinanceService = yahooFinanceService;
         _logger = logger;
     }
 
@@ -56,17 +55,14 @@ public class CurrencyService : ICurrencyService
     {
         _logger.LogInformation("Updating all exchange rates...");
 
-        foreach (var pair in _currencyPairs)
+        // Track every pair between the registered currencies
+        foreach (var (from, to) in CurrencyRegistry.GetPairs())
         {
-            var currencies = ParseCurrencyPair(pair);
-            if (currencies.HasValue)
+            var rate = await FetchRateFromExternalApiAsync(from, to);
+            if (rate.HasValue)
             {
-                var rate = await FetchRateFromExternalApiAsync(currencies.Value.From, currencies.Value.To);
-                if (rate.HasValue)
-                {
-                    await SaveOrUpdateRateAsync(currencies.Value.From, currencies.Value.To, rate.Value);
-                    _logger.LogInformation($"Updated {currencies.Value.From} to {currencies.Value.To}: {rate.Value}");
-                }
+                await SaveOrUpdateRateAsync(from, to, rate.Value);
+                _logger.LogInformation($"Updated {from} to {to}: {rate.Value}");
             }
         }
     }
@@ -104,6 +100,134 @@ public class CurrencyService : ICurrencyService
         return lastUpdate == default ? null : lastUpdate;
     }
 
+    public async Task<List<(DateOnly Date, decimal Value)>> GetRateHistoryAsync(string fromCurrency, string toCurrency, DateOnly startDate, DateOnly endDate)
+    {
+        var stored = await _context.ExchangeRateHistory
+            .Where(h => h.FromCurrency == fromCurrency && h.ToCurrency == toCurrency && h.RateDate >= startDate.AddDays(-HistoryToleranceDays))
+            .OrderBy(h => h.RateDate)
+            .ToListAsync();
+
+        if (!stored.Any() ||
+            stored.First().RateDate > startDate.AddDays(HistoryToleranceDays) ||
+            stored.Last().RateDate < endDate.AddDays(-HistoryToleranceDays))
+        {
+            try
+            {
+                // Yahoo Finance quotes currency pairs like a stock, e.g. "CADBRL=X"
+                var fetched = await _yahooFinanceService.GetStockPricesAsync($"{fromCurrency}{toCurrency}=X", startDate.AddDays(-HistoryToleranceDays), endDate);
+                var storedDates = stored.Select(h => h.RateDate).ToHashSet();
+                var missing = fetched
+                    .Where(sp => !storedDates.Contains(sp.PriceDate))
+                    .Select(sp => new ExchangeRateHistory
+                    {
+                        FromCurrency = fromCurrency,
+                        ToCurrency = toCurrency,
+                        RateDate = sp.PriceDate,
+                        Rate = sp.ClosePrice
+                    })
+                    .ToList();
+
+                if (missing.Any())
+                {
+                    _context.ExchangeRateHistory.AddRange(missing);
+                    await _context.SaveChangesAsync();
+                    _logger.LogInformation("Backfilled {Count} {From}/{To} rates", missing.Count, fromCurrency, toCurrency);
+                }
+
+                stored = stored.Concat(missing).OrderBy(h => h.RateDate).ToList();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Could not backfill exchange rate history for {From}/{To}", fromCurrency, toCurrency);
+            }
+        }
+
+        return stored.Select(h => (h.RateDate, h.Rate)).ToList();
+    }
+
+    public async Task<decimal?> GetHistoricalRateAsync(string fromCurrency, string toCurrency, DateOnly date)
+    {
+        if (fromCurrency == toCurrency)
+            return 1.0m;
+
+        var history = await GetRateHistoryAsync(fromCurrency, toCurrency, date, date);
+        var rate = FindRateNear(history, date);
+
+        // Today's close may not be quoted yet, the live rate stands in for recent dates
+        if (!rate.HasValue && date >= DateOnly.FromDateTime(DateTime.UtcNow).AddDays(-HistoryToleranceDays))
+            rate = await GetExchangeRateAsync(fromCurrency, toCurrency);
+
+        return rate;
+    }
+
+    // Sets the rate of each transaction's date on those without one, and of their costs when charged in another
+    // currency; the caller saves the investments.
+    // Returns how many were filled, transactions whose date has no rate within the tolerance stay empty.
+    public async Task<int> FillTransactionRatesAsync(IEnumerable<Investment> investments, Currency homeCurrency)
+    {
+        var filled = 0;
+
+        foreach (var group in investments.Where(i => !i.FxRate.HasValue).GroupBy(i => i.Currency))
+        {
+            if (group.Key == homeCurrency)
+            {
+                foreach (var investment in group)
+                    investment.FxRate = 1m;
+                filled += group.Count();
+                continue;
+            }
+
+            // One history request covers every transaction in the currency
+            var from = group.Key.ToString();
+            var to = homeCurrency.ToString();
+            var history = await GetRateHistoryAsync(
+                from, to, DateOnly.FromDateTime(group.Min(i => i.Date)), DateOnly.FromDateTime(group.Max(i => i.Date)));
+            var recentCutoff = DateOnly.FromDateTime(DateTime.UtcNow).AddDays(-HistoryToleranceDays);
+
+            foreach (var investment in group)
+            {
+                var date = DateOnly.FromDateTime(investment.Date);
+                var rate = FindRateNear(history, date);
+                if (!rate.HasValue && date >= recentCutoff)
+                    rate = await GetExchangeRateAsync(from, to);
+
+                if (rate.HasValue)
+                {
+                    investment.FxRate = rate.Value;
+                    filled++;
+                }
+            }
+        }
+
+        // Fees and taxes charged in another currency, e.g. IOF in BRL on a USD purchase
+        foreach (var investment in investments.Where(i => i.CostCurrency.HasValue && i.CostCurrency != i.Currency && !i.CostFxRate.HasValue))
+        {
+            var rate = await GetHistoricalRateAsync(
+                investment.CostCurrency!.Value.ToString(), investment.Currency.ToString(), DateOnly.FromDateTime(investment.Date));
+            if (rate.HasValue)
+            {
+                investment.CostFxRate = rate.Value;
+                filled++;
+            }
+        }
+
+        return filled;
+    }
+
+    // Last rate on or before the date, else the first one after it, within the tolerance either way
+    private static decimal? FindRateNear(List<(DateOnly Date, decimal Value)> history, DateOnly date)
+    {
+        var before = history.LastOrDefault(h => h.Date <= date);
+        if (before != default && before.Date >= date.AddDays(-HistoryToleranceDays))
+            return before.Value;
+
+        var after = history.FirstOrDefault(h => h.Date > date);
+        if (after != default && after.Date <= date.AddDays(HistoryToleranceDays))
+            return after.Value;
+
+        return null;
+    }
+
     private async Task<decimal?> FetchRateFromExternalApiAsync(string fromCurrency, string toCurrency)
     {
         // Try ExchangeRate-API first (more reliable)
@@ -210,18 +334,29 @@ public class CurrencyService : ICurrencyService
             _context.ExchangeRates.Add(newRate);
         }
 
-        await _context.SaveChangesAsync();
-    }
+        // Keep one rate per day so past portfolio values can be converted at the rate of their date
+        var today = DateOnly.FromDateTime(DateTime.UtcNow);
+        var todayRate = await _context.ExchangeRateHistory
+            .FirstOrDefaultAsync(h => h.FromCurrency == fromCurrency && h.ToCurrency == toCurrency && h.RateDate == today);
 
-    private (string From, string To)? ParseCurrencyPair(string pair)
-    {
-        if (pair.EndsWith("=X") && pair.Length == 8)
+        if (todayRate != null)
         {
-            var currencies = pair.Substring(0, 6);
-            return (currencies.Substring(0, 3), currencies.Substring(3, 3));
+            todayRate.Rate = rate;
         }
-        return null;
+        else
+        {
+            _context.ExchangeRateHistory.Add(new ExchangeRateHistory
+            {
+                FromCurrency = fromCurrency,
+                ToCurrency = toCurrency,
+                RateDate = today,
+                Rate = rate
+            });
+        }
+
+        await _context.SaveChangesAsync();
     }
+
 }
 
 // Yahoo Finance Currency API response models
@@ -0,0 +1,39 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Markets an investment can trade on and the Yahoo Finance suffix that identifies them in a symbol,
+// e.g. "PETR4.SA" trades on B3 and "VFV.TO" on the TSX. US listings have no suffix
+public static class ExchangeRegistry
+{
+    public static readonly IReadOnlyList<ExchangeInfo> All = new List<ExchangeInfo>
+    {
+        new() { Code = Exchange.B3, Name = "B3 (Brasil Bolsa Balcão)", Suffix = ".SA", Country = "Brazil", Currency = Currency.BRL },
+        new() { Code = Exchange.TSX, Name = "Toronto Stock Exchange", Suffix = ".TO", Country = "Canada", Currency = Currency.CAD },
+        new() { Code = Exchange.TSXV, Name = "TSX Venture Exchange", Suffix = ".V", Country = "Canada", Currency = Currency.CAD },
+        new() { Code = Exchange.NYSE, Name = "New York Stock Exchange", Suffix = null, Country = "United States", Currency = Currency.USD },
+        new() { Code = Exchange.Nasdaq, Name = "Nasdaq", Suffix = null, Country = "United States", Currency = Currency.USD },
+        new() { Code = Exchange.LSE, Name = "London Stock Exchange", Suffix = ".L", Country = "United Kingdom", Currency = Currency.GBP },
+        new() { Code = Exchange.Xetra, Name = "Xetra (Frankfurt)", Suffix = ".DE", Country = "Germany", Currency = Currency.EUR },
+        new() { Code = Exchange.TSE, Name = "Tokyo Stock Exchange", Suffix = ".T", Country = "Japan", Currency = Currency.JPY }
+    };
+
+    public static ExchangeInfo? Get(Exchange exchange) => All.FirstOrDefault(e => e.Code == exchange);
+
+    // Exchange named by the symbol suffix, null for symbols without one
+    public static Exchange? InferFromSymbol(string symbol)
+    {
+        var upper = symbol.Trim().ToUpperInvariant();
+        return All.FirstOrDefault(e => e.Suffix != null && upper.EndsWith(e.Suffix))?.Code;
+    }
+}
+
+public class ExchangeInfo
+{
+    public Exchange Code { get; set; }
+    public string Name { get; set; } = string.Empty;
+    public string? Suffix { get; set; }
+    public string Country { get; set; } = string.Empty;
+    // Currency the market quotes in
+    public Currency Currency { get; set; }
+}
@@ -0,0 +1,119 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Daily accrual of index-linked fixed income, following the Brazilian conventions: rates are yearly over
+// 252 business days, weekends never accrue and CDI or Selic holidays are the business days missing from
+// the stored series. Days after the last stored rate accrue at that rate until newer ones are imported.
+public static class FixedIncomeCalculator
+{
+    private const double BusinessDaysPerYear = 252;
+
+    // Returns null when the index has no stored rates to accrue with
+    public static AccrualCurve? BuildCurve(FixedIncomeIndexer indexer, decimal rate, DateOnly start, DateOnly end, List<IndexRate> indexRates)
+    {
+        if (indexer != FixedIncomeIndexer.Prefixed && !indexRates.Any())
+            return null;
+
+        var sorted = indexRates.OrderBy(r => r.Date).ToList();
+        var byDate = sorted.ToDictionary(r => r.Date, r => r.Rate);
+        // A curve ending before it starts, e.g. for a purchase dated in the future, is flat
+        var days = Math.Max(end.DayNumber - start.DayNumber, 0);
+        var cumulative = new decimal[days + 1];
+        cumulative[0] = 1m;
+
+        var rateIndex = 0;
+        for (var i = 0; i < days; i++)
+        {
+            var date = start.AddDays(i);
+
+            // The latest index rate published on or before the day, the first one for days before the series
+            while (rateIndex + 1 < sorted.Count && sorted[rateIndex + 1].Date <= date)
+                rateIndex++;
+
+            cumulative[i + 1] = cumulative[i] * DailyFactor(indexer, rate, date, byDate, sorted, rateIndex);
+        }
+
+        return new AccrualCurve(start, cumulative);
+    }
+
+    private static decimal DailyFactor(
+        FixedIncomeIndexer indexer,
+        decimal rate,
+        DateOnly date,
+        Dictionary<DateOnly, decimal> byDate,
+        List<IndexRate> sorted,
+        int rateIndex)
+    {
+        var isBusinessDay = date.DayOfWeek != DayOfWeek.Saturday && date.DayOfWeek != DayOfWeek.Sunday;
+
+        switch (indexer)
+        {
+            case FixedIncomeIndexer.Prefixed:
+                return isBusinessDay ? YearlyToDaily(rate) : 1m;
+
+            case FixedIncomeIndexer.Cdi:
+            case FixedIncomeIndexer.Selic:
+                if (!isBusinessDay)
+                    return 1m;
+
+                // Inside the stored series a missing business day is a holiday
+                decimal dailyRate;
+                if (byDate.TryGetValue(date, out var stored))
+                    dailyRate = stored;
+                else if (date > sorted.First().Date && date < sorted.Last().Date)
+                    return 1m;
+                else
+                    dailyRate = sorted[rateIndex].Rate;
+
+                // A percentage of the index, e.g. 110% of the CDI
+                return 1m + dailyRate / 100m * rate / 100m;
+
+            case FixedIncomeIndexer.Ipca:
+                // The month's inflation is spread over its calendar days, the spread over business days
+                var monthRate = sorted[rateIndex].Rate;
+                var daysInMonth = DateTime.DaysInMonth(date.Year, date.Month);
+                var inflation = (decimal)Math.Pow(1 + (double)monthRate / 100, 1.0 / daysInMonth);
+                return inflation * (isBusinessDay ? YearlyToDaily(rate) : 1m);
+
+            default:
+                return 1m;
+        }
+    }
+
+    private static decimal YearlyToDaily(decimal yearlyRate) =>
+        (decimal)Math.Pow(1 + (double)yearlyRate / 100, 1 / BusinessDaysPerYear);
+
+    // Regressive income tax on fixed income yield, in percent of the gain, by days held
+    public static decimal IncomeTaxRate(int daysHeld) => daysHeld switch
+    {
+        <= 180 => 22.5m,
+        <= 360 => 20m,
+        <= 720 => 17.5m,
+        _ => 15m
+    };
+}
+
+// Cumulative growth of one indexed rate, day by day
+public class AccrualCurve
+{
+    private readonly DateOnly _start;
+    private readonly decimal[] _cumulative;
+
+    public AccrualCurve(DateOnly start, decimal[] cumulative)
+    {
+        _start = start;
+        _cumulative = cumulative;
+    }
+
+    public DateOnly Start => _start;
+    public DateOnly End => _start.AddDays(_cumulative.Length - 1);
+
+    // Growth of one unit held from the start of one day to the start of another
+    public decimal Factor(DateOnly from, DateOnly to)
+    {
+        var fromIndex = Math.Clamp(from.DayNumber - _start.DayNumber, 0, _cumulative.Length - 1);
+        var toIndex = Math.Clamp(to.DayNumber - _start.DayNumber, 0, _cumulative.Length - 1);
+        return toIndex <= fromIndex ? 1m : _cumulative[toIndex] / _cumulative[fromIndex];
+    }
+}
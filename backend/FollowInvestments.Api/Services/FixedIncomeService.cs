@@ -0,0 +1,236 @@
+using System.Globalization;
+using System.Text.Json;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IFixedIncomeService
+{
+    Task<FixedIncomeAccrual?> GetAccrualAsync(LedgerPosition position, DateOnly date);
+    Task<List<IndexRateSummary>> GetSummaryAsync();
+    Task<int> ImportRatesAsync(FixedIncomeIndexer indexer, List<IndexRateRow> rows);
+    Task<int> SyncRatesAsync(FixedIncomeIndexer indexer);
+}
+
+public class FixedIncomeService : IFixedIncomeService
+{
+    // Banco Central SGS series: CDI and Selic in percent per business day, IPCA in percent per month
+    private static readonly Dictionary<FixedIncomeIndexer, int> BcbSeries = new()
+    {
+        [FixedIncomeIndexer.Cdi] = 12,
+        [FixedIncomeIndexer.Selic] = 11,
+        [FixedIncomeIndexer.Ipca] = 433
+    };
+
+    // The SGS API refuses daily series spanning more than ten years
+    private const int MaxSyncYears = 10;
+
+    private readonly HttpClient _httpClient;
+    private readonly InvestmentContext _context;
+    private readonly ILogger<FixedIncomeService> _logger;
+
+    // Rates and curves are reused across the holdings and timeline points of one request
+    private readonly Dictionary<FixedIncomeIndexer, List<IndexRate>> _rates = new();
+    private readonly Dictionary<(FixedIncomeIndexer Indexer, decimal Rate), AccrualCurve?> _curves = new();
+
+    public FixedIncomeService(HttpClient httpClient, InvestmentContext context, ILogger<FixedIncomeService> logger)
+    {
+        _httpClient = httpClient;
+        _context = context;
+        _logger = logger;
+    }
+
+    // Values every open lot from its purchase date at the terms of the purchase. Lots bought without terms take
+    // those of the holding's latest indexed purchase, lots bought on or after the date are worth their cost.
+    // Null when the holding is not indexed or its index has no rates.
+    public async Task<FixedIncomeAccrual?> GetAccrualAsync(LedgerPosition position, DateOnly date)
+    {
+        var holdingTerms = position.Transactions.LastOrDefault(t => t.Indexer.HasValue && t.IndexerRate.HasValue);
+        if (holdingTerms == null)
+            return null;
+
+        var accrual = new FixedIncomeAccrual();
+        foreach (var lot in position.OpenLots)
+        {
+            var terms = position.Transactions.FirstOrDefault(t => t.Id == lot.InvestmentId && t.Indexer.HasValue && t.IndexerRate.HasValue)
+                ?? holdingTerms;
+            var purchaseDate = DateOnly.FromDateTime(lot.Date);
+            var endDate = terms.MaturityDate.HasValue && terms.MaturityDate.Value < date ? terms.MaturityDate.Value : date;
+            var cost = lot.Quantity * lot.UnitCost;
+
+            // A lot bought after the date, such as a purchase scheduled ahead, has not accrued anything yet
+            if (purchaseDate >= endDate)
+            {
+                accrual.Value += cost;
+                continue;
+            }
+
+            var curve = await GetCurveAsync(terms.Indexer!.Value, terms.IndexerRate!.Value, purchaseDate);
+            if (curve == null)
+                return null;
+
+            var value = cost * curve.Factor(purchaseDate, endDate);
+            accrual.Value += value;
+
+            if (!terms.IsTaxExempt && value > cost)
+            {
+                var daysHeld = endDate.DayNumber - purchaseDate.DayNumber;
+                accrual.EstimatedIncomeTax += (value - cost) * FixedIncomeCalculator.IncomeTaxRate(daysHeld) / 100m;
+            }
+        }
+
+        accrual.Value = Math.Round(accrual.Value, 2);
+        accrual.EstimatedIncomeTax = Math.Round(accrual.EstimatedIncomeTax, 2);
+        return accrual;
+    }
+
+    public async Task<List<IndexRateSummary>> GetSummaryAsync()
+    {
+        var summaries = new List<IndexRateSummary>();
+        foreach (var indexer in BcbSeries.Keys)
+        {
+            var rates = _context.IndexRates.Where(r => r.Indexer == indexer);
+            var latest = await rates.OrderByDescending(r => r.Date).FirstOrDefaultAsync();
+
+            summaries.Add(new IndexRateSummary
+            {
+                Indexer = indexer.ToString(),
+                Count = await rates.CountAsync(),
+                FirstDate = await rates.OrderBy(r => r.Date).Select(r => (DateOnly?)r.Date).FirstOrDefaultAsync(),
+                LastDate = latest?.Date,
+                LatestRate = latest?.Rate
+            });
+        }
+
+        return summaries;
+    }
+
+    // Imported rows replace the stored rate of the same date
+    public async Task<int> ImportRatesAsync(FixedIncomeIndexer indexer, List<IndexRateRow> rows)
+    {
+        if (indexer == FixedIncomeIndexer.Prefixed)
+            throw new InvalidOperationException("Prefixed bonds have no index rates");
+
+        var dates = rows.Select(r => NormalizeDate(indexer, r.Date)).ToHashSet();
+        var existing = await _context.IndexRates
+            .Where(r => r.Indexer == indexer && dates.Contains(r.Date))
+            .ToDictionaryAsync(r => r.Date);
+
+        foreach (var row in rows.GroupBy(r => NormalizeDate(indexer, r.Date)).Select(g => g.Last()))
+        {
+            var date = NormalizeDate(indexer, row.Date);
+            if (existing.TryGetValue(date, out var stored))
+            {
+                stored.Rate = row.Rate;
+            }
+            else
+            {
+                _context.IndexRates.Add(new IndexRate { Indexer = indexer, Date = date, Rate = row.Rate });
+            }
+        }
+
+        await _context.SaveChangesAsync();
+        _rates.Remove(indexer);
+        foreach (var key in _curves.Keys.Where(k => k.Indexer == indexer).ToList())
+            _curves.Remove(key);
+        _logger.LogInformation("Imported {Count} {Indexer} rates", dates.Count, indexer);
+
+        return dates.Count;
+    }
+
+    // Fetches the rates published since the last stored one from the Banco Central
+    public async Task<int> SyncRatesAsync(FixedIncomeIndexer indexer)
+    {
+        if (!BcbSeries.TryGetValue(indexer, out var series))
+            throw new InvalidOperationException($"{indexer} has no Banco Central series");
+
+        var today = DateOnly.FromDateTime(DateTime.UtcNow);
+        var lastStored = await _context.IndexRates
+            .Where(r => r.Indexer == indexer)
+            .OrderByDescending(r => r.Date)
+            .Select(r => (DateOnly?)r.Date)
+            .FirstOrDefaultAsync();
+        var startDate = lastStored?.AddDays(1) ?? today.AddYears(-MaxSyncYears).AddDays(1);
+        if (startDate > today)
+            return 0;
+
+        var url = $"https://api.bcb.gov.br/dados/serie/bcdata.sgs.{series}/dados?formato=json" +
+            $"&dataInicial={startDate.ToString("dd/MM/yyyy", CultureInfo.InvariantCulture)}" +
+            $"&dataFinal={today.ToString("dd/MM/yyyy", CultureInfo.InvariantCulture)}";
+
+        try
+        {
+            _logger.LogInformation("Fetching {Indexer} rates from the Banco Central: {Url}", indexer, url);
+            var response = await _httpClient.GetAsync(url);
+
+            // The series answers 404 when nothing was published in the range
+            if (response.StatusCode == System.Net.HttpStatusCode.NotFound)
+                return 0;
+            response.EnsureSuccessStatusCode();
+
+            var json = await response.Content.ReadAsStringAsync();
+            var values = JsonSerializer.Deserialize<List<BcbSeriesValue>>(json, new JsonSerializerOptions
+            {
+                PropertyNameCaseInsensitive = true
+            }) ?? new List<BcbSeriesValue>();
+
+            var rows = values
+                .Select(v => new
+                {
+                    Parsed = DateOnly.TryParseExact(v.Data, "dd/MM/yyyy", CultureInfo.InvariantCulture, DateTimeStyles.None, out var date),
+                    Date = date,
+                    HasRate = decimal.TryParse(v.Valor, NumberStyles.Number, CultureInfo.InvariantCulture, out var rate),
+                    Rate = rate
+                })
+                .Where(v => v.Parsed && v.HasRate && v.Date >= startDate)
+                .Select(v => new IndexRateRow { Date = v.Date, Rate = v.Rate })
+                .ToList();
+
+            return rows.Any() ? await ImportRatesAsync(indexer, rows) : 0;
+        }
+        catch (HttpRequestException ex)
+        {
+            _logger.LogError(ex, "HTTP error occurred while fetching {Indexer} rates", indexer);
+            throw new InvalidOperationException($"Failed to fetch {indexer} rates: {ex.Message}", ex);
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogError(ex, "JSON parsing error occurred while processing {Indexer} rates", indexer);
+            throw new InvalidOperationException($"Failed to parse {indexer} rates: {ex.Message}", ex);
+        }
+    }
+
+    private async Task<AccrualCurve?> GetCurveAsync(FixedIncomeIndexer indexer, decimal rate, DateOnly from)
+    {
+        // Curves run to tomorrow so a value as of today includes today's accrual
+        var end = DateOnly.FromDateTime(DateTime.UtcNow).AddDays(1);
+        if (_curves.TryGetValue((indexer, rate), out var cached) && (cached == null || cached.Start <= from))
+            return cached;
+
+        if (!_rates.TryGetValue(indexer, out var rates))
+        {
+            rates = await _context.IndexRates
+                .Where(r => r.Indexer == indexer)
+                .OrderBy(r => r.Date)
+                .ToListAsync();
+            _rates[indexer] = rates;
+        }
+
+        var curve = FixedIncomeCalculator.BuildCurve(indexer, rate, from, end, rates);
+        _curves[(indexer, rate)] = curve;
+        return curve;
+    }
+
+    // IPCA is monthly, its rates are kept on the first of the month
+    private static DateOnly NormalizeDate(FixedIncomeIndexer indexer, DateOnly date) =>
+        indexer == FixedIncomeIndexer.Ipca ? new DateOnly(date.Year, date.Month, 1) : date;
+}
+
+public class FixedIncomeAccrual
+{
+    public decimal Value { get; set; }
+    // Income tax due on the yield if everything were redeemed on the date, zero for tax-exempt bonds
+    public decimal EstimatedIncomeTax { get; set; }
+}
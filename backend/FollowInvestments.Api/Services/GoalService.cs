@@ -0,0 +1,265 @@
+using System.Globalization;
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IGoalService
+{
+    Task<List<AccountValue>> GetAccountValuesAsync(List<Account> accounts, List<Investment> investments, List<AccountPerformance> performances);
+    Task<List<GoalProgress>> CalculateProgressAsync(List<Goal> goals, List<AccountValue> accountValues);
+}
+
+public class GoalService : IGoalService
+{
+    private const decimal DaysPerMonth = 365.25m / 12;
+    // Goals projected to reach at least this share of the target are at risk rather than off track
+    private const decimal AtRiskShare = 0.9m;
+
+    private readonly ICurrencyService _currencyService;
+    private readonly Dictionary<(string From, string To), decimal> _rates = new();
+
+    public GoalService(ICurrencyService currencyService)
+    {
+        _currencyService = currencyService;
+    }
+
+    // Current value with cash and contribution plan of each account, in the currency of its first investment like the
+    // dashboard account cards. Without a plan or an assumed return the account's own history is used instead
+    public async Task<List<AccountValue>> GetAccountValuesAsync(List<Account> accounts, List<Investment> investments, List<AccountPerformance> performances)
+    {
+        var result = new List<AccountValue>();
+        foreach (var account in accounts)
+        {
+            var performance = performances.FirstOrDefault(p => p.AccountId == account.Id);
+            var accountValue = new AccountValue
+            {
+                AccountId = account.Id,
+                AccountName = account.Name,
+                Value = (performance?.CurrentValue ?? 0) + (performance?.TotalCash ?? 0),
+                Currency = investments.FirstOrDefault(i => i.AccountId == account.Id)?.Currency ?? Currency.CAD
+            };
+
+            var lastYear = performance?.Returns.FirstOrDefault(r => r.Period == ReturnPeriod.OneYear);
+            if (account.ContributionAmount.HasValue)
+            {
+                accountValue.MonthlyContribution = ToMonthly(account.ContributionAmount.Value, account.ContributionFrequency);
+            }
+            else if (performance != null && lastYear != null)
+            {
+                // Average net deposit per month over the last year, or since inception for younger accounts
+                var months = (decimal)(lastYear.EndDate - lastYear.StartDate).TotalDays / DaysPerMonth;
+                if (months >= 1)
+                {
+                    var rate = await GetRateAsync(performance.ReturnCurrency, accountValue.Currency.ToString());
+                    accountValue.MonthlyContribution = lastYear.NetContributions / months * rate;
+                    accountValue.ContributionFromHistory = true;
+                }
+            }
+
+            var annualizedReturn = performance?.Returns
+                .FirstOrDefault(r => r.Period == ReturnPeriod.SinceInception)?.AnnualizedTimeWeightedReturn;
+            if (account.ExpectedAnnualReturn.HasValue)
+            {
+                accountValue.AnnualReturn = account.ExpectedAnnualReturn.Value;
+            }
+            else if (annualizedReturn.HasValue)
+            {
+                accountValue.AnnualReturn = annualizedReturn.Value;
+                accountValue.ReturnFromHistory = true;
+            }
+
+            result.Add(accountValue);
+        }
+
+        return result;
+    }
+
+    // Account goals are measured against their account, portfolio goals against every account together,
+    // both converted to the currency the goal is set in and projected to the target date
+    public async Task<List<GoalProgress>> CalculateProgressAsync(List<Goal> goals, List<AccountValue> accountValues)
+    {
+        var today = DateOnly.FromDateTime(DateTime.UtcNow);
+
+        var result = new List<GoalProgress>();
+        foreach (var goal in goals.OrderBy(g => g.TargetDate))
+        {
+            var scope = accountValues.Where(a => goal.AccountId == null || a.AccountId == goal.AccountId).ToList();
+
+            decimal currentValue = 0;
+            decimal monthlyContribution = 0;
+            decimal weightedReturn = 0;
+            foreach (var account in scope)
+            {
+                var rate = await GetRateAsync(account.Currency.ToString(), goal.Currency.ToString());
+                currentValue += account.Value * rate;
+                monthlyContribution += account.MonthlyContribution * rate;
+                weightedReturn += account.AnnualReturn * account.Value * rate;
+            }
+
+            // Portfolio goals grow at the value-weighted return of their accounts
+            var annualReturn = currentValue > 0
+                ? weightedReturn / currentValue
+                : scope.Select(a => a.AnnualReturn).DefaultIfEmpty(0).Average();
+
+            var months = Math.Max(0, (goal.TargetDate.DayNumber - today.DayNumber) / DaysPerMonth);
+            var projectedValue = ProjectValue(currentValue, monthlyContribution, annualReturn, months);
+
+            var accountName = goal.AccountId.HasValue
+                ? accountValues.FirstOrDefault(a => a.AccountId == goal.AccountId)?.AccountName ?? string.Empty
+                : "Portfolio";
+
+            result.Add(new GoalProgress
+            {
+                GoalId = goal.Id,
+                AccountId = goal.AccountId,
+                AccountName = accountName,
+                Name = goal.Name,
+                Label = GetLabel(goal),
+                TargetDate = goal.TargetDate.ToDateTime(TimeOnly.MinValue),
+                TargetAmount = goal.TargetAmount,
+                Currency = goal.Currency.ToString(),
+                CurrentValue = Math.Round(currentValue, 2),
+                Progress = goal.TargetAmount > 0 ? Math.Round(currentValue / goal.TargetAmount * 100, 2) : 0,
+                ProjectedValue = Math.Round(projectedValue, 2),
+                Status = GetStatus(projectedValue, goal.TargetAmount),
+                AnnualReturn = Math.Round(annualReturn, 2),
+                MonthlyContribution = Math.Round(monthlyContribution, 2),
+                RequiredMonthlyContribution = months > 0
+                    ? Math.Round(RequiredMonthlyContribution(goal.TargetAmount, currentValue, annualReturn, months), 2)
+                    : null,
+                ContributionFromHistory = scope.Any(a => a.ContributionFromHistory),
+                ReturnFromHistory = scope.Any(a => a.ReturnFromHistory)
+            });
+        }
+
+        return result;
+    }
+
+    // Unnamed goals are known by their target date, e.g. "Dec 2028"
+    public static string GetLabel(Goal goal) =>
+        string.IsNullOrWhiteSpace(goal.Name)
+            ? goal.TargetDate.ToString("MMM yyyy", CultureInfo.InvariantCulture)
+            : goal.Name;
+
+    // Every goal becomes a marker at its target date, portfolio goals are labelled "Portfolio"
+    public static List<GoalMarker> BuildGoalMarkers(List<Goal> goals, List<Account> allAccounts)
+    {
+        return goals
+            .OrderBy(g => g.TargetDate)
+            .Select(goal =>
+            {
+                var accountName = goal.AccountId.HasValue
+                    ? allAccounts.FirstOrDefault(a => a.Id == goal.AccountId)?.Name ?? string.Empty
+                    : "Portfolio";
+
+                return new GoalMarker
+                {
+                    GoalId = goal.Id,
+                    AccountId = goal.AccountId,
+                    Date = goal.TargetDate.ToDateTime(TimeOnly.MinValue),
+                    Year = goal.TargetDate.Year,
+                    Value = goal.TargetAmount,
+                    Currency = goal.Currency.ToString(),
+                    AccountName = accountName,
+                    Label = $"{accountName}: {GetLabel(goal)}"
+                };
+            })
+            .ToList();
+    }
+
+    public static decimal ToMonthly(decimal amount, ContributionFrequency frequency) => frequency switch
+    {
+        ContributionFrequency.Weekly => amount * 52 / 12,
+        ContributionFrequency.Biweekly => amount * 26 / 12,
+        ContributionFrequency.Quarterly => amount / 3,
+        ContributionFrequency.Yearly => amount / 12,
+        _ => amount
+    };
+
+    // Current value compounded monthly at the annual return, plus a contribution at the end of every month
+    public static decimal ProjectValue(decimal presentValue, decimal monthlyContribution, decimal annualReturn, decimal months)
+    {
+        var (growth, annuity) = GrowthFactors(annualReturn, months);
+        return (decimal)((double)presentValue * growth + (double)monthlyContribution * annuity);
+    }
+
+    // Monthly contribution that brings the projection to the target, zero when growth alone gets there
+    public static decimal RequiredMonthlyContribution(decimal targetAmount, decimal presentValue, decimal annualReturn, decimal months)
+    {
+        var (growth, annuity) = GrowthFactors(annualReturn, months);
+        if (annuity <= 0)
+            return 0;
+
+        var gap = (double)targetAmount - (double)presentValue * growth;
+        return Math.Max(0, (decimal)(gap / annuity));
+    }
+
+    public static GoalStatus GetStatus(decimal projectedValue, decimal targetAmount)
+    {
+        if (projectedValue >= targetAmount)
+            return GoalStatus.OnTrack;
+
+        return projectedValue >= targetAmount * AtRiskShare ? GoalStatus.AtRisk : GoalStatus.OffTrack;
+    }
+
+    // Growth of one unit held for the period, and the value one unit contributed every month adds up to
+    private static (double Growth, double Annuity) GrowthFactors(decimal annualReturn, decimal months)
+    {
+        var monthlyRate = Math.Pow(1 + (double)annualReturn / 100, 1.0 / 12) - 1;
+        var growth = Math.Pow(1 + monthlyRate, (double)months);
+        var annuity = Math.Abs(monthlyRate) < 1e-12 ? (double)months : (growth - 1) / monthlyRate;
+        return (growth, annuity);
+    }
+
+    private async Task<decimal> GetRateAsync(string from, string to)
+    {
+        if (from == to)
+            return 1m;
+
+        if (!_rates.TryGetValue((from, to), out var rate))
+        {
+            rate = await _currencyService.GetExchangeRateAsync(from, to) ?? 1m;
+            _rates[(from, to)] = rate;
+        }
+
+        return rate;
+    }
+}
+
+public class AccountValue
+{
+    public int AccountId { get; set; }
+    public string AccountName { get; set; } = string.Empty;
+    public decimal Value { get; set; }
+    public Currency Currency { get; set; }
+    public decimal MonthlyContribution { get; set; }
+    // Percent per year
+    public decimal AnnualReturn { get; set; }
+    public bool ContributionFromHistory { get; set; }
+    public bool ReturnFromHistory { get; set; }
+}
+
+public class GoalProgress
+{
+    public int GoalId { get; set; }
+    public int? AccountId { get; set; }
+    public string AccountName { get; set; } = string.Empty;
+    public string? Name { get; set; }
+    public string Label { get; set; } = string.Empty;
+    public DateTime TargetDate { get; set; }
+    public decimal TargetAmount { get; set; }
+    public string Currency { get; set; } = string.Empty;
+    // Value of the account, or of the whole portfolio, in the goal currency
+    public decimal CurrentValue { get; set; }
+    public decimal Progress { get; set; }
+    // Value expected at the target date with the contribution plan and annual return below
+    public decimal ProjectedValue { get; set; }
+    public GoalStatus Status { get; set; }
+    public decimal AnnualReturn { get; set; }
+    public decimal MonthlyContribution { get; set; }
+    // Null once the target date has passed
+    public decimal? RequiredMonthlyContribution { get; set; }
+    // The plan or the return were taken from the account history because none was set
+    public bool ContributionFromHistory { get; set; }
+    public bool ReturnFromHistory { get; set; }
+}
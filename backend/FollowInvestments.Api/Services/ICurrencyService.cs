@@ -1,3 +1,5 @@
+using FollowInvestments.Api.Models;
+
 namespace FollowInvestments.Api.Services;
 
 public interface ICurrencyService
@@ -7,4 +9,7 @@ public interface ICurrencyService
     Task<decimal> ConvertCurrencyAsync(decimal amount, string fromCurrency, string toCurrency);
     Task<Dictionary<string, decimal>> GetAllCurrentRatesAsync();
     Task<DateTime?> GetLastUpdateTimeAsync();
+    Task<List<(DateOnly Date, decimal Value)>> GetRateHistoryAsync(string fromCurrency, string toCurrency, DateOnly startDate, DateOnly endDate);
+    Task<decimal?> GetHistoricalRateAsync(string fromCurrency, string toCurrency, DateOnly date);
+    Task<int> FillTransactionRatesAsync(IEnumerable<Investment> investments, Currency homeCurrency);
 }
\ No newline at end of file
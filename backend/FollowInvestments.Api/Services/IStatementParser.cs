@@ -0,0 +1,16 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Reads one broker's statement export. Adding a broker means writing a parser and registering it in Program.cs
+public interface IStatementParser
+{
+    // Stable identifier sent by the client and used as the prefix of external IDs, e.g. "questrade"
+    string Id { get; }
+    string Name { get; }
+    // Which export the parser reads and where the broker offers it
+    string Description { get; }
+    // Whether the content looks like this broker's export, used to detect the parser
+    bool CanParse(string content);
+    StatementParseResult Parse(string content);
+}
@@ -0,0 +1,356 @@
+using System.Globalization;
+using System.Text.RegularExpressions;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IInvestmentImportService
+{
+    // decimalSeparator is '.' or ',' for every number in the file and dateOrder "DMY" or "MDY" for every
+    // date written with day and month; either is detected from the file when null
+    Task<BulkImportResult> ValidateAsync(int userId, List<ImportInvestmentRow> rows, char? decimalSeparator, string? dateOrder);
+    Task<BulkImportResult> ImportAsync(int userId, List<ImportInvestmentRow> rows, char? decimalSeparator, string? dateOrder);
+}
+
+public class InvestmentImportService : IInvestmentImportService
+{
+    public const string DayMonthYear = "DMY";
+    public const string MonthDayYear = "MDY";
+
+    // Dates that read the same whatever the file's date order
+    private static readonly string[] DateFormats =
+    {
+        "yyyy-MM-dd",
+        "yyyy/MM/dd",
+        "yyyy-MM-dd HH:mm:ss",
+        "yyyy-MM-ddTHH:mm:ss",
+        "yyyy-MM-ddTHH:mm:ssZ",
+        "d MMM yyyy",
+        "d-MMM-yyyy",
+        "MMM d, yyyy"
+    };
+
+    // 03/04/2024, 3-4-2024 or 03.04.2024, with the day and month in the file's order
+    private static readonly Regex DayMonthDate = new(@"^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$");
+
+    private readonly InvestmentContext _context;
+    private readonly ICurrencyService _currencyService;
+    private readonly ILogger<InvestmentImportService> _logger;
+
+    public InvestmentImportService(InvestmentContext context, ICurrencyService currencyService, ILogger<InvestmentImportService> logger)
+    {
+        _context = context;
+        _currencyService = currencyService;
+        _logger = logger;
+    }
+
+    public async Task<BulkImportResult> ValidateAsync(int userId, List<ImportInvestmentRow> rows, char? decimalSeparator, string? dateOrder)
+    {
+        var accounts = await _context.Accounts
+            .Where(a => a.UserId == userId)
+            .ToListAsync();
+
+        // One separator for the whole file, so "1,234" and "1.234" are never read differently within it
+        decimalSeparator ??= DetectDecimalSeparator(rows.SelectMany(r => new[] { r.Value, r.Quantity }));
+        // Likewise one date order, so 03/04/2024 and 12/25/2024 are never read in different orders
+        dateOrder ??= DetectDateOrder(rows.Select(r => r.Date));
+
+        var result = new BulkImportResult
+        {
+            DryRun = true,
+            TotalRows = rows.Count,
+            DecimalSeparator = decimalSeparator?.ToString(),
+            DateOrder = dateOrder
+        };
+
+        for (var i = 0; i < rows.Count; i++)
+        {
+            result.Rows.Add(ValidateRow(rows[i], i + 1, accounts, decimalSeparator, dateOrder));
+        }
+
+        result.ValidRows = result.Rows.Count(r => r.IsValid);
+        return result;
+    }
+
+    public async Task<BulkImportResult> ImportAsync(int userId, List<ImportInvestmentRow> rows, char? decimalSeparator, string? dateOrder)
+    {
+        var result = await ValidateAsync(userId, rows, decimalSeparator, dateOrder);
+        result.DryRun = false;
+
+        // The batch is all-or-nothing so a partially imported file never has to be cleaned up by hand
+        if (result.ValidRows != result.TotalRows)
+        {
+            return result;
+        }
+
+        var investments = result.Rows
+            .Select(r => r.Investment!)
+            .Select(request => new Investment
+            {
+                Name = request.Name,
+                Value = request.Value,
+                Quantity = request.Quantity,
+                Currency = request.Currency,
+                Date = request.Date,
+                Description = request.Description,
+                Category = request.Category,
+                Type = request.Type,
+                AccountId = request.AccountId,
+                Exchange = ExchangeRegistry.InferFromSymbol(request.Name),
+                UserId = userId
+            })
+            .ToList();
+
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        await _currencyService.FillTransactionRatesAsync(investments, user?.HomeCurrency ?? Currency.CAD);
+
+        _context.Investments.AddRange(investments);
+        await _context.SaveChangesAsync();
+
+        result.ImportedCount = investments.Count;
+        _logger.LogInformation("Imported {Count} investments for user {UserId}", investments.Count, userId);
+
+        return result;
+    }
+
+    private static ImportRowResult ValidateRow(ImportInvestmentRow row, int rowNumber, List<Account> accounts, char? decimalSeparator, string? dateOrder)
+    {
+        var rowResult = new ImportRowResult { RowNumber = rowNumber };
+        var errors = rowResult.Errors;
+
+        var name = row.Name?.Trim() ?? string.Empty;
+        if (string.IsNullOrEmpty(name))
+            errors.Add("Name is required");
+        else if (name.Length > 200)
+            errors.Add("Name must be at most 200 characters");
+
+        var valueError = ParseDecimal(row.Value, decimalSeparator, out var value);
+        if (valueError != null)
+            errors.Add($"Value '{row.Value}' {valueError}");
+        else if (value <= 0)
+            errors.Add($"Value '{row.Value}' must be greater than zero; record sales and withdrawals with their type");
+
+        // Quantity is optional for single-unit rows such as fixed income deposits
+        var quantity = 1m;
+        var quantityError = string.IsNullOrWhiteSpace(row.Quantity) ? null : ParseDecimal(row.Quantity, decimalSeparator, out quantity);
+        if (quantityError != null)
+            errors.Add($"Quantity '{row.Quantity}' {quantityError}");
+        else if (quantity <= 0)
+            errors.Add($"Quantity '{row.Quantity}' must be greater than zero; record sales and withdrawals with their type");
+
+        if (!TryParseEnum<Currency>(row.Currency, out var currency))
+            errors.Add($"Currency '{row.Currency}' is not supported. Use one of: {string.Join(", ", Enum.GetNames<Currency>())}");
+
+        var dateError = ParseDate(row.Date, dateOrder, out var date);
+        if (dateError != null)
+            errors.Add($"Date '{row.Date}' {dateError}");
+
+        if (!TryParseEnum<Category>(row.Category, out var category))
+            errors.Add($"Category '{row.Category}' is not supported. Use one of: {string.Join(", ", Enum.GetNames<Category>())}");
+
+        var type = TransactionType.Buy;
+        if (!string.IsNullOrWhiteSpace(row.Type) && !TryParseEnum(row.Type, out type))
+            errors.Add($"Transaction type '{row.Type}' is not supported. Use one of: {string.Join(", ", Enum.GetNames<TransactionType>())}");
+
+        var account = FindAccount(row.Account, accounts);
+        if (account == null)
+            errors.Add($"Account '{row.Account}' does not exist");
+
+        var description = row.Description?.Trim() ?? string.Empty;
+        if (description.Length > 500)
+            errors.Add("Description must be at most 500 characters");
+
+        if (errors.Count == 0)
+        {
+            rowResult.Investment = new CreateInvestmentRequest
+            {
+                Name = name,
+                Value = value,
+                Quantity = quantity,
+                Currency = currency,
+                Date = date,
+                Description = description,
+                Category = category,
+                Type = type,
+                AccountId = account!.Id
+            };
+            rowResult.AccountName = account.Name;
+        }
+
+        return rowResult;
+    }
+
+    private static Account? FindAccount(string? account, List<Account> accounts)
+    {
+        if (string.IsNullOrWhiteSpace(account))
+            return null;
+
+        var trimmed = account.Trim();
+        if (int.TryParse(trimmed, out var accountId))
+        {
+            var byId = accounts.FirstOrDefault(a => a.Id == accountId);
+            if (byId != null)
+                return byId;
+        }
+
+        return accounts.FirstOrDefault(a => a.Name.Equals(trimmed, StringComparison.OrdinalIgnoreCase));
+    }
+
+    // Parses a number written with the file's decimal separator and returns why it could not, or null.
+    // Without a separator only numbers that read the same either way are accepted
+    private static string? ParseDecimal(string? input, char? decimalSeparator, out decimal value)
+    {
+        value = 0;
+        var cleaned = CleanNumber(input);
+        if (string.IsNullOrEmpty(cleaned))
+            return "is not a valid number";
+
+        var separator = decimalSeparator;
+        if (separator == null)
+        {
+            if (cleaned.Contains('.') || cleaned.Contains(','))
+                return "could use either decimal separator; choose the one the file uses";
+            separator = '.';
+        }
+
+        // Thousands separators must group digits by three and come before the decimal separator
+        var thousands = separator == '.' ? ',' : '.';
+        var parts = cleaned.Split(separator.Value);
+        if (parts.Length > 2 || parts.Length == 2 && parts[1].Contains(thousands))
+            return $"does not use '{separator}' as its decimal separator";
+
+        var groups = parts[0].Split(thousands);
+        if (groups.Skip(1).Any(g => g.Length != 3))
+            return $"does not use '{separator}' as its decimal separator";
+
+        var normalized = string.Concat(groups) + (parts.Length == 2 ? "." + parts[1] : string.Empty);
+        return decimal.TryParse(normalized, NumberStyles.AllowLeadingSign | NumberStyles.AllowDecimalPoint, CultureInfo.InvariantCulture, out value)
+            ? null
+            : "is not a valid number";
+    }
+
+    // The decimal separator the file's numbers agree on, or null when none of them tells or they disagree.
+    // "1.234,56", "1,234,567", "12,5" and "0.125" each tell; "1,234" does not, it reads as a thousand or as a fraction
+    private static char? DetectDecimalSeparator(IEnumerable<string?> inputs)
+    {
+        var found = new HashSet<char>();
+        foreach (var cleaned in inputs.Select(CleanNumber))
+        {
+            var lastComma = cleaned.LastIndexOf(',');
+            var lastDot = cleaned.LastIndexOf('.');
+            if (lastComma >= 0 && lastDot >= 0)
+            {
+                found.Add(lastComma > lastDot ? ',' : '.');
+                continue;
+            }
+
+            var last = Math.Max(lastComma, lastDot);
+            if (last < 0)
+                continue;
+
+            var mark = cleaned[last];
+            if (cleaned.Count(c => c == mark) > 1)
+                found.Add(mark == ',' ? '.' : ',');
+            else if (cleaned.Length - last - 1 != 3 || cleaned[..last].TrimStart('-') is "" or "0")
+                found.Add(mark);
+        }
+
+        return found.Count == 1 ? found.Single() : null;
+    }
+
+    // Strips currency symbols and spaces that spreadsheets often keep in exported cells
+    private static string CleanNumber(string? input) =>
+        input == null ? string.Empty : new string(input.Where(c => char.IsDigit(c) || c == '.' || c == ',' || c == '-').ToArray());
+
+    // Parses a date in the file's date order and returns why it could not, or null. Without an order only
+    // dates that read the same either way are accepted
+    private static string? ParseDate(string? input, string? dateOrder, out DateTime date)
+    {
+        date = default;
+        if (string.IsNullOrWhiteSpace(input))
+            return "is not a valid date";
+
+        var trimmed = input.Trim();
+        if (DateTime.TryParseExact(trimmed, DateFormats, CultureInfo.InvariantCulture, DateTimeStyles.None, out date))
+        {
+            date = DateTime.SpecifyKind(date.Date, DateTimeKind.Utc);
+            return null;
+        }
+
+        var match = DayMonthDate.Match(trimmed);
+        if (!match.Success)
+            return "is not a valid date";
+
+        var first = int.Parse(match.Groups[1].Value);
+        var second = int.Parse(match.Groups[2].Value);
+        var year = int.Parse(match.Groups[3].Value);
+        if (dateOrder == null && first != second)
+            return first <= 12 && second <= 12
+                ? "could be read day first or month first; choose the date order the file uses"
+                : "puts the day and month in another order than the file's other dates; choose the date order the file uses";
+
+        var (day, month) = dateOrder == MonthDayYear ? (second, first) : (first, second);
+        if (year < 1 || month is < 1 or > 12 || day < 1 || day > DateTime.DaysInMonth(year, month))
+            return dateOrder == MonthDayYear ? "is not a month/day/year date" : "is not a day/month/year date";
+
+        date = new DateTime(year, month, day, 0, 0, 0, DateTimeKind.Utc);
+        return null;
+    }
+
+    // The date order the file's dates agree on, or null when none of them tells or they disagree.
+    // "25/12/2024" tells the day comes first and "12/25/2024" the month; "03/04/2024" does not tell
+    private static string? DetectDateOrder(IEnumerable<string?> inputs)
+    {
+        var found = new HashSet<string>();
+        foreach (var input in inputs)
+        {
+            var match = DayMonthDate.Match(input?.Trim() ?? string.Empty);
+            if (!match.Success)
+                continue;
+
+            var first = int.Parse(match.Groups[1].Value);
+            var second = int.Parse(match.Groups[2].Value);
+            if (first > 12 && second <= 12)
+                found.Add(DayMonthYear);
+            else if (second > 12 && first <= 12)
+                found.Add(MonthDayYear);
+        }
+
+        return found.Count == 1 ? found.Single() : null;
+    }
+
+    private static bool TryParseEnum<TEnum>(string? input, out TEnum value) where TEnum : struct, Enum
+    {
+        value = default;
+        if (string.IsNullOrWhiteSpace(input))
+            return false;
+
+        // Accept display labels such as "Renda Fixa" or "Managed Portfolio"
+        var normalized = input.Trim().Replace(" ", string.Empty).Replace("-", string.Empty);
+        return Enum.TryParse(normalized, true, out value) && Enum.IsDefined(value);
+    }
+}
+
+public class BulkImportResult
+{
+    public bool DryRun { get; set; }
+    public int TotalRows { get; set; }
+    public int ValidRows { get; set; }
+    public int ImportedCount { get; set; }
+    // Decimal separator the numbers were read with, null when the file did not tell and none was chosen
+    public string? DecimalSeparator { get; set; }
+    // "DMY" or "MDY" as dates with a day and month were read, null when the file did not tell and none was chosen
+    public string? DateOrder { get; set; }
+    public List<ImportRowResult> Rows { get; set; } = new();
+}
+
+public class ImportRowResult
+{
+    public int RowNumber { get; set; }
+    public bool IsValid => Errors.Count == 0;
+    public List<string> Errors { get; set; } = new();
+    public CreateInvestmentRequest? Investment { get; set; }
+    public string? AccountName { get; set; }
+}
@@ -0,0 +1,374 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IInvestmentLedgerService
+{
+    List<LedgerPosition> BuildPositions(IEnumerable<Investment> transactions, CostBasisMethod method = CostBasisMethod.AverageCost,
+        IEnumerable<CorporateAction>? corporateActions = null);
+}
+
+public class InvestmentLedgerService : IInvestmentLedgerService
+{
+    public const string CashPositionName = "Cash";
+
+    public List<LedgerPosition> BuildPositions(IEnumerable<Investment> transactions, CostBasisMethod method = CostBasisMethod.AverageCost,
+        IEnumerable<CorporateAction>? corporateActions = null)
+    {
+        var transactionList = transactions.ToList();
+        var actions = (corporateActions ?? Enumerable.Empty<CorporateAction>())
+            .OrderBy(a => a.Date)
+            .ThenBy(a => a.Id)
+            .ToList();
+
+        // A holding is identified by its account, name and currency; cash is one balance per account and currency
+        var holdings = transactionList
+            .Where(t => t.Category != Category.Cash)
+            .GroupBy(t => new { t.AccountId, Name = HoldingName(t, transactionList, actions), t.Currency });
+
+        var positions = new List<LedgerPosition>();
+
+        foreach (var holding in holdings)
+        {
+            // Replay transactions in chronological order, buys before sells on the same day
+            var ordered = holding
+                .OrderBy(t => t.Date)
+                .ThenBy(t => IsAcquisition(t.Type) ? 0 : 1)
+                .ThenBy(t => t.Id)
+                .ToList();
+
+            var first = ordered.FirstOrDefault(t => IsAcquisition(t.Type)) ?? ordered.First();
+            var position = new LedgerPosition
+            {
+                AccountId = first.AccountId,
+                AccountName = first.Account?.Name ?? string.Empty,
+                Name = first.Name,
+                Category = first.Category,
+                Currency = first.Currency,
+                Country = first.Country,
+                Transactions = ordered
+            };
+
+            // Actions take effect on their date, before the transactions recorded in the new units that day
+            var pending = new Queue<CorporateAction>(actions);
+            foreach (var transaction in ordered)
+            {
+                while (pending.Count > 0 && pending.Peek().Date <= DateOnly.FromDateTime(transaction.Date))
+                    CorporateActionCalculator.Apply(pending.Dequeue(), position.OpenLots);
+
+                ApplyTransaction(position, transaction, method, actions.Count > 0 ? CorporateActionCalculator.SymbolOf(transaction) : string.Empty);
+            }
+
+            while (pending.Count > 0)
+                CorporateActionCalculator.Apply(pending.Dequeue(), position.OpenLots);
+
+            if (actions.Any(CorporateActionCalculator.ChangesSymbol))
+            {
+                var symbol = CorporateActionCalculator.Resolve(CorporateActionCalculator.SymbolOf(first), actions);
+                if (symbol != CorporateActionCalculator.SymbolOf(first))
+                {
+                    var successor = ordered.FirstOrDefault(t => CorporateActionCalculator.SymbolOf(t) == symbol);
+                    position.Name = successor?.Name ?? CorporateActionCalculator.StripSuffix(symbol);
+                    position.Symbol = symbol;
+                }
+            }
+
+            positions.Add(position);
+        }
+
+        positions.AddRange(BuildCashPositions(transactionList));
+
+        return positions;
+    }
+
+    // Transactions of a ticker that changed or merged join the holding recorded under the ticker it became
+    private static string HoldingName(Investment transaction, List<Investment> transactions, List<CorporateAction> actions)
+    {
+        var name = transaction.Name.Trim().ToUpper();
+        if (!actions.Any(CorporateActionCalculator.ChangesSymbol))
+            return name;
+
+        var symbol = CorporateActionCalculator.SymbolOf(transaction);
+        var resolved = CorporateActionCalculator.Resolve(symbol, actions);
+        if (resolved == symbol)
+            return name;
+
+        var successor = transactions.FirstOrDefault(t =>
+            t.AccountId == transaction.AccountId &&
+            t.Currency == transaction.Currency &&
+            CorporateActionCalculator.SymbolOf(t) == resolved);
+        return successor?.Name.Trim().ToUpper() ?? resolved;
+    }
+
+    // Accounts and currencies whose cash is a balance that every transaction in the currency moves: those with a
+    // Cash transaction in an account that tracks cash. Cash in other accounts is a holding of its own, which
+    // only its Cash transactions move, as it was before accounts tracked cash
+    public static HashSet<(int AccountId, Currency Currency)> TrackedCash(IEnumerable<Investment> transactions) => transactions
+        .Where(t => t.Category == Category.Cash && t.Account?.TracksCash == true)
+        .Select(t => (t.AccountId, t.Currency))
+        .ToHashSet();
+
+    // One position per account and currency with Cash transactions, carried as a single lot at a unit cost of 1
+    private static IEnumerable<LedgerPosition> BuildCashPositions(List<Investment> transactions)
+    {
+        var tracked = TrackedCash(transactions);
+        var cashAccounts = transactions
+            .Where(t => t.Category == Category.Cash)
+            .Select(t => (t.AccountId, t.Currency))
+            .ToHashSet();
+
+        foreach (var (accountId, currency) in cashAccounts)
+        {
+            var isTracked = tracked.Contains((accountId, currency));
+            var movements = transactions
+                .Where(t => t.AccountId == accountId && t.Currency == currency && (isTracked || t.Category == Category.Cash))
+                .OrderBy(t => t.Date)
+                .ThenBy(t => t.Id)
+                .ToList();
+            var cashTransactions = movements.Where(t => t.Category == Category.Cash).ToList();
+            var first = cashTransactions.First();
+
+            var position = new LedgerPosition
+            {
+                AccountId = accountId,
+                AccountName = first.Account?.Name ?? string.Empty,
+                Name = CashPositionName,
+                Category = Category.Cash,
+                Currency = currency,
+                Country = CurrencyRegistry.GetCountry(currency),
+                Transactions = cashTransactions
+            };
+
+            foreach (var transaction in cashTransactions)
+            {
+                if (transaction.Type == TransactionType.Dividend)
+                {
+                    position.IncomeEntries.Add(new LedgerIncome
+                    {
+                        InvestmentId = transaction.Id,
+                        Date = transaction.Date,
+                        Amount = transaction.NetAmount
+                    });
+                }
+                else if (transaction.Type == TransactionType.Fee)
+                {
+                    position.Fees += transaction.NetAmount;
+                }
+            }
+
+            // The first day the balance ends below zero points at a deposit that was not recorded
+            var balance = 0m;
+            foreach (var day in movements.GroupBy(t => t.Date.Date))
+            {
+                balance += day.Sum(CashFlow);
+                if (balance < 0)
+                {
+                    position.OverdrawnOn = day.Key;
+                    break;
+                }
+            }
+
+            position.OpenLots.Add(new LedgerLot
+            {
+                Date = first.Date,
+                Quantity = movements.Sum(CashFlow),
+                UnitCost = 1m
+            });
+
+            yield return position;
+        }
+    }
+
+    // What a transaction adds to or takes from the cash balance of its account and currency.
+    // Deposits and withdrawals of cash are money from outside; of securities they are transfers in kind
+    // that only cost their fees.
+    public static decimal CashFlow(Investment transaction)
+    {
+        if (transaction.Category == Category.Cash)
+        {
+            return transaction.Type switch
+            {
+                TransactionType.Buy or TransactionType.Deposit => transaction.Total - transaction.Costs,
+                TransactionType.Sell or TransactionType.Withdrawal => -transaction.Total - transaction.Costs,
+                TransactionType.Dividend => transaction.NetAmount,
+                _ => -transaction.NetAmount
+            };
+        }
+
+        return transaction.Type switch
+        {
+            TransactionType.Buy or TransactionType.Fee => -transaction.NetAmount,
+            TransactionType.Sell or TransactionType.Dividend => transaction.NetAmount,
+            _ => -transaction.Costs
+        };
+    }
+
+    private static void ApplyTransaction(LedgerPosition position, Investment transaction, CostBasisMethod method, string symbol)
+    {
+        switch (transaction.Type)
+        {
+            case TransactionType.Buy:
+            case TransactionType.Deposit:
+                position.OpenLots.Add(new LedgerLot
+                {
+                    InvestmentId = transaction.Id,
+                    Date = transaction.Date,
+                    Quantity = transaction.Quantity,
+                    // Fees and taxes paid to buy are part of what the units cost
+                    UnitCost = transaction.Quantity != 0 ? transaction.NetAmount / transaction.Quantity : transaction.Value,
+                    FxRate = transaction.FxRate,
+                    Symbol = symbol
+                });
+                break;
+
+            case TransactionType.Sell:
+            case TransactionType.Withdrawal:
+                ApplySale(position, transaction, method);
+                break;
+
+            case TransactionType.Dividend:
+                position.IncomeEntries.Add(new LedgerIncome
+                {
+                    InvestmentId = transaction.Id,
+                    Date = transaction.Date,
+                    Amount = transaction.NetAmount
+                });
+                break;
+
+            case TransactionType.Fee:
+                position.Fees += transaction.NetAmount;
+                break;
+        }
+    }
+
+    private static void ApplySale(LedgerPosition position, Investment transaction, CostBasisMethod method)
+    {
+        var heldQuantity = position.Quantity;
+
+        // Never sell more than is held; the excess has no cost basis to match against
+        var soldQuantity = Math.Min(transaction.Quantity, Math.Max(heldQuantity, 0));
+        var sale = new LedgerSale
+        {
+            InvestmentId = transaction.Id,
+            Date = transaction.Date,
+            Quantity = soldQuantity,
+            // Costs of the sale come off the proceeds, in proportion when less than the whole quantity is matched
+            Proceeds = soldQuantity * transaction.Value - (transaction.Quantity != 0 ? transaction.Costs * soldQuantity / transaction.Quantity : 0)
+        };
+
+        if (soldQuantity > 0)
+        {
+            sale.CostBasis = method == CostBasisMethod.Fifo
+                ? ConsumeFifo(position.OpenLots, soldQuantity)
+                : ConsumeAverageCost(position.OpenLots, soldQuantity, heldQuantity);
+
+            position.OpenLots.RemoveAll(lot => lot.Quantity == 0);
+        }
+
+        sale.RealizedGain = sale.Proceeds - sale.CostBasis;
+        position.Sales.Add(sale);
+    }
+
+    private static decimal ConsumeAverageCost(List<LedgerLot> lots, decimal soldQuantity, decimal heldQuantity)
+    {
+        // Average cost: every open lot is reduced by the same fraction
+        var fraction = soldQuantity / heldQuantity;
+        var costBasis = 0m;
+
+        foreach (var lot in lots)
+        {
+            var lotSold = lot.Quantity * fraction;
+            costBasis += lotSold * lot.UnitCost;
+            lot.Quantity -= lotSold;
+        }
+
+        return costBasis;
+    }
+
+    private static decimal ConsumeFifo(List<LedgerLot> lots, decimal soldQuantity)
+    {
+        // FIFO: the oldest lots are sold first, lots are kept in acquisition order
+        var remaining = soldQuantity;
+        var costBasis = 0m;
+
+        foreach (var lot in lots)
+        {
+            if (remaining <= 0) break;
+
+            var lotSold = Math.Min(lot.Quantity, remaining);
+            costBasis += lotSold * lot.UnitCost;
+            lot.Quantity -= lotSold;
+            remaining -= lotSold;
+        }
+
+        return costBasis;
+    }
+
+    private static bool IsAcquisition(TransactionType type) =>
+        type == TransactionType.Buy || type == TransactionType.Deposit;
+}
+
+public class LedgerPosition
+{
+    public int AccountId { get; set; }
+    public string AccountName { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public Category Category { get; set; }
+    public Currency Currency { get; set; }
+    public string Country { get; set; } = string.Empty;
+    // Ticker the holding is quoted under after a symbol change or merger, null when its transactions give it
+    public string? Symbol { get; set; }
+    public List<Investment> Transactions { get; set; } = new();
+    public List<LedgerLot> OpenLots { get; set; } = new();
+    public List<LedgerSale> Sales { get; set; } = new();
+    public List<LedgerIncome> IncomeEntries { get; set; } = new();
+    public decimal Fees { get; set; }
+
+    public decimal Quantity => OpenLots.Sum(l => l.Quantity);
+    public decimal CostBasis => OpenLots.Sum(l => l.Quantity * l.UnitCost);
+    public decimal AverageCost => Quantity != 0 ? CostBasis / Quantity : 0;
+    public decimal RealizedGain => Sales.Sum(s => s.RealizedGain);
+    public decimal Income => IncomeEntries.Sum(i => i.Amount);
+    public bool IsOpen => Quantity != 0;
+    // The cash balance of the account in this currency, worth its quantity; it may be negative when buys were
+    // recorded before the deposit that paid for them
+    public bool IsCash => Category == Category.Cash;
+    // First date a cash balance went below zero, null when it never did
+    public DateTime? OverdrawnOn { get; set; }
+
+    public decimal TrailingIncome(DateTime asOf) =>
+        IncomeEntries.Where(i => i.Date > asOf.AddMonths(-12) && i.Date <= asOf).Sum(i => i.Amount);
+
+    // Trailing 12-month income relative to what is still invested, in percent
+    public decimal YieldOnCost(DateTime asOf) =>
+        CostBasis > 0 ? TrailingIncome(asOf) / CostBasis * 100 : 0;
+}
+
+public class LedgerLot
+{
+    public int InvestmentId { get; set; }
+    public DateTime Date { get; set; }
+    public decimal Quantity { get; set; }
+    public decimal UnitCost { get; set; }
+    // Home currency per unit of the holding's currency on the purchase date
+    public decimal? FxRate { get; set; }
+    // Ticker corporate actions are matched against, only set when there are any
+    public string Symbol { get; set; } = string.Empty;
+}
+
+public class LedgerSale
+{
+    public int InvestmentId { get; set; }
+    public DateTime Date { get; set; }
+    public decimal Quantity { get; set; }
+    public decimal Proceeds { get; set; }
+    public decimal CostBasis { get; set; }
+    public decimal RealizedGain { get; set; }
+}
+
+public class LedgerIncome
+{
+    public int InvestmentId { get; set; }
+    public DateTime Date { get; set; }
+    public decimal Amount { get; set; }
+}
@@ -6,127 +6,370 @@ namespace FollowInvestments.Api.Services;
 
 public interface IInvestmentPerformanceService
 {
-    Task<List<InvestmentPerformance>> CalculatePerformanceAsync(List<Investment> investments);
+    Task<List<InvestmentPerformance>> CalculatePerformanceAsync(List<Investment> investments, CostBasisMethod method = CostBasisMethod.AverageCost);
+    Task<List<HoldingPerformance>> CalculateHoldingsAsync(List<Investment> investments, CostBasisMethod method = CostBasisMethod.AverageCost);
     Task<AccountPerformance> CalculateAccountPerformanceAsync(int accountId);
-    Task<List<AccountPerformance>> CalculateAllAccountsPerformanceAsync();
+    Task<List<AccountPerformance>> CalculateAllAccountsPerformanceAsync(int userId);
 }
 
 public class InvestmentPerformanceService : IInvestmentPerformanceService
 {
     private readonly InvestmentContext _context;
     private readonly IYahooFinanceService _yahooFinanceService;
+    private readonly IInvestmentLedgerService _ledgerService;
+    private readonly IInvestmentReturnService _returnService;
+    private readonly ICurrencyService _currencyService;
+    private readonly IFixedIncomeService _fixedIncomeService;
+    private readonly ICorporateActionService _corporateActionService;
     private readonly ILogger<InvestmentPerformanceService> _logger;
 
     public InvestmentPerformanceService(
         InvestmentContext context,
         IYahooFinanceService yahooFinanceService,
+        IInvestmentLedgerService ledgerService,
+        IInvestmentReturnService returnService,
+        ICurrencyService currencyService,
+        IFixedIncomeService fixedIncomeService,
+        ICorporateActionService corporateActionService,
         ILogger<InvestmentPerformanceService> logger)
     {
         _context = context;
         _yahooFinanceService = yahooFinanceService;
+        _ledgerService = ledgerService;
+        _returnService = returnService;
+        _currencyService = currencyService;
+        _fixedIncomeService = fixedIncomeService;
+        _corporateActionService = corporateActionService;
         _logger = logger;
     }
 
-    public async Task<List<InvestmentPerformance>> CalculatePerformanceAsync(List<Investment> investments)
+    public async Task<List<InvestmentPerformance>> CalculatePerformanceAsync(List<Investment> investments, CostBasisMethod method = CostBasisMethod.AverageCost)
     {
-        var performances = new List<InvestmentPerformance>();
-
-        foreach (var investment in investments)
-        {
-            var performance = await CalculateSingleInvestmentPerformanceAsync(investment);
-            performances.Add(performance);
-        }
-
+        var (performances, _) = await CalculatePositionsPerformanceAsync(investments, method);
         return performances;
     }
 
+    public async Task<List<HoldingPerformance>> CalculateHoldingsAsync(List<Investment> investments, CostBasisMethod method = CostBasisMethod.AverageCost)
+    {
+        var (_, holdings) = await CalculatePositionsPerformanceAsync(investments, method);
+        return holdings;
+    }
+
     public async Task<AccountPerformance> CalculateAccountPerformanceAsync(int accountId)
     {
         var account = await _context.Accounts
             .Include(a => a.Investments)
+            .Include(a => a.User)
             .FirstOrDefaultAsync(a => a.Id == accountId);
 
         if (account == null)
             throw new ArgumentException($"Account with ID {accountId} not found");
 
-        var investmentPerformances = await CalculatePerformanceAsync(account.Investments.ToList());
+        var method = account.User?.CostBasisMethod ?? CostBasisMethod.AverageCost;
+        var homeCurrency = account.User?.HomeCurrency ?? Currency.CAD;
+
+        // Transactions saved before their rate could be found are backfilled from historical quotes
+        if (await _currencyService.FillTransactionRatesAsync(account.Investments, homeCurrency) > 0)
+        {
+            await _context.SaveChangesAsync();
+        }
+
+        var returnCurrency = ReturnCurrency(account);
+        var returns = await _returnService.CalculateReturnsAsync(account.Investments.ToList(), returnCurrency, method);
+
+        return await BuildAccountPerformanceAsync(account, method, homeCurrency, returnCurrency, returns);
+    }
+
+    public async Task<List<AccountPerformance>> CalculateAllAccountsPerformanceAsync(int userId)
+    {
+        var accounts = await _context.Accounts
+            .Include(a => a.Investments)
+            .Where(a => a.UserId == userId)
+            .OrderBy(a => a.SortOrder)
+            .ThenBy(a => a.Name)
+            .ToListAsync();
+
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        var method = user?.CostBasisMethod ?? CostBasisMethod.AverageCost;
+        var homeCurrency = user?.HomeCurrency ?? Currency.CAD;
+
+        var investments = accounts.SelectMany(a => a.Investments).ToList();
+        if (await _currencyService.FillTransactionRatesAsync(investments, homeCurrency) > 0)
+        {
+            await _context.SaveChangesAsync();
+        }
+
+        // The daily valuation behind the returns replays every position since inception, so all accounts are
+        // valued together in one pass instead of once each
+        var returnCurrencies = accounts.ToDictionary(a => a.Id, ReturnCurrency);
+        var returns = await _returnService.CalculateAccountReturnsAsync(investments, returnCurrencies, method);
+
+        var accountPerformances = new List<AccountPerformance>();
+
+        foreach (var account in accounts)
+        {
+            var performance = await BuildAccountPerformanceAsync(account, method, homeCurrency, returnCurrencies[account.Id], returns[account.Id]);
+            accountPerformances.Add(performance);
+        }
+
+        return accountPerformances;
+    }
+
+    // Returns are measured in the currency most of the account is invested in
+    private static Currency ReturnCurrency(Account account) => account.Investments
+        .GroupBy(i => i.Currency)
+        .OrderByDescending(g => g.Count())
+        .Select(g => g.Key)
+        .DefaultIfEmpty(Currency.CAD)
+        .First();
+
+    private async Task<AccountPerformance> BuildAccountPerformanceAsync(
+        Account account, CostBasisMethod method, Currency homeCurrency, Currency returnCurrency, List<PeriodReturn> returns)
+    {
+        var (investmentPerformances, holdings) = await CalculatePositionsPerformanceAsync(account.Investments.ToList(), method, homeCurrency);
+        // Cash is reported on its own, the value and gain totals cover what is invested
+        var invested = holdings.Where(h => h.Category != nameof(Category.Cash)).ToList();
 
         return new AccountPerformance
         {
             AccountId = account.Id,
             AccountName = account.Name,
+            CostBasisMethod = method.ToString(),
             Investments = investmentPerformances,
+            Holdings = holdings,
             TotalInvested = investmentPerformances.Sum(ip => ip.TotalInvested),
             CurrentValue = investmentPerformances.Sum(ip => ip.CurrentValue),
             TotalGainLoss = investmentPerformances.Sum(ip => ip.GainLoss),
             TotalGainLossPercentage = investmentPerformances.Sum(ip => ip.TotalInvested) > 0 
                 ? (investmentPerformances.Sum(ip => ip.GainLoss) / investmentPerformances.Sum(ip => ip.TotalInvested)) * 100 
-                : 0
+                : 0,
+            TotalRealizedGain = invested.Sum(h => h.RealizedGain),
+            TotalUnrealizedGain = invested.Sum(h => h.UnrealizedGain),
+            TotalIncome = holdings.Sum(h => h.Income),
+            TotalTrailingIncome = holdings.Sum(h => h.TrailingIncome),
+            TotalFees = holdings.Sum(h => h.Fees),
+            TotalCash = holdings.Where(h => h.Category == nameof(Category.Cash)).Sum(h => h.CurrentValue),
+            HomeCurrency = homeCurrency.ToString(),
+            TotalHomeCostBasis = invested.Sum(h => h.HomeCostBasis ?? 0),
+            TotalHomeCurrentValue = invested.Sum(h => h.HomeCurrentValue ?? 0),
+            TotalAssetReturn = invested.Sum(h => h.AssetReturn ?? 0),
+            TotalCurrencyReturn = invested.Sum(h => h.CurrencyReturn ?? 0),
+            ReturnCurrency = returnCurrency.ToString(),
+            Returns = returns,
+            CostsPaid = CalculateCostsPaid(account.Investments)
         };
     }
 
-    public async Task<List<AccountPerformance>> CalculateAllAccountsPerformanceAsync()
+    private async Task<(List<InvestmentPerformance> Transactions, List<HoldingPerformance> Holdings)> CalculatePositionsPerformanceAsync(
+        List<Investment> investments, CostBasisMethod method, Currency? homeCurrency = null)
     {
-        var accounts = await _context.Accounts
-            .Include(a => a.Investments)
-            .OrderBy(a => a.SortOrder)
-            .ThenBy(a => a.Name)
-            .ToListAsync();
+        var performances = new List<InvestmentPerformance>();
+        var holdings = new List<HoldingPerformance>();
+        var currentRates = new Dictionary<Currency, decimal?>();
+        var today = DateOnly.FromDateTime(DateTime.UtcNow);
 
-        var accountPerformances = new List<AccountPerformance>();
+        // Splits, bonuses and symbol changes restate the holdings in the units and ticker they are quoted in today
+        var corporateActions = await _corporateActionService.GetActionsAsync(investments, today);
+        var positions = _ledgerService.BuildPositions(investments, method, corporateActions);
 
-        foreach (var account in accounts)
+        var accountIds = positions.Select(p => p.AccountId).Distinct().ToList();
+        var valuations = await _context.ManualValuations
+            .Where(v => accountIds.Contains(v.AccountId))
+            .ToListAsync();
+
+        foreach (var position in positions)
         {
-            var performance = await CalculateAccountPerformanceAsync(account.Id);
-            accountPerformances.Add(performance);
+            // Price the holding once and share it across all of its transactions
+            decimal? currentPrice = null;
+            ManualValuation? valuation = null;
+            FixedIncomeAccrual? accrual = null;
+            if (position.IsOpen && InvestmentSymbolMapper.HasMarketPrice(position.Category))
+            {
+                currentPrice = await GetCurrentPriceAsync(position);
+            }
+            else if (position.IsCash)
+            {
+                currentPrice = 1m;
+            }
+            else if (position.IsOpen)
+            {
+                // Holdings without a quote accrue from their index, otherwise the latest valuation entered prices them
+                accrual = await _fixedIncomeService.GetAccrualAsync(position, today);
+                if (accrual != null)
+                {
+                    currentPrice = accrual.Value / position.Quantity;
+                }
+                else
+                {
+                    valuation = ManualValuationCalculator.FindLatest(valuations, position, today);
+                    if (valuation != null)
+                        currentPrice = ManualValuationCalculator.ValueOn(valuation, position, today) / position.Quantity;
+                }
+            }
+
+            foreach (var transaction in position.Transactions)
+            {
+                performances.Add(CalculateTransactionPerformance(transaction, position, currentPrice));
+            }
+
+            var holding = CalculateHoldingPerformance(position, currentPrice);
+            if (valuation != null)
+            {
+                holding.ValuationDate = valuation.Date;
+                holding.IsValuationStale = ManualValuationCalculator.IsStale(valuation, today);
+            }
+
+            if (accrual != null)
+            {
+                var terms = position.Transactions.Last(t => t.Indexer.HasValue && t.IndexerRate.HasValue);
+                holding.Indexer = terms.Indexer.ToString();
+                holding.IndexerRate = terms.IndexerRate;
+                holding.EstimatedIncomeTax = accrual.EstimatedIncomeTax;
+            }
+
+            if (homeCurrency.HasValue && position.IsOpen)
+            {
+                if (!currentRates.TryGetValue(position.Currency, out var currentRate))
+                {
+                    currentRate = await _currencyService.GetExchangeRateAsync(position.Currency.ToString(), homeCurrency.Value.ToString());
+                    currentRates[position.Currency] = currentRate;
+                }
+
+                if (currentRate.HasValue)
+                    SplitHomeCurrencyReturn(holding, position, currentRate.Value);
+            }
+
+            holdings.Add(holding);
         }
 
-        return accountPerformances;
+        return (performances, holdings);
     }
 
-    private async Task<InvestmentPerformance> CalculateSingleInvestmentPerformanceAsync(Investment investment)
+    private HoldingPerformance CalculateHoldingPerformance(LedgerPosition position, decimal? currentPrice)
     {
-        var currentPrice = await GetCurrentPriceAsync(investment);
-        var totalInvested = investment.Quantity * investment.Value;
-        var currentValue = currentPrice.HasValue ? investment.Quantity * currentPrice.Value : totalInvested;
-        var gainLoss = currentValue - totalInvested;
-        var gainLossPercentage = totalInvested > 0 ? (gainLoss / totalInvested) * 100 : 0;
+        var costBasis = position.CostBasis;
+        var currentValue = currentPrice.HasValue ? position.Quantity * currentPrice.Value : costBasis;
+        var unrealizedGain = currentValue - costBasis;
+
+        return new HoldingPerformance
+        {
+            Name = position.Name,
+            Symbol = InvestmentSymbolMapper.MapPositionToSymbol(position),
+            Category = position.Category.ToString(),
+            Currency = position.Currency.ToString(),
+            Country = position.Country,
+            Quantity = position.Quantity,
+            AverageCost = position.AverageCost,
+            CurrentPrice = currentPrice,
+            CostBasis = costBasis,
+            CurrentValue = currentValue,
+            UnrealizedGain = unrealizedGain,
+            UnrealizedGainPercentage = costBasis > 0 ? (unrealizedGain / costBasis) * 100 : 0,
+            RealizedGain = position.RealizedGain,
+            Income = position.Income,
+            TrailingIncome = position.TrailingIncome(DateTime.UtcNow),
+            YieldOnCost = position.YieldOnCost(DateTime.UtcNow),
+            Fees = position.Fees,
+            HasCurrentPrice = currentPrice.HasValue,
+            OverdrawnOn = position.OverdrawnOn
+        };
+    }
+
+    // Fee transactions and the fees and taxes charged on any transaction, per year and currency they were paid in
+    private static List<YearlyCosts> CalculateCostsPaid(IEnumerable<Investment> investments)
+    {
+        var charges = investments
+            .Where(i => i.Type == TransactionType.Fee)
+            .Select(i => (i.Date.Year, i.Currency, Fees: i.Total, Taxes: 0m))
+            .Concat(investments
+                .Where(i => (i.Fees ?? 0) + (i.Taxes ?? 0) > 0)
+                .Select(i => (i.Date.Year, Currency: i.CostCurrency ?? i.Currency, Fees: i.Fees ?? 0, Taxes: i.Taxes ?? 0)));
+
+        return charges
+            .GroupBy(c => new { c.Year, c.Currency })
+            .OrderByDescending(g => g.Key.Year)
+            .ThenBy(g => g.Key.Currency)
+            .Select(g => new YearlyCosts
+            {
+                Year = g.Key.Year,
+                Currency = g.Key.Currency.ToString(),
+                Fees = g.Sum(c => c.Fees),
+                Taxes = g.Sum(c => c.Taxes)
+            })
+            .ToList();
+    }
+
+    // The gain in the home currency is split in two: the asset's own move, valued at today's rate, and the
+    // move of the currency against the cost still held. Lots without a stored rate count at today's rate.
+    private static void SplitHomeCurrencyReturn(HoldingPerformance holding, LedgerPosition position, decimal currentRate)
+    {
+        var costAtPurchaseRates = position.OpenLots.Sum(l => l.Quantity * l.UnitCost * (l.FxRate ?? currentRate));
+        var costAtCurrentRate = holding.CostBasis * currentRate;
+
+        holding.HomeCostBasis = costAtPurchaseRates;
+        holding.HomeCurrentValue = holding.CurrentValue * currentRate;
+        holding.AssetReturn = holding.HomeCurrentValue - costAtCurrentRate;
+        holding.CurrencyReturn = costAtCurrentRate - costAtPurchaseRates;
+    }
+
+    private InvestmentPerformance CalculateTransactionPerformance(Investment investment, LedgerPosition position, decimal? currentPrice)
+    {
+        // Only the part of a purchase that is still held counts towards invested and current value
+        var openLots = position.OpenLots.Where(l => l.InvestmentId == investment.Id).ToList();
+        var openQuantity = openLots.Sum(l => l.Quantity);
+        var totalInvested = openLots.Sum(l => l.Quantity * l.UnitCost);
+        var currentValue = currentPrice.HasValue ? openQuantity * currentPrice.Value : totalInvested;
+
+        var realizedGain = position.Sales
+            .Where(s => s.InvestmentId == investment.Id)
+            .Sum(s => s.RealizedGain);
+
+        var gainLoss = investment.Type switch
+        {
+            TransactionType.Dividend => investment.NetAmount,
+            TransactionType.Fee => -investment.NetAmount,
+            _ => currentValue - totalInvested + realizedGain
+        };
+        var costBasis = investment.Type == TransactionType.Sell || investment.Type == TransactionType.Withdrawal
+            ? position.Sales.Where(s => s.InvestmentId == investment.Id).Sum(s => s.CostBasis)
+            : totalInvested;
+        var gainLossPercentage = costBasis > 0 ? (gainLoss / costBasis) * 100 : 0;
 
         return new InvestmentPerformance
         {
             InvestmentId = investment.Id,
             Name = investment.Name,
-            Symbol = MapInvestmentToSymbol(investment),
+            Symbol = InvestmentSymbolMapper.MapInvestmentToSymbol(investment),
             Category = investment.Category.ToString(),
             Currency = investment.Currency.ToString(),
+            Type = investment.Type.ToString(),
             Quantity = investment.Quantity,
+            OpenQuantity = openQuantity,
             PurchasePrice = investment.Value,
             CurrentPrice = currentPrice,
             TotalInvested = totalInvested,
             CurrentValue = currentValue,
             GainLoss = gainLoss,
             GainLossPercentage = gainLossPercentage,
+            RealizedGain = realizedGain,
             LastUpdated = DateTime.UtcNow,
             HasCurrentPrice = currentPrice.HasValue
         };
     }
 
-    private async Task<decimal?> GetCurrentPriceAsync(Investment investment)
+    private async Task<decimal?> GetCurrentPriceAsync(LedgerPosition position)
     {
         try
         {
-            // Only get current prices for stocks, ETFs, and FIIs
-            if (investment.Category != Category.Stocks && 
-                investment.Category != Category.ETF && 
-                investment.Category != Category.FIIs)
+            if (!InvestmentSymbolMapper.HasMarketPrice(position.Category))
             {
                 return null;
             }
 
-            var symbol = MapInvestmentToSymbol(investment);
+            var symbol = InvestmentSymbolMapper.MapPositionToSymbol(position);
             if (string.IsNullOrEmpty(symbol))
             {
-                _logger.LogWarning("Could not map investment {InvestmentName} to stock symbol", investment.Name);
+                _logger.LogWarning("Could not map investment {InvestmentName} to stock symbol", position.Name);
                 return null;
             }
 
@@ -178,142 +421,10 @@ public class InvestmentPerformanceService : IInvestmentPerformanceService
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error getting current price for investment {InvestmentName}", investment.Name);
+            _logger.LogError(ex, "Error getting current price for investment {InvestmentName}", position.Name);
             return null;
         }
     }
-
-    private string MapInvestmentToSymbol(Investment investment)
-    {
-        // This method maps investment names to stock symbols
-        // You can extend this logic based on your investment naming conventions
-
-        var name = investment.Name.ToUpper().Trim();
-
-        // Handle direct symbol mappings (when the name is already a symbol)
-        if (name.EndsWith(".TO") || name.EndsWith(".SA"))
-        {
-            return name;
-        }
-
-        // For USD stocks, check if it's already a valid US symbol (no suffix needed)
-        if (investment.Currency == Currency.USD && 
-            name.All(c => char.IsLetterOrDigit(c)) && 
-            name.Length >= 1 && name.Length <= 5)
-        {
-            return name;
-        }
-
-        // Common Canadian stocks
-        var canadianMappings = new Dictionary<string, string>
-        {
-            ["SHOP"] = "SHOP.TO",
-            ["SHOPIFY"] = "SHOP.TO",
-            ["RY"] = "RY.TO",
-            ["ROYAL BANK"] = "RY.TO",
-            ["TD"] = "TD.TO",
-            ["CNR"] = "CNR.TO",
-            ["VFV"] = "VFV.TO",
-            ["XQQ"] = "XQQ.TO",
-            ["ZWB"] = "ZWB.TO",
-            ["BRE"] = "BRE.TO"
-        };
-
-        // Common Brazilian stocks and FIIs
-        var brazilianMappings = new Dictionary<string, string>
-        {
-            ["PETR4"] = "PETR4.SA",
-            ["PETROBRAS"] = "PETR4.SA",
-            ["ITUB4"] = "ITUB4.SA",
-            ["ITAU"] = "ITUB4.SA",
-            ["RBRF11"] = "RBRF11.SA",
-            ["HGLG11"] = "HGLG11.SA",
-            ["BTLG11"] = "BTLG11.SA"
-        };
-
-        // Common US stocks and ETFs (no suffix needed for Yahoo Finance)
-        var usMappings = new Dictionary<string, string>
-        {
-            ["AAPL"] = "AAPL",
-            ["APPLE"] = "AAPL",
-            ["MSFT"] = "MSFT",
-            ["MICROSOFT"] = "MSFT",
-            ["GOOGL"] = "GOOGL",
-            ["GOOGLE"] = "GOOGL",
-            ["AMZN"] = "AMZN",
-            ["AMAZON"] = "AMZN",
-            ["TSLA"] = "TSLA",
-            ["TESLA"] = "TSLA",
-            ["META"] = "META",
-            ["NVDA"] = "NVDA",
-            ["NVIDIA"] = "NVDA",
-            ["SPY"] = "SPY",
-            ["QQQ"] = "QQQ",
-            ["VTI"] = "VTI",
-            ["VXUS"] = "VXUS",
-            ["VEA"] = "VEA",
-            ["VWO"] = "VWO",
-            ["BND"] = "BND"
-        };
-
-        // Check mappings based on currency
-        if (investment.Currency == Currency.CAD)
-        {
-            foreach (var mapping in canadianMappings)
-            {
-                if (name.Contains(mapping.Key))
-                {
-                    return mapping.Value;
-                }
-            }
-        }
-        else if (investment.Currency == Currency.BRL)
-        {
-            foreach (var mapping in brazilianMappings)
-            {
-                if (name.Contains(mapping.Key))
-                {
-                    return mapping.Value;
-                }
-            }
-        }
-        else if (investment.Currency == Currency.USD)
-        {
-            foreach (var mapping in usMappings)
-            {
-                if (name.Contains(mapping.Key))
-                {
-                    return mapping.Value;
-                }
-            }
-        }
-
-        // If no mapping found, try to extract symbol from common patterns
-        // Example: "VFV - S&P 500" -> "VFV.TO", "AAPL - Apple Inc" -> "AAPL"
-        var parts = name.Split(new[] { ' ', '-', ':', '|' }, StringSplitOptions.RemoveEmptyEntries);
-        if (parts.Length > 0)
-        {
-            var potentialSymbol = parts[0];
-            if (potentialSymbol.Length >= 1 && potentialSymbol.Length <= 6 && potentialSymbol.All(char.IsLetterOrDigit))
-            {
-                if (investment.Currency == Currency.USD)
-                {
-                    // US stocks don't need suffix
-                    return potentialSymbol;
-                }
-                else if (investment.Currency == Currency.CAD)
-                {
-                    return potentialSymbol + ".TO";
-                }
-                else if (investment.Currency == Currency.BRL)
-                {
-                    return potentialSymbol + ".SA";
-                }
-            }
-        }
-
-        return string.Empty;
-    }
 }
 
 public class InvestmentPerformance
@@ -323,24 +434,90 @@ public class InvestmentPerformance
     public string Symbol { get; set; } = string.Empty;
     public string Category { get; set; } = string.Empty;
     public string Currency { get; set; } = string.Empty;
+    public string Type { get; set; } = string.Empty;
     public decimal Quantity { get; set; }
+    public decimal OpenQuantity { get; set; }
     public decimal PurchasePrice { get; set; }
     public decimal? CurrentPrice { get; set; }
     public decimal TotalInvested { get; set; }
     public decimal CurrentValue { get; set; }
     public decimal GainLoss { get; set; }
     public decimal GainLossPercentage { get; set; }
+    public decimal RealizedGain { get; set; }
     public DateTime LastUpdated { get; set; }
     public bool HasCurrentPrice { get; set; }
 }
 
+public class HoldingPerformance
+{
+    public string Name { get; set; } = string.Empty;
+    public string Symbol { get; set; } = string.Empty;
+    public string Category { get; set; } = string.Empty;
+    public string Currency { get; set; } = string.Empty;
+    public string Country { get; set; } = string.Empty;
+    public decimal Quantity { get; set; }
+    public decimal AverageCost { get; set; }
+    public decimal? CurrentPrice { get; set; }
+    public decimal CostBasis { get; set; }
+    public decimal CurrentValue { get; set; }
+    public decimal UnrealizedGain { get; set; }
+    public decimal UnrealizedGainPercentage { get; set; }
+    public decimal RealizedGain { get; set; }
+    public decimal Income { get; set; }
+    public decimal TrailingIncome { get; set; }
+    public decimal YieldOnCost { get; set; }
+    public decimal Fees { get; set; }
+    public bool HasCurrentPrice { get; set; }
+    // Open lots in the account owner's home currency, null when no rate to it is available
+    public decimal? HomeCostBasis { get; set; }
+    public decimal? HomeCurrentValue { get; set; }
+    public decimal? AssetReturn { get; set; }
+    public decimal? CurrencyReturn { get; set; }
+    // Date of the manual valuation the current value comes from, null for quoted holdings or when none was entered
+    public DateOnly? ValuationDate { get; set; }
+    public bool IsValuationStale { get; set; }
+    // Terms of indexed fixed income valued by accrual, with the income tax due if redeemed today
+    public string? Indexer { get; set; }
+    public decimal? IndexerRate { get; set; }
+    public decimal? EstimatedIncomeTax { get; set; }
+    // For cash, the first date the balance went below zero, usually where a deposit is missing
+    public DateTime? OverdrawnOn { get; set; }
+}
+
 public class AccountPerformance
 {
     public int AccountId { get; set; }
     public string AccountName { get; set; } = string.Empty;
+    public string CostBasisMethod { get; set; } = string.Empty;
     public List<InvestmentPerformance> Investments { get; set; } = new();
+    public List<HoldingPerformance> Holdings { get; set; } = new();
     public decimal TotalInvested { get; set; }
     public decimal CurrentValue { get; set; }
     public decimal TotalGainLoss { get; set; }
     public decimal TotalGainLossPercentage { get; set; }
+    public decimal TotalRealizedGain { get; set; }
+    public decimal TotalUnrealizedGain { get; set; }
+    public decimal TotalIncome { get; set; }
+    public decimal TotalTrailingIncome { get; set; }
+    public decimal TotalFees { get; set; }
+    // Cash balances of the account; the gain and home currency totals leave cash out, income and fees keep it
+    public decimal TotalCash { get; set; }
+    public string HomeCurrency { get; set; } = string.Empty;
+    public decimal TotalHomeCostBasis { get; set; }
+    public decimal TotalHomeCurrentValue { get; set; }
+    public decimal TotalAssetReturn { get; set; }
+    public decimal TotalCurrencyReturn { get; set; }
+    public string ReturnCurrency { get; set; } = string.Empty;
+    public List<PeriodReturn> Returns { get; set; } = new();
+    public List<YearlyCosts> CostsPaid { get; set; } = new();
+}
+
+// Costs paid in one year, in the currency they were charged in
+public class YearlyCosts
+{
+    public int Year { get; set; }
+    public string Currency { get; set; } = string.Empty;
+    public decimal Fees { get; set; }
+    public decimal Taxes { get; set; }
+    public decimal Total => Fees + Taxes;
 }
\ No newline at end of file
@@ -0,0 +1,218 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IInvestmentReturnService
+{
+    Task<List<PeriodReturn>> CalculateReturnsAsync(List<Investment> investments, Currency currency, CostBasisMethod method);
+    // Returns of every account in its own currency, from one valuation of all of them
+    Task<Dictionary<int, List<PeriodReturn>>> CalculateAccountReturnsAsync(List<Investment> investments, IReadOnlyDictionary<int, Currency> accountCurrencies, CostBasisMethod method);
+}
+
+public class InvestmentReturnService : IInvestmentReturnService
+{
+    private const double DaysPerYear = 365.25;
+
+    private readonly IPortfolioValuationService _valuationService;
+
+    public InvestmentReturnService(IPortfolioValuationService valuationService)
+    {
+        _valuationService = valuationService;
+    }
+
+    public static string CacheKey(int userId, Currency currency) =>
+        $"returns_user_{userId}_{currency}";
+
+    public static IEnumerable<string> CacheKeys(int userId) =>
+        Enum.GetValues<Currency>().Select(currency => CacheKey(userId, currency));
+
+    public async Task<List<PeriodReturn>> CalculateReturnsAsync(List<Investment> investments, Currency currency, CostBasisMethod method)
+    {
+        if (!investments.Any())
+            return new List<PeriodReturn>();
+
+        var timeline = await _valuationService.GetValuationTimelineAsync(investments, TimelineResolution.Daily, currency, method);
+        return CalculateReturns(timeline);
+    }
+
+    public async Task<Dictionary<int, List<PeriodReturn>>> CalculateAccountReturnsAsync(List<Investment> investments, IReadOnlyDictionary<int, Currency> accountCurrencies, CostBasisMethod method)
+    {
+        var timelines = await _valuationService.GetAccountValuationTimelinesAsync(investments, TimelineResolution.Daily, accountCurrencies, method);
+        return timelines.ToDictionary(t => t.Key, t => CalculateReturns(t.Value));
+    }
+
+    private static List<PeriodReturn> CalculateReturns(ValuationTimelineData timeline)
+    {
+        if (!timeline.Points.Any())
+            return new List<PeriodReturn>();
+
+        var points = timeline.Points
+            .Select(p => (Date: DateOnly.FromDateTime(p.Date), p.MarketValue, p.NetContribution))
+            .ToList();
+
+        var inception = points.First().Date;
+        var endDate = points.Last().Date;
+
+        return Enum.GetValues<ReturnPeriod>()
+            .Select(period => CalculatePeriodReturn(period, points, inception, endDate))
+            .ToList();
+    }
+
+    private static PeriodReturn CalculatePeriodReturn(
+        ReturnPeriod period,
+        List<(DateOnly Date, decimal MarketValue, decimal NetContribution)> points,
+        DateOnly inception,
+        DateOnly endDate)
+    {
+        // The period starts at the close of this date, before inception the portfolio is worth nothing
+        var requestedStart = period switch
+        {
+            ReturnPeriod.Ytd => new DateOnly(endDate.Year, 1, 1).AddDays(-1),
+            ReturnPeriod.OneYear => endDate.AddYears(-1),
+            ReturnPeriod.ThreeYears => endDate.AddYears(-3),
+            _ => inception.AddDays(-1)
+        };
+        var startDate = requestedStart < inception.AddDays(-1) ? inception.AddDays(-1) : requestedStart;
+
+        var startValue = points.LastOrDefault(p => p.Date <= startDate).MarketValue;
+        var periodPoints = points.Where(p => p.Date > startDate).ToList();
+        var endValue = periodPoints.Any() ? periodPoints.Last().MarketValue : startValue;
+
+        var result = new PeriodReturn
+        {
+            Period = period,
+            StartDate = startDate.ToDateTime(TimeOnly.MinValue),
+            EndDate = endDate.ToDateTime(TimeOnly.MinValue),
+            StartValue = startValue,
+            EndValue = endValue,
+            NetContributions = periodPoints.Sum(p => p.NetContribution),
+            CoversFullPeriod = startDate == requestedStart
+        };
+
+        // Time-weighted: chain the daily returns so deposits and withdrawals do not count as performance
+        var growth = 1.0;
+        var hasReturn = false;
+        var previousValue = startValue;
+        foreach (var point in periodPoints)
+        {
+            if (previousValue > 0)
+            {
+                growth *= (double)((point.MarketValue - point.NetContribution) / previousValue);
+                hasReturn = true;
+            }
+            previousValue = point.MarketValue;
+        }
+
+        if (hasReturn)
+        {
+            var twr = growth - 1;
+            result.TimeWeightedReturn = ToPercentage(twr);
+
+            var years = (endDate.DayNumber - startDate.DayNumber) / DaysPerYear;
+            if (years >= 1 && growth > 0)
+                result.AnnualizedTimeWeightedReturn = ToPercentage(Math.Pow(growth, 1 / years) - 1);
+        }
+
+        // Money-weighted: the investor buys the portfolio at the start, adds the contributions and sells it at the end
+        var cashFlows = new List<(DateOnly Date, double Amount)>();
+        if (startValue != 0)
+            cashFlows.Add((startDate, -(double)startValue));
+        cashFlows.AddRange(periodPoints
+            .Where(p => p.NetContribution != 0)
+            .Select(p => (p.Date, -(double)p.NetContribution)));
+        if (endValue != 0)
+            cashFlows.Add((endDate, (double)endValue));
+
+        var xirr = CalculateXirr(cashFlows);
+        if (xirr.HasValue)
+            result.MoneyWeightedReturn = ToPercentage(xirr.Value);
+
+        return result;
+    }
+
+    // Annual rate at which the discounted cash flows sum to zero
+    public static double? CalculateXirr(List<(DateOnly Date, double Amount)> cashFlows)
+    {
+        if (!cashFlows.Any(c => c.Amount > 0) || !cashFlows.Any(c => c.Amount < 0))
+            return null;
+
+        var firstDate = cashFlows.Min(c => c.Date);
+        var flows = cashFlows
+            .Select(c => (Years: (c.Date.DayNumber - firstDate.DayNumber) / DaysPerYear, c.Amount))
+            .ToList();
+
+        double NetPresentValue(double rate) => flows.Sum(f => f.Amount / Math.Pow(1 + rate, f.Years));
+        double Derivative(double rate) => flows.Sum(f => -f.Years * f.Amount / Math.Pow(1 + rate, f.Years + 1));
+
+        // Newton's method converges quickly for ordinary portfolios
+        var guess = 0.1;
+        for (var i = 0; i < 100; i++)
+        {
+            var value = NetPresentValue(guess);
+            var slope = Derivative(guess);
+            if (slope == 0 || double.IsNaN(value) || double.IsInfinity(value))
+                break;
+
+            var next = guess - value / slope;
+            if (next <= -1 || !double.IsFinite(next) || next > 1e6)
+                break;
+
+            if (Math.Abs(next - guess) < 1e-9)
+                return next;
+
+            guess = next;
+        }
+
+        // Fall back to bisection when Newton's method diverges
+        double low = -0.9999, high = 100;
+        var lowValue = NetPresentValue(low);
+        if (Math.Sign(lowValue) == Math.Sign(NetPresentValue(high)))
+            return null;
+
+        for (var i = 0; i < 200; i++)
+        {
+            var middle = (low + high) / 2;
+            var middleValue = NetPresentValue(middle);
+            if (Math.Abs(middleValue) < 1e-7 || (high - low) / 2 < 1e-9)
+                return middle;
+
+            if (Math.Sign(middleValue) == Math.Sign(lowValue))
+            {
+                low = middle;
+                lowValue = middleValue;
+            }
+            else
+            {
+                high = middle;
+            }
+        }
+
+        return (low + high) / 2;
+    }
+
+    // Rates that cannot be represented, e.g. a tiny start value doubling overnight, are left empty
+    private static decimal? ToPercentage(double rate) =>
+        double.IsFinite(rate) && Math.Abs(rate) < 1e9 ? Math.Round((decimal)(rate * 100), 2) : null;
+}
+
+public enum ReturnPeriod
+{
+    Ytd,
+    OneYear,
+    ThreeYears,
+    SinceInception
+}
+
+public class PeriodReturn
+{
+    public ReturnPeriod Period { get; set; }
+    public DateTime StartDate { get; set; }
+    public DateTime EndDate { get; set; }
+    public bool CoversFullPeriod { get; set; }
+    public decimal StartValue { get; set; }
+    public decimal EndValue { get; set; }
+    public decimal NetContributions { get; set; }
+    public decimal? TimeWeightedReturn { get; set; }
+    public decimal? AnnualizedTimeWeightedReturn { get; set; }
+    public decimal? MoneyWeightedReturn { get; set; }
+}
@@ -0,0 +1,156 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+public static class InvestmentSymbolMapper
+{
+    // Only stocks, ETFs, and FIIs are quoted; everything else is valued at cost
+    public static bool HasMarketPrice(Category category)
+    {
+        return category == Category.Stocks ||
+               category == Category.ETF ||
+               category == Category.FIIs;
+    }
+
+    // A holding renamed by a corporate action is quoted under its new ticker
+    public static string MapPositionToSymbol(LedgerPosition position) =>
+        position.Symbol ?? MapInvestmentToSymbol(position.Transactions.First());
+
+    public static string MapInvestmentToSymbol(Investment investment)
+    {
+        // A ticker set by the user always wins over the guesses below
+        if (!string.IsNullOrWhiteSpace(investment.Ticker))
+        {
+            return investment.Ticker.Trim().ToUpper();
+        }
+
+        // This method maps investment names to stock symbols
+        // You can extend this logic based on your investment naming conventions
+
+        var name = investment.Name.ToUpper().Trim();
+
+        // Handle direct symbol mappings (when the name is already a symbol)
+        if (name.EndsWith(".TO") || name.EndsWith(".SA"))
+        {
+            return name;
+        }
+
+        // For USD stocks, check if it's already a valid US symbol (no suffix needed)
+        if (investment.Currency == Currency.USD && 
+            name.All(c => char.IsLetterOrDigit(c)) && 
+            name.Length >= 1 && name.Length <= 5)
+        {
+            return name;
+        }
+
+        // Common Canadian stocks
+        var canadianMappings = new Dictionary<string, string>
+        {
+            ["SHOP"] = "SHOP.TO",
+            ["SHOPIFY"] = "SHOP.TO",
+            ["RY"] = "RY.TO",
+            ["ROYAL BANK"] = "RY.TO",
+            ["TD"] = "TD.TO",
+            ["CNR"] = "CNR.TO",
+            ["VFV"] = "VFV.TO",
+            ["XQQ"] = "XQQ.TO",
+            ["ZWB"] = "ZWB.TO",
+            ["BRE"] = "BRE.TO"
+        };
+
+        // Common Brazilian stocks and FIIs
+        var brazilianMappings = new Dictionary<string, string>
+        {
+            ["PETR4"] = "PETR4.SA",
+            ["PETROBRAS"] = "PETR4.SA",
+            ["ITUB4"] = "ITUB4.SA",
+            ["ITAU"] = "ITUB4.SA",
+            ["RBRF11"] = "RBRF11.SA",
+            ["HGLG11"] = "HGLG11.SA",
+            ["BTLG11"] = "BTLG11.SA"
+        };
+
+        // Common US stocks and ETFs (no suffix needed for Yahoo Finance)
+        var usMappings = new Dictionary<string, string>
+        {
+            ["AAPL"] = "AAPL",
+            ["APPLE"] = "AAPL",
+            ["MSFT"] = "MSFT",
+            ["MICROSOFT"] = "MSFT",
+            ["GOOGL"] = "GOOGL",
+            ["GOOGLE"] = "GOOGL",
+            ["AMZN"] = "AMZN",
+            ["AMAZON"] = "AMZN",
+            ["TSLA"] = "TSLA",
+            ["TESLA"] = "TSLA",
+            ["META"] = "META",
+            ["NVDA"] = "NVDA",
+            ["NVIDIA"] = "NVDA",
+            ["SPY"] = "SPY",
+            ["QQQ"] = "QQQ",
+            ["VTI"] = "VTI",
+            ["VXUS"] = "VXUS",
+            ["VEA"] = "VEA",
+            ["VWO"] = "VWO",
+            ["BND"] = "BND"
+        };
+
+        // Check mappings based on currency
+        if (investment.Currency == Currency.CAD)
+        {
+            foreach (var mapping in canadianMappings)
+            {
+                if (name.Contains(mapping.Key))
+                {
+                    return mapping.Value;
+                }
+            }
+        }
+        else if (investment.Currency == Currency.BRL)
+        {
+            foreach (var mapping in brazilianMappings)
+            {
+                if (name.Contains(mapping.Key))
+                {
+                    return mapping.Value;
+                }
+            }
+        }
+        else if (investment.Currency == Currency.USD)
+        {
+            foreach (var mapping in usMappings)
+            {
+                if (name.Contains(mapping.Key))
+                {
+                    return mapping.Value;
+                }
+            }
+        }
+
+        // If no mapping found, try to extract symbol from common patterns
+        // Example: "VFV - S&P 500" -> "VFV.TO", "AAPL - Apple Inc" -> "AAPL"
+        var parts = name.Split(new[] { ' ', '-', ':', '|' }, StringSplitOptions.RemoveEmptyEntries);
+        if (parts.Length > 0)
+        {
+            var potentialSymbol = parts[0];
+            if (potentialSymbol.Length >= 1 && potentialSymbol.Length <= 6 && potentialSymbol.All(char.IsLetterOrDigit))
+            {
+                if (investment.Currency == Currency.USD)
+                {
+                    // US stocks don't need suffix
+                    return potentialSymbol;
+                }
+                else if (investment.Currency == Currency.CAD)
+                {
+                    return potentialSymbol + ".TO";
+                }
+                else if (investment.Currency == Currency.BRL)
+                {
+                    return potentialSymbol + ".SA";
+                }
+            }
+        }
+
+        return string.Empty;
+    }
+}
@@ -0,0 +1,41 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Values holdings that have no market price from the valuations entered for them by hand
+public static class ManualValuationCalculator
+{
+    // Statements come monthly, a valuation older than this is due for an update
+    public const int StaleAfterDays = 45;
+
+    public static bool Matches(ManualValuation valuation, LedgerPosition position) =>
+        valuation.AccountId == position.AccountId &&
+        valuation.Currency == position.Currency &&
+        string.Equals(valuation.Name.Trim(), position.Name.Trim(), StringComparison.OrdinalIgnoreCase);
+
+    public static ManualValuation? FindLatest(IEnumerable<ManualValuation> valuations, LedgerPosition position, DateOnly date) =>
+        valuations
+            .Where(v => v.Date <= date && Matches(v, position))
+            .OrderByDescending(v => v.Date)
+            .ThenByDescending(v => v.Id)
+            .FirstOrDefault();
+
+    // Purchases and sales made after the valuation are counted at cost until the next one is entered,
+    // otherwise money added since the last statement would look like a loss
+    public static decimal ValueOn(ManualValuation valuation, LedgerPosition position, DateOnly date)
+    {
+        var flowsSince = position.Transactions
+            .Where(t => DateOnly.FromDateTime(t.Date) > valuation.Date && DateOnly.FromDateTime(t.Date) <= date)
+            .Sum(t => t.Type switch
+            {
+                TransactionType.Buy or TransactionType.Deposit => t.Total,
+                TransactionType.Sell or TransactionType.Withdrawal => -t.Total,
+                _ => 0
+            });
+
+        return Math.Max(0, valuation.Value + flowsSince);
+    }
+
+    public static bool IsStale(ManualValuation valuation, DateOnly today) =>
+        valuation.Date < today.AddDays(-StaleAfterDays);
+}
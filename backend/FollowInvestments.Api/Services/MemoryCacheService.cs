@@ -1,5 +1,7 @@
 using Microsoft.Extensions.Caching.Memory;
+using System.Collections.Concurrent;
 using System.Text.Json;
+using System.Text.RegularExpressions;
 
 namespace FollowInvestments.Api.Services;
 
@@ -8,6 +10,10 @@ public class MemoryCacheService : ICacheService
     private readonly IMemoryCache _memoryCache;
     private readonly ILogger<MemoryCacheService> _logger;
 
+    // IMemoryCache cannot enumerate its entries, so the keys are tracked to support pattern removal.
+    // The service is scoped while the cache is a singleton, hence the static set.
+    private static readonly ConcurrentDictionary<string, byte> _keys = new();
+
     public MemoryCacheService(IMemoryCache memoryCache, ILogger<MemoryCacheService> logger)
     {
         _memoryCache = memoryCache;
@@ -56,7 +62,15 @@ public class MemoryCacheService : ICacheService
                 Priority = CacheItemPriority.Normal
             };
 
+            options.RegisterPostEvictionCallback((evictedKey, _, reason, _) =>
+            {
+                // A replaced entry's key still lives on in the new entry
+                if (reason != EvictionReason.Replaced)
+                    _keys.TryRemove((string)evictedKey, out _);
+            });
+
             _memoryCache.Set(key, value, options);
+            _keys[key] = 0;
             _logger.LogDebug("Cache set for key: {Key}, expiration: {Expiration}", key, expiration);
             
             return Task.CompletedTask;
@@ -87,10 +101,17 @@ public class MemoryCacheService : ICacheService
     {
         try
         {
-            // For in-memory cache, we can't easily remove by pattern
-            // This is a limitation of IMemoryCache
-            // For a full implementation, we'd need to track keys or use a different cache
-            _logger.LogWarning("RemoveByPatternAsync not fully implemented for MemoryCache pattern: {Pattern}", pattern);
+            // Patterns use "*" as a wildcard, e.g. "valuation_user_1_*"
+            var regex = new Regex("^" + Regex.Escape(pattern).Replace("\\*", ".*") + "$");
+            var matchingKeys = _keys.Keys.Where(key => regex.IsMatch(key)).ToList();
+
+            foreach (var key in matchingKeys)
+            {
+                _memoryCache.Remove(key);
+                _keys.TryRemove(key, out _);
+            }
+
+            _logger.LogDebug("Cache removed {Count} keys for pattern: {Pattern}", matchingKeys.Count, pattern);
             return Task.CompletedTask;
         }
         catch (Exception ex)
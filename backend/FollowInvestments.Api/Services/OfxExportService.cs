@@ -0,0 +1,254 @@
+using System.Globalization;
+using System.Xml.Linq;
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IOfxExportService
+{
+    // OFX 2.2 document with the account's transactions and positions, null when the user has no such account
+    Task<string?> ExportAccountAsync(int userId, int accountId);
+}
+
+// Writes an account as an OFX investment statement for desktop finance software. OFX gives a statement a
+// single currency, so an account holding several currencies is written as one statement per currency
+public class OfxExportService : IOfxExportService
+{
+    // BROKERID of exported statements; OfxStatementParser keeps the FITIDs of such files as external IDs
+    public const string BrokerId = "followinvestments";
+
+    private readonly InvestmentContext _context;
+    private readonly IInvestmentPerformanceService _performanceService;
+
+    public OfxExportService(InvestmentContext context, IInvestmentPerformanceService performanceService)
+    {
+        _context = context;
+        _performanceService = performanceService;
+    }
+
+    // Identifies a transaction in exported files: the statement line it was imported from, otherwise its id
+    public static string FitId(Investment transaction) =>
+        transaction.ExternalId ?? $"{BrokerId}:{transaction.Id}";
+
+    // The transaction id behind a FITID written for a transaction that was not imported from a statement
+    public static int? ExportedTransactionId(string externalId) =>
+        externalId.StartsWith(BrokerId + ":") && int.TryParse(externalId[(BrokerId.Length + 1)..], out var id) ? id : null;
+
+    public async Task<string?> ExportAccountAsync(int userId, int accountId)
+    {
+        var account = await _context.Accounts
+            .Include(a => a.Investments)
+            .Include(a => a.User)
+            .FirstOrDefaultAsync(a => a.Id == accountId && a.UserId == userId);
+        if (account == null)
+            return null;
+
+        var transactions = account.Investments.OrderBy(i => i.Date).ThenBy(i => i.Id).ToList();
+        var holdings = await _performanceService.CalculateHoldingsAsync(transactions, account.User?.CostBasisMethod ?? CostBasisMethod.AverageCost);
+        var now = DateTime.UtcNow;
+        var securities = new Dictionary<string, XElement>();
+
+        var currencies = transactions.Select(t => t.Currency).Distinct().OrderBy(c => c).ToList();
+        var statements = currencies.Select((currency, index) => new XElement("INVSTMTTRNRS",
+            new XElement("TRNUID", index + 1),
+            Status(),
+            new XElement("INVSTMTRS",
+                new XElement("DTASOF", FormatDate(now)),
+                new XElement("CURDEF", currency),
+                new XElement("INVACCTFROM",
+                    new XElement("BROKERID", BrokerId),
+                    new XElement("ACCTID", currencies.Count > 1 ? $"{account.Id}-{currency}" : account.Id.ToString())),
+                new XElement("INVTRANLIST",
+                    new XElement("DTSTART", FormatDate(transactions.First().Date)),
+                    new XElement("DTEND", FormatDate(now)),
+                    transactions.Where(t => t.Currency == currency).Select(t => TransactionElement(t, securities))),
+                new XElement("INVPOSLIST",
+                    holdings
+                        .Where(h => h.Currency == currency.ToString() && h.Category != Category.Cash.ToString() && h.Quantity > 0)
+                        .Select(h => PositionElement(h, now, securities))),
+                new XElement("INVBAL",
+                    new XElement("AVAILCASH", FormatAmount(holdings
+                        .Where(h => h.Currency == currency.ToString() && h.Category == Category.Cash.ToString())
+                        .Sum(h => h.CurrentValue))),
+                    new XElement("MARGINBALANCE", "0"),
+                    new XElement("SHORTBALANCE", "0")))));
+
+        var ofx = new XElement("OFX",
+            new XElement("SIGNONMSGSRSV1",
+                new XElement("SONRS",
+                    Status(),
+                    new XElement("DTSERVER", FormatDate(now)),
+                    new XElement("LANGUAGE", "ENG"))),
+            new XElement("INVSTMTMSGSRSV1", statements.ToList()),
+            new XElement("SECLISTMSGSRSV1",
+                new XElement("SECLIST", securities.OrderBy(s => s.Key).Select(s => s.Value))));
+
+        var document = new XDocument(
+            new XDeclaration("1.0", "UTF-8", "no"),
+            new XProcessingInstruction("OFX", "OFXHEADER=\"200\" VERSION=\"220\" SECURITY=\"NONE\" OLDFILEUID=\"NONE\" NEWFILEUID=\"NONE\""),
+            ofx);
+
+        return document.Declaration + Environment.NewLine + document;
+    }
+
+    private static XElement TransactionElement(Investment transaction, Dictionary<string, XElement> securities)
+    {
+        if (transaction.Category == Category.Cash)
+        {
+            var amount = InvestmentLedgerService.CashFlow(transaction);
+            return new XElement("INVBANKTRAN",
+                new XElement("STMTTRN",
+                    new XElement("TRNTYPE", transaction.Type switch
+                    {
+                        TransactionType.Dividend => "INT",
+                        TransactionType.Fee => "FEE",
+                        _ => amount >= 0 ? "CREDIT" : "DEBIT"
+                    }),
+                    new XElement("DTPOSTED", FormatDate(transaction.Date)),
+                    new XElement("TRNAMT", FormatAmount(amount)),
+                    new XElement("FITID", FitId(transaction)),
+                    new XElement("NAME", Truncate(transaction.Type.ToString(), 32)),
+                    Memo(transaction)),
+                new XElement("SUBACCTFUND", "CASH"));
+        }
+
+        var secId = SecurityId(transaction, securities);
+        var kind = SecurityKind(transaction.Category);
+        var invTran = new XElement("INVTRAN",
+            new XElement("FITID", FitId(transaction)),
+            new XElement("DTTRADE", FormatDate(transaction.Date)),
+            Memo(transaction));
+
+        switch (transaction.Type)
+        {
+            case TransactionType.Buy:
+            case TransactionType.Deposit:
+                return new XElement("BUY" + kind,
+                    new XElement("INVBUY",
+                        invTran,
+                        secId,
+                        new XElement("UNITS", FormatAmount(transaction.Quantity)),
+                        new XElement("UNITPRICE", FormatAmount(transaction.Value)),
+                        CostElements(transaction),
+                        new XElement("TOTAL", FormatAmount(-transaction.NetAmount)),
+                        new XElement("SUBACCTSEC", "CASH"),
+                        new XElement("SUBACCTFUND", "CASH")),
+                    kind == "DEBT" ? null : new XElement("BUYTYPE", "BUY"));
+
+            case TransactionType.Sell:
+            case TransactionType.Withdrawal:
+                return new XElement("SELL" + kind,
+                    new XElement("INVSELL",
+                        invTran,
+                        secId,
+                        new XElement("UNITS", FormatAmount(-transaction.Quantity)),
+                        new XElement("UNITPRICE", FormatAmount(transaction.Value)),
+                        CostElements(transaction),
+                        new XElement("TOTAL", FormatAmount(transaction.NetAmount)),
+                        new XElement("SUBACCTSEC", "CASH"),
+                        new XElement("SUBACCTFUND", "CASH")),
+                    kind == "DEBT" ? new XElement("SELLREASON", "SELL") : new XElement("SELLTYPE", "SELL"));
+
+            case TransactionType.Dividend:
+                return new XElement("INCOME",
+                    invTran,
+                    secId,
+                    new XElement("INCOMETYPE", "DIV"),
+                    new XElement("TOTAL", FormatAmount(transaction.Total)),
+                    new XElement("SUBACCTSEC", "CASH"),
+                    new XElement("SUBACCTFUND", "CASH"),
+                    transaction.Taxes.HasValue ? new XElement("WITHHOLDING", FormatAmount(transaction.Taxes.Value)) : null);
+
+            default:
+                return new XElement("INVEXPENSE",
+                    invTran,
+                    secId,
+                    new XElement("TOTAL", FormatAmount(transaction.NetAmount)),
+                    new XElement("SUBACCTSEC", "CASH"),
+                    new XElement("SUBACCTFUND", "CASH"));
+        }
+    }
+
+    private static XElement PositionElement(HoldingPerformance holding, DateTime asOf, Dictionary<string, XElement> securities)
+    {
+        var category = Enum.Parse<Category>(holding.Category);
+        var symbol = string.IsNullOrEmpty(holding.Symbol) ? holding.Name.Trim().ToUpper() : holding.Symbol;
+        var unitPrice = holding.CurrentPrice ?? holding.AverageCost;
+
+        return new XElement("POS" + SecurityKind(category),
+            new XElement("INVPOS",
+                SecurityId(symbol, holding.Name, category, securities),
+                new XElement("HELDINACCT", "CASH"),
+                new XElement("POSTYPE", "LONG"),
+                new XElement("UNITS", FormatAmount(holding.Quantity)),
+                new XElement("UNITPRICE", FormatAmount(unitPrice)),
+                new XElement("MKTVAL", FormatAmount(holding.CurrentValue)),
+                new XElement("DTPRICEASOF", FormatDate(asOf))));
+    }
+
+    private static XElement SecurityId(Investment transaction, Dictionary<string, XElement> securities) =>
+        SecurityId(CorporateActionCalculator.SymbolOf(transaction), transaction.Name, transaction.Category, securities);
+
+    // Securities are identified by ticker, the only id the app knows; each one is listed once in the SECLIST
+    private static XElement SecurityId(string symbol, string name, Category category, Dictionary<string, XElement> securities)
+    {
+        XElement Id() => new("SECID",
+            new XElement("UNIQUEID", symbol),
+            new XElement("UNIQUEIDTYPE", "TICKER"));
+
+        if (!securities.ContainsKey(symbol))
+        {
+            var kind = SecurityKind(category);
+            var info = new XElement("SECINFO",
+                Id(),
+                new XElement("SECNAME", Truncate(name, 120)),
+                new XElement("TICKER", Truncate(symbol, 32)));
+
+            securities[symbol] = kind switch
+            {
+                "MF" => new XElement("MFINFO", info, new XElement("MFTYPE", "OTHER")),
+                "DEBT" => new XElement("DEBTINFO", info, new XElement("PARVALUE", "1"), new XElement("DEBTTYPE", "COUPON")),
+                _ => new XElement("STOCKINFO", info)
+            };
+        }
+
+        return Id();
+    }
+
+    // Suffix of the OFX aggregates for the category: BUYSTOCK, POSDEBT, MFINFO, ...
+    private static string SecurityKind(Category category) => category switch
+    {
+        Category.RendaFixa or Category.Bonds => "DEBT",
+        Category.ManagedPortfolio or Category.ManagedPortfolioBlock => "MF",
+        _ => "STOCK"
+    };
+
+    // Costs charged in another currency are written in the transaction's currency, as NetAmount counts them
+    private static IEnumerable<XElement> CostElements(Investment transaction)
+    {
+        var costs = transaction.Costs;
+        var total = (transaction.Fees ?? 0) + (transaction.Taxes ?? 0);
+        if (costs == 0 || total == 0)
+            yield break;
+
+        if (transaction.Fees.HasValue)
+            yield return new XElement("COMMISSION", FormatAmount(costs * transaction.Fees.Value / total));
+        if (transaction.Taxes.HasValue)
+            yield return new XElement("TAXES", FormatAmount(costs * transaction.Taxes.Value / total));
+    }
+
+    private static XElement? Memo(Investment transaction) =>
+        string.IsNullOrWhiteSpace(transaction.Description) ? null : new XElement("MEMO", Truncate(transaction.Description, 255));
+
+    private static XElement Status() => new("STATUS",
+        new XElement("CODE", "0"),
+        new XElement("SEVERITY", "INFO"));
+
+    private static string FormatDate(DateTime date) => date.ToString("yyyyMMddHHmmss", CultureInfo.InvariantCulture);
+
+    private static string FormatAmount(decimal amount) => amount.ToString("0.########", CultureInfo.InvariantCulture);
+
+    private static string Truncate(string text, int length) => text.Length > length ? text[..length] : text;
+}
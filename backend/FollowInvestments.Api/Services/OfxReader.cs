@@ -0,0 +1,114 @@
+using System.Net;
+
+namespace FollowInvestments.Api.Services;
+
+// Reads the element tree of an OFX or QFX file. OFX 1.x is SGML whose leaf elements have no closing tag and
+// OFX 2.x is XML; one tolerant reader handles both, skipping the headers before <OFX>
+public static class OfxReader
+{
+    // The <OFX> element, null when the content has none
+    public static OfxElement? Read(string content)
+    {
+        var start = content.IndexOf("<OFX>", StringComparison.OrdinalIgnoreCase);
+        if (start < 0)
+            return null;
+
+        var line = 1 + content.Take(start).Count(c => c == '\n');
+        var root = new OfxElement { Name = "#ROOT" };
+        var open = new List<OfxElement> { root };
+        var position = start;
+
+        while (position < content.Length)
+        {
+            var tagStart = content.IndexOf('<', position);
+            if (tagStart < 0)
+                break;
+
+            line += CountLines(content, position, tagStart);
+            var tagEnd = content.IndexOf('>', tagStart);
+            if (tagEnd < 0)
+                break;
+
+            var tag = content[(tagStart + 1)..tagEnd].Trim();
+            line += CountLines(content, tagStart, tagEnd);
+            position = tagEnd + 1;
+
+            if (tag.StartsWith('?') || tag.StartsWith('!') || tag.Length == 0)
+                continue;
+
+            if (tag.StartsWith('/'))
+            {
+                // Closing an aggregate also closes any leaf left open inside it; a closing tag for a
+                // leaf that was already closed is ignored
+                var name = tag[1..].Trim().ToUpperInvariant();
+                var index = open.FindLastIndex(e => e.Name == name);
+                if (index > 0)
+                    open.RemoveRange(index, open.Count - index);
+                continue;
+            }
+
+            var selfClosing = tag.EndsWith('/');
+            var element = new OfxElement
+            {
+                Name = tag.TrimEnd('/').Split(' ', 2)[0].ToUpperInvariant(),
+                LineNumber = line
+            };
+            open[^1].Children.Add(element);
+            if (selfClosing)
+                continue;
+
+            var textEnd = content.IndexOf('<', position);
+            var text = (textEnd < 0 ? content[position..] : content[position..textEnd]).Trim();
+            if (text.Length > 0)
+            {
+                // An element with a value is a leaf whether or not its closing tag follows
+                element.Value = WebUtility.HtmlDecode(text);
+                continue;
+            }
+
+            open.Add(element);
+        }
+
+        return root.Element("OFX");
+    }
+
+    private static int CountLines(string content, int from, int to)
+    {
+        var count = 0;
+        for (var i = from; i < to; i++)
+        {
+            if (content[i] == '\n')
+                count++;
+        }
+
+        return count;
+    }
+}
+
+public class OfxElement
+{
+    public string Name { get; set; } = string.Empty;
+    // Text of a leaf element, null for aggregates
+    public string? Value { get; set; }
+    public int LineNumber { get; set; }
+    public List<OfxElement> Children { get; set; } = new();
+
+    public OfxElement? Element(string name) => Children.FirstOrDefault(c => c.Name == name);
+
+    public IEnumerable<OfxElement> Descendants(string name) =>
+        Children.SelectMany(c => c.Name == name ? new[] { c } : c.Descendants(name));
+
+    // Value of the leaf at the path below this element, empty when there is none
+    public string Text(params string[] path)
+    {
+        var element = this;
+        foreach (var name in path)
+        {
+            element = element.Element(name);
+            if (element == null)
+                return string.Empty;
+        }
+
+        return element.Value?.Trim() ?? string.Empty;
+    }
+}
@@ -0,0 +1,354 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Investment statements (INVSTMTRS) in OFX 1.x, OFX 2.x or Quicken QFX, as downloaded from many Canadian and
+// US institutions or exported by desktop finance software and by OfxExportService. Transactions are identified
+// by the institution's FITID and positions bring holdings up to the units the statement reports
+public class OfxStatementParser : IStatementParser
+{
+    private static readonly string[] DateFormats = { "yyyyMMdd" };
+
+    public string Id => "ofx";
+    public string Name => "OFX / QFX";
+    public string Description => "Investment statement in OFX or Quicken QFX format. Transactions and positions are imported; positions add the units bought before the statement period.";
+
+    public bool CanParse(string content) =>
+        content.Contains("<OFX>", StringComparison.OrdinalIgnoreCase) &&
+        content.Contains("<INVSTMTRS>", StringComparison.OrdinalIgnoreCase);
+
+    public StatementParseResult Parse(string content)
+    {
+        var result = new StatementParseResult();
+        var root = OfxReader.Read(content);
+        if (root == null)
+            return result;
+
+        var securities = ReadSecurities(root);
+        var occurrences = new Dictionary<string, int>();
+
+        foreach (var statement in root.Descendants("INVSTMTRS"))
+        {
+            var context = new StatementContext
+            {
+                BrokerId = statement.Text("INVACCTFROM", "BROKERID"),
+                AccountId = statement.Text("INVACCTFROM", "ACCTID"),
+                Currency = ParseCurrency(statement.Text("CURDEF")) ?? Currency.USD,
+                Securities = securities
+            };
+
+            foreach (var entry in statement.Element("INVTRANLIST")?.Children ?? new List<OfxElement>())
+            {
+                if (entry.Name is "DTSTART" or "DTEND")
+                    continue;
+
+                var transactions = new List<(StatementTransaction Transaction, string Part)>();
+                var reason = entry.Name switch
+                {
+                    "BUYSTOCK" or "BUYMF" or "BUYDEBT" or "BUYOTHER" => MapTrade(context, entry.Element("INVBUY"), TransactionType.Buy, transactions),
+                    "SELLSTOCK" or "SELLMF" or "SELLDEBT" or "SELLOTHER" => MapTrade(context, entry.Element("INVSELL"), TransactionType.Sell, transactions),
+                    "INCOME" => MapIncome(context, entry, transactions),
+                    "REINVEST" => MapReinvestment(context, entry, transactions),
+                    "INVEXPENSE" => MapExpense(context, entry, transactions),
+                    "INVBANKTRAN" => MapBankTransaction(context, entry.Element("STMTTRN"), transactions),
+                    _ => $"{entry.Name} transactions are not imported"
+                };
+
+                if (reason != null)
+                {
+                    result.Skipped.Add(new StatementSkippedLine { LineNumber = entry.LineNumber, Reason = reason });
+                    continue;
+                }
+
+                var fitId = FitId(entry);
+                foreach (var (transaction, part) in transactions)
+                {
+                    transaction.LineNumber = entry.LineNumber;
+                    transaction.SourceAccount = context.AccountId;
+                    transaction.ExternalId = ExternalId(context, fitId, part, occurrences);
+                    result.Transactions.Add(transaction);
+                }
+            }
+
+            var asOf = ParseDate(statement.Text("DTASOF"));
+            foreach (var entry in statement.Element("INVPOSLIST")?.Children ?? new List<OfxElement>())
+            {
+                var reason = MapPosition(context, entry, asOf, result.Positions);
+                if (reason != null)
+                    result.Skipped.Add(new StatementSkippedLine { LineNumber = entry.LineNumber, Reason = reason });
+            }
+
+            foreach (var position in result.Positions.Where(p => p.ExternalId.Length == 0))
+            {
+                position.ExternalId = StatementReader.ExternalId(Id,
+                    StatementReader.Key(context.BrokerId, context.AccountId, "position", position.Name, position.Date.ToString("yyyy-MM-dd")),
+                    occurrences);
+            }
+        }
+
+        return result;
+    }
+
+    // Lines exported by this app keep the external ID they were exported with, so importing the file back skips them
+    private string ExternalId(StatementContext context, string fitId, string part, Dictionary<string, int> occurrences)
+    {
+        if (context.BrokerId == OfxExportService.BrokerId && part.Length == 0 && fitId.Length is > 0 and <= 100)
+            return fitId;
+
+        return StatementReader.ExternalId(Id, StatementReader.Key(context.BrokerId, context.AccountId, fitId, part), occurrences);
+    }
+
+    // Trades keep the FITID in the INVTRAN of their INVBUY or INVSELL, income in its own INVTRAN and cash in STMTTRN
+    private static string FitId(OfxElement entry)
+    {
+        var details = entry.Element("INVBUY") ?? entry.Element("INVSELL") ?? entry;
+        var fitId = details.Text("INVTRAN", "FITID");
+        return fitId.Length > 0 ? fitId : entry.Text("STMTTRN", "FITID");
+    }
+
+    private static string? MapTrade(StatementContext context, OfxElement? trade, TransactionType type, List<(StatementTransaction, string)> transactions)
+    {
+        if (trade == null)
+            return "Trade without details";
+
+        var security = context.Security(trade.Text("SECID", "UNIQUEID"));
+        var date = ParseDate(trade.Text("INVTRAN", "DTTRADE"));
+        if (security == null || date == null ||
+            !StatementReader.TryParseDecimal(trade.Text("UNITS"), false, out var units) || units == 0)
+        {
+            return "Trade without a known security, date or units";
+        }
+
+        StatementReader.TryParseDecimal(trade.Text("UNITPRICE"), false, out var unitPrice);
+        StatementReader.TryParseDecimal(trade.Text("COMMISSION"), false, out var commission);
+        StatementReader.TryParseDecimal(trade.Text("FEES"), false, out var fees);
+        StatementReader.TryParseDecimal(trade.Text("TAXES"), false, out var taxes);
+
+        transactions.Add((new StatementTransaction
+        {
+            Date = date.Value,
+            Type = type,
+            Category = security.Category,
+            Name = security.Name,
+            Quantity = Math.Abs(units),
+            Value = Math.Abs(unitPrice),
+            Currency = context.CurrencyOf(trade),
+            Fees = commission + fees != 0 ? Math.Abs(commission) + Math.Abs(fees) : null,
+            Taxes = taxes != 0 ? Math.Abs(taxes) : null,
+            Description = trade.Text("INVTRAN", "MEMO")
+        }, string.Empty));
+        return null;
+    }
+
+    // Dividends, interest and capital gains distributions, with the tax withheld from them
+    private static string? MapIncome(StatementContext context, OfxElement income, List<(StatementTransaction, string)> transactions)
+    {
+        var security = context.Security(income.Text("SECID", "UNIQUEID"));
+        var date = ParseDate(income.Text("INVTRAN", "DTTRADE"));
+        if (security == null || date == null || !StatementReader.TryParseDecimal(income.Text("TOTAL"), false, out var total))
+            return "Income without a known security, date or total";
+
+        StatementReader.TryParseDecimal(income.Text("WITHHOLDING"), false, out var withholding);
+        transactions.Add((new StatementTransaction
+        {
+            Date = date.Value,
+            Type = TransactionType.Dividend,
+            Category = security.Category,
+            Name = security.Name,
+            Quantity = 1,
+            Value = Math.Abs(total),
+            Currency = context.CurrencyOf(income),
+            Taxes = withholding != 0 ? Math.Abs(withholding) : null,
+            Description = income.Text("INVTRAN", "MEMO")
+        }, string.Empty));
+        return null;
+    }
+
+    // A reinvested distribution is income that buys units straight away, recorded as both
+    private static string? MapReinvestment(StatementContext context, OfxElement reinvest, List<(StatementTransaction, string)> transactions)
+    {
+        var security = context.Security(reinvest.Text("SECID", "UNIQUEID"));
+        var date = ParseDate(reinvest.Text("INVTRAN", "DTTRADE"));
+        if (security == null || date == null ||
+            !StatementReader.TryParseDecimal(reinvest.Text("TOTAL"), false, out var total) ||
+            !StatementReader.TryParseDecimal(reinvest.Text("UNITS"), false, out var units) || units == 0)
+        {
+            return "Reinvestment without a known security, date, total or units";
+        }
+
+        StatementReader.TryParseDecimal(reinvest.Text("UNITPRICE"), false, out var unitPrice);
+        var currency = context.CurrencyOf(reinvest);
+        var memo = reinvest.Text("INVTRAN", "MEMO");
+        transactions.Add((new StatementTransaction
+        {
+            Date = date.Value,
+            Type = TransactionType.Dividend,
+            Category = security.Category,
+            Name = security.Name,
+            Quantity = 1,
+            Value = Math.Abs(total),
+            Currency = currency,
+            Description = memo
+        }, "income"));
+        transactions.Add((new StatementTransaction
+        {
+            Date = date.Value,
+            Type = TransactionType.Buy,
+            Category = security.Category,
+            Name = security.Name,
+            Quantity = Math.Abs(units),
+            Value = unitPrice != 0 ? Math.Abs(unitPrice) : Math.Abs(total) / Math.Abs(units),
+            Currency = currency,
+            Description = memo
+        }, "buy"));
+        return null;
+    }
+
+    private static string? MapExpense(StatementContext context, OfxElement expense, List<(StatementTransaction, string)> transactions)
+    {
+        var security = context.Security(expense.Text("SECID", "UNIQUEID"));
+        var date = ParseDate(expense.Text("INVTRAN", "DTTRADE"));
+        if (security == null || date == null || !StatementReader.TryParseDecimal(expense.Text("TOTAL"), false, out var total))
+            return "Expense without a known security, date or total";
+
+        transactions.Add((new StatementTransaction
+        {
+            Date = date.Value,
+            Type = TransactionType.Fee,
+            Category = security.Category,
+            Name = security.Name,
+            Quantity = 1,
+            Value = Math.Abs(total),
+            Currency = context.CurrencyOf(expense),
+            Description = expense.Text("INVTRAN", "MEMO")
+        }, string.Empty));
+        return null;
+    }
+
+    // Money moved in or out of the account's cash, with interest and fees charged to it
+    private static string? MapBankTransaction(StatementContext context, OfxElement? bank, List<(StatementTransaction, string)> transactions)
+    {
+        var date = ParseDate(bank?.Text("DTPOSTED"));
+        if (bank == null || date == null ||
+            !StatementReader.TryParseDecimal(bank.Text("TRNAMT"), false, out var amount) || amount == 0)
+        {
+            return "Cash transaction without a date or amount";
+        }
+
+        var type = bank.Text("TRNTYPE").ToUpperInvariant() switch
+        {
+            "INT" or "DIV" => TransactionType.Dividend,
+            "FEE" or "SRVCHG" => TransactionType.Fee,
+            _ => amount > 0 ? TransactionType.Deposit : TransactionType.Withdrawal
+        };
+
+        var name = bank.Text("NAME");
+        var memo = bank.Text("MEMO");
+        transactions.Add((new StatementTransaction
+        {
+            Date = date.Value,
+            Type = type,
+            Category = Category.Cash,
+            Name = InvestmentLedgerService.CashPositionName,
+            Quantity = 1,
+            Value = Math.Abs(amount),
+            Currency = context.CurrencyOf(bank),
+            Description = string.Join(" - ", new[] { name, memo }.Where(s => s.Length > 0))
+        }, string.Empty));
+        return null;
+    }
+
+    private static string? MapPosition(StatementContext context, OfxElement entry, DateTime? asOf, List<StatementPosition> positions)
+    {
+        var position = entry.Element("INVPOS");
+        if (position == null)
+            return $"{entry.Name} positions are not imported";
+        if (position.Text("POSTYPE").Equals("SHORT", StringComparison.OrdinalIgnoreCase))
+            return "Short positions are not imported";
+
+        var security = context.Security(position.Text("SECID", "UNIQUEID"));
+        var date = ParseDate(position.Text("DTPRICEASOF")) ?? asOf;
+        if (security == null || date == null ||
+            !StatementReader.TryParseDecimal(position.Text("UNITS"), false, out var units) || units <= 0)
+        {
+            return "Position without a known security, date or units";
+        }
+
+        StatementReader.TryParseDecimal(position.Text("UNITPRICE"), false, out var unitPrice);
+        if (unitPrice == 0 && StatementReader.TryParseDecimal(position.Text("MKTVAL"), false, out var marketValue))
+            unitPrice = marketValue / units;
+
+        positions.Add(new StatementPosition
+        {
+            LineNumber = entry.LineNumber,
+            SourceAccount = context.AccountId,
+            Date = date.Value,
+            Category = security.Category,
+            Name = security.Name,
+            Quantity = units,
+            UnitPrice = Math.Abs(unitPrice),
+            Currency = context.CurrencyOf(position)
+        });
+        return null;
+    }
+
+    // Securities of the file by their unique id, named by ticker when the institution gives one
+    private static Dictionary<string, OfxSecurity> ReadSecurities(OfxElement root)
+    {
+        var securities = new Dictionary<string, OfxSecurity>();
+        foreach (var entry in root.Descendants("SECLIST").SelectMany(list => list.Children))
+        {
+            var info = entry.Element("SECINFO");
+            var uniqueId = info?.Text("SECID", "UNIQUEID") ?? string.Empty;
+            if (info == null || uniqueId.Length == 0)
+                continue;
+
+            var ticker = info.Text("TICKER");
+            var name = info.Text("SECNAME");
+            securities[uniqueId] = new OfxSecurity
+            {
+                Name = (ticker.Length > 0 ? ticker : name.Length > 0 ? name : uniqueId).ToUpperInvariant(),
+                Category = entry.Name switch
+                {
+                    "MFINFO" => Category.ETF,
+                    "DEBTINFO" => Category.Bonds,
+                    _ => name.Contains("ETF", StringComparison.OrdinalIgnoreCase) ? Category.ETF : Category.Stocks
+                }
+            };
+        }
+
+        return securities;
+    }
+
+    // "20240105120000.000[-5:EST]" is read as its date
+    private static DateTime? ParseDate(string? value) =>
+        value != null && value.Length >= 8 && StatementReader.TryParseDate(value[..8], DateFormats, out var date) ? date : null;
+
+    private static Currency? ParseCurrency(string value) =>
+        Enum.TryParse<Currency>(value, true, out var currency) ? currency : null;
+
+    private class StatementContext
+    {
+        public string BrokerId { get; set; } = string.Empty;
+        public string AccountId { get; set; } = string.Empty;
+        // CURDEF of the statement
+        public Currency Currency { get; set; }
+        public Dictionary<string, OfxSecurity> Securities { get; set; } = new();
+
+        // Securities missing from the SECLIST are named by their unique id
+        public OfxSecurity? Security(string uniqueId) =>
+            uniqueId.Length == 0 ? null
+                : Securities.TryGetValue(uniqueId, out var security) ? security
+                : new OfxSecurity { Name = uniqueId.ToUpperInvariant(), Category = Category.Stocks };
+
+        // Amounts are in <CURRENCY> when an entry names one; with <ORIGCURRENCY> they were already converted to CURDEF
+        public Currency CurrencyOf(OfxElement entry) =>
+            ParseCurrency(entry.Text("CURRENCY", "CURSYM")) ?? Currency;
+    }
+
+    private class OfxSecurity
+    {
+        public string Name { get; set; } = string.Empty;
+        public Category Category { get; set; }
+    }
+}
@@ -0,0 +1,349 @@
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IPlannerService
+{
+    Task<PlannerAssumptions> GetAssumptionsAsync(List<Investment> investments, Currency currency, CostBasisMethod method);
+    Task<PlannerSimulation> SimulateAsync(List<Investment> investments, List<GoalMarker> goals, PlannerSimulationRequest request, CostBasisMethod method);
+}
+
+public class PlannerService : IPlannerService
+{
+    // A category needs at least this many monthly returns before its history is trusted
+    private const int MinimumHistoryMonths = 12;
+    private static readonly int[] Percentiles = { 10, 25, 50, 75, 90 };
+
+    private readonly InvestmentContext _context;
+    private readonly IInvestmentPerformanceService _performanceService;
+    private readonly ICurrencyService _currencyService;
+
+    public PlannerService(InvestmentContext context, IInvestmentPerformanceService performanceService, ICurrencyService currencyService)
+    {
+        _context = context;
+        _performanceService = performanceService;
+        _currencyService = currencyService;
+    }
+
+    public async Task<PlannerAssumptions> GetAssumptionsAsync(List<Investment> investments, Currency currency, CostBasisMethod method)
+    {
+        var portfolio = await LoadPortfolioAsync(investments, currency, method);
+        return new PlannerAssumptions
+        {
+            Currency = currency.ToString(),
+            StartingValue = Math.Round(portfolio.TotalValue, 2),
+            Categories = await CalculateCategoryAssumptionsAsync(portfolio.Holdings, portfolio.TotalValue)
+        };
+    }
+
+    public async Task<PlannerSimulation> SimulateAsync(List<Investment> investments, List<GoalMarker> goals, PlannerSimulationRequest request, CostBasisMethod method)
+    {
+        var portfolio = await LoadPortfolioAsync(investments, request.Currency, method);
+        var categories = request.Categories.Any()
+            ? request.Categories
+            : (await CalculateCategoryAssumptionsAsync(portfolio.Holdings, portfolio.TotalValue))
+                .Select(c => new CategoryAssumptionItem
+                {
+                    Category = c.Category,
+                    Weight = c.Weight,
+                    AnnualReturn = c.AnnualReturn,
+                    AnnualVolatility = c.AnnualVolatility
+                })
+                .ToList();
+
+        var today = DateOnly.FromDateTime(DateTime.UtcNow);
+        var months = request.Years * 12;
+
+        // Goals are compared with the simulated value at their target month, in the simulation currency.
+        // Account goals assume the account keeps its current share of the portfolio
+        var simulatedGoals = new List<(GoalProbability Result, int Month, double Share)>();
+        foreach (var goal in goals.Where(g => DateOnly.FromDateTime(g.Date) > today))
+        {
+            var rate = await GetRateAsync(goal.Currency, request.Currency.ToString());
+            var month = (int)Math.Ceiling((DateOnly.FromDateTime(goal.Date).DayNumber - today.DayNumber) / (365.25 / 12));
+            var share = goal.AccountId.HasValue
+                ? portfolio.TotalValue > 0 ? (double)(portfolio.AccountValues.GetValueOrDefault(goal.AccountId.Value) / portfolio.TotalValue) : 0
+                : 1;
+
+            simulatedGoals.Add((new GoalProbability
+            {
+                GoalId = goal.GoalId,
+                AccountId = goal.AccountId,
+                Label = goal.Label,
+                Date = goal.Date,
+                TargetValue = Math.Round(goal.Value * rate, 2)
+            }, month, share));
+        }
+
+        // Monthly log returns are drawn independently per category and the portfolio is rebalanced to the weights every month
+        var totalWeight = categories.Sum(c => c.Weight);
+        var assets = categories
+            .Where(c => c.Weight > 0)
+            .Select(c => (
+                Weight: totalWeight > 0 ? (double)(c.Weight / totalWeight) : 0,
+                Drift: Math.Log(1 + (double)c.AnnualReturn / 100) / 12,
+                Volatility: (double)c.AnnualVolatility / 100 / Math.Sqrt(12)))
+            .ToArray();
+        var monthlyInflation = Math.Pow(1 + (double)request.InflationRate / 100, 1.0 / 12);
+        var withdrawalStartMonth = request.WithdrawalStartYear.HasValue ? request.WithdrawalStartYear.Value * 12 : int.MaxValue;
+
+        var random = request.Seed.HasValue ? new Random(request.Seed.Value) : new Random();
+        double NextGaussian()
+        {
+            // Box-Muller transform
+            var u1 = 1.0 - random.NextDouble();
+            var u2 = random.NextDouble();
+            return Math.Sqrt(-2.0 * Math.Log(u1)) * Math.Cos(2.0 * Math.PI * u2);
+        }
+
+        var yearValues = new double[request.Years + 1][];
+        for (var year = 0; year <= request.Years; year++)
+            yearValues[year] = new double[request.Simulations];
+        var goalValues = simulatedGoals.Select(_ => new double[request.Simulations]).ToArray();
+        var solvent = 0;
+
+        for (var simulation = 0; simulation < request.Simulations; simulation++)
+        {
+            var value = (double)portfolio.TotalValue;
+            var priceLevel = 1.0;
+            var depleted = false;
+            yearValues[0][simulation] = value;
+
+            for (var month = 1; month <= months; month++)
+            {
+                var portfolioReturn = 0.0;
+                foreach (var asset in assets)
+                    portfolioReturn += asset.Weight * (Math.Exp(asset.Drift + asset.Volatility * NextGaussian()) - 1);
+
+                // Contributions and withdrawals are set in today's money and follow inflation
+                priceLevel *= monthlyInflation;
+                value = value * (1 + portfolioReturn) + (month <= withdrawalStartMonth
+                    ? (double)request.MonthlyContribution * priceLevel
+                    : -(double)request.MonthlyWithdrawal * priceLevel);
+
+                if (value < 0)
+                {
+                    value = 0;
+                    depleted = true;
+                }
+
+                if (month % 12 == 0)
+                    yearValues[month / 12][simulation] = value / priceLevel;
+
+                for (var g = 0; g < simulatedGoals.Count; g++)
+                {
+                    if (simulatedGoals[g].Month == month)
+                        goalValues[g][simulation] = value * simulatedGoals[g].Share;
+                }
+            }
+
+            if (!depleted)
+                solvent++;
+        }
+
+        var points = new List<PlannerPercentilePoint>();
+        for (var year = 0; year <= request.Years; year++)
+        {
+            Array.Sort(yearValues[year]);
+            var values = Percentiles.Select(p => Math.Round((decimal)Percentile(yearValues[year], p), 2)).ToArray();
+            points.Add(new PlannerPercentilePoint
+            {
+                Year = year,
+                Date = today.AddYears(year).ToDateTime(TimeOnly.MinValue),
+                P10 = values[0],
+                P25 = values[1],
+                P50 = values[2],
+                P75 = values[3],
+                P90 = values[4]
+            });
+        }
+
+        for (var g = 0; g < simulatedGoals.Count; g++)
+        {
+            var (result, month, _) = simulatedGoals[g];
+            if (month <= months)
+            {
+                var target = (double)result.TargetValue;
+                result.Probability = Math.Round((decimal)goalValues[g].Count(v => v >= target) / request.Simulations * 100, 1);
+            }
+        }
+
+        return new PlannerSimulation
+        {
+            Currency = request.Currency.ToString(),
+            StartingValue = Math.Round(portfolio.TotalValue, 2),
+            Years = request.Years,
+            Simulations = request.Simulations,
+            SuccessRate = Math.Round((decimal)solvent / request.Simulations * 100, 1),
+            Points = points,
+            Goals = simulatedGoals.Select(g => g.Result).ToList()
+        };
+    }
+
+    // Open holdings and the value of each account in the planner currency
+    private async Task<(List<(HoldingPerformance Holding, decimal Value)> Holdings, Dictionary<int, decimal> AccountValues, decimal TotalValue)> LoadPortfolioAsync(
+        List<Investment> investments, Currency currency, CostBasisMethod method)
+    {
+        var holdings = new List<(HoldingPerformance Holding, decimal Value)>();
+        var accountValues = new Dictionary<int, decimal>();
+
+        foreach (var account in investments.GroupBy(i => i.AccountId))
+        {
+            var accountHoldings = await _performanceService.CalculateHoldingsAsync(account.ToList(), method);
+            foreach (var holding in accountHoldings.Where(h => h.Quantity != 0))
+            {
+                var value = holding.CurrentValue * await GetRateAsync(holding.Currency, currency.ToString());
+                holdings.Add((holding, value));
+                accountValues[account.Key] = accountValues.GetValueOrDefault(account.Key) + value;
+            }
+        }
+
+        return (holdings, accountValues, accountValues.Values.Sum());
+    }
+
+    // Mean and volatility of each category from the monthly closes stored for its holdings, weighted by
+    // holding value. Returns are taken in each symbol's own currency, so exchange rate moves are not included
+    private async Task<List<CategoryAssumption>> CalculateCategoryAssumptionsAsync(List<(HoldingPerformance Holding, decimal Value)> holdings, decimal totalValue)
+    {
+        var symbols = holdings.Select(h => h.Holding.Symbol).Distinct().ToList();
+        var closes = await _context.StockPrices
+            .Where(sp => symbols.Contains(sp.Symbol))
+            .OrderBy(sp => sp.PriceDate)
+            .Select(sp => new { sp.Symbol, sp.PriceDate, sp.ClosePrice })
+            .ToListAsync();
+
+        var symbolStatistics = closes
+            .GroupBy(c => c.Symbol)
+            .Select(g => (Symbol: g.Key, Statistics: MonthlyStatistics(g
+                .GroupBy(c => new { c.PriceDate.Year, c.PriceDate.Month })
+                .Select(m => m.Last().ClosePrice)
+                .ToList())))
+            .Where(s => s.Statistics.Months >= MinimumHistoryMonths)
+            .ToDictionary(s => s.Symbol, s => s.Statistics);
+
+        return holdings
+            .GroupBy(h => h.Holding.Category)
+            .Select(category =>
+            {
+                var value = category.Sum(h => h.Value);
+                var withHistory = category
+                    .Where(h => symbolStatistics.ContainsKey(h.Holding.Symbol) && h.Value > 0)
+                    .Select(h => (h.Value, Statistics: symbolStatistics[h.Holding.Symbol]))
+                    .ToList();
+                var historyValue = withHistory.Sum(h => h.Value);
+
+                var assumption = new CategoryAssumption
+                {
+                    Category = category.Key,
+                    Value = Math.Round(value, 2),
+                    Weight = totalValue > 0 ? Math.Round(value / totalValue * 100, 2) : 0,
+                    HasHistory = withHistory.Any(),
+                    Months = withHistory.Select(h => h.Statistics.Months).DefaultIfEmpty(0).Max()
+                };
+
+                if (historyValue > 0)
+                {
+                    var mean = withHistory.Sum(h => (double)(h.Value / historyValue) * h.Statistics.Mean);
+                    var volatility = withHistory.Sum(h => (double)(h.Value / historyValue) * h.Statistics.Volatility);
+                    assumption.AnnualReturn = Math.Round((decimal)((Math.Exp(mean * 12) - 1) * 100), 2);
+                    assumption.AnnualVolatility = Math.Round((decimal)(volatility * Math.Sqrt(12) * 100), 2);
+                }
+
+                return assumption;
+            })
+            .OrderByDescending(c => c.Value)
+            .ToList();
+    }
+
+    // Mean and standard deviation of the monthly log returns between month-end closes
+    private static (double Mean, double Volatility, int Months) MonthlyStatistics(List<decimal> monthEndCloses)
+    {
+        var returns = new List<double>();
+        for (var i = 1; i < monthEndCloses.Count; i++)
+        {
+            if (monthEndCloses[i - 1] > 0 && monthEndCloses[i] > 0)
+                returns.Add(Math.Log((double)(monthEndCloses[i] / monthEndCloses[i - 1])));
+        }
+
+        if (returns.Count < 2)
+            return (0, 0, returns.Count);
+
+        var mean = returns.Average();
+        var variance = returns.Sum(r => (r - mean) * (r - mean)) / (returns.Count - 1);
+        return (mean, Math.Sqrt(variance), returns.Count);
+    }
+
+    private static double Percentile(double[] sorted, int percentile)
+    {
+        var position = (sorted.Length - 1) * percentile / 100.0;
+        var lower = (int)Math.Floor(position);
+        var upper = (int)Math.Ceiling(position);
+        return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+    }
+
+    private async Task<decimal> GetRateAsync(string from, string to)
+    {
+        if (from == to)
+            return 1m;
+
+        return await _currencyService.GetExchangeRateAsync(from, to) ?? 1m;
+    }
+}
+
+public class PlannerAssumptions
+{
+    public string Currency { get; set; } = string.Empty;
+    public decimal StartingValue { get; set; }
+    public List<CategoryAssumption> Categories { get; set; } = new();
+}
+
+public class CategoryAssumption
+{
+    public string Category { get; set; } = string.Empty;
+    public decimal Value { get; set; }
+    // Percent of the portfolio
+    public decimal Weight { get; set; }
+    // Percent per year, zero for categories without enough price history
+    public decimal AnnualReturn { get; set; }
+    public decimal AnnualVolatility { get; set; }
+    public bool HasHistory { get; set; }
+    public int Months { get; set; }
+}
+
+public class PlannerSimulation
+{
+    public string Currency { get; set; } = string.Empty;
+    public decimal StartingValue { get; set; }
+    public int Years { get; set; }
+    public int Simulations { get; set; }
+    // Share of simulations in which the portfolio never runs out
+    public decimal SuccessRate { get; set; }
+    // Yearly percentiles in today's money
+    public List<PlannerPercentilePoint> Points { get; set; } = new();
+    public List<GoalProbability> Goals { get; set; } = new();
+}
+
+public class PlannerPercentilePoint
+{
+    public int Year { get; set; }
+    public DateTime Date { get; set; }
+    public decimal P10 { get; set; }
+    public decimal P25 { get; set; }
+    public decimal P50 { get; set; }
+    public decimal P75 { get; set; }
+    public decimal P90 { get; set; }
+}
+
+public class GoalProbability
+{
+    public int GoalId { get; set; }
+    public int? AccountId { get; set; }
+    public string Label { get; set; } = string.Empty;
+    public DateTime Date { get; set; }
+    // Goal amount in the simulation currency, compared with the simulated value at the goal date
+    public decimal TargetValue { get; set; }
+    // Percent of simulations reaching the goal, null when the goal is past the horizon
+    public decimal? Probability { get; set; }
+}
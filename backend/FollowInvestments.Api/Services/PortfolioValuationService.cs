@@ -0,0 +1,354 @@
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IPortfolioValuationService
+{
+    Task<ValuationTimelineData> GetValuationTimelineAsync(List<Investment> investments, TimelineResolution resolution, Currency currency, CostBasisMethod method, string? benchmarkSymbol = null);
+    // One timeline per account in the account's currency, valued in a single pass over the transactions
+    Task<Dictionary<int, ValuationTimelineData>> GetAccountValuationTimelinesAsync(List<Investment> investments, TimelineResolution resolution, IReadOnlyDictionary<int, Currency> accountCurrencies, CostBasisMethod method);
+}
+
+public class PortfolioValuationService : IPortfolioValuationService
+{
+    // Stored history is refetched when it starts after the first purchase or ends before today by more than this many days
+    private const int HistoryToleranceDays = 7;
+
+    private readonly InvestmentContext _context;
+    private readonly IYahooFinanceService _yahooFinanceService;
+    private readonly IInvestmentLedgerService _ledgerService;
+    private readonly ICurrencyService _currencyService;
+    private readonly IFixedIncomeService _fixedIncomeService;
+    private readonly ICorporateActionService _corporateActionService;
+    private readonly ILogger<PortfolioValuationService> _logger;
+
+    public PortfolioValuationService(
+        InvestmentContext context,
+        IYahooFinanceService yahooFinanceService,
+        IInvestmentLedgerService ledgerService,
+        ICurrencyService currencyService,
+        IFixedIncomeService fixedIncomeService,
+        ICorporateActionService corporateActionService,
+        ILogger<PortfolioValuationService> logger)
+    {
+        _context = context;
+        _yahooFinanceService = yahooFinanceService;
+        _ledgerService = ledgerService;
+        _currencyService = currencyService;
+        _fixedIncomeService = fixedIncomeService;
+        _corporateActionService = corporateActionService;
+        _logger = logger;
+    }
+
+    public static string CacheKey(int userId, TimelineResolution resolution, Currency currency, int? accountId, string? benchmarkSymbol) =>
+        $"valuation_user_{userId}_{resolution}_{currency}_{accountId?.ToString() ?? "all"}_{benchmarkSymbol ?? "none"}";
+
+    public static string CacheKeyPattern(int userId) =>
+        $"valuation_user_{userId}_*";
+
+    public async Task<ValuationTimelineData> GetValuationTimelineAsync(List<Investment> investments, TimelineResolution resolution, Currency currency, CostBasisMethod method, string? benchmarkSymbol = null)
+    {
+        var result = (await BuildTimelinesAsync(investments, resolution, method, _ => 0, new Dictionary<int, Currency> { [0] = currency }))[0];
+        if (result.Points.Any() && !string.IsNullOrEmpty(benchmarkSymbol))
+        {
+            result.BenchmarkSymbol = benchmarkSymbol;
+            await AddBenchmarkValuesAsync(result, benchmarkSymbol, DateOnly.FromDateTime(result.Points.First().Date), DateOnly.FromDateTime(result.Points.Last().Date));
+        }
+
+        return result;
+    }
+
+    public Task<Dictionary<int, ValuationTimelineData>> GetAccountValuationTimelinesAsync(List<Investment> investments, TimelineResolution resolution, IReadOnlyDictionary<int, Currency> accountCurrencies, CostBasisMethod method) =>
+        BuildTimelinesAsync(investments.Where(i => accountCurrencies.ContainsKey(i.AccountId)).ToList(), resolution, method, accountId => accountId, accountCurrencies);
+
+    // Values the holdings of every series, a group of accounts in one currency, in a single replay of the
+    // transactions. Each series has its own dates from its first transaction, so an account opened later does
+    // not start with a run of empty points
+    private async Task<Dictionary<int, ValuationTimelineData>> BuildTimelinesAsync(
+        List<Investment> investments, TimelineResolution resolution, CostBasisMethod method,
+        Func<int, int> seriesOf, IReadOnlyDictionary<int, Currency> currencies)
+    {
+        var results = currencies.ToDictionary(c => c.Key, c => new ValuationTimelineData
+        {
+            Resolution = resolution,
+            Currency = c.Value.ToString()
+        });
+
+        if (!investments.Any())
+            return results;
+
+        var startDate = DateOnly.FromDateTime(investments.Min(i => i.Date));
+        var endDate = DateOnly.FromDateTime(DateTime.UtcNow);
+
+        // Closes from Yahoo Finance are adjusted for every later split, so each date is valued in today's units
+        // and tickers: corporate actions restate the whole timeline rather than only the dates after them
+        var corporateActions = await _corporateActionService.GetActionsAsync(investments, endDate);
+
+        // Every quoted holding needs closes from its first transaction onwards
+        var quoted = _ledgerService.BuildPositions(investments, method, corporateActions)
+            .Where(p => InvestmentSymbolMapper.HasMarketPrice(p.Category))
+            .Select(p => new { Symbol = InvestmentSymbolMapper.MapPositionToSymbol(p), Series = seriesOf(p.AccountId), Date = DateOnly.FromDateTime(p.Transactions.Min(t => t.Date)) })
+            .Where(s => !string.IsNullOrEmpty(s.Symbol))
+            .ToList();
+
+        var prices = new Dictionary<string, List<(DateOnly Date, decimal Value)>>();
+        foreach (var symbol in quoted.GroupBy(s => s.Symbol))
+        {
+            prices[symbol.Key] = await GetPriceHistoryAsync(symbol.Key, symbol.Min(s => s.Date), endDate);
+            if (prices[symbol.Key].Any())
+                continue;
+
+            foreach (var series in symbol.Select(s => s.Series).Distinct())
+                results[series].SymbolsWithoutPrices.Add(symbol.Key);
+        }
+
+        var rates = new Dictionary<(Currency From, Currency To), List<(DateOnly Date, decimal Value)>>();
+        var fallbackRates = new Dictionary<(Currency From, Currency To), decimal>();
+        foreach (var toCurrency in currencies.Values.Distinct())
+        {
+            foreach (var fromCurrency in investments.Select(i => i.Currency).Distinct().Where(c => c != toCurrency))
+            {
+                rates[(fromCurrency, toCurrency)] = await _currencyService.GetRateHistoryAsync(fromCurrency.ToString(), toCurrency.ToString(), startDate, endDate);
+                fallbackRates[(fromCurrency, toCurrency)] = await _currencyService.GetExchangeRateAsync(fromCurrency.ToString(), toCurrency.ToString()) ?? 1m;
+            }
+        }
+
+        var accountIds = investments.Select(i => i.AccountId).Distinct().ToList();
+        var valuations = await _context.ManualValuations
+            .Where(v => accountIds.Contains(v.AccountId) && v.Date <= endDate)
+            .OrderBy(v => v.Date)
+            .ToListAsync();
+
+        decimal RateAt(Currency fromCurrency, Currency toCurrency, DateOnly date) => fromCurrency == toCurrency
+            ? 1m
+            : FindOnOrBefore(rates[(fromCurrency, toCurrency)], date) ?? fallbackRates[(fromCurrency, toCurrency)];
+
+        var cashAccounts = InvestmentLedgerService.TrackedCash(investments);
+
+        var seriesDates = investments
+            .GroupBy(i => seriesOf(i.AccountId))
+            .ToDictionary(g => g.Key, g => BuildDates(DateOnly.FromDateTime(g.Min(i => i.Date)), endDate, resolution).ToHashSet());
+        var previousAsOf = seriesDates.Keys.ToDictionary(series => series, _ => DateTime.MinValue);
+
+        var ordered = investments.OrderBy(i => i.Date).ToList();
+        var included = -1;
+        var positions = new List<LedgerPosition>();
+        foreach (var date in seriesDates.Values.SelectMany(d => d).Distinct().OrderBy(d => d))
+        {
+            var asOf = date.ToDateTime(TimeOnly.MaxValue);
+
+            // Positions only change with a transaction, so they are replayed again only on dates that bring one
+            var count = included < 0 ? 0 : included;
+            while (count < ordered.Count && ordered[count].Date <= asOf)
+                count++;
+            if (count != included)
+            {
+                positions = _ledgerService.BuildPositions(ordered.Take(count), method, corporateActions);
+                included = count;
+            }
+
+            foreach (var series in seriesDates.Where(s => s.Value.Contains(date)).Select(s => s.Key))
+            {
+                var currency = currencies[series];
+                var netContribution = investments
+                    .Where(i => seriesOf(i.AccountId) == series && i.Date > previousAsOf[series] && i.Date <= asOf)
+                    .Sum(i => ExternalFlow(i, cashAccounts.Contains((i.AccountId, i.Currency))) * RateAt(i.Currency, currency, DateOnly.FromDateTime(i.Date)));
+                previousAsOf[series] = asOf;
+
+                decimal marketValue = 0, costBasis = 0;
+                foreach (var position in positions.Where(p => p.IsOpen && seriesOf(p.AccountId) == series))
+                {
+                    var rate = RateAt(position.Currency, currency, date);
+
+                    // Holdings without a close, an index to accrue with or a manual valuation on or before this date are carried at cost
+                    decimal? value = null;
+                    if (InvestmentSymbolMapper.HasMarketPrice(position.Category))
+                    {
+                        var symbol = InvestmentSymbolMapper.MapPositionToSymbol(position);
+                        if (prices.TryGetValue(symbol, out var history))
+                            value = position.Quantity * FindOnOrBefore(history, date);
+                    }
+                    else if (!position.IsCash)
+                    {
+                        value = (await _fixedIncomeService.GetAccrualAsync(position, date))?.Value;
+
+                        var valuation = value.HasValue ? null : ManualValuationCalculator.FindLatest(valuations, position, date);
+                        if (valuation != null)
+                            value = ManualValuationCalculator.ValueOn(valuation, position, date);
+                    }
+
+                    marketValue += (value ?? position.CostBasis) * rate;
+                    costBasis += position.CostBasis * rate;
+                }
+
+                results[series].Points.Add(new ValuationPoint
+                {
+                    Date = date.ToDateTime(TimeOnly.MinValue),
+                    MarketValue = Math.Round(marketValue, 2),
+                    CostBasis = Math.Round(costBasis, 2),
+                    NetContribution = Math.Round(netContribution, 2)
+                });
+            }
+        }
+
+        // Valuations of holdings that were still open on their date, so the chart can mark them
+        foreach (var valuation in valuations)
+        {
+            var position = _ledgerService
+                .BuildPositions(investments.Where(i => i.Date <= valuation.Date.ToDateTime(TimeOnly.MaxValue)), method, corporateActions)
+                .FirstOrDefault(p => p.IsOpen && ManualValuationCalculator.Matches(valuation, p));
+            if (position == null)
+                continue;
+
+            var result = results[seriesOf(position.AccountId)];
+            if (!result.Points.Any() || valuation.Date < DateOnly.FromDateTime(result.Points.First().Date))
+                continue;
+
+            result.ManualValuations.Add(new ManualValuationMarker
+            {
+                Date = valuation.Date.ToDateTime(TimeOnly.MinValue),
+                Name = position.Name,
+                Value = Math.Round(valuation.Value * RateAt(valuation.Currency, Enum.Parse<Currency>(result.Currency), valuation.Date), 2)
+            });
+        }
+
+        foreach (var result in results.Values)
+        {
+            result.CurrentMarketValue = result.Points.LastOrDefault()?.MarketValue ?? 0;
+            result.CurrentCostBasis = result.Points.LastOrDefault()?.CostBasis ?? 0;
+        }
+
+        return results;
+    }
+
+    // Replays the contributions into the benchmark: every deposit buys index units at that day's level
+    // and every withdrawal sells them, so both lines start on the same date with the same money.
+    // The index is followed in its own currency, only its growth matters for the comparison.
+    private async Task AddBenchmarkValuesAsync(ValuationTimelineData result, string benchmarkSymbol, DateOnly startDate, DateOnly endDate)
+    {
+        var history = await GetPriceHistoryAsync(benchmarkSymbol, startDate, endDate);
+        if (!history.Any())
+            return;
+
+        decimal units = 0;
+        foreach (var point in result.Points)
+        {
+            var level = FindOnOrBefore(history, DateOnly.FromDateTime(point.Date)) ?? history.First().Value;
+            if (level <= 0)
+                continue;
+
+            // Withdrawing more than the benchmark is worth empties it rather than going short
+            units = Math.Max(0, units + point.NetContribution / level);
+            point.BenchmarkValue = Math.Round(units * level, 2);
+        }
+
+        result.CurrentBenchmarkValue = result.Points.LastOrDefault()?.BenchmarkValue;
+    }
+
+    // Money that entered or left the holdings being valued. Where the account tracks cash in the currency, only
+    // deposits and withdrawals cross that line; elsewhere holdings are valued without cash, so buys are money put
+    // in and sales or dividends are money taken out, each with the fees and taxes paid on it
+    public static decimal ExternalFlow(Investment investment, bool holdsCash)
+    {
+        if (holdsCash)
+        {
+            // Deposits of securities are transfers in kind, cash rows entered as buys and sells count as deposits
+            var isCash = investment.Category == Category.Cash;
+            return investment.Type switch
+            {
+                TransactionType.Deposit => investment.Total,
+                TransactionType.Withdrawal => -investment.Total,
+                TransactionType.Buy when isCash => investment.Total,
+                TransactionType.Sell when isCash => -investment.Total,
+                _ => 0
+            };
+        }
+
+        return investment.Type switch
+        {
+            TransactionType.Buy or TransactionType.Deposit or TransactionType.Fee => investment.NetAmount,
+            TransactionType.Sell or TransactionType.Withdrawal or TransactionType.Dividend => -investment.NetAmount,
+            _ => 0
+        };
+    }
+
+    private static IEnumerable<DateOnly> BuildDates(DateOnly startDate, DateOnly endDate, TimelineResolution resolution)
+    {
+        var date = startDate;
+        while (date < endDate)
+        {
+            yield return date;
+
+            date = resolution switch
+            {
+                TimelineResolution.Daily => date.AddDays(1),
+                TimelineResolution.Weekly => date.AddDays(7),
+                _ => EndOfMonth(date) == date ? EndOfMonth(date.AddDays(1)) : EndOfMonth(date)
+            };
+        }
+
+        // The last point is always today so it matches the current dashboard value
+        yield return endDate;
+    }
+
+    private static DateOnly EndOfMonth(DateOnly date) =>
+        new DateOnly(date.Year, date.Month, DateTime.DaysInMonth(date.Year, date.Month));
+
+    private static decimal? FindOnOrBefore(List<(DateOnly Date, decimal Value)> history, DateOnly date)
+    {
+        // History is sorted by date, so binary search for the last entry not after the date
+        int low = 0, high = history.Count - 1, found = -1;
+        while (low <= high)
+        {
+            var middle = (low + high) / 2;
+            if (history[middle].Date <= date)
+            {
+                found = middle;
+                low = middle + 1;
+            }
+            else
+            {
+                high = middle - 1;
+            }
+        }
+
+        return found >= 0 ? history[found].Value : null;
+    }
+
+    private async Task<List<(DateOnly Date, decimal Value)>> GetPriceHistoryAsync(string symbol, DateOnly startDate, DateOnly endDate)
+    {
+        var stored = await _context.StockPrices
+            .Where(sp => sp.Symbol == symbol && sp.PriceDate >= startDate.AddDays(-HistoryToleranceDays))
+            .OrderBy(sp => sp.PriceDate)
+            .ToListAsync();
+
+        if (!stored.Any() ||
+            stored.First().PriceDate > startDate.AddDays(HistoryToleranceDays) ||
+            stored.Last().PriceDate < endDate.AddDays(-HistoryToleranceDays))
+        {
+            try
+            {
+                var fetched = await _yahooFinanceService.GetStockPricesAsync(symbol, startDate, endDate);
+                var storedDates = stored.Select(sp => sp.PriceDate).ToHashSet();
+                var missing = fetched.Where(sp => !storedDates.Contains(sp.PriceDate)).ToList();
+
+                if (missing.Any())
+                {
+                    _context.StockPrices.AddRange(missing);
+                    await _context.SaveChangesAsync();
+                    _logger.LogInformation("Backfilled {Count} closes for {Symbol}", missing.Count, symbol);
+                }
+
+                stored = stored.Concat(missing).OrderBy(sp => sp.PriceDate).ToList();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Could not backfill price history for {Symbol}", symbol);
+            }
+        }
+
+        return stored.Select(sp => (sp.PriceDate, sp.ClosePrice)).ToList();
+    }
+}
@@ -0,0 +1,125 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Activity export from Questrade (Reports > Account activity), saved as CSV. One file can cover several
+// accounts, told apart by the "Account #" column
+public class QuestradeStatementParser : IStatementParser
+{
+    private static readonly string[] DateFormats = { "yyyy-MM-dd", "M/d/yyyy", "MM/dd/yyyy", "dd-MMM-yyyy" };
+    private static readonly string[] RequiredColumns = { "Transaction Date", "Activity Type", "Net Amount" };
+
+    public string Id => "questrade";
+    public string Name => "Questrade";
+    public string Description => "Account activity report from Questrade, saved as CSV. Trades, dividends, deposits, withdrawals, interest and fees are imported.";
+
+    public bool CanParse(string content) => StatementReader.ReadTable(content, RequiredColumns) != null;
+
+    public StatementParseResult Parse(string content)
+    {
+        var result = new StatementParseResult();
+        var table = StatementReader.ReadTable(content, RequiredColumns);
+        if (table == null)
+            return result;
+
+        var occurrences = new Dictionary<string, int>();
+        foreach (var row in table.Rows)
+        {
+            var activity = table.Get(row, "Activity Type");
+            var action = table.Get(row, "Action");
+            var symbol = table.Get(row, "Symbol").ToUpperInvariant();
+            StatementReader.TryParseDecimal(table.Get(row, "Quantity"), false, out var quantity);
+            StatementReader.TryParseDecimal(table.Get(row, "Price"), false, out var price);
+            StatementReader.TryParseDecimal(table.Get(row, "Gross Amount"), false, out var gross);
+            StatementReader.TryParseDecimal(table.Get(row, "Commission"), false, out var commission);
+            StatementReader.TryParseDecimal(table.Get(row, "Net Amount"), false, out var net);
+
+            if (!StatementReader.TryParseDate(table.Get(row, "Transaction Date"), DateFormats, out var date) ||
+                !Enum.TryParse<Currency>(table.Get(row, "Currency"), true, out var currency))
+            {
+                result.Skipped.Add(new StatementSkippedLine { LineNumber = row.LineNumber, Reason = "Missing date or unsupported currency" });
+                continue;
+            }
+
+            var transaction = new StatementTransaction
+            {
+                LineNumber = row.LineNumber,
+                SourceAccount = $"{table.Get(row, "Account Type")} {table.Get(row, "Account #")}".Trim(),
+                Date = date,
+                Currency = currency,
+                Description = table.Get(row, "Description")
+            };
+
+            var reason = StatementReader.Normalize(activity) switch
+            {
+                "trades" => MapTrade(transaction, action, symbol, quantity, price, gross, commission),
+                "dividends" => MapDividend(transaction, symbol, gross, net),
+                "deposits" => MapCash(transaction, TransactionType.Deposit, net),
+                "withdrawals" => MapCash(transaction, TransactionType.Withdrawal, net),
+                "interest" => MapCash(transaction, TransactionType.Dividend, net),
+                "fees and rebates" => MapCash(transaction, net < 0 ? TransactionType.Fee : TransactionType.Dividend, net),
+                _ => $"{activity} activity is not imported"
+            };
+
+            if (reason != null)
+            {
+                result.Skipped.Add(new StatementSkippedLine { LineNumber = row.LineNumber, Reason = reason });
+                continue;
+            }
+
+            transaction.ExternalId = StatementReader.ExternalId(Id,
+                StatementReader.Key(date.ToString("yyyy-MM-dd"), activity, action, symbol, quantity, price, net, currency, transaction.SourceAccount),
+                occurrences);
+            result.Transactions.Add(transaction);
+        }
+
+        return result;
+    }
+
+    // Null when the line was mapped, otherwise why it is skipped
+    private static string? MapTrade(StatementTransaction transaction, string action, string symbol, decimal quantity, decimal price, decimal gross, decimal commission)
+    {
+        var side = StatementReader.Normalize(action);
+        if (side != "buy" && side != "sell")
+            return $"Trade action '{action}' is not imported";
+        if (string.IsNullOrEmpty(symbol) || quantity == 0)
+            return "Trade without a symbol or quantity";
+
+        transaction.Type = side == "buy" ? TransactionType.Buy : TransactionType.Sell;
+        transaction.Category = transaction.Description.Contains("ETF", StringComparison.OrdinalIgnoreCase) ? Category.ETF : Category.Stocks;
+        transaction.Name = symbol;
+        transaction.Quantity = Math.Abs(quantity);
+        transaction.Value = price != 0 ? Math.Abs(price) : Math.Abs(gross) / Math.Abs(quantity);
+        transaction.Fees = commission != 0 ? Math.Abs(commission) : null;
+        return null;
+    }
+
+    // The gross amount is the dividend declared, the net amount what was left after withholding tax
+    private static string? MapDividend(StatementTransaction transaction, string symbol, decimal gross, decimal net)
+    {
+        if (string.IsNullOrEmpty(symbol))
+            return MapCash(transaction, TransactionType.Dividend, net);
+
+        var declared = gross != 0 ? Math.Abs(gross) : Math.Abs(net);
+        transaction.Type = TransactionType.Dividend;
+        transaction.Category = Category.Stocks;
+        transaction.Name = symbol;
+        transaction.Quantity = 1;
+        transaction.Value = declared;
+        transaction.Taxes = declared > Math.Abs(net) ? declared - Math.Abs(net) : null;
+        return null;
+    }
+
+    private static string? MapCash(StatementTransaction transaction, TransactionType type, decimal amount)
+    {
+        if (amount == 0)
+            return "Cash movement without an amount";
+
+        transaction.Type = type;
+        transaction.Category = Category.Cash;
+        transaction.Name = InvestmentLedgerService.CashPositionName;
+        transaction.Quantity = 1;
+        transaction.Value = Math.Abs(amount);
+        return null;
+    }
+}
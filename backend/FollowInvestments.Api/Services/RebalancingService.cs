@@ -0,0 +1,160 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IRebalancingService
+{
+    Task<RebalancingPlan> CalculateRebalancingAsync(
+        List<Investment> investments,
+        List<AllocationTarget> targets,
+        AllocationDimension dimension,
+        Currency currency,
+        CostBasisMethod method,
+        decimal contribution,
+        bool contributionsOnly);
+}
+
+public class RebalancingService : IRebalancingService
+{
+    private readonly IInvestmentPerformanceService _performanceService;
+    private readonly ICurrencyService _currencyService;
+
+    public RebalancingService(IInvestmentPerformanceService performanceService, ICurrencyService currencyService)
+    {
+        _performanceService = performanceService;
+        _currencyService = currencyService;
+    }
+
+    public static string KeyOf(HoldingPerformance holding, AllocationDimension dimension) => dimension switch
+    {
+        AllocationDimension.Category => holding.Category,
+        AllocationDimension.Country => holding.Country,
+        _ => holding.Currency
+    };
+
+    public async Task<RebalancingPlan> CalculateRebalancingAsync(
+        List<Investment> investments,
+        List<AllocationTarget> targets,
+        AllocationDimension dimension,
+        Currency currency,
+        CostBasisMethod method,
+        decimal contribution,
+        bool contributionsOnly)
+    {
+        var holdings = (await _performanceService.CalculateHoldingsAsync(investments, method))
+            .Where(h => h.Quantity != 0)
+            .ToList();
+
+        // Market values in the display currency, grouped by the dimension being rebalanced
+        var rates = new Dictionary<string, decimal>();
+        foreach (var holdingCurrency in holdings.Select(h => h.Currency).Distinct())
+        {
+            rates[holdingCurrency] = await _currencyService.GetExchangeRateAsync(holdingCurrency, currency.ToString()) ?? 1m;
+        }
+
+        var currentValues = holdings
+            .GroupBy(h => KeyOf(h, dimension))
+            .ToDictionary(g => g.Key, g => g.Sum(h => h.CurrentValue * rates[h.Currency]));
+        var targetWeights = targets
+            .Where(t => t.Dimension == dimension)
+            .ToDictionary(t => t.Key, t => t.TargetPercentage);
+
+        var totalValue = currentValues.Values.Sum();
+        var newTotal = totalValue + contribution;
+
+        var lines = currentValues.Keys
+            .Union(targetWeights.Keys)
+            .Select(key => new RebalancingLine
+            {
+                Key = key,
+                CurrentValue = currentValues.GetValueOrDefault(key),
+                CurrentPercentage = totalValue > 0 ? currentValues.GetValueOrDefault(key) / totalValue * 100 : 0,
+                TargetPercentage = targetWeights.TryGetValue(key, out var weight) ? weight : null,
+                TargetValue = newTotal * targetWeights.GetValueOrDefault(key) / 100
+            })
+            .ToList();
+
+        if (targetWeights.Any())
+        {
+            if (contributionsOnly)
+                AllocateContribution(lines, contribution);
+            else
+                lines.ForEach(line => line.Trade = line.TargetValue - line.CurrentValue);
+        }
+
+        var projectedTotal = lines.Sum(l => l.CurrentValue + l.Trade);
+        foreach (var line in lines)
+        {
+            line.Drift = line.TargetPercentage.HasValue ? line.CurrentPercentage - line.TargetPercentage.Value : null;
+            line.ProjectedPercentage = projectedTotal > 0 ? (line.CurrentValue + line.Trade) / projectedTotal * 100 : 0;
+
+            line.CurrentValue = Math.Round(line.CurrentValue, 2);
+            line.CurrentPercentage = Math.Round(line.CurrentPercentage, 2);
+            line.TargetValue = Math.Round(line.TargetValue, 2);
+            line.Trade = Math.Round(line.Trade, 2);
+            line.Drift = line.Drift.HasValue ? Math.Round(line.Drift.Value, 2) : null;
+            line.ProjectedPercentage = Math.Round(line.ProjectedPercentage, 2);
+        }
+
+        return new RebalancingPlan
+        {
+            Dimension = dimension,
+            Currency = currency.ToString(),
+            TotalValue = Math.Round(totalValue, 2),
+            Contribution = contribution,
+            ContributionsOnly = contributionsOnly,
+            HasTargets = targetWeights.Any(),
+            Lines = lines
+                .OrderByDescending(l => l.TargetPercentage ?? 0)
+                .ThenByDescending(l => l.CurrentValue)
+                .ToList()
+        };
+    }
+
+    // Nothing is sold: the contribution first tops up the groups furthest below target,
+    // and whatever is left once every group reaches its target is split by target weight
+    private static void AllocateContribution(List<RebalancingLine> lines, decimal contribution)
+    {
+        var shortfalls = lines.ToDictionary(l => l, l => Math.Max(0, l.TargetValue - l.CurrentValue));
+        var totalShortfall = shortfalls.Values.Sum();
+
+        if (totalShortfall >= contribution && totalShortfall > 0)
+        {
+            foreach (var line in lines)
+                line.Trade = contribution * shortfalls[line] / totalShortfall;
+            return;
+        }
+
+        var remainder = contribution - totalShortfall;
+        var totalWeight = lines.Sum(l => l.TargetPercentage ?? 0);
+        foreach (var line in lines)
+        {
+            line.Trade = shortfalls[line] + (totalWeight > 0 ? remainder * (line.TargetPercentage ?? 0) / totalWeight : 0);
+        }
+    }
+}
+
+public class RebalancingPlan
+{
+    public AllocationDimension Dimension { get; set; }
+    public string Currency { get; set; } = string.Empty;
+    public decimal TotalValue { get; set; }
+    public decimal Contribution { get; set; }
+    public bool ContributionsOnly { get; set; }
+    public bool HasTargets { get; set; }
+    public List<RebalancingLine> Lines { get; set; } = new();
+}
+
+public class RebalancingLine
+{
+    public string Key { get; set; } = string.Empty;
+    public decimal CurrentValue { get; set; }
+    public decimal CurrentPercentage { get; set; }
+    public decimal? TargetPercentage { get; set; }
+    // Current minus target share, in percentage points
+    public decimal? Drift { get; set; }
+    public decimal TargetValue { get; set; }
+    // Amount to buy (positive) or sell (negative) in the plan currency
+    public decimal Trade { get; set; }
+    public decimal ProjectedPercentage { get; set; }
+}
@@ -0,0 +1,268 @@
+using FollowInvestments.Api.Data;
+using FollowInvestments.Api.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IStatementImportService
+{
+    Task<StatementImportResult> PreviewAsync(int userId, StatementImportRequest request);
+    Task<StatementImportResult> ImportAsync(int userId, StatementImportRequest request);
+}
+
+public class StatementImportService : IStatementImportService
+{
+    private readonly InvestmentContext _context;
+    private readonly IStatementParserRegistry _parsers;
+    private readonly ICurrencyService _currencyService;
+    private readonly ILogger<StatementImportService> _logger;
+
+    public StatementImportService(InvestmentContext context, IStatementParserRegistry parsers, ICurrencyService currencyService, ILogger<StatementImportService> logger)
+    {
+        _context = context;
+        _parsers = parsers;
+        _currencyService = currencyService;
+        _logger = logger;
+    }
+
+    // Parses the statement and assigns every line to an account without saving anything. Lines imported
+    // before are marked as duplicates and need no account
+    public async Task<StatementImportResult> PreviewAsync(int userId, StatementImportRequest request)
+    {
+        var parser = string.IsNullOrWhiteSpace(request.Parser)
+            ? _parsers.Detect(request.Content) ?? throw new InvalidOperationException("The file is not a statement any parser recognizes")
+            : _parsers.Get(request.Parser) ?? throw new InvalidOperationException($"Unknown statement parser '{request.Parser}'");
+
+        var parsed = parser.Parse(request.Content);
+        var accounts = await _context.Accounts
+            .Where(a => a.UserId == userId)
+            .ToListAsync();
+
+        var externalIds = parsed.Transactions.Select(t => t.ExternalId)
+            .Concat(parsed.Positions.Select(p => p.ExternalId))
+            .ToList();
+        var imported = (await _context.Investments
+            .Where(i => i.UserId == userId && i.ExternalId != null && externalIds.Contains(i.ExternalId))
+            .Select(i => i.ExternalId!)
+            .ToListAsync())
+            .ToHashSet();
+
+        // Transactions entered by hand come back from an OFX export of this app under their own id
+        var exportedIds = externalIds.Select(OfxExportService.ExportedTransactionId).OfType<int>().ToList();
+        if (exportedIds.Any())
+        {
+            imported.UnionWith((await _context.Investments
+                .Where(i => i.UserId == userId && exportedIds.Contains(i.Id))
+                .Select(i => i.Id)
+                .ToListAsync())
+                .Select(id => $"{OfxExportService.BrokerId}:{id}"));
+        }
+
+        // A holding already in the account keeps its category, so a ticker guessed wrong once is fixed for good
+        var categories = (await _context.Investments
+            .Where(i => i.UserId == userId)
+            .Select(i => new { i.AccountId, i.Name, i.Category })
+            .Distinct()
+            .ToListAsync())
+            .GroupBy(i => (i.AccountId, Name: i.Name.Trim().ToUpper()))
+            .ToDictionary(g => g.Key, g => g.First().Category);
+
+        var result = new StatementImportResult
+        {
+            DryRun = true,
+            Parser = parser.Id,
+            ParserName = parser.Name,
+            Skipped = parsed.Skipped,
+            SourceAccounts = parsed.Transactions
+                .Select(t => t.SourceAccount)
+                .Concat(parsed.Positions.Select(p => p.SourceAccount))
+                .Where(s => s.Length > 0)
+                .Distinct()
+                .OrderBy(s => s)
+                .ToList()
+        };
+
+        foreach (var transaction in parsed.Transactions)
+        {
+            AddRow(result, transaction, imported, request, accounts, categories);
+        }
+
+        if (parsed.Positions.Any())
+        {
+            await AddPositionRowsAsync(userId, result, parsed.Positions, imported, request, accounts, categories);
+        }
+
+        result.DuplicateRows = result.Rows.Count(r => r.IsDuplicate);
+        result.InvalidRows = result.Rows.Count(r => !r.IsValid);
+        result.NewRows = result.Rows.Count - result.DuplicateRows - result.InvalidRows;
+        return result;
+    }
+
+    public async Task<StatementImportResult> ImportAsync(int userId, StatementImportRequest request)
+    {
+        var result = await PreviewAsync(userId, request);
+        result.DryRun = false;
+
+        // Like the CSV import, a statement is imported whole or not at all
+        if (result.InvalidRows > 0)
+        {
+            return result;
+        }
+
+        var investments = result.Rows
+            .Where(r => !r.IsDuplicate)
+            .Select(r => new Investment
+            {
+                Name = r.Transaction.Name,
+                Value = r.Transaction.Value,
+                Quantity = r.Transaction.Quantity,
+                Currency = r.Transaction.Currency,
+                Date = r.Transaction.Date,
+                Description = r.Transaction.Description.Length > 500 ? r.Transaction.Description[..500] : r.Transaction.Description,
+                Category = r.Transaction.Category,
+                Type = r.Transaction.Type,
+                AccountId = r.AccountId!.Value,
+                Exchange = r.Transaction.Exchange ?? ExchangeRegistry.InferFromSymbol(r.Transaction.Name),
+                Fees = r.Transaction.Fees,
+                Taxes = r.Transaction.Taxes,
+                ExternalId = r.Transaction.ExternalId,
+                UserId = userId
+            })
+            .ToList();
+
+        if (investments.Count == 0)
+        {
+            return result;
+        }
+
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.Id == userId);
+        await _currencyService.FillTransactionRatesAsync(investments, user?.HomeCurrency ?? Currency.CAD);
+
+        _context.Investments.AddRange(investments);
+        await _context.SaveChangesAsync();
+
+        result.ImportedCount = investments.Count;
+        _logger.LogInformation("Imported {Count} {Parser} statement lines for user {UserId}, skipped {Duplicates} already imported",
+            investments.Count, result.Parser, userId, result.DuplicateRows);
+
+        return result;
+    }
+
+    private static void AddRow(StatementImportResult result, StatementTransaction transaction, HashSet<string> imported,
+        StatementImportRequest request, List<Account> accounts, Dictionary<(int AccountId, string Name), Category> categories)
+    {
+        var row = new StatementImportRow { Transaction = transaction };
+        result.Rows.Add(row);
+
+        if (imported.Contains(transaction.ExternalId))
+        {
+            row.IsDuplicate = true;
+            return;
+        }
+
+        var account = FindAccount(transaction.SourceAccount, request, accounts);
+        if (account == null)
+        {
+            row.Errors.Add(transaction.SourceAccount.Length > 0
+                ? $"Choose an account for '{transaction.SourceAccount}'"
+                : "Choose an account to import into");
+            return;
+        }
+
+        row.AccountId = account.Id;
+        row.AccountName = account.Name;
+        if (transaction.Category != Category.Cash &&
+            categories.TryGetValue((account.Id, transaction.Name.Trim().ToUpper()), out var category))
+        {
+            transaction.Category = category;
+        }
+
+        if (transaction.Name.Length > 200)
+            row.Errors.Add("Name must be at most 200 characters");
+    }
+
+    // A position holding more units than the account records by its date, counting the statement's own
+    // transactions, was partly bought before the statement period; the difference is added as a buy at the
+    // statement's price. Fewer units are only reported, since removing recorded units needs the user's judgement
+    private async Task AddPositionRowsAsync(int userId, StatementImportResult result, List<StatementPosition> positions,
+        HashSet<string> imported, StatementImportRequest request, List<Account> accounts, Dictionary<(int AccountId, string Name), Category> categories)
+    {
+        var recorded = (await _context.Investments
+            .Where(i => i.UserId == userId && i.Category != Category.Cash)
+            .Select(i => new { i.AccountId, i.Name, i.Currency, i.Type, i.Quantity, i.Date })
+            .ToListAsync())
+            .Select(i => (i.AccountId, i.Name, i.Currency, i.Type, i.Quantity, i.Date))
+            .ToList();
+
+        foreach (var position in positions)
+        {
+            var missing = position.Quantity;
+            var account = FindAccount(position.SourceAccount, request, accounts);
+            if (account != null)
+            {
+                var name = position.Name.Trim().ToUpper();
+                var held = recorded
+                    .Concat(result.Rows
+                        .Where(r => !r.IsDuplicate && r.AccountId.HasValue && r.Transaction.Category != Category.Cash)
+                        .Select(r => (AccountId: r.AccountId!.Value, r.Transaction.Name, r.Transaction.Currency, r.Transaction.Type, r.Transaction.Quantity, r.Transaction.Date)))
+                    .Where(i => i.AccountId == account.Id && i.Currency == position.Currency &&
+                        i.Name.Trim().ToUpper() == name && i.Date <= position.Date)
+                    .Sum(i => Units(i.Type, i.Quantity));
+
+                missing = position.Quantity - held;
+                if (missing < 0)
+                {
+                    result.Skipped.Add(new StatementSkippedLine
+                    {
+                        LineNumber = position.LineNumber,
+                        Reason = $"The statement holds {position.Quantity} units of {position.Name} on {position.Date:yyyy-MM-dd}, {held} are recorded"
+                    });
+                }
+
+                if (missing <= 0)
+                    continue;
+            }
+
+            AddRow(result, new StatementTransaction
+            {
+                LineNumber = position.LineNumber,
+                ExternalId = position.ExternalId,
+                SourceAccount = position.SourceAccount,
+                Date = position.Date,
+                Type = TransactionType.Buy,
+                Category = position.Category,
+                Name = position.Name,
+                Quantity = missing,
+                Value = position.UnitPrice,
+                Currency = position.Currency,
+                Exchange = position.Exchange,
+                Description = $"Units held on {position.Date:yyyy-MM-dd} that the statement's transactions do not cover"
+            }, imported, request, accounts, categories);
+        }
+    }
+
+    private static decimal Units(TransactionType type, decimal quantity) => type switch
+    {
+        TransactionType.Buy or TransactionType.Deposit => quantity,
+        TransactionType.Sell or TransactionType.Withdrawal => -quantity,
+        _ => 0
+    };
+
+    // The account mapped to the statement's account, then one named like it, then the default account
+    private static Account? FindAccount(string sourceAccount, StatementImportRequest request, List<Account> accounts)
+    {
+        if (sourceAccount.Length > 0)
+        {
+            if (request.AccountMap.TryGetValue(sourceAccount, out var mappedId))
+                return accounts.FirstOrDefault(a => a.Id == mappedId);
+
+            var named = accounts.FirstOrDefault(a => a.Name.Equals(sourceAccount, StringComparison.OrdinalIgnoreCase));
+            if (named != null)
+                return named;
+        }
+
+        return request.DefaultAccountId.HasValue
+            ? accounts.FirstOrDefault(a => a.Id == request.DefaultAccountId.Value)
+            : null;
+    }
+}
@@ -0,0 +1,32 @@
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+public interface IStatementParserRegistry
+{
+    IReadOnlyList<StatementParserInfo> All { get; }
+    IStatementParser? Get(string id);
+    // First registered parser that recognizes the content
+    IStatementParser? Detect(string content);
+}
+
+// Every IStatementParser registered in the container
+public class StatementParserRegistry : IStatementParserRegistry
+{
+    private readonly List<IStatementParser> _parsers;
+
+    public StatementParserRegistry(IEnumerable<IStatementParser> parsers)
+    {
+        _parsers = parsers.ToList();
+    }
+
+    public IReadOnlyList<StatementParserInfo> All => _parsers
+        .Select(p => new StatementParserInfo { Id = p.Id, Name = p.Name, Description = p.Description })
+        .ToList();
+
+    public IStatementParser? Get(string id) =>
+        _parsers.FirstOrDefault(p => p.Id.Equals(id.Trim(), StringComparison.OrdinalIgnoreCase));
+
+    public IStatementParser? Detect(string content) =>
+        _parsers.FirstOrDefault(p => p.CanParse(content));
+}
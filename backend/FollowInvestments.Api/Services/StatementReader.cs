@@ -0,0 +1,214 @@
+using System.Globalization;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace FollowInvestments.Api.Services;
+
+// Reading shared by the statement parsers: delimited text with its header row, numbers in either
+// Brazilian or English format, dates, and the external IDs that make re-imports skip known lines
+public static class StatementReader
+{
+    private static readonly char[] Delimiters = { ',', ';', '\t' };
+    private static readonly CultureInfo Brazilian = new("pt-BR");
+    private static readonly Regex ThousandsOnly = new(@"^-?\d{1,3}([.,]\d{3})+$", RegexOptions.Compiled);
+
+    // Lines up to the header, exports often start with a title or the account holder's name
+    private const int HeaderSearchLines = 15;
+
+    // The rows after the first line that has every required column, null when no line has them all
+    public static StatementTable? ReadTable(string content, params string[] requiredColumns)
+    {
+        var lines = ReadLines(content);
+        var required = requiredColumns.Select(Normalize).ToList();
+
+        for (var i = 0; i < Math.Min(lines.Count, HeaderSearchLines); i++)
+        {
+            var header = lines[i].Cells.Select(Normalize).ToList();
+            if (required.All(header.Contains))
+                return new StatementTable(header, lines.Skip(i + 1).Where(l => l.Cells.Any(c => c.Length > 0)).ToList());
+        }
+
+        return null;
+    }
+
+    // Lower case without accents or surrounding spaces, so "Código de Negociação" matches "codigo de negociacao"
+    public static string Normalize(string text)
+    {
+        var decomposed = text.Trim().ToLowerInvariant().Normalize(NormalizationForm.FormD);
+        var builder = new StringBuilder(decomposed.Length);
+        foreach (var c in decomposed.Where(c => CharUnicodeInfo.GetUnicodeCategory(c) != UnicodeCategory.NonSpacingMark))
+            builder.Append(c);
+
+        return builder.ToString().Normalize(NormalizationForm.FormC);
+    }
+
+    // "1.234,56" and "1,234.56" read the same. A lone separator followed by groups of three digits is read
+    // as thousands when it is the statement's thousands separator: a dot in a Brazilian export, so "1.000"
+    // is a thousand units there, and a comma in an English one. Parentheses mark a negative amount
+    public static bool TryParseDecimal(string? input, bool brazilian, out decimal value)
+    {
+        value = 0;
+        if (string.IsNullOrWhiteSpace(input))
+            return false;
+
+        var negative = input.Contains('(') && input.Contains(')');
+        var cleaned = new string(input.Where(c => char.IsDigit(c) || c == '.' || c == ',' || c == '-').ToArray());
+        if (string.IsNullOrEmpty(cleaned) || cleaned == "-")
+            return false;
+
+        var thousandsSeparator = brazilian ? '.' : ',';
+        var decimalSeparator = brazilian ? ',' : '.';
+        if (!cleaned.Contains(decimalSeparator) && ThousandsOnly.IsMatch(cleaned) && !cleaned.TrimStart('-').StartsWith('0'))
+            cleaned = cleaned.Replace(thousandsSeparator.ToString(), string.Empty);
+
+        var lastComma = cleaned.LastIndexOf(',');
+        var lastDot = cleaned.LastIndexOf('.');
+        if (!decimal.TryParse(cleaned, NumberStyles.Number, lastComma > lastDot ? Brazilian : CultureInfo.InvariantCulture, out value))
+            return false;
+
+        if (negative)
+            value = -Math.Abs(value);
+
+        return true;
+    }
+
+    // The date part of the cell in one of the formats, as a UTC date
+    public static bool TryParseDate(string? input, string[] formats, out DateTime date)
+    {
+        date = default;
+        if (string.IsNullOrWhiteSpace(input))
+            return false;
+
+        var datePart = input.Trim().Split(' ', 'T')[0];
+        if (!DateTime.TryParseExact(datePart, formats, CultureInfo.InvariantCulture, DateTimeStyles.None, out date))
+            return false;
+
+        date = DateTime.SpecifyKind(date.Date, DateTimeKind.Utc);
+        return true;
+    }
+
+    // The parser id followed by a hash of the fields that identify the line. Identical lines, such as two
+    // fills of the same order at the same price, are told apart by the order they appear in the file
+    public static string ExternalId(string parserId, string key, Dictionary<string, int> occurrences)
+    {
+        occurrences[key] = occurrences.TryGetValue(key, out var count) ? count + 1 : 1;
+        var hash = SHA256.HashData(Encoding.UTF8.GetBytes($"{key}#{occurrences[key]}"));
+        return $"{parserId}:{Convert.ToHexString(hash)[..32].ToLowerInvariant()}";
+    }
+
+    // Amounts are part of external IDs in invariant format so the ID does not depend on the server culture
+    public static string Key(params object?[] fields) =>
+        string.Join("|", fields.Select(f => Convert.ToString(f, CultureInfo.InvariantCulture)?.Trim().ToUpperInvariant() ?? string.Empty));
+
+    private static List<StatementLine> ReadLines(string content)
+    {
+        var text = content.TrimStart('\uFEFF');
+        var delimiter = DetectDelimiter(text);
+        var lines = new List<StatementLine>();
+        var cells = new List<string>();
+        var cell = new StringBuilder();
+        var inQuotes = false;
+        var lineNumber = 1;
+        var startLine = 1;
+
+        for (var i = 0; i < text.Length; i++)
+        {
+            var c = text[i];
+            if (inQuotes)
+            {
+                if (c == '"' && i + 1 < text.Length && text[i + 1] == '"')
+                {
+                    cell.Append('"');
+                    i++;
+                }
+                else if (c == '"')
+                {
+                    inQuotes = false;
+                }
+                else
+                {
+                    if (c == '\n')
+                        lineNumber++;
+                    cell.Append(c);
+                }
+            }
+            else if (c == '"')
+            {
+                inQuotes = true;
+            }
+            else if (c == delimiter)
+            {
+                cells.Add(cell.ToString().Trim());
+                cell.Clear();
+            }
+            else if (c == '\n' || c == '\r')
+            {
+                if (c == '\r' && i + 1 < text.Length && text[i + 1] == '\n')
+                    i++;
+
+                cells.Add(cell.ToString().Trim());
+                cell.Clear();
+                lines.Add(new StatementLine(startLine, cells.ToArray()));
+                cells.Clear();
+                lineNumber++;
+                startLine = lineNumber;
+            }
+            else
+            {
+                cell.Append(c);
+            }
+        }
+
+        if (cell.Length > 0 || cells.Count > 0)
+        {
+            cells.Add(cell.ToString().Trim());
+            lines.Add(new StatementLine(startLine, cells.ToArray()));
+        }
+
+        return lines;
+    }
+
+    // The delimiter that splits some early line into the most columns, commas when nothing is split
+    private static char DetectDelimiter(string text)
+    {
+        var early = text.Split('\n').Take(HeaderSearchLines).ToList();
+        var best = Delimiters
+            .Select(d => (Delimiter: d, Count: early.Max(l => l.Count(c => c == d))))
+            .OrderByDescending(d => d.Count)
+            .First();
+
+        return best.Count > 0 ? best.Delimiter : ',';
+    }
+}
+
+public record StatementLine(int LineNumber, string[] Cells);
+
+// Rows of a statement with cells looked up by column name
+public class StatementTable
+{
+    private readonly List<string> _header;
+
+    public StatementTable(List<string> header, List<StatementLine> rows)
+    {
+        _header = header;
+        Rows = rows;
+    }
+
+    public List<StatementLine> Rows { get; }
+
+    public bool HasColumn(string name) => _header.Contains(StatementReader.Normalize(name));
+
+    // The cell under the first of the columns the statement has, empty when it has none of them
+    public string Get(StatementLine row, params string[] columns)
+    {
+        foreach (var column in columns)
+        {
+            var index = _header.IndexOf(StatementReader.Normalize(column));
+            if (index >= 0)
+                return index < row.Cells.Length ? row.Cells[index] : string.Empty;
+        }
+
+        return string.Empty;
+    }
+}
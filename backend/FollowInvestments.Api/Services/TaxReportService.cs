@@ -0,0 +1,457 @@
+using System.Globalization;
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+public interface ITaxReportService
+{
+    BrazilGainsReport GetBrazilGains(List<Investment> investments, int year);
+    Task<BrazilAssetsReport> GetBrazilAssetsAsync(List<Investment> investments, int year);
+    Task<AcbReport> GetAcbReportAsync(List<Investment> investments, int year);
+}
+
+public class TaxReportService : ITaxReportService
+{
+    // Stock sales up to this amount in a month are exempt from income tax
+    private const decimal MonthlyStockExemption = 20000m;
+    private const decimal CommonTaxRate = 0.15m;
+    private const decimal FiiTaxRate = 0.20m;
+
+    // Half of a Canadian capital gain is taxable
+    private const decimal CapitalGainsInclusionRate = 0.5m;
+    private const int SuperficialLossDays = 30;
+
+    private static readonly CultureInfo BrazilianCulture = CultureInfo.GetCultureInfo("pt-BR");
+
+    private readonly IInvestmentLedgerService _ledgerService;
+    private readonly ICurrencyService _currencyService;
+    private readonly ICorporateActionService _corporateActionService;
+    private readonly ILogger<TaxReportService> _logger;
+
+    // Rate history per currency pair, loaded once per report
+    private readonly Dictionary<(Currency From, Currency To), List<(DateOnly Date, decimal Value)>> _rates = new();
+
+    public TaxReportService(IInvestmentLedgerService ledgerService, ICurrencyService currencyService, ICorporateActionService corporateActionService, ILogger<TaxReportService> logger)
+    {
+        _ledgerService = ledgerService;
+        _currencyService = currencyService;
+        _corporateActionService = corporateActionService;
+        _logger = logger;
+    }
+
+    // Swing trades of stocks, ETFs and FIIs traded in BRL, at the average cost of every regular account together.
+    // Losses are carried forward from the first sale on, stocks and ETFs offset each other, FIIs only offset FIIs.
+    public BrazilGainsReport GetBrazilGains(List<Investment> investments, int year)
+    {
+        var sales = ReplayAverageCost(investments
+            .Where(i => IsTaxable(i) && i.Currency == Currency.BRL && InvestmentSymbolMapper.HasMarketPrice(i.Category)));
+
+        var report = new BrazilGainsReport { Year = year };
+        var commonLoss = 0m;
+        var fiiLoss = 0m;
+
+        var firstMonth = sales.Any()
+            ? new DateTime(Math.Min(sales.Min(s => s.Date).Year, year), 1, 1)
+            : new DateTime(year, 1, 1);
+
+        for (var month = firstMonth; month.Year <= year; month = month.AddMonths(1))
+        {
+            if (month.Year == year && month.Month == 1)
+            {
+                report.OpeningCommonLoss = Math.Round(commonLoss, 2);
+                report.OpeningFiiLoss = Math.Round(fiiLoss, 2);
+            }
+
+            var monthSales = sales.Where(s => s.Date.Year == month.Year && s.Date.Month == month.Month).ToList();
+            var stockSales = monthSales.Where(s => s.Category == nameof(Category.Stocks)).Sum(s => s.Proceeds);
+            var stockGain = monthSales.Where(s => s.Category == nameof(Category.Stocks)).Sum(s => s.Gain);
+            var etfGain = monthSales.Where(s => s.Category == nameof(Category.ETF)).Sum(s => s.Gain);
+            var fiiGain = monthSales.Where(s => s.Category == nameof(Category.FIIs)).Sum(s => s.Gain);
+
+            // Exempt months still carry their stock losses forward
+            var isExempt = stockSales <= MonthlyStockExemption;
+            var exemptGain = isExempt && stockGain > 0 ? stockGain : 0m;
+            var commonGain = (isExempt ? Math.Min(stockGain, 0m) : stockGain) + etfGain;
+
+            var commonTaxBase = OffsetLosses(commonGain, ref commonLoss);
+            var fiiTaxBase = OffsetLosses(fiiGain, ref fiiLoss);
+
+            if (month.Year < year)
+                continue;
+
+            var item = new BrazilMonthlyGain
+            {
+                Month = month.Month,
+                StockSales = Math.Round(stockSales, 2),
+                IsExempt = isExempt,
+                ExemptGain = Math.Round(exemptGain, 2),
+                CommonGain = Math.Round(commonGain, 2),
+                CommonLossBalance = Math.Round(commonLoss, 2),
+                CommonTaxBase = Math.Round(commonTaxBase, 2),
+                CommonTax = Math.Round(commonTaxBase * CommonTaxRate, 2),
+                FiiGain = Math.Round(fiiGain, 2),
+                FiiLossBalance = Math.Round(fiiLoss, 2),
+                FiiTaxBase = Math.Round(fiiTaxBase, 2),
+                FiiTax = Math.Round(fiiTaxBase * FiiTaxRate, 2)
+            };
+            item.TotalTax = item.CommonTax + item.FiiTax;
+            report.Months.Add(item);
+        }
+
+        report.Sales = sales.Where(s => s.Date.Year == year).ToList();
+        report.TotalExemptGain = report.Months.Sum(m => m.ExemptGain);
+        report.TotalTax = report.Months.Sum(m => m.TotalTax);
+        return report;
+    }
+
+    // Every holding open on December 31 of the year or of the one before, at its average cost in BRL.
+    // Foreign holdings are converted at the rate of each purchase date.
+    public async Task<BrazilAssetsReport> GetBrazilAssetsAsync(List<Investment> investments, int year)
+    {
+        // PGBL plans are declared as pension contributions, not as assets
+        var declared = investments.Where(i => i.Account?.Type != AccountType.Pgbl).ToList();
+        await LoadRatesAsync(declared, Currency.BRL);
+        var corporateActions = await _corporateActionService.GetActionsAsync(declared, new DateOnly(year, 12, 31));
+
+        var previous = ValuePositions(declared, corporateActions, year - 1);
+        var current = ValuePositions(declared, corporateActions, year);
+
+        var report = new BrazilAssetsReport { Year = year };
+        foreach (var key in previous.Keys.Union(current.Keys))
+        {
+            // Sold during the year, the asset is still listed with nothing left
+            var isHeld = current.TryGetValue(key, out var held);
+            var wasHeld = previous.TryGetValue(key, out var before);
+            var position = isHeld ? held.Position : before.Position;
+            var quantity = isHeld ? position.Quantity : 0m;
+            var symbol = position.Symbol ?? TaxSymbol(position.Transactions.Last());
+
+            report.Assets.Add(new BrazilAssetItem
+            {
+                AccountName = position.AccountName,
+                Symbol = symbol,
+                Name = position.Name,
+                Category = position.Category.ToString(),
+                Country = position.Country,
+                Currency = position.Currency.ToString(),
+                Quantity = quantity,
+                Description = DescribeAsset(position, symbol, quantity),
+                PreviousYearValue = wasHeld ? before.Value : 0m,
+                CurrentYearValue = isHeld ? held.Value : 0m
+            });
+        }
+
+        report.Assets = report.Assets
+            .OrderBy(a => a.Category)
+            .ThenBy(a => a.Symbol)
+            .ThenBy(a => a.AccountName)
+            .ToList();
+        report.TotalPreviousYear = report.Assets.Sum(a => a.PreviousYearValue);
+        report.TotalCurrentYear = report.Assets.Sum(a => a.CurrentYearValue);
+        return report;
+    }
+
+    // Identical securities share one cost base across every non-registered account, in CAD at each transaction's date.
+    // A loss is superficial when the security is bought within 30 days of the sale and still held 30 days after.
+    public async Task<AcbReport> GetAcbReportAsync(List<Investment> investments, int year)
+    {
+        var securities = investments.Where(i => IsTaxable(i) && i.Category != Category.Cash).ToList();
+        await LoadRatesAsync(securities, Currency.CAD);
+
+        var report = new AcbReport { Year = year };
+        foreach (var group in securities.GroupBy(TaxSymbol))
+        {
+            var ordered = group
+                .OrderBy(t => t.Date)
+                .ThenBy(t => IsAcquisition(t.Type) ? 0 : 1)
+                .ThenBy(t => t.Id)
+                .ToList();
+
+            var security = new AcbSecurity { Symbol = group.Key, Name = ordered.First().Name };
+            var shares = 0m;
+            var acb = 0m;
+            // Denied losses wait for the shares bought back when the whole position was sold
+            var pendingDenied = 0m;
+
+            foreach (var transaction in ordered.Where(t => t.Date.Year <= year))
+            {
+                if (transaction.Date.Year == year && !security.Entries.Any())
+                {
+                    security.OpeningQuantity = shares;
+                    security.OpeningAdjustedCostBase = Math.Round(acb, 2);
+                }
+
+                var rate = RateOn(transaction.Currency, Currency.CAD, transaction.Date);
+                var entry = new AcbEntry
+                {
+                    Date = transaction.Date,
+                    Type = transaction.Type.ToString(),
+                    AccountName = transaction.Account?.Name ?? string.Empty,
+                    Currency = transaction.Currency.ToString(),
+                    FxRate = rate
+                };
+
+                if (IsAcquisition(transaction.Type))
+                {
+                    shares += transaction.Quantity;
+                    // Commissions and other outlays to buy are part of the cost base
+                    acb += transaction.NetAmount * rate + pendingDenied;
+                    pendingDenied = 0m;
+                    entry.Quantity = transaction.Quantity;
+                    entry.Amount = Math.Round(transaction.NetAmount * rate, 2);
+                }
+                else if (IsDisposition(transaction.Type))
+                {
+                    var sold = Math.Min(transaction.Quantity, Math.Max(shares, 0m));
+                    var costBase = shares > 0 ? acb * sold / shares : 0m;
+                    entry.Quantity = sold;
+                    entry.CostBasis = Math.Round(costBase, 2);
+
+                    // Transfers out leave at cost
+                    if (transaction.Type == TransactionType.Sell)
+                    {
+                        var proceeds = SaleProceeds(transaction, sold) * rate;
+                        var gain = proceeds - costBase;
+                        var denied = gain < 0 ? -gain * SuperficialFraction(ordered, transaction, sold) : 0m;
+
+                        entry.Amount = Math.Round(proceeds, 2);
+                        entry.CapitalGain = Math.Round(gain + denied, 2);
+                        entry.DeniedLoss = denied > 0 ? Math.Round(denied, 2) : null;
+
+                        if (transaction.Date.Year == year)
+                        {
+                            security.CapitalGain += entry.CapitalGain.Value;
+                            security.DeniedLoss += entry.DeniedLoss ?? 0m;
+                        }
+
+                        shares -= sold;
+                        acb -= costBase;
+                        if (shares > 0)
+                            acb += denied;
+                        else
+                            pendingDenied += denied;
+                    }
+                    else
+                    {
+                        shares -= sold;
+                        acb -= costBase;
+                    }
+
+                    if (shares <= 0)
+                        acb = 0m;
+                }
+                else
+                {
+                    continue;
+                }
+
+                entry.SharesAfter = shares;
+                entry.AcbAfter = Math.Round(acb, 2);
+                if (transaction.Date.Year == year)
+                    security.Entries.Add(entry);
+            }
+
+            if (!security.Entries.Any())
+            {
+                // Securities without activity in the year are listed while they are held
+                if (shares <= 0)
+                    continue;
+                security.OpeningQuantity = shares;
+                security.OpeningAdjustedCostBase = Math.Round(acb, 2);
+            }
+
+            security.Quantity = shares;
+            security.AdjustedCostBase = Math.Round(acb, 2);
+            report.Securities.Add(security);
+        }
+
+        report.Securities = report.Securities.OrderBy(s => s.Symbol).ToList();
+        report.TotalCapitalGain = report.Securities.Sum(s => s.CapitalGain);
+        report.TotalTaxableCapitalGain = Math.Round(report.TotalCapitalGain * CapitalGainsInclusionRate, 2);
+        report.TotalDeniedLoss = report.Securities.Sum(s => s.DeniedLoss);
+        return report;
+    }
+
+    // Share of a loss that is denied: the least of the shares sold, the shares bought in the 61-day window
+    // around the sale and the shares still held at its end, over the shares sold
+    private static decimal SuperficialFraction(List<Investment> ordered, Investment sale, decimal sold)
+    {
+        if (sold <= 0)
+            return 0m;
+
+        var windowStart = sale.Date.Date.AddDays(-SuperficialLossDays);
+        var windowEnd = sale.Date.Date.AddDays(SuperficialLossDays);
+
+        var acquired = ordered
+            .Where(t => IsAcquisition(t.Type) && t.Date.Date >= windowStart && t.Date.Date <= windowEnd)
+            .Sum(t => t.Quantity);
+        var heldAtEnd = ordered
+            .Where(t => t.Date.Date <= windowEnd)
+            .Sum(t => IsAcquisition(t.Type) ? t.Quantity : IsDisposition(t.Type) ? -t.Quantity : 0m);
+
+        var denied = Math.Min(sold, Math.Min(acquired, Math.Max(heldAtEnd, 0m)));
+        return denied / sold;
+    }
+
+    private static decimal OffsetLosses(decimal gain, ref decimal carriedLoss)
+    {
+        if (gain < 0)
+        {
+            carriedLoss -= gain;
+            return 0m;
+        }
+
+        var used = Math.Min(carriedLoss, gain);
+        carriedLoss -= used;
+        return gain - used;
+    }
+
+    // Sales at the average cost of the symbol across every account; transfers out leave at cost
+    private static List<TaxableSale> ReplayAverageCost(IEnumerable<Investment> transactions)
+    {
+        var sales = new List<TaxableSale>();
+
+        foreach (var group in transactions.GroupBy(TaxSymbol))
+        {
+            var shares = 0m;
+            var cost = 0m;
+
+            foreach (var transaction in group
+                .OrderBy(t => t.Date)
+                .ThenBy(t => IsAcquisition(t.Type) ? 0 : 1)
+                .ThenBy(t => t.Id))
+            {
+                if (IsAcquisition(transaction.Type))
+                {
+                    shares += transaction.Quantity;
+                    cost += transaction.NetAmount;
+                }
+                else if (IsDisposition(transaction.Type))
+                {
+                    var sold = Math.Min(transaction.Quantity, Math.Max(shares, 0m));
+                    var costBasis = shares > 0 ? cost * sold / shares : 0m;
+                    shares -= sold;
+                    cost = shares > 0 ? cost - costBasis : 0m;
+
+                    if (transaction.Type != TransactionType.Sell || sold <= 0)
+                        continue;
+
+                    var proceeds = SaleProceeds(transaction, sold);
+                    sales.Add(new TaxableSale
+                    {
+                        Date = transaction.Date,
+                        Symbol = group.Key,
+                        Name = transaction.Name,
+                        Category = transaction.Category.ToString(),
+                        Quantity = sold,
+                        Proceeds = Math.Round(proceeds, 2),
+                        CostBasis = Math.Round(costBasis, 2),
+                        Gain = Math.Round(proceeds - costBasis, 2)
+                    });
+                }
+            }
+        }
+
+        return sales.OrderBy(s => s.Date).ThenBy(s => s.Symbol).ToList();
+    }
+
+    // Open positions on December 31 of the year by holding, in the units and tickers of that date, with their cost
+    // in BRL at purchase rates
+    private Dictionary<(int AccountId, string Name, Currency Currency), (LedgerPosition Position, decimal Value)> ValuePositions(
+        List<Investment> investments, List<CorporateAction> corporateActions, int year)
+    {
+        var yearEnd = new DateTime(year + 1, 1, 1);
+        var positions = _ledgerService.BuildPositions(
+            investments.Where(i => i.Date < yearEnd),
+            CostBasisMethod.AverageCost,
+            corporateActions.Where(a => a.Date < DateOnly.FromDateTime(yearEnd)));
+
+        var valued = new Dictionary<(int, string, Currency), (LedgerPosition, decimal)>();
+        // A cash balance overdrawn by buys recorded before their deposit is not an asset
+        foreach (var position in positions.Where(p => p.Quantity > 0))
+        {
+            var value = position.OpenLots.Sum(l => l.Quantity * l.UnitCost * RateOn(position.Currency, Currency.BRL, l.Date));
+            valued[(position.AccountId, position.Name.Trim().ToUpper(), position.Currency)] = (position, Math.Round(value, 2));
+        }
+
+        return valued;
+    }
+
+    // Discriminação as the Receita expects it: quantity, asset and where it is held
+    private static string DescribeAsset(LedgerPosition position, string symbol, decimal quantity)
+    {
+        var unit = position.Category switch
+        {
+            Category.Stocks => "ações",
+            Category.FIIs or Category.ETF => "cotas",
+            _ => null
+        };
+
+        var asset = unit != null
+            ? $"{quantity.ToString("#,##0.####", BrazilianCulture)} {unit} {symbol} - {position.Name}"
+            : position.Name;
+        var currency = position.Currency != Currency.BRL ? $" ({position.Currency})" : string.Empty;
+
+        return $"{asset} - custódia {position.AccountName}{currency}";
+    }
+
+    // Quoted holdings are identified by their symbol, everything else by name
+    private static string TaxSymbol(Investment investment) =>
+        InvestmentSymbolMapper.HasMarketPrice(investment.Category)
+            ? InvestmentSymbolMapper.MapInvestmentToSymbol(investment)
+            : investment.Name.Trim().ToUpper();
+
+    private async Task LoadRatesAsync(List<Investment> investments, Currency target)
+    {
+        foreach (var group in investments.Where(i => i.Currency != target).GroupBy(i => i.Currency))
+        {
+            if (_rates.ContainsKey((group.Key, target)))
+                continue;
+
+            var history = await _currencyService.GetRateHistoryAsync(
+                group.Key.ToString(), target.ToString(),
+                DateOnly.FromDateTime(group.Min(i => i.Date)), DateOnly.FromDateTime(DateTime.UtcNow));
+
+            // Without any history the current rate stands in for every date
+            if (!history.Any())
+            {
+                var current = await _currencyService.GetExchangeRateAsync(group.Key.ToString(), target.ToString());
+                if (current.HasValue)
+                {
+                    _logger.LogWarning("No {From}/{To} history, using the current rate for the tax report", group.Key, target);
+                    history.Add((DateOnly.FromDateTime(DateTime.UtcNow), current.Value));
+                }
+            }
+
+            _rates[(group.Key, target)] = history;
+        }
+    }
+
+    // Last rate on or before the date, else the first one after it
+    private decimal RateOn(Currency from, Currency to, DateTime date)
+    {
+        if (from == to)
+            return 1m;
+
+        if (!_rates.TryGetValue((from, to), out var history) || !history.Any())
+            throw new InvalidOperationException($"No {from}/{to} exchange rate is available");
+
+        var day = DateOnly.FromDateTime(date);
+        var before = history.LastOrDefault(h => h.Date <= day);
+        return before != default ? before.Value : history.First().Value;
+    }
+
+    // Gains inside TFSA, RRSP, FHSA, PGBL and VGBL accounts are not capital gains of the year
+    private static bool IsTaxable(Investment investment) =>
+        (investment.Account?.Type ?? AccountType.Regular) == AccountType.Regular;
+
+    // Fees and taxes of the sale come off what it paid, in proportion to the quantity matched
+    private static decimal SaleProceeds(Investment sale, decimal sold) =>
+        sold * sale.Value - (sale.Quantity != 0 ? sale.Costs * sold / sale.Quantity : 0m);
+
+    private static bool IsAcquisition(TransactionType type) =>
+        type == TransactionType.Buy || type == TransactionType.Deposit;
+
+    private static bool IsDisposition(TransactionType type) =>
+        type == TransactionType.Sell || type == TransactionType.Withdrawal;
+}
@@ -0,0 +1,137 @@
+using System.Text.RegularExpressions;
+using FollowInvestments.Api.Models;
+
+namespace FollowInvestments.Api.Services;
+
+// Monthly statement CSV from Wealthsimple (Activity > Statements > Download CSV). Each file covers one
+// account, so its lines are imported into the default account chosen for the import
+public class WealthsimpleStatementParser : IStatementParser
+{
+    private static readonly string[] DateFormats = { "yyyy-MM-dd", "MM/dd/yyyy" };
+    private static readonly string[] RequiredColumns = { "date", "transaction", "description", "amount", "balance" };
+
+    // "VFV - Vanguard S&P 500 Index ETF: Bought 10.0000 shares (executed at 2024-01-05)"
+    private static readonly Regex TradePattern = new(@"^(?<symbol>\S+) - (?<name>.*?): (?<side>Bought|Sold) (?<quantity>[\d.,]+) shares", RegexOptions.Compiled | RegexOptions.IgnoreCase);
+    private static readonly Regex SymbolPattern = new(@"^(?<symbol>\S+) - (?<name>[^:]*)", RegexOptions.Compiled);
+
+    public string Id => "wealthsimple";
+    public string Name => "Wealthsimple";
+    public string Description => "Monthly account statement from Wealthsimple, downloaded as CSV. Each file covers one account.";
+
+    public bool CanParse(string content) => StatementReader.ReadTable(content, RequiredColumns) != null;
+
+    public StatementParseResult Parse(string content)
+    {
+        var result = new StatementParseResult();
+        var table = StatementReader.ReadTable(content, RequiredColumns);
+        if (table == null)
+            return result;
+
+        var occurrences = new Dictionary<string, int>();
+        foreach (var row in table.Rows)
+        {
+            var code = table.Get(row, "transaction").ToUpperInvariant();
+            var description = table.Get(row, "description");
+            var currencyCell = table.Get(row, "currency");
+            var currency = Currency.CAD;
+            if (!StatementReader.TryParseDate(table.Get(row, "date"), DateFormats, out var date) ||
+                !StatementReader.TryParseDecimal(table.Get(row, "amount"), false, out var amount) ||
+                (currencyCell.Length > 0 && !Enum.TryParse(currencyCell, true, out currency)))
+            {
+                result.Skipped.Add(new StatementSkippedLine { LineNumber = row.LineNumber, Reason = "Missing date or amount, or unsupported currency" });
+                continue;
+            }
+
+            var transaction = new StatementTransaction
+            {
+                LineNumber = row.LineNumber,
+                Date = date,
+                Currency = currency,
+                Description = description
+            };
+
+            var reason = code switch
+            {
+                "BUY" or "SELL" => MapTrade(transaction, description, amount),
+                "DIV" => MapDividend(transaction, description, amount),
+                "CONT" or "DEP" => MapCash(transaction, TransactionType.Deposit, amount),
+                "WD" => MapCash(transaction, TransactionType.Withdrawal, amount),
+                "INT" or "FPLINT" => MapCash(transaction, TransactionType.Dividend, amount),
+                "FEE" => MapCash(transaction, TransactionType.Fee, amount),
+                "NRT" => MapWithholdingTax(transaction, amount),
+                _ => $"{code} transactions are not imported"
+            };
+
+            if (reason != null)
+            {
+                result.Skipped.Add(new StatementSkippedLine { LineNumber = row.LineNumber, Reason = reason });
+                continue;
+            }
+
+            // The running balance keeps otherwise identical lines of a statement apart
+            transaction.ExternalId = StatementReader.ExternalId(Id,
+                StatementReader.Key(date.ToString("yyyy-MM-dd"), code, description, amount, table.Get(row, "balance"), currency),
+                occurrences);
+            result.Transactions.Add(transaction);
+        }
+
+        return result;
+    }
+
+    // Wealthsimple charges no commission, so the price is what the trade cost per share
+    private static string? MapTrade(StatementTransaction transaction, string description, decimal amount)
+    {
+        var match = TradePattern.Match(description);
+        if (!match.Success ||
+            !StatementReader.TryParseDecimal(match.Groups["quantity"].Value, false, out var quantity) || quantity == 0)
+        {
+            return "Trade description without a symbol and quantity";
+        }
+
+        transaction.Type = match.Groups["side"].Value.Equals("Bought", StringComparison.OrdinalIgnoreCase) ? TransactionType.Buy : TransactionType.Sell;
+        transaction.Category = match.Groups["name"].Value.Contains("ETF", StringComparison.OrdinalIgnoreCase) ? Category.ETF : Category.Stocks;
+        transaction.Name = match.Groups["symbol"].Value.ToUpperInvariant();
+        transaction.Quantity = quantity;
+        transaction.Value = Math.Abs(amount) / quantity;
+        return null;
+    }
+
+    private static string? MapDividend(StatementTransaction transaction, string description, decimal amount)
+    {
+        var match = SymbolPattern.Match(description);
+        if (!match.Success)
+            return MapCash(transaction, TransactionType.Dividend, amount);
+
+        transaction.Type = TransactionType.Dividend;
+        transaction.Category = match.Groups["name"].Value.Contains("ETF", StringComparison.OrdinalIgnoreCase) ? Category.ETF : Category.Stocks;
+        transaction.Name = match.Groups["symbol"].Value.ToUpperInvariant();
+        transaction.Quantity = 1;
+        transaction.Value = Math.Abs(amount);
+        return null;
+    }
+
+    // Non-resident tax withheld from a US dividend, paid out of the account's cash
+    private static string? MapWithholdingTax(StatementTransaction transaction, decimal amount)
+    {
+        var reason = MapCash(transaction, TransactionType.Fee, amount);
+        if (reason != null)
+            return reason;
+
+        transaction.Taxes = transaction.Value;
+        transaction.Value = 0;
+        return null;
+    }
+
+    private static string? MapCash(StatementTransaction transaction, TransactionType type, decimal amount)
+    {
+        if (amount == 0)
+            return "Cash movement without an amount";
+
+        transaction.Type = type;
+        transaction.Category = Category.Cash;
+        transaction.Name = InvestmentLedgerService.CashPositionName;
+        transaction.Quantity = 1;
+        transaction.Value = Math.Abs(amount);
+        return null;
+    }
+}
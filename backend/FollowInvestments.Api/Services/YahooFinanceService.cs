@@ -6,6 +6,7 @@ namespace FollowInvestments.Api.Services;
 public interface IYahooFinanceService
 {
     Task<List<StockPrice>> GetStockPricesAsync(string symbol, DateOnly? startDate = null, DateOnly? endDate = null);
+    Task<List<SymbolSearchResult>> SearchSymbolsAsync(string query);
 }
 
 public class YahooFinanceService : IYahooFinanceService
@@ -74,6 +75,46 @@ public class YahooFinanceService : IYahooFinanceService
         }
     }
 
+    public async Task<List<SymbolSearchResult>> SearchSymbolsAsync(string query)
+    {
+        try
+        {
+            var url = $"https://query1.finance.yahoo.com/v1/finance/search?q={Uri.EscapeDataString(query)}&quotesCount=10&newsCount=0";
+            _logger.LogInformation("Searching symbols on Yahoo Finance: {Query}", query);
+
+            var response = await _httpClient.GetAsync(url);
+            response.EnsureSuccessStatusCode();
+
+            var jsonContent = await response.Content.ReadAsStringAsync();
+            var searchResponse = JsonSerializer.Deserialize<YahooSearchResponse>(jsonContent, new JsonSerializerOptions
+            {
+                PropertyNameCaseInsensitive = true
+            });
+
+            // News and other non-quote hits have no symbol
+            return (searchResponse?.Quotes ?? new List<YahooSearchQuote>())
+                .Where(q => !string.IsNullOrEmpty(q.Symbol))
+                .Select(q => new SymbolSearchResult
+                {
+                    Symbol = q.Symbol!,
+                    Name = q.Longname ?? q.Shortname ?? q.Symbol!,
+                    Exchange = q.ExchDisp ?? q.Exchange ?? string.Empty,
+                    Type = q.QuoteType ?? string.Empty
+                })
+                .ToList();
+        }
+        catch (HttpRequestException ex)
+        {
+            _logger.LogError(ex, "HTTP error occurred while searching symbols for: {Query}", query);
+            throw new InvalidOperationException($"Failed to search symbols: {ex.Message}", ex);
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogError(ex, "JSON parsing error occurred while searching symbols for: {Query}", query);
+            throw new InvalidOperationException($"Failed to parse symbol search: {ex.Message}", ex);
+        }
+    }
+
     private string BuildYahooFinanceUrl(string symbol, DateOnly? startDate, DateOnly? endDate)
     {
         var baseUrl = $"https://query1.finance.yahoo.com/v8/finance/chart/{symbol}";
@@ -2,8 +2,16 @@ import { BrowserRouter as Router, Routes, Route, Navigate, Link, useLocation, us
 import './App.css'
 import Dashboard from './components/Dashboard'
 import InvestmentForm from './components/InvestmentForm'
+import ImportInvestments from './components/ImportInvestments'
 import AccountInvestments from './components/AccountInvestments'
 import AccountList from './components/AccountList'
+import Rebalancing from './components/Rebalancing'
+import Goals from './components/Goals'
+import Planner from './components/Planner'
+import SymbolMappings from './components/SymbolMappings'
+import IndexRates from './components/IndexRates'
+import CorporateActions from './components/CorporateActions'
+import TaxReports from './components/TaxReports'
 import Login from './components/Login'
 import Logo from './components/Logo'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
@@ -81,12 +89,60 @@ const AppLayout = ({ children }: { children: React.ReactNode }) => {
               >
                 Accounts
               </Link>
+              <Link 
+                to="/goals" 
+                className={location.pathname === '/goals' ? 'active' : ''}
+              >
+                Goals
+              </Link>
+              <Link 
+                to="/planner" 
+                className={location.pathname === '/planner' ? 'active' : ''}
+              >
+                Planner
+              </Link>
+              <Link 
+                to="/rebalance" 
+                className={location.pathname === '/rebalance' ? 'active' : ''}
+              >
+                Rebalance
+              </Link>
+              <Link 
+                to="/symbols" 
+                className={location.pathname === '/symbols' ? 'active' : ''}
+              >
+                Symbols
+              </Link>
+              <Link 
+                to="/taxes" 
+                className={location.pathname.startsWith('/taxes') ? 'active' : ''}
+              >
+                Taxes
+              </Link>
+              <Link 
+                to="/corporate-actions" 
+                className={location.pathname === '/corporate-actions' ? 'active' : ''}
+              >
+                Corporate Actions
+              </Link>
+              <Link 
+                to="/index-rates" 
+                className={location.pathname === '/index-rates' ? 'active' : ''}
+              >
+                Index Rates
+              </Link>
               <Link 
                 to="/add-investment" 
                 className={location.pathname === '/add-investment' ? 'active' : ''}
               >
                 Add Investment
               </Link>
+              <Link 
+                to="/import" 
+                className={location.pathname === '/import' ? 'active' : ''}
+              >
+                Import
+              </Link>
             </nav>
           )}
           
@@ -128,6 +184,17 @@ const AddInvestmentPage = () => {
   return <InvestmentForm onSuccess={handleSuccess} />;
 };
 
+// Import Investments Page Component
+const ImportInvestmentsPage = () => {
+  const navigate = useNavigate();
+  
+  const handleSuccess = () => {
+    navigate('/dashboard');
+  };
+
+  return <ImportInvestments onSuccess={handleSuccess} />;
+};
+
 // Account Detail Page Component
 const AccountDetailPage = () => {
   const { accountName } = useParams();
@@ -149,6 +216,20 @@ const AccountDetailPage = () => {
   );
 };
 
+// Tax Reports Page Component, one page per tax year
+const TaxReportsPage = () => {
+  const { year } = useParams();
+  const navigate = useNavigate();
+  const taxYear = parseInt(year ?? '');
+
+  // Without a year the last complete one is shown
+  if (isNaN(taxYear)) {
+    return <Navigate to={`/taxes/${new Date().getFullYear() - 1}`} replace />;
+  }
+
+  return <TaxReports year={taxYear} onYearChange={(y) => navigate(`/taxes/${y}`)} />;
+};
+
 // Main App Content Component
 const AppContent = () => {
   const { isAuthenticated, isLoading } = useAuth();
@@ -173,6 +254,55 @@ const AppContent = () => {
           </AppLayout>
         </ProtectedRoute>
       } />
+      <Route path="/goals" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <Goals />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      <Route path="/planner" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <Planner />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      <Route path="/rebalance" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <Rebalancing />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      <Route path="/symbols" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <SymbolMappings />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      <Route path="/taxes/:year?" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <TaxReportsPage />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      <Route path="/corporate-actions" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <CorporateActions />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
+      <Route path="/index-rates" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <IndexRates />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
       <Route path="/add-investment" element={
         <ProtectedRoute>
           <AppLayout>
@@ -180,6 +310,13 @@ const AppContent = () => {
           </AppLayout>
         </ProtectedRoute>
       } />
+      <Route path="/import" element={
+        <ProtectedRoute>
+          <AppLayout>
+            <ImportInvestmentsPage />
+          </AppLayout>
+        </ProtectedRoute>
+      } />
       <Route path="/account/:accountName" element={
         <ProtectedRoute>
           <AppLayout>
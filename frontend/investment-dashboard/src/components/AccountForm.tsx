@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import type { CreateAccountRequest } from '../types/Account';
+import { AccountType, BenchmarkPresets, ContributionFrequency, getAccountTypeLabel, getContributionFrequencyLabel } from '../types/Account';
 import { accountApi } from '../services/accountApi';
 import { useModal } from '../hooks/useModal';
 
@@ -11,12 +12,9 @@ interface AccountFormProps {
 const AccountForm: React.FC<AccountFormProps> = ({ onSuccess, onCancel }) => {
   const [formData, setFormData] = useState<CreateAccountRequest>({
     name: '',
-    goal1: undefined,
-    goal2: undefined,
-    goal3: undefined,
-    goal4: undefined,
-    goal5: undefined,
     sortOrder: 0,
+    type: AccountType.Regular,
+    contributionFrequency: ContributionFrequency.Monthly,
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -38,16 +36,18 @@ const AccountForm: React.FC<AccountFormProps> = ({ onSuccess, onCancel }) => {
     }
   };
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    let processedValue: any = value;
-    
-    if (name.startsWith('goal') && value !== '') {
-      processedValue = parseFloat(value) || undefined;
-    } else if (name.startsWith('goal') && value === '') {
-      processedValue = undefined;
+    let processedValue: string | number | boolean | undefined = value;
+
+    if (e.target instanceof HTMLInputElement && e.target.type === 'checkbox') {
+      processedValue = e.target.checked;
+    } else if (name === 'sortOrder') {
+      processedValue = parseInt(value) || 0;
+    } else if (name === 'contributionAmount' || name === 'expectedAnnualReturn') {
+      processedValue = value === '' ? undefined : parseFloat(value);
     }
-    
+
     setFormData(prev => ({
       ...prev,
       [name]: processedValue
@@ -74,94 +74,124 @@ const AccountForm: React.FC<AccountFormProps> = ({ onSuccess, onCancel }) => {
             />
           </div>
 
-          <div className="goals-section">
-            <h3>Financial Goals (Optional)</h3>
-            <div className="goals-grid-form">
-              <div className="form-group">
-                <label htmlFor="goal1">1 Year Goal:</label>
-                <input
-                  type="number"
-                  id="goal1"
-                  name="goal1"
-                  value={formData.goal1 || ''}
-                  onChange={handleInputChange}
-                  step="0.01"
-                  min="0"
-                  placeholder="Target amount"
-                />
-              </div>
+          <div className="form-group">
+            <label htmlFor="type">Account Type:</label>
+            <select
+              id="type"
+              name="type"
+              value={formData.type}
+              onChange={handleInputChange}
+            >
+              {Object.values(AccountType).map(type => (
+                <option key={type} value={type}>{getAccountTypeLabel(type)}</option>
+              ))}
+            </select>
+            <small style={{ color: '#7f8c8d', fontSize: '0.8rem', marginTop: '0.25rem', display: 'block' }}>
+              Registered accounts track contribution room and stay out of capital gains reports
+            </small>
+          </div>
 
-              <div className="form-group">
-                <label htmlFor="goal2">2 Year Goal:</label>
-                <input
-                  type="number"
-                  id="goal2"
-                  name="goal2"
-                  value={formData.goal2 || ''}
-                  onChange={handleInputChange}
-                  step="0.01"
-                  min="0"
-                  placeholder="Target amount"
-                />
-              </div>
+          <div className="form-group">
+            <label htmlFor="sortOrder">Sort Order:</label>
+            <input
+              type="number"
+              id="sortOrder"
+              name="sortOrder"
+              value={formData.sortOrder}
+              onChange={handleInputChange}
+              min="0"
+              placeholder="0"
+            />
+            <small style={{ color: '#7f8c8d', fontSize: '0.8rem', marginTop: '0.25rem', display: 'block' }}>
+              Lower numbers appear first in the list
+            </small>
+          </div>
 
+          <div className="form-group">
+            <label htmlFor="benchmarkSymbol">Benchmark:</label>
+            <input
+              type="text"
+              id="benchmarkSymbol"
+              name="benchmarkSymbol"
+              value={formData.benchmarkSymbol || ''}
+              onChange={handleInputChange}
+              list="benchmark-presets"
+              maxLength={20}
+              placeholder="e.g. ^BVSP"
+            />
+            <datalist id="benchmark-presets">
+              {BenchmarkPresets.map(preset => (
+                <option key={preset.symbol} value={preset.symbol}>{preset.label}</option>
+              ))}
+            </datalist>
+            <small style={{ color: '#7f8c8d', fontSize: '0.8rem', marginTop: '0.25rem', display: 'block' }}>
+              Index the account's market value is compared against
+            </small>
+          </div>
+
+          <div className="form-group cash-tracking-checkbox">
+            <label>
+              <input
+                type="checkbox"
+                name="tracksCash"
+                checked={formData.tracksCash ?? false}
+                onChange={handleInputChange}
+              />
+              Track cash balance
+            </label>
+            <small style={{ color: '#7f8c8d', fontSize: '0.8rem', marginTop: '0.25rem', display: 'block' }}>
+              Buys and fees draw from the account's cash and sales and dividends add to it; when off, cash is a holding that only cash transactions change
+            </small>
+          </div>
+
+          <div className="goals-section">
+            <h3>Contribution Plan (Optional)</h3>
+            <div className="goals-grid-form">
               <div className="form-group">
-                <label htmlFor="goal3">3 Year Goal:</label>
+                <label htmlFor="contributionAmount">Contribution:</label>
                 <input
                   type="number"
-                  id="goal3"
-                  name="goal3"
-                  value={formData.goal3 || ''}
+                  id="contributionAmount"
+                  name="contributionAmount"
+                  value={formData.contributionAmount ?? ''}
                   onChange={handleInputChange}
                   step="0.01"
                   min="0"
-                  placeholder="Target amount"
+                  placeholder="From history"
                 />
               </div>
 
               <div className="form-group">
-                <label htmlFor="goal4">4 Year Goal:</label>
-                <input
-                  type="number"
-                  id="goal4"
-                  name="goal4"
-                  value={formData.goal4 || ''}
+                <label htmlFor="contributionFrequency">Every:</label>
+                <select
+                  id="contributionFrequency"
+                  name="contributionFrequency"
+                  value={formData.contributionFrequency}
                   onChange={handleInputChange}
-                  step="0.01"
-                  min="0"
-                  placeholder="Target amount"
-                />
+                >
+                  {Object.values(ContributionFrequency).map(frequency => (
+                    <option key={frequency} value={frequency}>{getContributionFrequencyLabel(frequency)}</option>
+                  ))}
+                </select>
               </div>
 
               <div className="form-group">
-                <label htmlFor="goal5">5 Year Goal:</label>
+                <label htmlFor="expectedAnnualReturn">Expected Return (%/yr):</label>
                 <input
                   type="number"
-                  id="goal5"
-                  name="goal5"
-                  value={formData.goal5 || ''}
+                  id="expectedAnnualReturn"
+                  name="expectedAnnualReturn"
+                  value={formData.expectedAnnualReturn ?? ''}
                   onChange={handleInputChange}
                   step="0.01"
-                  min="0"
-                  placeholder="Target amount"
+                  min="-100"
+                  max="100"
+                  placeholder="From history"
                 />
               </div>
             </div>
-          </div>
-
-          <div className="form-group">
-            <label htmlFor="sortOrder">Sort Order:</label>
-            <input
-              type="number"
-              id="sortOrder"
-              name="sortOrder"
-              value={formData.sortOrder}
-              onChange={handleInputChange}
-              min="0"
-              placeholder="0"
-            />
             <small style={{ color: '#7f8c8d', fontSize: '0.8rem', marginTop: '0.25rem', display: 'block' }}>
-              Lower numbers appear first in the list
+              Used to project goals; left empty, the account's last year of deposits and its historical return are used
             </small>
           </div>
 
@@ -1,19 +1,13 @@
 import React from 'react';
 import type { AccountGoalProgress } from '../types/Investment';
+import { formatMoney } from '../utils/currency';
 
 interface AccountGoalsProgressProps {
   accountGoals: AccountGoalProgress[];
 }
 
 const AccountGoalsProgress: React.FC<AccountGoalsProgressProps> = ({ accountGoals = [] }) => {
-  const formatCurrency = (value: number, currency: string) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency === 'BRL' ? 'BRL' : 'CAD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
-  };
+  const formatCurrency = (value: number, currency: string) => formatMoney(value, currency, 0);
 
   const calculateProgress = (current: number, goal?: number) => {
     if (!goal || goal === 0) return 0;
@@ -53,21 +47,16 @@ const AccountGoalsProgress: React.FC<AccountGoalsProgressProps> = ({ accountGoal
             </div>
             
             <div className="goals-progress">
-              {[1, 2, 3, 4, 5].map((year) => {
-                const goalKey = `year${year}` as keyof typeof account.goals;
-                const goalValue = account.goals[goalKey];
-                
-                if (!goalValue) return null;
-                
-                const progress = calculateProgress(account.currentValue, goalValue);
+              {account.goals.map((goal) => {
+                const progress = calculateProgress(goal.currentValue, goal.targetAmount);
                 const progressColor = getProgressColor(progress);
                 
                 return (
-                  <div key={year} className="goal-progress-item">
+                  <div key={goal.goalId} className="goal-progress-item">
                     <div className="goal-info">
-                      <span className="goal-year">Year {year}</span>
+                      <span className="goal-year">{goal.label}</span>
                       <span className="goal-target">
-                        {formatCurrency(goalValue, account.currency)}
+                        {formatCurrency(goal.targetAmount, goal.currency)}
                       </span>
                     </div>
                     <div className="progress-bar-container">
@@ -87,7 +76,7 @@ const AccountGoalsProgress: React.FC<AccountGoalsProgressProps> = ({ accountGoal
               })}
             </div>
             
-            {Object.values(account.goals).every(goal => !goal) && (
+            {account.goals.length === 0 && (
               <div className="no-goals">
                 <p>No financial goals set for this account</p>
               </div>
@@ -1,17 +1,31 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
 import type { Investment, AccountPerformance } from '../types/Investment';
-import { getCategoryLabel } from '../types/Investment';
+import { getCategoryLabel, getTransactionTypeLabel, getNetAmount, getCostBasisMethodLabel, hasMarketPrice, formatIndexerTerms, Category, CostBasisMethod } from '../types/Investment';
 import { investmentApi } from '../services/api';
+import { authApi } from '../services/authApi';
+import { currencyApi } from '../services/currencyApi';
+import { statementApi } from '../services/statementApi';
+import { useAuth } from '../contexts/AuthContext';
 import { getApiBaseUrl } from '../utils/config';
 import EditInvestmentForm from './EditInvestmentForm';
+import ExportMenu from './ExportMenu';
+import { ReturnsTable } from './ReturnSummary';
+import PortfolioValuationChart from './PortfolioValuationChart';
+import ManualValuations from './ManualValuations';
+import type { ExportOption } from './ExportMenu';
+import { buildTransactionsTable, buildAccountPerformanceTable, getSelectedDisplayCurrency } from '../utils/export';
+import type { ExportCurrencyConverter } from '../utils/export';
+import { formatMoney, sumByCurrency } from '../utils/currency';
+import { useCurrencies } from '../hooks/useCurrencies';
 
 interface AccountInvestmentsProps {
   account: string;
   onBack: () => void;
 }
 
-type SortField = 'name' | 'date' | 'category' | 'purchasePrice' | 'currentPrice' | 'quantity' | 'currentValue' | 'percentage' | 'gainLoss';
+type SortField = 'name' | 'date' | 'type' | 'category' | 'purchasePrice' | 'currentPrice' | 'quantity' | 'currentValue' | 'percentage' | 'gainLoss';
 type SortDirection = 'asc' | 'desc';
 
 const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack }) => {
@@ -22,6 +36,10 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
   const [editingInvestment, setEditingInvestment] = useState<Investment | null>(null);
   const [sortField, setSortField] = useState<SortField>('percentage');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [savingMethod, setSavingMethod] = useState(false);
+  const { updateUser } = useAuth();
+  // Re-render once the currency registry loads so amounts use its symbols
+  const currencies = useCurrencies();
 
   useEffect(() => {
     fetchInvestments();
@@ -70,14 +88,49 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
     }
   };
 
-  const formatCurrency = (value: number, currency: string) => {
-    const currencyCode = currency === 'BRL' ? 'BRL' : 'CAD';
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currencyCode,
-    }).format(value);
+  const handleCostBasisMethodChange = async (method: string) => {
+    if (!accountPerformance) return;
+
+    try {
+      setSavingMethod(true);
+      const response = await authApi.updateSettings({ costBasisMethod: method });
+      updateUser(response.user);
+      await fetchAccountPerformance(accountPerformance.accountId);
+    } catch (err) {
+      console.error('Failed to update cost basis method:', err);
+      alert('Failed to update cost basis method');
+    } finally {
+      setSavingMethod(false);
+    }
+  };
+
+  const handleHomeCurrencyChange = async (homeCurrency: string) => {
+    if (!accountPerformance) return;
+
+    try {
+      setSavingMethod(true);
+      const response = await authApi.updateSettings({ costBasisMethod: accountPerformance.costBasisMethod, homeCurrency });
+      updateUser(response.user);
+      await fetchAccountPerformance(accountPerformance.accountId);
+    } catch (err) {
+      console.error('Failed to update home currency:', err);
+      alert('Failed to update home currency');
+    } finally {
+      setSavingMethod(false);
+    }
   };
 
+  const handleExportOfx = async () => {
+    try {
+      await statementApi.exportOfx(investments[0].accountId);
+    } catch (err) {
+      console.error('Failed to export OFX:', err);
+      alert('Failed to export OFX');
+    }
+  };
+
+  const formatCurrency = (value: number, currency: string) => formatMoney(value, currency);
+
   const formatPerformance = (gainLoss: number, percentage: number, currency: string) => {
     const formattedAmount = formatCurrency(Math.abs(gainLoss), currency);
     const formattedPercentage = percentage.toFixed(2);
@@ -89,6 +142,12 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
     };
   };
 
+  // Book value still held by a transaction: the open part of a purchase, nothing for sales or income
+  const getBookValue = (investment: Investment) => {
+    const performance = accountPerformance?.investments.find(ip => ip.investmentId === investment.id);
+    return performance ? performance.totalInvested : getNetAmount(investment);
+  };
+
   const handleSort = (field: SortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -101,7 +160,7 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
   const getSortedInvestments = () => {
     const totalAccountValue = accountPerformance ? 
       accountPerformance.currentValue : 
-      investments.reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
+      investments.reduce((sum, inv) => sum + getBookValue(inv), 0);
 
     return [...investments].sort((a, b) => {
       let aValue: any;
@@ -119,6 +178,10 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
           aValue = new Date(a.date).getTime();
           bValue = new Date(b.date).getTime();
           break;
+        case 'type':
+          aValue = getTransactionTypeLabel(a.type).toLowerCase();
+          bValue = getTransactionTypeLabel(b.type).toLowerCase();
+          break;
         case 'category':
           aValue = getCategoryLabel(a.category).toLowerCase();
           bValue = getCategoryLabel(b.category).toLowerCase();
@@ -136,12 +199,12 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
           bValue = b.quantity;
           break;
         case 'currentValue':
-          aValue = aPerformance ? aPerformance.currentValue : (a.total || (a.value * a.quantity));
-          bValue = bPerformance ? bPerformance.currentValue : (b.total || (b.value * b.quantity));
+          aValue = aPerformance ? aPerformance.currentValue : getBookValue(a);
+          bValue = bPerformance ? bPerformance.currentValue : getBookValue(b);
           break;
         case 'percentage':
-          const aCurrentValue = aPerformance ? aPerformance.currentValue : (a.total || (a.value * a.quantity));
-          const bCurrentValue = bPerformance ? bPerformance.currentValue : (b.total || (b.value * b.quantity));
+          const aCurrentValue = aPerformance ? aPerformance.currentValue : getBookValue(a);
+          const bCurrentValue = bPerformance ? bPerformance.currentValue : getBookValue(b);
           aValue = totalAccountValue > 0 ? (aCurrentValue / totalAccountValue) * 100 : 0;
           bValue = totalAccountValue > 0 ? (bCurrentValue / totalAccountValue) * 100 : 0;
           break;
@@ -182,33 +245,59 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
     fetchInvestments(); // Refresh the data
   };
 
-  const totalBRL = investments.filter(inv => inv.currency === 'BRL').reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-  const totalCAD = investments.filter(inv => inv.currency === 'CAD').reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
+  const currencyTotals = sumByCurrency(investments, getBookValue);
+  const bookValueTotal = Object.values(currencyTotals).reduce((sum, total) => sum + total, 0);
 
-  // Group investments by name for the breakdown chart
+  // Group open positions by name for the breakdown chart
   const investmentBreakdown = investments.reduce((acc, investment) => {
-    const total = investment.total || (investment.value * investment.quantity);
+    const total = getBookValue(investment);
+    const performance = accountPerformance?.investments.find(ip => ip.investmentId === investment.id);
+    const quantity = performance ? performance.openQuantity : Math.sign(getNetAmount(investment)) * investment.quantity;
     const existingItem = acc.find(item => item.name === investment.name);
 
     if (existingItem) {
       existingItem.value += total;
-      existingItem.quantity += investment.quantity;
+      existingItem.quantity += quantity;
     } else {
       acc.push({
         name: investment.name,
         value: total,
-        quantity: investment.quantity,
+        quantity,
         category: getCategoryLabel(investment.category),
         currency: investment.currency
       });
     }
 
     return acc;
-  }, [] as Array<{name: string; value: number; quantity: number; category: string; currency: string}>);
+  }, [] as Array<{name: string; value: number; quantity: number; category: string; currency: string}>)
+    .filter(item => item.value > 0);
 
   // Sort by value descending
   investmentBreakdown.sort((a, b) => b.value - a.value);
 
+  const exportOptions: ExportOption[] = [
+    {
+      label: 'Transactions',
+      fileName: `${account}-transactions`,
+      build: (converter) => buildTransactionsTable(investments, converter)
+    },
+    ...(accountPerformance ? [{
+      label: 'Performance',
+      fileName: `${account}-performance`,
+      build: (converter: ExportCurrencyConverter) => buildAccountPerformanceTable(accountPerformance, converter)
+    }] : [])
+  ];
+
+  // Trailing income across holdings, converted with the same rates as the Dashboard
+  const displayCurrency = getSelectedDisplayCurrency();
+  const incomeCurrency = displayCurrency !== 'Original'
+    ? displayCurrency
+    : accountPerformance?.holdings[0]?.currency || 'CAD';
+  const totalTrailingIncome = (accountPerformance?.holdings || []).reduce(
+    (sum, holding) => sum + currencyApi.convertCurrencySync(holding.trailingIncome, holding.currency, incomeCurrency),
+    0
+  );
+
   // Colors for the pie chart
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#ffc658', '#8dd1e1', '#d084d0', '#ffb347'];
 
@@ -220,23 +309,23 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
       <div className="account-header">
         <button onClick={onBack} className="back-btn">← Back to Dashboard</button>
         <h2>Investments - {account}</h2>
+        <ExportMenu options={exportOptions} displayCurrency={displayCurrency} />
+        {investments.length > 0 && (
+          <button type="button" className="export-btn" onClick={handleExportOfx}>
+            Export OFX
+          </button>
+        )}
         <div className="account-summary">
           <div className="summary-item">
             <span className="label">Total Investments:</span>
             <span className="value">{investments.length}</span>
           </div>
-          {totalBRL > 0 && (
-            <div className="summary-item">
-              <span className="label">Total BRL:</span>
-              <span className="value">{formatCurrency(totalBRL, 'BRL')}</span>
-            </div>
-          )}
-          {totalCAD > 0 && (
-            <div className="summary-item">
-              <span className="label">Total CAD:</span>
-              <span className="value">{formatCurrency(totalCAD, 'CAD')}</span>
+          {Object.entries(currencyTotals).filter(([, total]) => total > 0).map(([currency, total]) => (
+            <div key={currency} className="summary-item">
+              <span className="label">Total {currency}:</span>
+              <span className="value">{formatCurrency(total, currency)}</span>
             </div>
-          )}
+          ))}
           {accountPerformance && (
             <>
               <div className="summary-item performance-summary">
@@ -256,6 +345,40 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
                   </span>
                 </span>
               </div>
+              <div className="summary-item performance-summary">
+                <span className="label">Unrealized Gain:</span>
+                <span className={`value performance-value ${accountPerformance.totalUnrealizedGain >= 0 ? 'positive' : 'negative'}`}>
+                  {formatCurrency(accountPerformance.totalUnrealizedGain, accountPerformance.investments[0]?.currency || 'CAD')}
+                </span>
+              </div>
+              {accountPerformance.totalCash !== 0 && (
+                <div className="summary-item performance-summary">
+                  <span className="label">Cash:</span>
+                  <span className={`value ${accountPerformance.totalCash < 0 ? 'performance-value negative' : ''}`}>
+                    {formatCurrency(accountPerformance.totalCash, accountPerformance.investments[0]?.currency || 'CAD')}
+                  </span>
+                </div>
+              )}
+              {accountPerformance.totalRealizedGain !== 0 && (
+                <div className="summary-item performance-summary">
+                  <span className="label">Realized Gain:</span>
+                  <span className={`value performance-value ${accountPerformance.totalRealizedGain >= 0 ? 'positive' : 'negative'}`}>
+                    {formatCurrency(accountPerformance.totalRealizedGain, accountPerformance.investments[0]?.currency || 'CAD')}
+                  </span>
+                </div>
+              )}
+              {accountPerformance.totalIncome > 0 && (
+                <div className="summary-item performance-summary">
+                  <span className="label">Income:</span>
+                  <span className="value">{formatCurrency(accountPerformance.totalIncome, accountPerformance.investments[0]?.currency || 'CAD')}</span>
+                </div>
+              )}
+              {totalTrailingIncome > 0 && (
+                <div className="summary-item performance-summary">
+                  <span className="label">Income (12 months):</span>
+                  <span className="value">{formatCurrency(totalTrailingIncome, incomeCurrency)}</span>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -275,9 +398,8 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
                     cy="50%"
                     labelLine={false}
                     label={({ name, value }) => {
-                      const total = totalBRL + totalCAD;
-                      if (!value || total === 0) return '';
-                      const percentage = ((value / total) * 100).toFixed(1);
+                      if (!value || bookValueTotal === 0) return '';
+                      const percentage = ((value / bookValueTotal) * 100).toFixed(1);
                       return `${name}: ${percentage}%`;
                     }}
                     outerRadius={80}
@@ -308,7 +430,7 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
               <h4>Investment Summary</h4>
               <div className="breakdown-list">
                 {investmentBreakdown.map((item, index) => {
-                  const percentage = ((item.value / (totalBRL + totalCAD)) * 100).toFixed(1);
+                  const percentage = ((item.value / bookValueTotal) * 100).toFixed(1);
                   return (
                     <div key={item.name} className="breakdown-item">
                       <div className="breakdown-item-header">
@@ -329,6 +451,250 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
         </section>
       )}
 
+      {/* Market value of the account against its benchmark */}
+      {accountPerformance && investments.length > 0 && (
+        <section className="investments-list">
+          <PortfolioValuationChart
+            displayCurrency={accountPerformance.returnCurrency}
+            accountId={accountPerformance.accountId}
+            defaultBenchmark={investments[0].account.benchmarkSymbol}
+          />
+        </section>
+      )}
+
+      {/* Time-weighted and money-weighted returns of the account */}
+      {accountPerformance && accountPerformance.returns.length > 0 && (
+        <section className="investments-list returns-section">
+          <h3>Returns ({accountPerformance.returnCurrency})</h3>
+          <ReturnsTable returns={accountPerformance.returns} />
+        </section>
+      )}
+
+      {/* Per-holding gains from the lot engine */}
+      {accountPerformance && accountPerformance.holdings.length > 0 && (
+        <section className="investments-list holdings-section">
+          <div className="holdings-header">
+            <h3>Holdings</h3>
+            <div className="currency-selector">
+              <label htmlFor="costBasisMethod">Cost Basis:</label>
+              <select
+                id="costBasisMethod"
+                className="currency-select"
+                value={accountPerformance.costBasisMethod}
+                onChange={(e) => handleCostBasisMethodChange(e.target.value)}
+                disabled={savingMethod}
+              >
+                {Object.values(CostBasisMethod).map(method => (
+                  <option key={method} value={method}>{getCostBasisMethodLabel(method)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Quantity</th>
+                  <th>Average Cost</th>
+                  <th>Open Cost Basis</th>
+                  <th>Current Value</th>
+                  <th>Unrealized Gain</th>
+                  <th>Realized Gain</th>
+                  <th>Income (12 months)</th>
+                  <th>Yield on Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accountPerformance.holdings.map(holding => (
+                  <tr key={`${holding.name}-${holding.currency}`}>
+                    <td>
+                      {holding.name}
+                      {holding.indexer && holding.indexerRate !== null && (
+                        <small className="indexer-terms">{formatIndexerTerms(holding.indexer, holding.indexerRate)}</small>
+                      )}
+                    </td>
+                    <td>{holding.quantity.toLocaleString()}</td>
+                    <td>{formatCurrency(holding.averageCost, holding.currency)}</td>
+                    <td>{formatCurrency(holding.costBasis, holding.currency)}</td>
+                    <td>
+                      {formatCurrency(holding.currentValue, holding.currency)}
+                      {holding.isValuationStale && (
+                        <span className="valuation-badge stale" title={`Last valued on ${holding.valuationDate}`}>Stale</span>
+                      )}
+                      {holding.overdrawnOn && (
+                        <span className="valuation-badge stale" title={`The balance went below zero on ${holding.overdrawnOn.slice(0, 10)}; a deposit may be missing`}>Overdrawn</span>
+                      )}
+                      {/* Cash is worth its balance, other unquoted holdings stay at cost until valued */}
+                      {holding.quantity !== 0 && !hasMarketPrice(holding.category) && holding.valuationDate === null && holding.indexer === null && holding.category !== Category.Cash && (
+                        <span className="valuation-badge">No valuation</span>
+                      )}
+                      {/* Accrued fixed income is shown gross, the regressive income tax comes off on redemption */}
+                      {holding.estimatedIncomeTax !== null && holding.estimatedIncomeTax > 0 && (
+                        <small className="indexer-terms" title={`Estimated income tax: ${formatCurrency(holding.estimatedIncomeTax, holding.currency)}`}>
+                          Net {formatCurrency(holding.currentValue - holding.estimatedIncomeTax, holding.currency)}
+                        </small>
+                      )}
+                    </td>
+                    <td>
+                      {holding.quantity !== 0 ? (
+                        <span className={`performance-amount ${holding.unrealizedGain >= 0 ? 'positive' : 'negative'}`}>
+                          {formatCurrency(holding.unrealizedGain, holding.currency)} ({holding.unrealizedGainPercentage.toFixed(2)}%)
+                        </span>
+                      ) : (
+                        <span className="no-performance">-</span>
+                      )}
+                    </td>
+                    <td>
+                      {holding.realizedGain !== 0 ? (
+                        <span className={`performance-amount ${holding.realizedGain >= 0 ? 'positive' : 'negative'}`}>
+                          {formatCurrency(holding.realizedGain, holding.currency)}
+                        </span>
+                      ) : (
+                        <span className="no-performance">-</span>
+                      )}
+                    </td>
+                    <td>
+                      {holding.trailingIncome !== 0 ?
+                        formatCurrency(holding.trailingIncome, holding.currency) :
+                        <span className="no-performance">-</span>
+                      }
+                    </td>
+                    <td>
+                      {holding.yieldOnCost !== 0 ?
+                        `${holding.yieldOnCost.toFixed(2)}%` :
+                        <span className="no-performance">-</span>
+                      }
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {accountPerformance.holdings.some(h => h.quantity !== 0 && !h.hasCurrentPrice && hasMarketPrice(h.category)) && (
+            <small className="form-help">
+              Some quoted holdings have no price and are shown at cost. <Link to="/symbols">Set their tickers</Link>.
+            </small>
+          )}
+        </section>
+      )}
+
+      {/* Statement balances and NAVs that price the holdings without a quote */}
+      {accountPerformance && (
+        <ManualValuations
+          accountId={accountPerformance.accountId}
+          holdings={accountPerformance.holdings}
+          onChange={() => fetchAccountPerformance(accountPerformance.accountId)}
+        />
+      )}
+
+      {/* Gains of open holdings in the home currency, split into the asset's move and the currency's */}
+      {accountPerformance && accountPerformance.holdings.some(h => h.homeCostBasis !== null) && (
+        <section className="investments-list holdings-section">
+          <div className="holdings-header">
+            <h3>Asset vs. Currency Return ({accountPerformance.homeCurrency})</h3>
+            <div className="currency-selector">
+              <label htmlFor="homeCurrency">Home Currency:</label>
+              <select
+                id="homeCurrency"
+                className="currency-select"
+                value={accountPerformance.homeCurrency}
+                onChange={(e) => handleHomeCurrencyChange(e.target.value)}
+                disabled={savingMethod}
+              >
+                {currencies.map(c => (
+                  <option key={c.code} value={c.code}>{c.code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Currency</th>
+                  <th>Cost at Purchase Rates</th>
+                  <th>Current Value</th>
+                  <th>Asset Return</th>
+                  <th>Currency Return</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accountPerformance.holdings.filter(h => h.homeCostBasis !== null && h.category !== Category.Cash).map(holding => (
+                  <tr key={`${holding.name}-${holding.currency}`}>
+                    <td>{holding.name}</td>
+                    <td>{holding.currency}</td>
+                    <td>{formatCurrency(holding.homeCostBasis ?? 0, accountPerformance.homeCurrency)}</td>
+                    <td>{formatCurrency(holding.homeCurrentValue ?? 0, accountPerformance.homeCurrency)}</td>
+                    <td>
+                      <span className={`performance-amount ${(holding.assetReturn ?? 0) >= 0 ? 'positive' : 'negative'}`}>
+                        {formatCurrency(holding.assetReturn ?? 0, accountPerformance.homeCurrency)}
+                      </span>
+                    </td>
+                    <td>
+                      {holding.currency !== accountPerformance.homeCurrency ? (
+                        <span className={`performance-amount ${(holding.currencyReturn ?? 0) >= 0 ? 'positive' : 'negative'}`}>
+                          {formatCurrency(holding.currencyReturn ?? 0, accountPerformance.homeCurrency)}
+                        </span>
+                      ) : (
+                        <span className="no-performance">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <th colSpan={2}>Total</th>
+                  <th>{formatCurrency(accountPerformance.totalHomeCostBasis, accountPerformance.homeCurrency)}</th>
+                  <th>{formatCurrency(accountPerformance.totalHomeCurrentValue, accountPerformance.homeCurrency)}</th>
+                  <th>{formatCurrency(accountPerformance.totalAssetReturn, accountPerformance.homeCurrency)}</th>
+                  <th>{formatCurrency(accountPerformance.totalCurrencyReturn, accountPerformance.homeCurrency)}</th>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+          <small className="form-help">
+            Cost is converted at the rate of each purchase date. Asset return is the price move valued at today's rate; currency return is what the exchange rate added to or took from the cost still held.
+          </small>
+        </section>
+      )}
+
+      {/* Fee transactions and the fees and taxes charged on every transaction, by year */}
+      {accountPerformance && accountPerformance.costsPaid.length > 0 && (
+        <section className="investments-list costs-paid-section">
+          <h3>Costs Paid</h3>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Year</th>
+                  <th>Currency</th>
+                  <th>Fees</th>
+                  <th>Taxes</th>
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accountPerformance.costsPaid.map(costs => (
+                  <tr key={`${costs.year}-${costs.currency}`}>
+                    <td>{costs.year}</td>
+                    <td>{costs.currency}</td>
+                    <td>{formatCurrency(costs.fees, costs.currency)}</td>
+                    <td>{formatCurrency(costs.taxes, costs.currency)}</td>
+                    <td><strong>{formatCurrency(costs.total, costs.currency)}</strong></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <small className="form-help">
+            Costs are listed in the currency they were charged in. They are part of the cost basis of purchases and come off the proceeds of sales and dividends.
+          </small>
+        </section>
+      )}
+
       {editingInvestment && (
         <EditInvestmentForm
           investment={editingInvestment}
@@ -348,6 +714,9 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
                 <th className="sortable" onClick={() => handleSort('date')}>
                   Date {sortField === 'date' && (sortDirection === 'asc' ? '↑' : '↓')}
                 </th>
+                <th className="sortable" onClick={() => handleSort('type')}>
+                  Type {sortField === 'type' && (sortDirection === 'asc' ? '↑' : '↓')}
+                </th>
                 <th className="sortable" onClick={() => handleSort('category')}>
                   Category {sortField === 'category' && (sortDirection === 'asc' ? '↑' : '↓')}
                 </th>
@@ -381,12 +750,12 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
                 // Calculate the current value of this investment
                 const currentInvestmentValue = investmentPerformance ? 
                   investmentPerformance.currentValue : 
-                  (investment.total || (investment.value * investment.quantity));
+                  getBookValue(investment);
 
                 // Calculate total account value for percentage calculation
                 const totalAccountValue = accountPerformance ? 
                   accountPerformance.currentValue : 
-                  investments.reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
+                  investments.reduce((sum, inv) => sum + getBookValue(inv), 0);
 
                 // Calculate percentage of account
                 const percentageOfAccount = totalAccountValue > 0 ? 
@@ -396,6 +765,7 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
                   <tr key={investment.id}>
                     <td>{investment.name}</td>
                     <td>{new Date(investment.date).toLocaleDateString()}</td>
+                    <td>{getTransactionTypeLabel(investment.type)}</td>
                     <td>{getCategoryLabel(investment.category)}</td>
                     <td>{formatCurrency(investment.value, investment.currency)}</td>
                     <td>
@@ -408,7 +778,7 @@ const AccountInvestments: React.FC<AccountInvestmentsProps> = ({ account, onBack
                     <td>
                       {investmentPerformance ?
                         formatCurrency(investmentPerformance.currentValue, investment.currency) :
-                        formatCurrency(investment.total || (investment.value * investment.quantity), investment.currency)
+                        formatCurrency(getBookValue(investment), investment.currency)
                       }
                     </td>
                     <td className="percentage-column">
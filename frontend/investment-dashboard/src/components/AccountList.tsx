@@ -1,11 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import type { Account } from '../types/Account';
+import type { Goal } from '../types/Goal';
+import type { ContributionRoomSummary } from '../types/ContributionRoom';
+import { getAccountTypeLabel } from '../types/Account';
 import { accountApi } from '../services/accountApi';
+import { goalApi } from '../services/goalApi';
+import { contributionRoomApi } from '../services/contributionRoomApi';
 import AccountForm from './AccountForm';
 import EditAccountForm from './EditAccountForm';
+import ContributionRoom from './ContributionRoom';
+import { formatMoney } from '../utils/currency';
 
 const AccountList: React.FC = () => {
   const [accounts, setAccounts] = useState<Account[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [contributionRoom, setContributionRoom] = useState<ContributionRoomSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -13,13 +22,15 @@ const AccountList: React.FC = () => {
 
   useEffect(() => {
     fetchAccounts();
+    fetchContributionRoom();
   }, []);
 
   const fetchAccounts = async () => {
     try {
       setLoading(true);
-      const data = await accountApi.getAll();
+      const [data, goalData] = await Promise.all([accountApi.getAll(), goalApi.getAll()]);
       setAccounts(data);
+      setGoals(goalData);
     } catch (err) {
       setError('Failed to fetch accounts');
       console.error(err);
@@ -28,14 +39,25 @@ const AccountList: React.FC = () => {
     }
   };
 
+  // Room needs exchange rates, so the accounts still show when it fails
+  const fetchContributionRoom = async () => {
+    try {
+      setContributionRoom(await contributionRoomApi.getAll());
+    } catch (err) {
+      console.error('Failed to fetch contribution room:', err);
+    }
+  };
+
   const handleCreateSuccess = () => {
     setShowCreateForm(false);
     fetchAccounts();
+    fetchContributionRoom();
   };
 
   const handleEditSuccess = () => {
     setEditingAccount(null);
     fetchAccounts();
+    fetchContributionRoom();
   };
 
   const handleDelete = async (id: number) => {
@@ -43,18 +65,30 @@ const AccountList: React.FC = () => {
       try {
         await accountApi.delete(id);
         fetchAccounts();
+        fetchContributionRoom();
       } catch (err: any) {
         alert(err.message || 'Failed to delete account');
       }
     }
   };
 
-  const formatCurrency = (value?: number) => {
-    if (value === undefined || value === null) return 'Not set';
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(value);
+  // Goals come sorted by target date, so the first one still ahead is the next
+  const formatNextGoal = (accountId: number) => {
+    const today = new Date().toISOString().slice(0, 10);
+    const goal = goals.find(g => g.accountId === accountId && g.targetDate >= today);
+    if (!goal) return 'Not set';
+    return `${formatMoney(goal.targetAmount, goal.currency)} by ${goal.targetDate}`;
+  };
+
+  const renderRoom = (account: Account) => {
+    const room = contributionRoom.find(r => r.accountType === account.type);
+    if (!room || room.remaining === null) return <span className="no-performance">-</span>;
+    return (
+      <>
+        {formatMoney(room.remaining, room.currency)}
+        {room.isOverContributed && <span className="valuation-badge stale">Over-contributed</span>}
+      </>
+    );
   };
 
   if (loading) return <div>Loading accounts...</div>;
@@ -82,9 +116,10 @@ const AccountList: React.FC = () => {
             <thead>
               <tr>
                 <th>Account Name</th>
-                <th className="goal-col">Goal Year 1</th>
-                <th className="goal-col">Goal Year 3</th>
-                <th className="goal-col goal-col-hidden-mobile">Goal Year 5</th>
+                <th className="goal-col goal-col-hidden-mobile">Type</th>
+                <th className="goal-col">Room Left</th>
+                <th className="goal-col">Next Goal</th>
+                <th className="goal-col goal-col-hidden-mobile">Benchmark</th>
                 <th>Actions</th>
               </tr>
             </thead>
@@ -92,9 +127,10 @@ const AccountList: React.FC = () => {
               {accounts.map((account) => (
                 <tr key={account.id}>
                   <td className="account-name">{account.name}</td>
-                  <td className="goal-col">{formatCurrency(account.goal1)}</td>
-                  <td className="goal-col">{formatCurrency(account.goal3)}</td>
-                  <td className="goal-col goal-col-hidden-mobile">{formatCurrency(account.goal5)}</td>
+                  <td className="goal-col goal-col-hidden-mobile">{getAccountTypeLabel(account.type)}</td>
+                  <td className="goal-col">{renderRoom(account)}</td>
+                  <td className="goal-col">{formatNextGoal(account.id)}</td>
+                  <td className="goal-col goal-col-hidden-mobile">{account.benchmarkSymbol || 'Not set'}</td>
                   <td className="account-actions">
                     <button 
                       className="edit-btn"
@@ -116,6 +152,8 @@ const AccountList: React.FC = () => {
         </div>
       )}
 
+      <ContributionRoom summaries={contributionRoom} onChange={fetchContributionRoom} />
+
       {showCreateForm && (
         <AccountForm 
           onSuccess={handleCreateSuccess}
@@ -126,6 +164,7 @@ const AccountList: React.FC = () => {
       {editingAccount && (
         <EditAccountForm 
           account={editingAccount}
+          contributionRoom={contributionRoom}
           onSuccess={handleEditSuccess}
           onCancel={() => setEditingAccount(null)}
         />
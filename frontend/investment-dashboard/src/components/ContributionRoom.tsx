@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import type { ContributionRoomSummary } from '../types/ContributionRoom';
+import { getAccountTypeLabel } from '../types/Account';
+import { contributionRoomApi } from '../services/contributionRoomApi';
+import { formatMoney } from '../utils/currency';
+
+interface ContributionRoomProps {
+  summaries: ContributionRoomSummary[];
+  onChange: () => void;
+}
+
+const ROOM_HELP: Record<string, string> = {
+  Tfsa: 'Unused room carries forward and withdrawals are added back on January 1 of the next year.',
+  Rrsp: 'Enter the deduction limit of each notice of assessment; up to $2,000 over the limit is tolerated.',
+  Fhsa: '$8,000 a year up to $40,000 for life; at most $8,000 of unused room carries to the next year.',
+  Pgbl: 'Deductible up to 12% of the gross taxable income of the year; enter that amount for each year.'
+};
+
+const ContributionRoom: React.FC<ContributionRoomProps> = ({ summaries, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+
+  // An empty value goes back to the default room of the year
+  const handleRoomChange = async (summary: ContributionRoomSummary, year: number, value: string, current: number | null) => {
+    const amount = value.trim() === '' ? null : parseFloat(value);
+    if (amount !== null && (isNaN(amount) || amount < 0)) return;
+    if (amount === current) return;
+
+    try {
+      setError(null);
+      await contributionRoomApi.setLimit(summary.accountType, year, amount);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save contribution room');
+      console.error(err);
+    }
+  };
+
+  if (summaries.length === 0) return null;
+
+  return (
+    <section className="investments-list contribution-room">
+      <h3>Contribution Room</h3>
+      {error && <div className="error-message">{error}</div>}
+
+      {summaries.map(summary => (
+        <div key={summary.accountType} className="contribution-room-type">
+          <h4>
+            {getAccountTypeLabel(summary.accountType)}
+            {summary.accounts.length > 0 && <small className="indexer-terms">{summary.accounts.join(', ')}</small>}
+          </h4>
+          <p className="form-help">{ROOM_HELP[summary.accountType]}</p>
+          <div className="table-container">
+            <table className="tax-report-table">
+              <thead>
+                <tr>
+                  <th>Year</th>
+                  <th>New Room</th>
+                  <th>Available</th>
+                  <th>Contributions</th>
+                  <th>Withdrawals</th>
+                  <th>Remaining</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...summary.years].reverse().map(year => (
+                  <tr key={year.year}>
+                    <td>{year.year}</td>
+                    <td>
+                      <input
+                        key={`${year.year}-${year.newRoom}-${year.isDefault}`}
+                        type="number"
+                        aria-label={`${getAccountTypeLabel(summary.accountType)} room for ${year.year}`}
+                        className="contribution-room-input"
+                        defaultValue={year.isDefault ? '' : year.newRoom ?? ''}
+                        placeholder={year.isDefault && year.newRoom !== null ? year.newRoom.toString() : 'Not set'}
+                        step="0.01"
+                        min="0"
+                        onBlur={(e) => handleRoomChange(summary, year.year, e.target.value, year.isDefault ? null : year.newRoom)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                      />
+                    </td>
+                    <td>{year.available !== null ? formatMoney(year.available, summary.currency) : <span className="no-performance">-</span>}</td>
+                    <td>{formatMoney(year.contributions, summary.currency)}</td>
+                    <td>{formatMoney(year.withdrawals, summary.currency)}</td>
+                    <td>
+                      {year.remaining !== null ? formatMoney(year.remaining, summary.currency) : <span className="no-performance">-</span>}
+                      {year.isOverContributed && <span className="valuation-badge stale">Over-contributed</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+export default ContributionRoom;
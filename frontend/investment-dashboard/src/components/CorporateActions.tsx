@@ -0,0 +1,377 @@
+import React, { useState, useEffect } from 'react';
+import type { CorporateAction, CreateCorporateActionRequest } from '../types/CorporateAction';
+import { CorporateActionType, changesSymbol, getCorporateActionTypeLabel } from '../types/CorporateAction';
+import { corporateActionApi } from '../services/corporateActionApi';
+
+// B3 notices name the events in Portuguese, brokers in English
+const TYPE_ALIASES: Record<string, CorporateActionType> = {
+  split: CorporateActionType.Split,
+  desdobramento: CorporateActionType.Split,
+  reversesplit: CorporateActionType.ReverseSplit,
+  grupamento: CorporateActionType.ReverseSplit,
+  bonus: CorporateActionType.Bonus,
+  bonusshares: CorporateActionType.Bonus,
+  bonificacao: CorporateActionType.Bonus,
+  symbolchange: CorporateActionType.SymbolChange,
+  tickerchange: CorporateActionType.SymbolChange,
+  merger: CorporateActionType.Merger,
+  incorporacao: CorporateActionType.Merger
+};
+
+const parseType = (value: string): CorporateActionType | undefined =>
+  TYPE_ALIASES[value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[\s_-]/g, '').toLowerCase()];
+
+// "1:2" and "1/2" give both sides, a single number is what one unit becomes
+const parseRatio = (value: string): [number, number] | null => {
+  const parts = value.split(/[:/]/).map(part => parseFloat(part.trim().replace(',', '.')));
+  if (parts.length === 1 && parts[0] > 0) return [1, parts[0]];
+  if (parts.length === 2 && parts[0] > 0 && parts[1] > 0) return [parts[0], parts[1]];
+  return null;
+};
+
+// One action per line: "date,type,symbol,ratio,new symbol,bonus unit cost", the last two only when they apply
+const parseRows = (text: string): { rows: CreateCorporateActionRequest[]; invalid: number } => {
+  const rows: CreateCorporateActionRequest[] = [];
+  let invalid = 0;
+
+  text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '').forEach(line => {
+    const separator = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+    const [rawDate, rawType, symbol, rawRatio, newSymbol, rawCost] = line.split(separator).map(part => part.trim().replace(/"/g, ''));
+    const brazilianDate = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(rawDate ?? '');
+    const date = brazilianDate ? `${brazilianDate[3]}-${brazilianDate[2]}-${brazilianDate[1]}` : rawDate;
+    const type = parseType(rawType ?? '');
+    const ratio = type === CorporateActionType.SymbolChange ? [1, 1] : parseRatio(rawRatio ?? '');
+    const bonusUnitCost = parseFloat((rawCost ?? '').replace(',', '.'));
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') || !type || !symbol || !ratio || (changesSymbol(type) && !newSymbol)) {
+      invalid++;
+      return;
+    }
+
+    rows.push({
+      type,
+      date,
+      symbol,
+      newSymbol: newSymbol || undefined,
+      ratioFrom: ratio[0],
+      ratioTo: ratio[1],
+      bonusUnitCost: type === CorporateActionType.Bonus && !isNaN(bonusUnitCost) ? bonusUnitCost : undefined
+    });
+  });
+
+  return { rows, invalid };
+};
+
+const describeAction = (action: CorporateAction): string => {
+  const ratio = `${action.ratioFrom} : ${action.ratioTo}`;
+  switch (action.type) {
+    case CorporateActionType.SymbolChange: return `Now ${action.newSymbol}`;
+    case CorporateActionType.Merger: return `${ratio} into ${action.newSymbol}`;
+    case CorporateActionType.Bonus: return action.bonusUnitCost !== null ? `${ratio}, ${action.bonusUnitCost} per new share` : ratio;
+    default: return ratio;
+  }
+};
+
+const emptyForm = (): CreateCorporateActionRequest => ({
+  type: CorporateActionType.Split,
+  date: new Date().toISOString().slice(0, 10),
+  symbol: '',
+  newSymbol: '',
+  ratioFrom: 1,
+  ratioTo: 2
+});
+
+const CorporateActions: React.FC = () => {
+  const [actions, setActions] = useState<CorporateAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState<CreateCorporateActionRequest>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    corporateActionApi.getAll()
+      .then(data => { if (isMounted) setActions(data); })
+      .catch(err => {
+        if (isMounted) setError('Failed to load corporate actions');
+        console.error(err);
+      })
+      .finally(() => { if (isMounted) setLoading(false); });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshKey]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'number' ? (value === '' ? undefined : parseFloat(value)) : value
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+      await corporateActionApi.create({
+        ...formData,
+        newSymbol: changesSymbol(formData.type) ? formData.newSymbol : undefined,
+        bonusUnitCost: formData.type === CorporateActionType.Bonus ? formData.bonusUnitCost : undefined,
+        note: formData.note?.trim() || undefined
+      });
+      setMessage(`${getCorporateActionTypeLabel(formData.type)} of ${formData.symbol.toUpperCase()} saved.`);
+      setFormData(emptyForm());
+      setRefreshKey(k => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save corporate action');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { rows, invalid } = parseRows(importText);
+    if (rows.length === 0) {
+      setError('No valid rows to import. Use one "date,type,symbol,ratio" line per action.');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setError(null);
+      const imported = await corporateActionApi.import(rows);
+      const skipped = rows.length - imported;
+      setMessage(`Imported ${imported} corporate action${imported === 1 ? '' : 's'}` +
+        (skipped > 0 ? `, ${skipped} already stored` : '') +
+        (invalid > 0 ? `, skipped ${invalid} invalid line${invalid === 1 ? '' : 's'}.` : '.'));
+      setImportText('');
+      setRefreshKey(k => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import corporate actions');
+      console.error(err);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (window.confirm('Are you sure you want to delete this corporate action?')) {
+      try {
+        await corporateActionApi.delete(id);
+        setRefreshKey(k => k + 1);
+      } catch (err) {
+        setError('Failed to delete corporate action');
+        console.error(err);
+      }
+    }
+  };
+
+  return (
+    <div className="corporate-actions">
+      <div className="account-list-header">
+        <h2>Corporate Actions</h2>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+      {message && <p className="import-summary">{message}</p>}
+
+      <section className="investments-list">
+        <p className="form-help">
+          Splits, reverse splits (grupamentos), bonus shares, symbol changes and mergers restate the quantity, average cost and ticker of every holding of the symbol from their date on. Transactions keep the quantities and prices they were entered with.
+        </p>
+        {loading && actions.length === 0 ? (
+          <div className="timeline-loading">Loading corporate actions...</div>
+        ) : actions.length === 0 ? (
+          <p className="no-performance">No corporate actions recorded.</p>
+        ) : (
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Symbol</th>
+                  <th>Action</th>
+                  <th>Terms</th>
+                  <th>Note</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {actions.map(action => (
+                  <tr key={action.id}>
+                    <td>{action.date.slice(0, 10)}</td>
+                    <td>{action.symbol}</td>
+                    <td>{getCorporateActionTypeLabel(action.type)}</td>
+                    <td>{describeAction(action)}</td>
+                    <td>{action.note || <span className="no-performance">-</span>}</td>
+                    <td className="account-actions">
+                      <button className="delete-btn" onClick={() => handleDelete(action.id)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="investments-list">
+        <h3>Add Corporate Action</h3>
+        <form onSubmit={handleSubmit}>
+          <div className="goals-form-grid">
+            <div className="form-group">
+              <label htmlFor="type">Action:</label>
+              <select id="type" name="type" value={formData.type} onChange={handleInputChange}>
+                {Object.values(CorporateActionType).map(type => (
+                  <option key={type} value={type}>{getCorporateActionTypeLabel(type)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="date">Date:</label>
+              <input type="date" id="date" name="date" value={formData.date} onChange={handleInputChange} required />
+              <small className="form-help">First day traded on the new terms</small>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="symbol">Symbol:</label>
+              <input
+                type="text"
+                id="symbol"
+                name="symbol"
+                value={formData.symbol}
+                onChange={handleInputChange}
+                maxLength={20}
+                placeholder="e.g. PETR4"
+                required
+              />
+            </div>
+
+            {changesSymbol(formData.type) && (
+              <div className="form-group">
+                <label htmlFor="newSymbol">New Symbol:</label>
+                <input
+                  type="text"
+                  id="newSymbol"
+                  name="newSymbol"
+                  value={formData.newSymbol ?? ''}
+                  onChange={handleInputChange}
+                  maxLength={20}
+                  required
+                />
+              </div>
+            )}
+
+            {formData.type !== CorporateActionType.SymbolChange && (
+              <>
+                <div className="form-group">
+                  <label htmlFor="ratioFrom">Units Before:</label>
+                  <input
+                    type="number"
+                    id="ratioFrom"
+                    name="ratioFrom"
+                    value={formData.ratioFrom ?? ''}
+                    onChange={handleInputChange}
+                    min="0"
+                    step="any"
+                    required
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="ratioTo">Units After:</label>
+                  <input
+                    type="number"
+                    id="ratioTo"
+                    name="ratioTo"
+                    value={formData.ratioTo ?? ''}
+                    onChange={handleInputChange}
+                    min="0"
+                    step="any"
+                    required
+                  />
+                  <small className="form-help">1 and 2 for a 2-for-1 split, 10 and 11 for a 10% bonus</small>
+                </div>
+              </>
+            )}
+
+            {formData.type === CorporateActionType.Bonus && (
+              <div className="form-group">
+                <label htmlFor="bonusUnitCost">Cost per Bonus Share:</label>
+                <input
+                  type="number"
+                  id="bonusUnitCost"
+                  name="bonusUnitCost"
+                  value={formData.bonusUnitCost ?? ''}
+                  onChange={handleInputChange}
+                  min="0"
+                  step="any"
+                />
+                <small className="form-help">Custo atribuído in the company notice, added to the cost basis</small>
+              </div>
+            )}
+
+            <div className="form-group">
+              <label htmlFor="note">Note:</label>
+              <input
+                type="text"
+                id="note"
+                name="note"
+                value={formData.note ?? ''}
+                onChange={handleInputChange}
+                maxLength={200}
+              />
+            </div>
+          </div>
+
+          <div className="form-buttons">
+            <button type="submit" className="create-btn" disabled={saving}>
+              {saving ? 'Saving...' : 'Add Corporate Action'}
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="investments-list corporate-actions-import">
+        <h3>Import Corporate Actions</h3>
+        <p className="form-help">
+          Paste one action per line as date, action, symbol and ratio (units before:units after), followed by the new symbol for symbol changes and mergers and the cost per share for bonuses. Actions already stored for the same date and symbol are skipped.
+        </p>
+        <form onSubmit={handleImport}>
+          <div className="form-group">
+            <label htmlFor="importActions">Actions:</label>
+            <textarea
+              id="importActions"
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              placeholder={'2020-08-31,Split,AAPL,1:4\n15/04/2024;Grupamento;ABCD3;10:1\n2024-06-03,SymbolChange,ABCD3,,WXYZ3'}
+              required
+            />
+          </div>
+
+          <div className="form-buttons">
+            <button type="submit" className="create-btn" disabled={importing}>
+              {importing ? 'Importing...' : 'Import Actions'}
+            </button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default CorporateActions;
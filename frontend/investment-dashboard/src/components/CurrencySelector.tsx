@@ -1,4 +1,5 @@
 import React from 'react';
+import { useCurrencies } from '../hooks/useCurrencies';
 
 interface CurrencySelectorProps {
   selectedCurrency: string;
@@ -9,8 +10,11 @@ interface CurrencySelectorProps {
 const CurrencySelector: React.FC<CurrencySelectorProps> = ({
   selectedCurrency,
   onCurrencyChange,
-  availableCurrencies = ['Original', 'USD', 'CAD', 'BRL']
+  availableCurrencies
 }) => {
+  const currencies = useCurrencies();
+  const options = availableCurrencies ?? ['Original', ...currencies.map(c => c.code)];
+
   return (
     <div className="currency-selector">
       <label htmlFor="currency-select">Display Currency:</label>
@@ -20,7 +24,7 @@ const CurrencySelector: React.FC<CurrencySelectorProps> = ({
         onChange={(e) => onCurrencyChange(e.target.value)}
         className="currency-select"
       >
-        {availableCurrencies.map(currency => (
+        {options.map(currency => (
           <option key={currency} value={currency}>
             {currency}
           </option>
@@ -1,11 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import type { DashboardData } from '../types/Investment';
-import { getCategoryLabel } from '../types/Investment';
+import type { DashboardData, PortfolioReturns } from '../types/Investment';
+import type { GoalProgress } from '../types/Goal';
+import { GoalStatus, getGoalStatusClass, getGoalStatusLabel } from '../types/Goal';
+import { Category, getCategoryLabel, getReturnPeriodLabel, ReturnPeriod } from '../types/Investment';
 import { investmentApi } from '../services/api';
 import { currencyApi } from '../services/currencyApi';
 import InvestmentTimeline from './InvestmentTimeline';
+import PortfolioValuationChart from './PortfolioValuationChart';
+import ReturnSummary from './ReturnSummary';
 import CurrencySelector from './CurrencySelector';
+import ExportMenu from './ExportMenu';
+import type { ExportOption } from './ExportMenu';
+import { buildTransactionsTable, buildHoldingsTable, buildTimelineTable } from '../utils/export';
+import { formatCurrencyBreakdown, formatMoney, sortByRegistry, sumByCurrency } from '../utils/currency';
+import { useCurrencies } from '../hooks/useCurrencies';
 
 interface DashboardProps {
   onNavigateToAccount?: (account: string) => void;
@@ -22,10 +31,16 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
     return localStorage.getItem('dashboardCurrency') || 'Original';
   });
   const [currencyRates, setCurrencyRates] = useState<{[key: string]: number}>({});
+  const [returnPeriod, setReturnPeriod] = useState<ReturnPeriod>(() => {
+    return (localStorage.getItem('dashboardReturnPeriod') as ReturnPeriod) || ReturnPeriod.Ytd;
+  });
+  const [portfolioReturns, setPortfolioReturns] = useState<PortfolioReturns | null>(null);
   const [valuesHidden, setValuesHidden] = useState<boolean>(() => {
     // Load saved privacy setting from localStorage, default to false (values visible)
     return localStorage.getItem('dashboardValuesHidden') === 'true';
   });
+  // Symbols, digit grouping and breakdown order come from the registry, re-render once it loads
+  useCurrencies();
 
   const getProgressColor = (progress: number) => {
     if (progress >= 100) return '#27ae60'; // Green - Goal reached
@@ -52,6 +67,22 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
     };
   }, []);
 
+  // Portfolio returns include currency effects, so they are computed in the selected currency (CAD for Original)
+  const returnsCurrency = selectedCurrency === 'Original' ? 'CAD' : selectedCurrency;
+  useEffect(() => {
+    let isMounted = true;
+
+    investmentApi.getPortfolioReturns(returnsCurrency)
+      .then(data => {
+        if (isMounted) setPortfolioReturns(data);
+      })
+      .catch(error => console.error('Failed to load portfolio returns:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [returnsCurrency]);
+
   const loadCurrencyRates = async () => {
     try {
       // Get current rates (no need to refresh separately as getAllRates handles caching)
@@ -81,21 +112,30 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
       return timelineData;
     }
 
+    // Converts every per-currency value and sums them into the total
+    const convertValues = (values: Record<string, number>, toCurrency: (amount: number, currency: string) => number) =>
+      Object.fromEntries(Object.entries(values).map(([currency, amount]) => [currency, toCurrency(amount, currency)]));
+    const sumValues = (values: Record<string, number>) =>
+      Object.values(values).reduce((sum, amount) => sum + amount, 0);
+
     if (selectedCurrency === 'Original') {
       // For Original mode, convert to base currency (CAD) for proportional accuracy
       // but maintain original currency display in tooltips
+      const toBase = (amount: number, currency: string) => convertCurrency(amount, currency, 'CAD');
+      const currentValues = convertValues(timelineData.currentValues, toBase);
       return {
         ...timelineData,
-        timelinePoints: timelineData.timelinePoints.map((point: any) => ({
-          ...point,
-          totalValue: convertCurrency(point.brlValue, 'BRL', 'CAD') + convertCurrency(point.cadValue, 'CAD', 'CAD'),
-          brlValue: convertCurrency(point.brlValue, 'BRL', 'CAD'),
-          cadValue: convertCurrency(point.cadValue, 'CAD', 'CAD'),
-          // Keep original values for display
-          originalBrlValue: point.brlValue,
-          originalCadValue: point.cadValue,
-          displayMode: 'original'
-        })),
+        timelinePoints: timelineData.timelinePoints.map((point: any) => {
+          const values = convertValues(point.values, toBase);
+          return {
+            ...point,
+            totalValue: sumValues(values),
+            values,
+            // Keep original values for display
+            originalValues: point.values,
+            displayMode: 'original'
+          };
+        }),
         goalMarkers: timelineData.goalMarkers.map((goal: any) => ({
           ...goal,
           value: convertCurrency(goal.value, goal.currency, 'CAD'),
@@ -103,32 +143,32 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
           originalCurrency: goal.currency,
           displayMode: 'original'
         })),
-        currentTotalValue: convertCurrency(timelineData.currentBrlValue, 'BRL', 'CAD') + convertCurrency(timelineData.currentCadValue, 'CAD', 'CAD'),
-        currentBrlValue: convertCurrency(timelineData.currentBrlValue, 'BRL', 'CAD'),
-        currentCadValue: convertCurrency(timelineData.currentCadValue, 'CAD', 'CAD'),
-        originalCurrentBrlValue: timelineData.currentBrlValue,
-        originalCurrentCadValue: timelineData.currentCadValue,
+        currentTotalValue: sumValues(currentValues),
+        currentValues,
+        originalCurrentValues: timelineData.currentValues,
         displayMode: 'original'
       };
     } else {
       // For converted mode, convert to selected currency
+      const currentValues = convertValues(timelineData.currentValues, getConvertedValue);
       return {
         ...timelineData,
-        timelinePoints: timelineData.timelinePoints.map((point: any) => ({
-          ...point,
-          totalValue: getConvertedValue(point.brlValue, 'BRL') + getConvertedValue(point.cadValue, 'CAD'),
-          brlValue: getConvertedValue(point.brlValue, 'BRL'),
-          cadValue: getConvertedValue(point.cadValue, 'CAD')
-        })),
+        timelinePoints: timelineData.timelinePoints.map((point: any) => {
+          const values = convertValues(point.values, getConvertedValue);
+          return {
+            ...point,
+            totalValue: sumValues(values),
+            values
+          };
+        }),
         goalMarkers: timelineData.goalMarkers.map((goal: any) => ({
           ...goal,
           value: getConvertedValue(goal.value, goal.currency),
           currency: selectedCurrency,
           label: goal.label.replace(goal.currency, selectedCurrency)
         })),
-        currentTotalValue: getConvertedValue(timelineData.currentBrlValue, 'BRL') + getConvertedValue(timelineData.currentCadValue, 'CAD'),
-        currentBrlValue: getConvertedValue(timelineData.currentBrlValue, 'BRL'),
-        currentCadValue: getConvertedValue(timelineData.currentCadValue, 'CAD')
+        currentTotalValue: sumValues(currentValues),
+        currentValues
       };
     }
   };
@@ -140,18 +180,11 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
     
     if (selectedCurrency === 'Original') {
       // Display in original currency
-      const currencyCode = originalCurrency === 'BRL' ? 'BRL' : (originalCurrency === 'USD' ? 'USD' : 'CAD');
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: currencyCode,
-      }).format(value);
+      return formatMoney(value, originalCurrency);
     } else {
       // Display in selected currency with conversion
       const convertedValue = convertCurrency(value, originalCurrency, selectedCurrency);
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: selectedCurrency,
-      }).format(convertedValue);
+      return formatMoney(convertedValue, selectedCurrency);
     }
   };
 
@@ -164,81 +197,25 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
       return null;
     }
 
+    const rateText = (from: string, to: string) =>
+      `${currencyApi.getExchangeRateSync(from, to).toFixed(3)} ${to}`;
+    // When nothing else is held, the rate to USD (CAD for USD itself) gives context instead of 1:1
+    const contextCurrency = (currency: string) => (currency === 'USD' ? 'CAD' : 'USD');
+    const heldCurrencies = sortByRegistry([...new Set(dashboardData?.allInvestments.map(inv => inv.currency) ?? [])]);
+
     if (selectedCurrency === 'Original') {
-      // For Original mode, show comprehensive cross rates with USD context
-      const cadToBrl = currencyRates['CADBRL'];
-      const cadToUsd = currencyRates['CADUSD'];
-      const brlToUsd = currencyRates['BRLUSD'];
-      
-      if (cadToBrl && cadToUsd && brlToUsd) {
-        return `1 CAD = ${cadToBrl.toFixed(3)} BRL = ${cadToUsd.toFixed(3)} USD`;
-      } else if (cadToBrl && cadToUsd) {
-        return `1 CAD = ${cadToBrl.toFixed(3)} BRL = ${cadToUsd.toFixed(3)} USD`;
-      } else if (cadToBrl) {
-        return `1 CAD = ${cadToBrl.toFixed(3)} BRL`;
-      }
-      
-      // Fallback with reverse rates
-      const brlToCad = currencyRates['BRLCAD'];
-      if (brlToCad && brlToUsd) {
-        const cadToUsdCalc = brlToUsd / brlToCad; // Calculate CAD to USD via BRL
-        return `1 BRL = ${brlToCad.toFixed(3)} CAD | 1 CAD ≈ ${(1/brlToCad).toFixed(3)} BRL = ${cadToUsdCalc.toFixed(3)} USD`;
-      } else if (brlToCad) {
-        return `1 BRL = ${brlToCad.toFixed(3)} CAD`;
-      }
-      
-      return '1 CAD ≈ 4.0 BRL ≈ 0.73 USD'; // Fallback
-    } else {
-      // For converted mode, show the rate to the selected currency
-      // Determine the primary base currency from portfolio
-      const hasBrl = dashboardData?.accountGoals?.some(account => account.currency === 'BRL');
-      const hasCad = dashboardData?.accountGoals?.some(account => account.currency === 'CAD');
-      
-      let fromCurrency = 'CAD'; // Default
-      if (hasBrl && !hasCad) {
-        fromCurrency = 'BRL';
-      } else if (hasBrl && hasCad) {
-        // Show both major rates, but avoid showing 1:1 conversions
-        const brlRate = currencyRates[`BRL${selectedCurrency}`] || (1 / (currencyRates[`${selectedCurrency}BRL`] || 1));
-        const cadRate = currencyRates[`CAD${selectedCurrency}`] || (1 / (currencyRates[`${selectedCurrency}CAD`] || 1));
-        
-        if (selectedCurrency === 'BRL') {
-          // When BRL is selected, show CAD to BRL and BRL to USD
-          const brlToUsd = currencyRates['BRLUSD'] || (1 / (currencyRates['USDBRL'] || 1));
-          if (cadRate && brlToUsd) {
-            return `1 CAD = ${cadRate.toFixed(3)} BRL | 1 BRL = ${brlToUsd.toFixed(3)} USD`;
-          }
-        } else if (selectedCurrency === 'CAD') {
-          // When CAD is selected, show BRL to CAD and CAD to USD  
-          const cadToUsd = currencyRates['CADUSD'] || (1 / (currencyRates['USDCAD'] || 1));
-          if (brlRate && cadToUsd) {
-            return `1 BRL = ${brlRate.toFixed(3)} CAD | 1 CAD = ${cadToUsd.toFixed(3)} USD`;
-          }
-        } else {
-          // For other currencies, show both rates normally
-          if (brlRate && cadRate) {
-            return `1 BRL = ${brlRate.toFixed(3)} ${selectedCurrency} | 1 CAD = ${cadRate.toFixed(3)} ${selectedCurrency}`;
-          }
-        }
-      }
-      
-      // Show single rate, but avoid 1:1 conversions by showing USD rate instead
-      if (fromCurrency === selectedCurrency) {
-        // When converting to same currency, show USD rate instead
-        const toUsdRate = currencyRates[`${fromCurrency}USD`] || (1 / (currencyRates[`USD${fromCurrency}`] || 1));
-        if (toUsdRate && toUsdRate !== 1) {
-          return `1 ${fromCurrency} = ${toUsdRate.toFixed(3)} USD`;
-        }
-      } else {
-        const rate = currencyRates[`${fromCurrency}${selectedCurrency}`] || (1 / (currencyRates[`${selectedCurrency}${fromCurrency}`] || 1));
-        
-        if (rate && rate !== 1) {
-          return `1 ${fromCurrency} = ${rate.toFixed(3)} ${selectedCurrency}`;
-        }
-      }
+      // For Original mode, show the base currency (CAD) against every other currency held
+      const others = heldCurrencies.filter(currency => currency !== 'CAD');
+      const targets = others.length > 0 ? others : [contextCurrency('CAD')];
+      return `1 CAD = ${targets.map(currency => rateText('CAD', currency)).join(' = ')}`;
     }
-    
-    return null;
+
+    // For converted mode, show the rate from every other currency held to the selected currency
+    const sources = heldCurrencies.filter(currency => currency !== selectedCurrency);
+    if (sources.length === 0) {
+      return `1 ${selectedCurrency} = ${rateText(selectedCurrency, contextCurrency(selectedCurrency))}`;
+    }
+    return sources.map(currency => `1 ${currency} = ${rateText(currency, selectedCurrency)}`).join(' | ');
   };
 
   const formatPerformance = (gainLoss: number, percentage: number, currency: string) => {
@@ -264,6 +241,11 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
     console.log(`Currency changed to: ${currency} (saved to localStorage)`);
   };
 
+  const handleReturnPeriodChange = (period: ReturnPeriod) => {
+    setReturnPeriod(period);
+    localStorage.setItem('dashboardReturnPeriod', period);
+  };
+
   const toggleValuesVisibility = () => {
     const newHiddenState = !valuesHidden;
     setValuesHidden(newHiddenState);
@@ -271,6 +253,24 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
     localStorage.setItem('dashboardValuesHidden', newHiddenState.toString());
   };
 
+  const exportOptions: ExportOption[] = [
+    {
+      label: 'Transactions',
+      fileName: 'transactions',
+      build: (converter) => buildTransactionsTable(dashboardData.allInvestments, converter)
+    },
+    {
+      label: 'Holdings',
+      fileName: 'holdings',
+      build: (converter) => buildHoldingsTable(dashboardData.groupedInvestments, converter)
+    },
+    {
+      label: 'Timeline',
+      fileName: 'timeline',
+      build: (converter) => buildTimelineTable(dashboardData.timelineData?.timelinePoints ?? [], converter)
+    }
+  ];
+
   const getConvertedValue = (value: number, originalCurrency: string): number => {
     if (selectedCurrency === 'Original') {
       return value;
@@ -290,29 +290,12 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
 
     if (selectedCurrency === 'Original') {
       // For original currency, calculate totals per currency
-      let brlTotal = 0;
-      let cadTotal = 0;
-      let usdTotal = 0;
-
-      dashboardData.accountGoals.forEach((account: any) => {
-        if (account.currency === 'BRL') {
-          brlTotal += account.currentValue;
-        } else if (account.currency === 'CAD') {
-          cadTotal += account.currentValue;
-        } else if (account.currency === 'USD') {
-          usdTotal += account.currentValue;
-        }
-      });
+      const totals = sumByCurrency(dashboardData.accountGoals, account => account.currentValue);
 
       // Format as multiple currencies if more than one exists
-      const parts = [];
-      if (brlTotal > 0) parts.push(formatCurrency(brlTotal, 'BRL'));
-      if (cadTotal > 0) parts.push(formatCurrency(cadTotal, 'CAD'));
-      if (usdTotal > 0) parts.push(formatCurrency(usdTotal, 'USD'));
-      
       return { 
-        total: brlTotal + cadTotal + usdTotal, 
-        display: parts.length > 1 ? parts.join(' + ') : (parts[0] || '$0')
+        total: Object.values(totals).reduce((sum, amount) => sum + amount, 0), 
+        display: formatCurrencyBreakdown(totals, formatCurrency) || '$0'
       };
     } else {
       // For converted currency, sum all converted values
@@ -327,19 +310,54 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
     }
   };
 
+  // Monthly income for the last 12 months, including months without income
+  const convertMonthlyIncomeData = () => {
+    const now = new Date();
+    const months = Array.from({ length: 12 }, (_, index) => {
+      const month = new Date(now.getFullYear(), now.getMonth() - 11 + index, 1);
+      return {
+        key: `${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`,
+        month: month.toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+        total: 0,
+        originalAmounts: {} as Record<string, number>,
+        displayMode: selectedCurrency === 'Original' ? 'original' : 'converted'
+      };
+    });
+
+    (dashboardData?.monthlyIncome || []).forEach(income => {
+      const bucket = months.find(m => m.key === income.month.substring(0, 7));
+      if (!bucket) return;
+
+      // Original mode uses CAD as the common base so bar heights stay proportional
+      bucket.total += selectedCurrency === 'Original'
+        ? convertCurrency(income.amount, income.currency, 'CAD')
+        : getConvertedValue(income.amount, income.currency);
+      bucket.originalAmounts[income.currency] = (bucket.originalAmounts[income.currency] || 0) + income.amount;
+    });
+
+    return months;
+  };
+
+  const formatOriginalAmounts = (amounts: Record<string, number>) => {
+    const parts = Object.entries(amounts)
+      .filter(([, amount]) => amount !== 0)
+      .map(([currency, amount]) => formatCurrency(amount, currency));
+    return parts.length > 0 ? parts.join(' + ') : formatCurrency(0, 'CAD');
+  };
+
   // Helper functions for chart data conversion
   const convertAccountChartData = (data: any[]) => {
     const convertedData = data.map((item: any) => {
-      // Always recalculate from individual investments for accurate proportions
-      const accountInvestments = dashboardData?.allInvestments?.filter(
-        (inv: any) => inv.account.name === item.account
+      // Always recalculate from ledger positions for accurate proportions
+      const accountPositions = dashboardData?.groupedInvestments?.filter(
+        (inv: any) => inv.account === item.account
       ) || [];
 
       if (selectedCurrency === 'Original') {
         // For Original mode, calculate proportional value using a base currency (CAD)
         // This ensures correct proportions while preserving display in original currencies
-        const proportionalTotal = accountInvestments.reduce((sum: number, inv: any) => {
-          const invValue = inv.total || (inv.value * inv.quantity);
+        const proportionalTotal = accountPositions.reduce((sum: number, inv: any) => {
+          const invValue = inv.total;
           return sum + convertCurrency(invValue, inv.currency, 'CAD');
         }, 0);
 
@@ -351,8 +369,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
         };
       } else {
         // For converted mode, convert to selected currency
-        const convertedTotal = accountInvestments.reduce((sum: number, inv: any) => {
-          const invValue = inv.total || (inv.value * inv.quantity);
+        const convertedTotal = accountPositions.reduce((sum: number, inv: any) => {
+          const invValue = inv.total;
           return sum + getConvertedValue(invValue, inv.currency);
         }, 0);
 
@@ -369,15 +387,15 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
 
   const convertCountryData = (data: any[]) => {
     return data.map((item: any) => {
-      // Always recalculate from individual investments for accurate proportions
-      const countryInvestments = dashboardData?.allInvestments?.filter(
+      // Always recalculate from ledger positions for accurate proportions
+      const countryPositions = dashboardData?.groupedInvestments?.filter(
         (inv: any) => inv.country === item.country
       ) || [];
 
       if (selectedCurrency === 'Original') {
         // For Original mode, calculate proportional value using a base currency (CAD)
-        const proportionalTotal = countryInvestments.reduce((sum: number, inv: any) => {
-          const invValue = inv.total || (inv.value * inv.quantity);
+        const proportionalTotal = countryPositions.reduce((sum: number, inv: any) => {
+          const invValue = inv.total;
           return sum + convertCurrency(invValue, inv.currency, 'CAD');
         }, 0);
 
@@ -389,8 +407,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
         };
       } else {
         // For converted mode, convert to selected currency
-        const convertedTotal = countryInvestments.reduce((sum: number, inv: any) => {
-          const invValue = inv.total || (inv.value * inv.quantity);
+        const convertedTotal = countryPositions.reduce((sum: number, inv: any) => {
+          const invValue = inv.total;
           return sum + getConvertedValue(invValue, inv.currency);
         }, 0);
 
@@ -404,15 +422,15 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
 
   const convertCategoryData = (data: any[]) => {
     return data.map((item: any) => {
-      // Get all investments in this category
-      const categoryInvestments = dashboardData?.allInvestments.filter(
+      // Get all positions in this category
+      const categoryPositions = dashboardData?.groupedInvestments?.filter(
         (inv: any) => inv.category === item.category
       ) || [];
 
       if (selectedCurrency === 'Original') {
         // For Original mode, calculate proportional value using a base currency (CAD)
-        const proportionalTotal = categoryInvestments.reduce((sum: number, inv: any) => {
-          const invValue = inv.total || (inv.value * inv.quantity);
+        const proportionalTotal = categoryPositions.reduce((sum: number, inv: any) => {
+          const invValue = inv.total;
           return sum + convertCurrency(invValue, inv.currency, 'CAD');
         }, 0);
 
@@ -425,8 +443,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
         };
       } else {
         // For converted mode, convert to selected currency
-        const convertedTotal = categoryInvestments.reduce((sum: number, inv: any) => {
-          const invValue = inv.total || (inv.value * inv.quantity);
+        const convertedTotal = categoryPositions.reduce((sum: number, inv: any) => {
+          const invValue = inv.total;
           return sum + getConvertedValue(invValue, inv.currency);
         }, 0);
 
@@ -441,6 +459,43 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
 
   const portfolioTotal = calculateTotalPortfolioValue();
 
+  const renderGoalProgress = (goal: GoalProgress) => {
+    const progress = Math.min(goal.progress, 100);
+
+    return (
+      <div
+        key={goal.goalId}
+        className="compact-goal-item"
+        title={`${goal.label}: target ${goal.targetDate.slice(0, 10)}, projected ${formatCurrency(goal.projectedValue, goal.currency)}`}
+      >
+        <div className="compact-goal-header">
+          <span className="goal-year-label">{goal.label}</span>
+          <span className="goal-percentage">{Math.round(progress)}%</span>
+        </div>
+        <div className="compact-progress-bar-container">
+          <div
+            className="compact-progress-bar"
+            style={{
+              width: `${progress}%`,
+              backgroundColor: getProgressColor(progress)
+            }}
+          />
+        </div>
+        <div className="goal-target-value">
+          {formatCurrency(goal.targetAmount, goal.currency)}
+        </div>
+        <div className={`goal-status ${getGoalStatusClass(goal.status)}`}>
+          {getGoalStatusLabel(goal.status)}
+        </div>
+        {goal.status !== GoalStatus.OnTrack && goal.requiredMonthlyContribution !== null && (
+          <div className="goal-target-value">
+            Needs {formatCurrency(goal.requiredMonthlyContribution, goal.currency)}/mo
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="dashboard">
       <div className="dashboard-header">
@@ -473,138 +528,111 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
               <span className="rate-value">{getCurrencyRateDisplay()}</span>
             </div>
           )}
+          <ExportMenu options={exportOptions} displayCurrency={selectedCurrency} />
         </div>
       </div>
 
       {/* Enhanced Summary per Account with Goal Progress */}
       <section className="account-summary-section">
         <h3>Account Summary & Goals Progress</h3>
+        <div className="returns-toolbar">
+          <div className="currency-selector">
+            <label htmlFor="returnPeriod">Returns:</label>
+            <select
+              id="returnPeriod"
+              className="currency-select"
+              value={returnPeriod}
+              onChange={(e) => handleReturnPeriodChange(e.target.value as ReturnPeriod)}
+            >
+              {Object.values(ReturnPeriod).map(period => (
+                <option key={period} value={period}>{getReturnPeriodLabel(period)}</option>
+              ))}
+            </select>
+          </div>
+          {portfolioReturns && portfolioReturns.returns.length > 0 && (
+            <div className="portfolio-returns">
+              <span className="return-label">Portfolio ({portfolioReturns.currency}):</span>
+              <ReturnSummary returns={portfolioReturns.returns} period={returnPeriod} />
+            </div>
+          )}
+        </div>
+        {dashboardData.portfolioGoals?.length > 0 && (
+          <div className="compact-goals-progress">
+            <h5>Portfolio Goals</h5>
+            <div className="compact-goals-grid">
+              {dashboardData.portfolioGoals.map(renderGoalProgress)}
+            </div>
+          </div>
+        )}
         <div className="account-summary-grid">
           {dashboardData.assetsByAccount && Array.isArray(dashboardData.assetsByAccount) &&
             dashboardData.assetsByAccount.map((accountData: any, index: number) => {
-              const accountInvestments = dashboardData.allInvestments.filter(inv => inv.account.name === accountData.account);
+              const accountPositions = dashboardData.groupedInvestments.filter(inv => inv.account === accountData.account);
 
               // Find corresponding account goals data
               const accountGoals = dashboardData.accountGoals?.find(
                 (goal: any) => goal.accountName === accountData.account
               );
 
-              // Use current value from performance if available, otherwise use invested value
-              let brlTotal = 0;
-              let cadTotal = 0;
-
-              if (accountGoals?.performance) {
-                // Use current values from performance data
-                const brlInvestments = accountGoals.performance.investments.filter((inv: any) => inv.currency === 'BRL');
-                const cadInvestments = accountGoals.performance.investments.filter((inv: any) => inv.currency === 'CAD');
-                brlTotal = brlInvestments.reduce((sum: number, inv: any) => sum + inv.currentValue, 0);
-                cadTotal = cadInvestments.reduce((sum: number, inv: any) => sum + inv.currentValue, 0);
-              } else {
-                // Fallback to invested values
-                brlTotal = accountInvestments
-                  .filter(inv => inv.currency === 'BRL')
-                  .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                cadTotal = accountInvestments
-                  .filter(inv => inv.currency === 'CAD')
-                  .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-              }
-
-              // For display: convert all values to selected currency for comparison if not "Original"
-
-              // Calculate USD total
-              let usdTotal = 0;
-              if (accountGoals?.performance) {
-                const usdInvestments = accountGoals.performance.investments.filter((inv: any) => inv.currency === 'USD');
-                usdTotal = usdInvestments.reduce((sum: number, inv: any) => sum + inv.currentValue, 0);
-              } else {
-                usdTotal = accountInvestments
-                  .filter(inv => inv.currency === 'USD')
-                  .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-              }
-
-              // Determine primary country based on which currency has highest original total
-              let primaryCountry = 'Canada'; // default
-              let maxTotal = cadTotal;
-              
-              if (brlTotal > maxTotal) {
-                primaryCountry = 'Brazil';
-                maxTotal = brlTotal;
-              }
-              if (usdTotal > maxTotal) {
-                primaryCountry = 'United States';
-              }
-              
-              const countryCode = primaryCountry === 'Brazil' ? 'BRA' : 
-                                 primaryCountry === 'United States' ? 'USA' : 'CAN';
+              // Use current value from performance if available, otherwise use invested value; cash is shown apart
+              const currencyTotals = accountGoals?.performance
+                ? sumByCurrency(accountGoals.performance.investments, inv => inv.currentValue)
+                : sumByCurrency(accountPositions.filter(inv => inv.category !== Category.Cash), inv => inv.total);
+              const cashTotals = sumByCurrency(accountPositions.filter(inv => inv.category === Category.Cash), inv => inv.total);
+              const heldCurrencies = Object.keys(currencyTotals).filter(currency => currencyTotals[currency] > 0);
+              const cashCurrencies = Object.keys(cashTotals).filter(currency => cashTotals[currency] !== 0);
+              const shownCurrencies = sortByRegistry([...new Set([...heldCurrencies, ...cashCurrencies])]);
+
+              // Primary country is the one with the most exposure, compared in CAD since positions mix currencies
+              const countryTotals: Record<string, number> = {};
+              accountPositions.forEach(inv => {
+                countryTotals[inv.country] = (countryTotals[inv.country] ?? 0) + convertCurrency(inv.total, inv.currency, 'CAD');
+              });
+              const primaryCountry = Object.keys(countryTotals).reduce<string | null>(
+                (max, country) => (max === null || countryTotals[country] > countryTotals[max] ? country : max),
+                null
+              ) ?? 'Canada';
+              const countryCode = currencyApi.getCurrenciesSync().find(c => c.country === primaryCountry)?.countryCode
+                ?? primaryCountry.slice(0, 3).toUpperCase();
 
               return (
                 <div key={index} className="account-summary-card enhanced">
                   <div className="account-summary-header">
                     <div className="account-name-with-flag">
                       <h4>{accountData.account}</h4>
-                      <span className={`country-code ${primaryCountry === 'United States' ? 'united-states' : primaryCountry.toLowerCase()}`}>{countryCode}</span>
+                      <span className={`country-code ${primaryCountry.toLowerCase().replace(/\s+/g, '-')}`}>{countryCode}</span>
                     </div>
-                    <span className="investment-count">{accountInvestments.length} investments</span>
+                    <span className="investment-count">{accountPositions.filter(position => position.totalQuantity !== 0 && position.category !== Category.Cash).length} investments</span>
                   </div>
 
                   <div className="account-summary-totals">
                     {selectedCurrency === 'Original' ? (
                       // Original currency display
                       <>
-                        {brlTotal > 0 && (
-                          <div className="currency-total-wrapper">
+                        {shownCurrencies.map(currency => (
+                          <div key={currency} className="currency-total-wrapper">
                             <div className="currency-total">
-                              <span className="currency-label">BRL:</span>
-                              <span className="currency-amount">{formatCurrency(brlTotal, 'BRL')}</span>
+                              <span className="currency-label">{currency}:</span>
+                              <span className="currency-amount">{formatCurrency(currencyTotals[currency] ?? 0, currency)}</span>
                             </div>
-                            {accountGoals?.performance && accountGoals.currency === 'BRL' && accountGoals.performance.totalGainLoss !== 0 && (
-                              <div className="performance-indicator-below">
-                                <span className={`performance-amount ${accountGoals.performance.totalGainLoss >= 0 ? 'positive' : 'negative'}`}>
-                                  {formatPerformance(accountGoals.performance.totalGainLoss, accountGoals.performance.totalGainLossPercentage, 'BRL').amount}
-                                </span>
-                                <span className={`performance-percentage ${accountGoals.performance.totalGainLoss >= 0 ? 'positive' : 'negative'}`}>
-                                  ({formatPerformance(accountGoals.performance.totalGainLoss, accountGoals.performance.totalGainLossPercentage, 'BRL').percentage})
-                                </span>
+                            {cashCurrencies.includes(currency) && (
+                              <div className="account-cash">
+                                <span>Cash:</span>
+                                <span className={cashTotals[currency] < 0 ? 'negative' : ''}>{formatCurrency(cashTotals[currency], currency)}</span>
                               </div>
                             )}
-                          </div>
-                        )}
-                        {cadTotal > 0 && (
-                          <div className="currency-total-wrapper">
-                            <div className="currency-total">
-                              <span className="currency-label">CAD:</span>
-                              <span className="currency-amount">{formatCurrency(cadTotal, 'CAD')}</span>
-                            </div>
-                            {accountGoals?.performance && accountGoals.currency === 'CAD' && accountGoals.performance.totalGainLoss !== 0 && (
-                              <div className="performance-indicator-below">
-                                <span className={`performance-amount ${accountGoals.performance.totalGainLoss >= 0 ? 'positive' : 'negative'}`}>
-                                  {formatPerformance(accountGoals.performance.totalGainLoss, accountGoals.performance.totalGainLossPercentage, 'CAD').amount}
-                                </span>
-                                <span className={`performance-percentage ${accountGoals.performance.totalGainLoss >= 0 ? 'positive' : 'negative'}`}>
-                                  ({formatPerformance(accountGoals.performance.totalGainLoss, accountGoals.performance.totalGainLossPercentage, 'CAD').percentage})
-                                </span>
-                              </div>
-                            )}
-                          </div>
-                        )}
-                        {usdTotal > 0 && (
-                          <div className="currency-total-wrapper">
-                            <div className="currency-total">
-                              <span className="currency-label">USD:</span>
-                              <span className="currency-amount">{formatCurrency(usdTotal, 'USD')}</span>
-                            </div>
-                            {accountGoals?.performance && accountGoals.currency === 'USD' && accountGoals.performance.totalGainLoss !== 0 && (
+                            {accountGoals?.performance && accountGoals.currency === currency && accountGoals.performance.totalGainLoss !== 0 && (
                               <div className="performance-indicator-below">
                                 <span className={`performance-amount ${accountGoals.performance.totalGainLoss >= 0 ? 'positive' : 'negative'}`}>
-                                  {formatPerformance(accountGoals.performance.totalGainLoss, accountGoals.performance.totalGainLossPercentage, 'USD').amount}
+                                  {formatPerformance(accountGoals.performance.totalGainLoss, accountGoals.performance.totalGainLossPercentage, currency).amount}
                                 </span>
                                 <span className={`performance-percentage ${accountGoals.performance.totalGainLoss >= 0 ? 'positive' : 'negative'}`}>
-                                  ({formatPerformance(accountGoals.performance.totalGainLoss, accountGoals.performance.totalGainLossPercentage, 'USD').percentage})
+                                  ({formatPerformance(accountGoals.performance.totalGainLoss, accountGoals.performance.totalGainLossPercentage, currency).percentage})
                                 </span>
                               </div>
                             )}
                           </div>
-                        )}
+                        ))}
                       </>
                     ) : (
                       // Converted currency display
@@ -612,15 +640,17 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
                         <div className="currency-total">
                           <span className="currency-label">{selectedCurrency}:</span>
                           <span className="currency-amount">
-                            {formatCurrency(getConvertedValue(brlTotal, 'BRL') + getConvertedValue(cadTotal, 'CAD') + getConvertedValue(usdTotal, 'USD'), selectedCurrency)}
+                            {formatCurrency(heldCurrencies.reduce((sum, currency) => sum + getConvertedValue(currencyTotals[currency], currency), 0), selectedCurrency)}
                           </span>
                         </div>
+                        {cashCurrencies.length > 0 && (
+                          <div className="account-cash">
+                            <span>Cash:</span>
+                            <span>{formatCurrency(cashCurrencies.reduce((sum, currency) => sum + getConvertedValue(cashTotals[currency], currency), 0), selectedCurrency)}</span>
+                          </div>
+                        )}
                         <div className="conversion-note">
-                          <small>Converted from {[
-                            brlTotal > 0 ? 'BRL' : null,
-                            cadTotal > 0 ? 'CAD' : null,
-                            usdTotal > 0 ? 'USD' : null
-                          ].filter(Boolean).join(' + ')}</small>
+                          <small>Converted from {shownCurrencies.join(' + ')}</small>
                         </div>
                         {accountGoals?.performance && accountGoals.performance.totalGainLoss !== 0 && (
                           <div className="performance-indicator-below">
@@ -636,43 +666,19 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
                     )}
                   </div>
 
+                  {accountGoals?.performance && accountGoals.performance.returns.length > 0 && (
+                    <div className="account-returns">
+                      <span className="return-label">{getReturnPeriodLabel(returnPeriod)} ({accountGoals.performance.returnCurrency}):</span>
+                      <ReturnSummary returns={accountGoals.performance.returns} period={returnPeriod} />
+                    </div>
+                  )}
+
                   {/* Compact Goal Progress Bars */}
-                  {accountGoals && (
+                  {accountGoals && accountGoals.goals.length > 0 && (
                     <div className="compact-goals-progress">
                       <h5>Financial Goals</h5>
                       <div className="compact-goals-grid">
-                        {[1, 2, 3, 4, 5].map((year) => {
-                          const goalKey = `year${year}` as keyof typeof accountGoals.goals;
-                          const goalValue = accountGoals.goals[goalKey];
-
-                          if (!goalValue) return null;
-
-                          const currentValue = accountGoals.currentValue;
-                          const progress = Math.min((currentValue / goalValue) * 100, 100);
-                          const progressColor = getProgressColor(progress);
-                          const displayYear = 2024 + year; // 2025, 2026, 2027, 2028, 2029
-
-                          return (
-                            <div key={year} className="compact-goal-item">
-                              <div className="compact-goal-header">
-                                <span className="goal-year-label">{displayYear}</span>
-                                <span className="goal-percentage">{Math.round(progress)}%</span>
-                              </div>
-                              <div className="compact-progress-bar-container">
-                                <div
-                                  className="compact-progress-bar"
-                                  style={{
-                                    width: `${progress}%`,
-                                    backgroundColor: progressColor
-                                  }}
-                                />
-                              </div>
-                              <div className="goal-target-value">
-                                {formatCurrency(goalValue, accountGoals.currency)}
-                              </div>
-                            </div>
-                          );
-                        })}
+                        {accountGoals.goals.map(renderGoalProgress)}
                       </div>
                     </div>
                   )}
@@ -727,30 +733,17 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
                 <Tooltip formatter={(value, _name, props: any) => {
                   if (selectedCurrency === 'Original' && props.payload?.displayMode === 'original') {
                     // Show original currency values for each account
-                    const accountInvestments = dashboardData?.allInvestments?.filter(
-                      (inv: any) => inv.account.name === props.payload.account
+                    const accountPositions = dashboardData?.groupedInvestments?.filter(
+                      (inv: any) => inv.account === props.payload.account
                     ) || [];
                     
-                    const brlTotal = accountInvestments
-                      .filter(inv => inv.currency === 'BRL')
-                      .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                    const cadTotal = accountInvestments
-                      .filter(inv => inv.currency === 'CAD')
-                      .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                    const usdTotal = accountInvestments
-                      .filter(inv => inv.currency === 'USD')
-                      .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                    
-                    const parts = [];
-                    if (brlTotal > 0) parts.push(formatCurrency(brlTotal, 'BRL'));
-                    if (cadTotal > 0) parts.push(formatCurrency(cadTotal, 'CAD'));
-                    if (usdTotal > 0) parts.push(formatCurrency(usdTotal, 'USD'));
+                    const breakdown = formatCurrencyBreakdown(sumByCurrency(accountPositions, inv => inv.total), formatCurrency);
                     
-                    return [parts.join(' + '), 'Total'];
+                    return [breakdown, 'Total'];
                   } else {
                     return [
                       selectedCurrency !== 'Original' 
-                        ? new Intl.NumberFormat('en-US', { style: 'currency', currency: selectedCurrency }).format(value as number)
+                        ? formatMoney(value as number, selectedCurrency)
                         : `$${value}`, 
                       'Total'
                     ];
@@ -799,33 +792,20 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
                   formatter={(value, _name, props: any) => {
                     if (selectedCurrency === 'Original' && props.payload?.displayMode === 'original') {
                       // Show original currency breakdown for each category
-                      const categoryInvestments = dashboardData?.allInvestments?.filter(
+                      const categoryPositions = dashboardData?.groupedInvestments?.filter(
                         (inv: any) => inv.category === props.payload.category
                       ) || [];
                       
-                      const brlTotal = categoryInvestments
-                        .filter(inv => inv.currency === 'BRL')
-                        .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                      const cadTotal = categoryInvestments
-                        .filter(inv => inv.currency === 'CAD')
-                        .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                      const usdTotal = categoryInvestments
-                        .filter(inv => inv.currency === 'USD')
-                        .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                      
-                      const parts = [];
-                      if (brlTotal > 0) parts.push(formatCurrency(brlTotal, 'BRL'));
-                      if (cadTotal > 0) parts.push(formatCurrency(cadTotal, 'CAD'));
-                      if (usdTotal > 0) parts.push(formatCurrency(usdTotal, 'USD'));
+                      const breakdown = formatCurrencyBreakdown(sumByCurrency(categoryPositions, inv => inv.total), formatCurrency);
                       
                       return [
-                        `${parts.join(' + ')} (${props.payload.percentage}%)`,
+                        `${breakdown} (${props.payload.percentage}%)`,
                         `${getCategoryLabel(props.payload.category)} - ${props.payload.count} investments`
                       ];
                     } else {
                       return [
                         `${selectedCurrency !== 'Original' 
-                          ? new Intl.NumberFormat('en-US', { style: 'currency', currency: selectedCurrency }).format(value as number)
+                          ? formatMoney(value as number, selectedCurrency)
                           : `$${value}`
                         } (${props.payload.percentage}%)`,
                         `${getCategoryLabel(props.payload.category)} - ${props.payload.count} investments`
@@ -862,29 +842,16 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
                   label={(entry: any) => {
                     if (selectedCurrency === 'Original' && entry.displayMode === 'original') {
                       // Show original currency values for each country
-                      const countryInvestments = dashboardData?.allInvestments?.filter(
+                      const countryPositions = dashboardData?.groupedInvestments?.filter(
                         (inv: any) => inv.country === entry.country
                       ) || [];
                       
-                      const brlTotal = countryInvestments
-                        .filter(inv => inv.currency === 'BRL')
-                        .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                      const cadTotal = countryInvestments
-                        .filter(inv => inv.currency === 'CAD')
-                        .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                      const usdTotal = countryInvestments
-                        .filter(inv => inv.currency === 'USD')
-                        .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                      
-                      const parts = [];
-                      if (brlTotal > 0) parts.push(formatCurrency(brlTotal, 'BRL'));
-                      if (cadTotal > 0) parts.push(formatCurrency(cadTotal, 'CAD'));
-                      if (usdTotal > 0) parts.push(formatCurrency(usdTotal, 'USD'));
+                      const breakdown = formatCurrencyBreakdown(sumByCurrency(countryPositions, inv => inv.total), formatCurrency);
                       
-                      return `${entry.country}: ${parts.join(' + ')} (${entry.percentage}%)`;
+                      return `${entry.country}: ${breakdown} (${entry.percentage}%)`;
                     } else {
                       return `${entry.country}: ${selectedCurrency !== 'Original' 
-                        ? new Intl.NumberFormat('en-US', { style: 'currency', currency: selectedCurrency }).format(entry.total)
+                        ? formatMoney(entry.total, selectedCurrency)
                         : `$${entry.total}`
                       } (${entry.percentage}%)`;
                     }
@@ -900,30 +867,17 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
                 <Tooltip formatter={(value, _name, props: any) => {
                   if (selectedCurrency === 'Original' && props.payload?.displayMode === 'original') {
                     // Show original currency values for each country
-                    const countryInvestments = dashboardData?.allInvestments?.filter(
+                    const countryPositions = dashboardData?.groupedInvestments?.filter(
                       (inv: any) => inv.country === props.payload.country
                     ) || [];
                     
-                    const brlTotal = countryInvestments
-                      .filter(inv => inv.currency === 'BRL')
-                      .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                    const cadTotal = countryInvestments
-                      .filter(inv => inv.currency === 'CAD')
-                      .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                    const usdTotal = countryInvestments
-                      .filter(inv => inv.currency === 'USD')
-                      .reduce((sum, inv) => sum + (inv.total || (inv.value * inv.quantity)), 0);
-                    
-                    const parts = [];
-                    if (brlTotal > 0) parts.push(formatCurrency(brlTotal, 'BRL'));
-                    if (cadTotal > 0) parts.push(formatCurrency(cadTotal, 'CAD'));
-                    if (usdTotal > 0) parts.push(formatCurrency(usdTotal, 'USD'));
+                    const breakdown = formatCurrencyBreakdown(sumByCurrency(countryPositions, inv => inv.total), formatCurrency);
                     
-                    return [`${parts.join(' + ')} (${props.payload.percentage}%)`, 'Total'];
+                    return [`${breakdown} (${props.payload.percentage}%)`, 'Total'];
                   } else {
                     return [
                       `${selectedCurrency !== 'Original' 
-                        ? new Intl.NumberFormat('en-US', { style: 'currency', currency: selectedCurrency }).format(value as number)
+                        ? formatMoney(value as number, selectedCurrency)
                         : `$${value}`
                       } (${props.payload.percentage}%)`, 
                       'Total'
@@ -934,6 +888,42 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
             </ResponsiveContainer>
           </div>
 
+          {/* Monthly Income */}
+          <div className="chart-item">
+            {(() => {
+              const monthlyIncomeData = convertMonthlyIncomeData();
+              const trailingIncome = selectedCurrency === 'Original'
+                ? formatOriginalAmounts(monthlyIncomeData.reduce((totals, month) => {
+                    Object.entries(month.originalAmounts).forEach(([currency, amount]) => {
+                      totals[currency] = (totals[currency] || 0) + amount;
+                    });
+                    return totals;
+                  }, {} as Record<string, number>))
+                : formatCurrency(monthlyIncomeData.reduce((sum, month) => sum + month.total, 0), selectedCurrency);
+
+              return (
+                <>
+                  <h3>Monthly Income {selectedCurrency !== 'Original' ? `(${selectedCurrency})` : ''}</h3>
+                  <p className="income-ttm">Last 12 months: {trailingIncome}</p>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={monthlyIncomeData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="month" stroke="#666" fontSize={12} />
+                      <YAxis stroke="#666" fontSize={12} />
+                      <Tooltip formatter={(value, _name, item) => {
+                        if (item.payload?.displayMode === 'original') {
+                          return [formatOriginalAmounts(item.payload.originalAmounts), 'Income'];
+                        }
+                        return [formatCurrency(value as number, selectedCurrency), 'Income'];
+                      }} />
+                      <Bar dataKey="total" fill="#00C49F" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </>
+              );
+            })()}
+          </div>
+
           {/* Portfolio Growth Timeline */}
           <div className="chart-item timeline-chart-item">
             {dashboardData.timelineData ? (
@@ -946,6 +936,11 @@ const Dashboard: React.FC<DashboardProps> = ({ onNavigateToAccount }) => {
               <div className="timeline-loading">Loading timeline data...</div>
             )}
           </div>
+
+          {/* Market value at each date's close and exchange rate */}
+          <div className="chart-item timeline-chart-item">
+            <PortfolioValuationChart displayCurrency={selectedCurrency} valuesHidden={valuesHidden} />
+          </div>
         </div>
       </section>
     </div>
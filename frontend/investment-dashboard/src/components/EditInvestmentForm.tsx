@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import type { Investment } from '../types/Investment';
+import type { Investment, ExchangeInfo } from '../types/Investment';
 import type { Account } from '../types/Account';
-import { Currency as CurrencyEnum, Category as CategoryEnum } from '../types/Investment';
+import { Category as CategoryEnum, Currency as CurrencyEnum, TransactionType as TransactionTypeEnum, inferExchange, canBeIndexed } from '../types/Investment';
 import { investmentApi } from '../services/api';
 import { accountApi } from '../services/accountApi';
 import { useModal } from '../hooks/useModal';
+import { useCurrencies } from '../hooks/useCurrencies';
+import SymbolInput from './SymbolInput';
+import FixedIncomeFields from './FixedIncomeFields';
+import TransactionCostsFields from './TransactionCostsFields';
 
 interface EditInvestmentFormProps {
   investment: Investment;
@@ -20,10 +24,8 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
   // Check if we need to convert from numbers to strings (backend might still be returning numbers)
   const getCurrencyString = (currency: any): string => {
     if (typeof currency === 'string') return currency;
-    if (currency === 0) return 'BRL';
-    if (currency === 1) return 'CAD';
-    if (currency === 2) return 'USD';
-    return 'BRL'; // default
+    // Numbers are positions in the backend enum, which the Currency constant lists in the same order
+    return Object.values(CurrencyEnum)[currency] ?? CurrencyEnum.BRL;
   };
   
   const getCategoryString = (category: any): string => {
@@ -47,17 +49,35 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
     date: investment.date.split('T')[0],
     description: investment.description,
     category: getCategoryString(investment.category),
-    accountId: investment.accountId
+    type: investment.type || TransactionTypeEnum.Buy,
+    accountId: investment.accountId,
+    ticker: investment.ticker ?? '',
+    exchange: investment.exchange ?? null,
+    exposureCountry: investment.exposureCountry ?? '',
+    indexer: investment.indexer ?? null,
+    indexerRate: investment.indexerRate ?? null,
+    maturityDate: investment.maturityDate ?? null,
+    isTaxExempt: investment.isTaxExempt ?? false,
+    fees: investment.fees ?? null,
+    taxes: investment.taxes ?? null,
+    costCurrency: investment.costCurrency ?? null
   });
   
   console.log('EditForm initialized with:', formData);
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const currencies = useCurrencies();
+  const [exchanges, setExchanges] = useState<ExchangeInfo[]>([]);
+  // Picked by hand in this form; the exchange also stays put when it never matched the symbol suffix
+  const [exchangeTouched, setExchangeTouched] = useState(false);
   const modalRef = useModal(true, onCancel);
 
   useEffect(() => {
     fetchAccounts();
+    investmentApi.getExchanges()
+      .then(setExchanges)
+      .catch(err => console.error('Failed to fetch exchanges:', err));
   }, []);
 
   const fetchAccounts = async () => {
@@ -87,7 +107,18 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
         date: formData.date,
         description: formData.description,
         category: formData.category,
-        accountId: formData.accountId
+        type: formData.type,
+        accountId: formData.accountId,
+        ticker: formData.ticker.trim() || null,
+        exchange: formData.exchange,
+        exposureCountry: formData.exposureCountry.trim() || null,
+        fees: formData.fees,
+        taxes: formData.taxes,
+        costCurrency: formData.costCurrency,
+        // Terms only apply to fixed income
+        ...(canBeIndexed(formData.category)
+          ? { indexer: formData.indexer, indexerRate: formData.indexerRate, maturityDate: formData.maturityDate, isTaxExempt: formData.isTaxExempt }
+          : { indexer: null, indexerRate: null, maturityDate: null, isTaxExempt: false })
       };
       console.log('EditForm final investment object:', updatedInvestment);
       await investmentApi.update(investment.id, updatedInvestment);
@@ -108,17 +139,40 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
       processedValue = parseFloat(value) || 0;
     } else if (name === 'accountId') {
       processedValue = parseInt(value) || 0;
+    } else if (name === 'ticker') {
+      processedValue = value.toUpperCase();
+    } else if (name === 'exchange') {
+      processedValue = value || null;
+      setExchangeTouched(true);
+    } else if (name === 'indexer' || name === 'maturityDate' || name === 'costCurrency') {
+      processedValue = value || null;
+    } else if (name === 'indexerRate' || name === 'fees' || name === 'taxes') {
+      processedValue = value === '' ? null : parseFloat(value);
+    } else if (name === 'isTaxExempt') {
+      processedValue = (e.target as HTMLInputElement).checked;
     }
-    // Keep currency and category as strings - no conversion needed
+    // Keep currency, category and type as strings - no conversion needed
     
     console.log(`EditForm ${name}: "${value}" -> ${processedValue} (${typeof processedValue})`);
     
-    setFormData(prev => ({
-      ...prev,
-      [name]: processedValue
-    }));
+    setFormData(prev => {
+      // The ticker's suffix names the exchange, the name's is used while no ticker is set
+      const symbol = name === 'ticker' ? processedValue || prev.name : name === 'name' ? prev.ticker || value : null;
+      const followsSymbol = prev.exchange === (inferExchange(prev.ticker || prev.name, exchanges)?.code ?? null);
+      return {
+        ...prev,
+        [name]: processedValue,
+        ...(symbol !== null && !exchangeTouched && followsSymbol ? { exchange: inferExchange(symbol, exchanges)?.code ?? null } : {})
+      };
+    });
   };
 
+  // Country shown when no exposure is set, the same fallback the server uses
+  const defaultCountry = exchanges.find(e => e.code === formData.exchange)?.country
+    ?? currencies.find(c => c.code === formData.currency)?.country
+    ?? '';
+  const countryOptions = [...new Set([...exchanges.map(e => e.country), ...currencies.map(c => c.country)])];
+
   return (
     <div className="modal-overlay" ref={modalRef}>
       <div className="investment-form modal-content">
@@ -126,6 +180,24 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
         {error && <div className="error-message">{error}</div>}
         
         <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="type">Transaction Type:</label>
+            <select
+              id="type"
+              name="type"
+              value={formData.type}
+              onChange={handleInputChange}
+              required
+            >
+              <option value={TransactionTypeEnum.Buy}>Buy</option>
+              <option value={TransactionTypeEnum.Sell}>Sell</option>
+              <option value={TransactionTypeEnum.Dividend}>Dividend</option>
+              <option value={TransactionTypeEnum.Deposit}>Deposit</option>
+              <option value={TransactionTypeEnum.Withdrawal}>Withdrawal</option>
+              <option value={TransactionTypeEnum.Fee}>Fee</option>
+            </select>
+          </div>
+
           <div className="form-group">
             <label htmlFor="name">Investment Name:</label>
             <input
@@ -139,6 +211,18 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
             />
           </div>
 
+          <div className="form-group">
+            <label htmlFor="ticker">Ticker:</label>
+            <SymbolInput
+              id="ticker"
+              name="ticker"
+              value={formData.ticker ?? ''}
+              onChange={handleInputChange}
+              placeholder="e.g. VFV.TO, PETR4.SA, AAPL"
+            />
+            <small className="form-help">Yahoo Finance symbol used for prices; leave empty to guess it from the name</small>
+          </div>
+
           <div className="form-group">
             <label htmlFor="value">Unit Value:</label>
             <input
@@ -150,7 +234,7 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
               step="0.01"
               required
             />
-            <small className="form-help">Use positive values for investments, negative for withdrawals</small>
+            <small className="form-help">Price per unit for buys and sells; amount per unit for dividends, deposits, withdrawals and fees</small>
           </div>
 
           <div className="form-group">
@@ -175,10 +259,54 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
               onChange={handleInputChange}
               required
             >
-              <option value={CurrencyEnum.BRL}>BRL (Brazil)</option>
-              <option value={CurrencyEnum.CAD}>CAD (Canada)</option>
-              <option value={CurrencyEnum.USD}>USD (United States)</option>
+              {currencies.map(c => (
+                <option key={c.code} value={c.code}>{c.code} ({c.country})</option>
+              ))}
+            </select>
+          </div>
+
+          <TransactionCostsFields
+            fees={formData.fees ?? null}
+            taxes={formData.taxes ?? null}
+            costCurrency={formData.costCurrency ?? null}
+            currency={formData.currency}
+            onChange={handleInputChange}
+          />
+
+          <div className="form-group">
+            <label htmlFor="exchange">Exchange:</label>
+            <select
+              id="exchange"
+              name="exchange"
+              value={formData.exchange ?? ''}
+              onChange={handleInputChange}
+            >
+              <option value="">Not listed</option>
+              {exchanges.map(e => (
+                <option key={e.code} value={e.code}>{e.code} - {e.name}</option>
+              ))}
             </select>
+            <small className="form-help">Filled in from the symbol suffix (.SA, .TO) until you pick one</small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="exposureCountry">Country of Exposure:</label>
+            <input
+              type="text"
+              id="exposureCountry"
+              name="exposureCountry"
+              value={formData.exposureCountry ?? ''}
+              onChange={handleInputChange}
+              maxLength={100}
+              list="exposureCountries"
+              placeholder={defaultCountry}
+            />
+            <datalist id="exposureCountries">
+              {countryOptions.map(country => (
+                <option key={country} value={country} />
+              ))}
+            </datalist>
+            <small className="form-help">Leave empty to use the exchange's country, e.g. set United States for a US ETF listed on the TSX</small>
           </div>
 
           <div className="form-group">
@@ -225,6 +353,16 @@ const EditInvestmentForm: React.FC<EditInvestmentFormProps> = ({ investment, onS
             </select>
           </div>
 
+          {canBeIndexed(formData.category) && (
+            <FixedIncomeFields
+              indexer={formData.indexer ?? null}
+              indexerRate={formData.indexerRate ?? null}
+              maturityDate={formData.maturityDate ?? null}
+              isTaxExempt={formData.isTaxExempt ?? false}
+              onChange={handleInputChange}
+            />
+          )}
+
           <div className="form-group">
             <label htmlFor="accountId">Account:</label>
             <select
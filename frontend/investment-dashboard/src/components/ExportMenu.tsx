@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import type { ExportFormat, ExportTable } from '../utils/export';
+import { EXPORT_FORMATS, ExportCurrencyConverter, downloadExport } from '../utils/export';
+
+export interface ExportOption {
+  label: string;
+  fileName: string;
+  build: (converter: ExportCurrencyConverter) => ExportTable;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  displayCurrency: string;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ options, displayCurrency }) => {
+  const [selectedOption, setSelectedOption] = useState(0);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  const handleExport = () => {
+    const option = options[selectedOption];
+    if (!option) return;
+
+    try {
+      const converter = new ExportCurrencyConverter(displayCurrency);
+      downloadExport(option.build(converter), converter, format, option.fileName);
+    } catch (err) {
+      console.error('Failed to export data:', err);
+      alert('Failed to export data');
+    }
+  };
+
+  return (
+    <div className="export-menu">
+      <select
+        aria-label="Data to export"
+        value={selectedOption}
+        onChange={(e) => setSelectedOption(parseInt(e.target.value))}
+      >
+        {options.map((option, index) => (
+          <option key={option.fileName} value={index}>{option.label}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Export format"
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+      >
+        {EXPORT_FORMATS.map(f => (
+          <option key={f.value} value={f.value}>{f.label}</option>
+        ))}
+      </select>
+      <button type="button" className="export-btn" onClick={handleExport}>
+        Export
+      </button>
+    </div>
+  );
+};
+
+export default ExportMenu;
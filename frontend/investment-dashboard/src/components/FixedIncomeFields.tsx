@@ -0,0 +1,85 @@
+import React from 'react';
+import { FixedIncomeIndexer, getIndexerLabel } from '../types/Investment';
+
+interface FixedIncomeFieldsProps {
+  indexer: string | null;
+  indexerRate: number | null;
+  maturityDate: string | null;
+  isTaxExempt: boolean;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => void;
+}
+
+const rateLabel = (indexer: string | null): string => {
+  switch (indexer) {
+    case FixedIncomeIndexer.Cdi:
+    case FixedIncomeIndexer.Selic:
+      return `Rate (% of the ${getIndexerLabel(indexer)}):`;
+    case FixedIncomeIndexer.Ipca:
+      return 'Spread over IPCA (% a year):';
+    default:
+      return 'Rate (% a year):';
+  }
+};
+
+// Indexer terms of a Renda Fixa or bond purchase, used to accrue its value day by day
+const FixedIncomeFields: React.FC<FixedIncomeFieldsProps> = ({ indexer, indexerRate, maturityDate, isTaxExempt, onChange }) => (
+  <>
+    <div className="form-group">
+      <label htmlFor="indexer">Indexer:</label>
+      <select
+        id="indexer"
+        name="indexer"
+        value={indexer ?? ''}
+        onChange={onChange}
+      >
+        <option value="">None (valued manually)</option>
+        {Object.values(FixedIncomeIndexer).map(value => (
+          <option key={value} value={value}>{getIndexerLabel(value)}</option>
+        ))}
+      </select>
+    </div>
+
+    {indexer && (
+      <>
+        <div className="form-group">
+          <label htmlFor="indexerRate">{rateLabel(indexer)}</label>
+          <input
+            type="number"
+            id="indexerRate"
+            name="indexerRate"
+            value={indexerRate ?? ''}
+            onChange={onChange}
+            step="0.0001"
+            required
+          />
+          <small className="form-help">e.g. 110 for 110% of the CDI, 5.5 for IPCA + 5.5%, 12 for a 12% a year prefixed bond</small>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="maturityDate">Maturity Date:</label>
+          <input
+            type="date"
+            id="maturityDate"
+            name="maturityDate"
+            value={maturityDate ?? ''}
+            onChange={onChange}
+          />
+        </div>
+
+        <div className="form-group fixed-income-checkbox">
+          <label>
+            <input
+              type="checkbox"
+              name="isTaxExempt"
+              checked={isTaxExempt}
+              onChange={onChange}
+            />
+            Tax exempt (LCI, LCA, CRI, CRA, debêntures incentivadas)
+          </label>
+        </div>
+      </>
+    )}
+  </>
+);
+
+export default FixedIncomeFields;
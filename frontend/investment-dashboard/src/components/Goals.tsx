@@ -0,0 +1,282 @@
+import React, { useState, useEffect } from 'react';
+import type { Account } from '../types/Account';
+import type { CreateGoalRequest, GoalProgress } from '../types/Goal';
+import { getGoalStatusClass, getGoalStatusLabel } from '../types/Goal';
+import { Currency } from '../types/Investment';
+import { accountApi } from '../services/accountApi';
+import { goalApi } from '../services/goalApi';
+import { formatMoney } from '../utils/currency';
+import { useCurrencies } from '../hooks/useCurrencies';
+
+const emptyForm: CreateGoalRequest = {
+  accountId: null,
+  name: '',
+  targetDate: '',
+  targetAmount: 0,
+  currency: Currency.CAD
+};
+
+const getProgressColor = (progress: number) => {
+  if (progress >= 100) return '#27ae60'; // Green - Goal reached
+  if (progress >= 75) return '#3498db';   // Blue - Halfway
+  if (progress >= 50) return '#f39c12';   // Orange - Close to goal
+  return '#e74c3c'; // Red - Far from goal
+};
+
+const Goals: React.FC = () => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [goals, setGoals] = useState<GoalProgress[]>([]);
+  const [formData, setFormData] = useState<CreateGoalRequest>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const currencies = useCurrencies();
+
+  useEffect(() => {
+    accountApi.getAll()
+      .then(setAccounts)
+      .catch(err => console.error('Failed to fetch accounts:', err));
+    fetchGoals();
+  }, []);
+
+  const fetchGoals = async () => {
+    try {
+      setLoading(true);
+      setGoals(await goalApi.getProgress());
+    } catch (err) {
+      setError('Failed to fetch goals');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError(null);
+      if (editingId !== null) {
+        await goalApi.update(editingId, formData);
+      } else {
+        await goalApi.create(formData);
+      }
+      setFormData(emptyForm);
+      setEditingId(null);
+      fetchGoals();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save goal');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (goal: GoalProgress) => {
+    setEditingId(goal.goalId);
+    setFormData({
+      accountId: goal.accountId,
+      name: goal.name ?? '',
+      targetDate: goal.targetDate.slice(0, 10),
+      targetAmount: goal.targetAmount,
+      currency: goal.currency
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+  };
+
+  const handleDelete = async (id: number) => {
+    if (window.confirm('Are you sure you want to delete this goal?')) {
+      try {
+        await goalApi.delete(id);
+        if (editingId === id) handleCancelEdit();
+        fetchGoals();
+      } catch (err) {
+        setError('Failed to delete goal');
+        console.error(err);
+      }
+    }
+  };
+
+  const formatCurrency = (value: number, currency: string) => formatMoney(value, currency, 0);
+
+  return (
+    <div className="goals-page">
+      <div className="account-list-header">
+        <h2>Financial Goals</h2>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <section className="investments-list">
+        <h3>{editingId !== null ? 'Edit Goal' : 'New Goal'}</h3>
+        <form onSubmit={handleSubmit}>
+          <div className="goals-form-grid">
+            <div className="form-group">
+              <label htmlFor="goalAccount">For:</label>
+              <select
+                id="goalAccount"
+                value={formData.accountId ?? ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, accountId: e.target.value ? Number(e.target.value) : null }))}
+              >
+                <option value="">Whole portfolio</option>
+                {accounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="goalName">Name:</label>
+              <input
+                type="text"
+                id="goalName"
+                value={formData.name ?? ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                maxLength={100}
+                placeholder="e.g. House down payment"
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="goalDate">Target Date:</label>
+              <input
+                type="date"
+                id="goalDate"
+                value={formData.targetDate}
+                onChange={(e) => setFormData(prev => ({ ...prev, targetDate: e.target.value }))}
+                required
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="goalAmount">Target Amount:</label>
+              <input
+                type="number"
+                id="goalAmount"
+                value={formData.targetAmount || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, targetAmount: parseFloat(e.target.value) || 0 }))}
+                min="0.01"
+                step="0.01"
+                required
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="goalCurrency">Currency:</label>
+              <select
+                id="goalCurrency"
+                value={formData.currency}
+                onChange={(e) => setFormData(prev => ({ ...prev, currency: e.target.value }))}
+              >
+                {currencies.map(c => (
+                  <option key={c.code} value={c.code}>{c.code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-buttons">
+            <button type="submit" className="create-btn" disabled={saving}>
+              {saving ? 'Saving...' : editingId !== null ? 'Update Goal' : 'Add Goal'}
+            </button>
+            {editingId !== null && (
+              <button type="button" className="cancel-btn" onClick={handleCancelEdit}>
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      </section>
+
+      <section className="investments-list">
+        <h3>Goals</h3>
+        {loading && goals.length === 0 ? (
+          <div className="timeline-loading">Loading goals...</div>
+        ) : goals.length === 0 ? (
+          <div className="empty-state">
+            <p>No goals yet. Add one above to track your progress.</p>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table className="goals-table">
+              <thead>
+                <tr>
+                  <th>Goal</th>
+                  <th>For</th>
+                  <th>Target Date</th>
+                  <th>Target</th>
+                  <th>Current</th>
+                  <th>Progress</th>
+                  <th>Projected</th>
+                  <th>Status</th>
+                  <th>Monthly Contribution</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {goals.map(goal => {
+                  const progress = Math.min(goal.progress, 100);
+                  return (
+                    <tr key={goal.goalId}>
+                      <td>{goal.label}</td>
+                      <td>{goal.accountName}</td>
+                      <td>{goal.targetDate.slice(0, 10)}</td>
+                      <td>{formatCurrency(goal.targetAmount, goal.currency)}</td>
+                      <td>{formatCurrency(goal.currentValue, goal.currency)}</td>
+                      <td>
+                        <div className="compact-progress-bar-container">
+                          <div
+                            className="compact-progress-bar"
+                            style={{ width: `${progress}%`, backgroundColor: getProgressColor(progress) }}
+                          />
+                        </div>
+                        <small>{goal.progress.toFixed(1)}%</small>
+                      </td>
+                      <td>
+                        {formatCurrency(goal.projectedValue, goal.currency)}
+                        <br />
+                        <small>
+                          at {goal.annualReturn.toFixed(2)}%/yr{goal.returnFromHistory ? ' (historical)' : ''}
+                        </small>
+                      </td>
+                      <td>
+                        <span className={`goal-status ${getGoalStatusClass(goal.status)}`}>
+                          {getGoalStatusLabel(goal.status)}
+                        </span>
+                      </td>
+                      <td>
+                        Plan: {formatCurrency(goal.monthlyContribution, goal.currency)}
+                        {goal.contributionFromHistory && <small> (last year)</small>}
+                        {goal.requiredMonthlyContribution !== null && (
+                          <>
+                            <br />
+                            <small>Needs: {formatCurrency(goal.requiredMonthlyContribution, goal.currency)}</small>
+                          </>
+                        )}
+                      </td>
+                      <td className="account-actions">
+                        <button className="edit-btn" onClick={() => handleEdit(goal)}>
+                          Edit
+                        </button>
+                        <button className="delete-btn" onClick={() => handleDelete(goal.goalId)}>
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default Goals;
@@ -0,0 +1,426 @@
+import React, { useState, useEffect } from 'react';
+import type { Account } from '../types/Account';
+import type { ImportInvestmentRow, BulkImportResult } from '../types/Investment';
+import { Currency, Category, TransactionType, getCategoryLabel, getTransactionTypeLabel } from '../types/Investment';
+import { investmentApi } from '../services/api';
+import { accountApi } from '../services/accountApi';
+import { statementApi } from '../services/statementApi';
+import type { StatementParserInfo } from '../types/Statement';
+import StatementImport from './StatementImport';
+import { parseCsv } from '../utils/csv';
+import { useCurrencies } from '../hooks/useCurrencies';
+
+interface ImportInvestmentsProps {
+  onSuccess: () => void;
+}
+
+type ImportField = keyof ImportInvestmentRow;
+type ImportStep = 'upload' | 'map' | 'preview';
+
+interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+// Header aliases cover the English and Portuguese column names used by common broker spreadsheets
+const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'ticker', 'symbol', 'asset', 'ativo', 'nome', 'papel'] },
+  { field: 'date', label: 'Date', required: true, aliases: ['date', 'trade date', 'data', 'data do negocio'] },
+  { field: 'type', label: 'Transaction Type', required: false, aliases: ['type', 'action', 'transaction', 'tipo', 'operacao'] },
+  { field: 'value', label: 'Unit Value', required: true, aliases: ['value', 'price', 'unit price', 'preco', 'valor', 'preco unitario'] },
+  { field: 'quantity', label: 'Quantity', required: false, aliases: ['quantity', 'qty', 'shares', 'units', 'quantidade'] },
+  { field: 'currency', label: 'Currency', required: true, aliases: ['currency', 'moeda'] },
+  { field: 'category', label: 'Category', required: true, aliases: ['category', 'asset class', 'categoria', 'classe'] },
+  { field: 'account', label: 'Account', required: true, aliases: ['account', 'conta'] },
+  { field: 'description', label: 'Description', required: false, aliases: ['description', 'notes', 'memo', 'descricao', 'observacao'] }
+];
+
+// Fields that can fall back to one value for every row when the file has no such column
+const DEFAULTABLE_FIELDS: ImportField[] = ['type', 'currency', 'category', 'account'];
+
+const UNMAPPED = -1;
+
+// File formats besides broker statements: a CSV with columns mapped by hand, or a statement whose broker is detected
+const GENERIC_CSV = 'csv';
+const DETECT_BROKER = 'detect';
+
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const guessMapping = (headers: string[]): Record<ImportField, number> => {
+  const normalized = headers.map(normalizeHeader);
+  return IMPORT_FIELDS.reduce((mapping, definition) => {
+    mapping[definition.field] = normalized.findIndex(header => definition.aliases.includes(header));
+    return mapping;
+  }, {} as Record<ImportField, number>);
+};
+
+const ImportInvestments: React.FC<ImportInvestmentsProps> = ({ onSuccess }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [format, setFormat] = useState(GENERIC_CSV);
+  const [parsers, setParsers] = useState<StatementParserInfo[]>([]);
+  const currencies = useCurrencies();
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<ImportField, number>>({} as Record<ImportField, number>);
+  const [defaults, setDefaults] = useState<Partial<Record<ImportField, string>>>({
+    type: TransactionType.Buy,
+    currency: Currency.BRL,
+    category: Category.Stocks
+  });
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [decimalSeparator, setDecimalSeparator] = useState('');
+  const [dateOrder, setDateOrder] = useState('');
+  const [preview, setPreview] = useState<BulkImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAccounts();
+    fetchParsers();
+  }, []);
+
+  const fetchParsers = async () => {
+    try {
+      setParsers(await statementApi.getParsers());
+    } catch (err) {
+      console.error('Failed to fetch statement formats:', err);
+    }
+  };
+
+  const fetchAccounts = async () => {
+    try {
+      const accountData = await accountApi.getAll();
+      setAccounts(accountData);
+      if (accountData.length > 0) {
+        setDefaults(prev => ({ ...prev, account: accountData[0].name }));
+      }
+    } catch (err) {
+      console.error('Failed to fetch accounts:', err);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        setError('The file needs a header row and at least one data row');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(rows[0].map(h => h.trim()));
+      setDataRows(rows.slice(1));
+      setMapping(guessMapping(rows[0]));
+      setPreview(null);
+      setStep('map');
+    } catch (err) {
+      setError('Failed to read the CSV file');
+      console.error(err);
+    }
+  };
+
+  const buildRows = (): ImportInvestmentRow[] =>
+    dataRows.map(cells => IMPORT_FIELDS.reduce((row, { field }) => {
+      const column = mapping[field] ?? UNMAPPED;
+      const value = column !== UNMAPPED ? cells[column] : defaults[field];
+      if (value !== undefined && value !== '') {
+        row[field] = value.trim();
+      }
+      return row;
+    }, {} as ImportInvestmentRow));
+
+  const missingRequiredFields = IMPORT_FIELDS
+    .filter(({ field, required }) => required && (mapping[field] ?? UNMAPPED) === UNMAPPED && !defaults[field])
+    .map(({ label }) => label);
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await investmentApi.bulkImport(buildRows(), true, decimalSeparator, dateOrder);
+      setPreview(result);
+      setStep('preview');
+    } catch (err) {
+      setError('Failed to validate the import');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await investmentApi.bulkImport(buildRows(), false, decimalSeparator, dateOrder);
+      if (result.importedCount > 0) {
+        alert(`Imported ${result.importedCount} transactions from ${fileName}`);
+        onSuccess();
+      } else {
+        // Rows may have become invalid since the preview, e.g. an account was renamed
+        setPreview(result);
+        setError('Nothing was imported because some rows are invalid');
+      }
+    } catch (err) {
+      setError('Failed to import investments');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: number) => {
+    setMapping(prev => ({ ...prev, [field]: column }));
+  };
+
+  const handleDefaultChange = (field: ImportField, value: string) => {
+    setDefaults(prev => ({ ...prev, [field]: value }));
+  };
+
+  const renderDefaultSelect = (field: ImportField) => {
+    const options = field === 'account'
+      ? accounts.map(account => ({ value: account.name, label: account.name }))
+      : field === 'currency'
+        ? currencies.map(c => ({ value: c.code, label: c.code }))
+        : field === 'category'
+          ? Object.values(Category).map(category => ({ value: category, label: getCategoryLabel(category) }))
+          : Object.values(TransactionType).map(type => ({ value: type, label: getTransactionTypeLabel(type) }));
+
+    return (
+      <select
+        value={defaults[field] ?? ''}
+        onChange={(e) => handleDefaultChange(field, e.target.value)}
+      >
+        <option value="">No default</option>
+        {options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <div className="investment-form import-wizard">
+      <h2>Import Investments</h2>
+      {error && <div className="error-message">{error}</div>}
+
+      {step === 'upload' && (
+        <div className="form-group">
+          <label htmlFor="importFormat">File Format:</label>
+          <select id="importFormat" value={format} onChange={(e) => setFormat(e.target.value)}>
+            <option value={GENERIC_CSV}>CSV with my own columns</option>
+            {parsers.length > 0 && <option value={DETECT_BROKER}>Broker statement (detect broker)</option>}
+            {parsers.map(parser => (
+              <option key={parser.id} value={parser.id}>{parser.name} statement</option>
+            ))}
+          </select>
+          <small className="form-help">
+            {parsers.find(parser => parser.id === format)?.description ??
+              (format === DETECT_BROKER
+                ? `Statements from ${parsers.map(parser => parser.name).join(', ')} are recognized.`
+                : 'Map the columns of any spreadsheet export in the next step.')}
+          </small>
+        </div>
+      )}
+
+      {step === 'upload' && format === GENERIC_CSV && (
+        <div className="form-group">
+          <label htmlFor="csvFile">CSV File:</label>
+          <input
+            type="file"
+            id="csvFile"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+          />
+          <small className="form-help">
+            The first row must contain column headers. Comma, semicolon and tab separated files are supported.
+          </small>
+        </div>
+      )}
+
+      {step === 'upload' && format !== GENERIC_CSV && (
+        <StatementImport
+          key={format}
+          parser={format === DETECT_BROKER ? null : format}
+          accounts={accounts}
+          onSuccess={onSuccess}
+          onCancel={() => setFormat(GENERIC_CSV)}
+        />
+      )}
+
+      {step === 'map' && (
+        <>
+          <p className="import-summary">
+            {fileName}: {dataRows.length} rows, {headers.length} columns
+          </p>
+          <div className="table-container">
+            <table className="import-mapping-table">
+              <thead>
+                <tr>
+                  <th>Field</th>
+                  <th>CSV Column</th>
+                  <th>Default</th>
+                  <th>Sample</th>
+                </tr>
+              </thead>
+              <tbody>
+                {IMPORT_FIELDS.map(({ field, label, required }) => {
+                  const column = mapping[field] ?? UNMAPPED;
+                  return (
+                    <tr key={field}>
+                      <td>{label}{required && ' *'}</td>
+                      <td>
+                        <select
+                          value={column}
+                          onChange={(e) => handleMappingChange(field, parseInt(e.target.value))}
+                        >
+                          <option value={UNMAPPED}>Not mapped</option>
+                          {headers.map((header, index) => (
+                            <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        {DEFAULTABLE_FIELDS.includes(field) && column === UNMAPPED
+                          ? renderDefaultSelect(field)
+                          : <span className="no-performance">-</span>}
+                      </td>
+                      <td className="import-sample">
+                        {column !== UNMAPPED ? dataRows[0]?.[column] : ''}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="decimalSeparator">Decimal Separator:</label>
+            <select
+              id="decimalSeparator"
+              value={decimalSeparator}
+              onChange={(e) => setDecimalSeparator(e.target.value)}
+            >
+              <option value="">Detect from the file</option>
+              <option value=".">Point (1,234.56)</option>
+              <option value=",">Comma (1.234,56)</option>
+            </select>
+            <small className="form-help">
+              Numbers such as 1,234 read as a thousand or as a fraction; choose the separator when the file does not tell.
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="dateOrder">Date Order:</label>
+            <select
+              id="dateOrder"
+              value={dateOrder}
+              onChange={(e) => setDateOrder(e.target.value)}
+            >
+              <option value="">Detect from the file</option>
+              <option value="DMY">Day first (25/12/2024)</option>
+              <option value="MDY">Month first (12/25/2024)</option>
+            </select>
+            <small className="form-help">
+              Dates such as 03/04/2024 read as 3 April or as 4 March; choose the order when the file does not tell. Dates starting with the year always read the same.
+            </small>
+          </div>
+
+          {missingRequiredFields.length > 0 && (
+            <p className="form-help">
+              Map a column or choose a default for: {missingRequiredFields.join(', ')}
+            </p>
+          )}
+
+          <div className="import-actions">
+            <button type="button" className="secondary" onClick={() => setStep('upload')} disabled={loading}>
+              Choose Another File
+            </button>
+            <button type="button" onClick={handlePreview} disabled={loading || missingRequiredFields.length > 0}>
+              {loading ? 'Validating...' : 'Preview Import'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'preview' && preview && (
+        <>
+          <p className="import-summary">
+            {preview.validRows} of {preview.totalRows} rows are valid
+            {preview.decimalSeparator && `, numbers read with '${preview.decimalSeparator}' as the decimal separator`}
+            {preview.dateOrder && `, dates read ${preview.dateOrder === 'MDY' ? 'month' : 'day'} first`}
+            {preview.validRows < preview.totalRows && ' - fix the file or the mapping and preview again'}
+          </p>
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Name</th>
+                  <th>Date</th>
+                  <th>Type</th>
+                  <th>Value</th>
+                  <th>Quantity</th>
+                  <th>Currency</th>
+                  <th>Category</th>
+                  <th>Account</th>
+                  <th>Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map(row => (
+                  <tr key={row.rowNumber} className={row.isValid ? '' : 'import-row-invalid'}>
+                    <td>{row.rowNumber}</td>
+                    <td>{row.investment?.name ?? dataRows[row.rowNumber - 1]?.[mapping.name] ?? ''}</td>
+                    <td>{row.investment ? new Date(row.investment.date).toLocaleDateString() : ''}</td>
+                    <td>{row.investment ? getTransactionTypeLabel(row.investment.type) : ''}</td>
+                    <td>{row.investment?.value}</td>
+                    <td>{row.investment?.quantity}</td>
+                    <td>{row.investment?.currency}</td>
+                    <td>{row.investment ? getCategoryLabel(row.investment.category) : ''}</td>
+                    <td>{row.accountName}</td>
+                    <td>
+                      {row.errors.length > 0 ? (
+                        <ul className="import-errors">
+                          {row.errors.map((message, index) => <li key={index}>{message}</li>)}
+                        </ul>
+                      ) : (
+                        <span className="performance-amount positive">OK</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="import-actions">
+            <button type="button" className="secondary" onClick={() => setStep('map')} disabled={loading}>
+              Back to Mapping
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={loading || preview.validRows !== preview.totalRows}
+            >
+              {loading ? 'Importing...' : `Import ${preview.totalRows} Rows`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportInvestments;
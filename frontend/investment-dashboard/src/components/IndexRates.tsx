@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import type { IndexRateSummary, IndexRateRow } from '../types/IndexRate';
+import type { FixedIncomeIndexer } from '../types/Investment';
+import { FixedIncomeIndexer as IndexerEnum, getIndexerLabel } from '../types/Investment';
+import { indexRateApi } from '../services/indexRateApi';
+
+// Accepts "2024-01-31,0.0456" as well as the Banco Central CSV export, "31/01/2024;0,0456"
+const parseRows = (text: string): { rows: IndexRateRow[]; invalid: number } => {
+  const rows: IndexRateRow[] = [];
+  let invalid = 0;
+
+  text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '').forEach(line => {
+    const separator = line.includes(';') ? ';' : line.includes('\t') ? '\t' : ',';
+    const [rawDate, rawRate] = line.split(separator).map(part => part.trim().replace(/"/g, ''));
+    const rate = parseFloat((rawRate ?? '').replace(',', '.'));
+    const brazilianDate = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(rawDate ?? '');
+    const date = brazilianDate ? `${brazilianDate[3]}-${brazilianDate[2]}-${brazilianDate[1]}` : rawDate;
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') && !isNaN(rate)) {
+      rows.push({ date, rate });
+    } else {
+      invalid++;
+    }
+  });
+
+  return { rows, invalid };
+};
+
+const IndexRates: React.FC = () => {
+  const [summaries, setSummaries] = useState<IndexRateSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState<FixedIncomeIndexer | null>(null);
+  const [importIndexer, setImportIndexer] = useState<FixedIncomeIndexer>(IndexerEnum.Cdi);
+  const [importText, setImportText] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    indexRateApi.getSummary()
+      .then(data => { if (isMounted) setSummaries(data); })
+      .catch(err => {
+        if (isMounted) setError('Failed to load index rates');
+        console.error(err);
+      })
+      .finally(() => { if (isMounted) setLoading(false); });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshKey]);
+
+  const handleSync = async (indexer: FixedIncomeIndexer) => {
+    try {
+      setSyncing(indexer);
+      setError(null);
+      const imported = await indexRateApi.sync(indexer);
+      setMessage(imported > 0
+        ? `Stored ${imported} new ${getIndexerLabel(indexer)} rate${imported === 1 ? '' : 's'}.`
+        : `${getIndexerLabel(indexer)} is already up to date.`);
+      setRefreshKey(k => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update index rates');
+      console.error(err);
+    } finally {
+      setSyncing(null);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { rows, invalid } = parseRows(importText);
+    if (rows.length === 0) {
+      setError('No valid rows to import. Use one "date,rate" pair per line.');
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setError(null);
+      const imported = await indexRateApi.import(importIndexer, rows);
+      setMessage(`Imported ${imported} ${getIndexerLabel(importIndexer)} rate${imported === 1 ? '' : 's'}` +
+        (invalid > 0 ? `, skipped ${invalid} invalid line${invalid === 1 ? '' : 's'}.` : '.'));
+      setImportText('');
+      setRefreshKey(k => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import index rates');
+      console.error(err);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="index-rates">
+      <div className="account-list-header">
+        <h2>Index Rates</h2>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+      {message && <p className="import-summary">{message}</p>}
+
+      <section className="investments-list">
+        <p className="form-help">
+          CDI, Selic and IPCA indexed fixed income accrues day by day from these rates. Days after the last stored rate accrue at that rate until newer ones are added.
+        </p>
+        {loading && summaries.length === 0 ? (
+          <div className="timeline-loading">Loading index rates...</div>
+        ) : (
+          <div className="table-container">
+            <table className="index-rates-table">
+              <thead>
+                <tr>
+                  <th>Index</th>
+                  <th>Rates</th>
+                  <th>From</th>
+                  <th>To</th>
+                  <th>Latest Rate</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map(summary => (
+                  <tr key={summary.indexer}>
+                    <td>{getIndexerLabel(summary.indexer)}</td>
+                    <td>{summary.count.toLocaleString()}</td>
+                    <td>{summary.firstDate ?? <span className="no-performance">-</span>}</td>
+                    <td>{summary.lastDate ?? <span className="no-performance">-</span>}</td>
+                    <td>
+                      {summary.latestRate !== null
+                        ? `${summary.latestRate}% ${summary.indexer === IndexerEnum.Ipca ? 'a month' : 'a day'}`
+                        : <span className="no-performance">-</span>}
+                    </td>
+                    <td className="account-actions">
+                      <button
+                        type="button"
+                        className="create-btn"
+                        onClick={() => handleSync(summary.indexer)}
+                        disabled={syncing !== null}
+                      >
+                        {syncing === summary.indexer ? 'Updating...' : 'Update from Banco Central'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="investments-list index-rates-import">
+        <h3>Import Rates</h3>
+        <p className="form-help">
+          Paste one date and rate per line, e.g. from the Banco Central series export. CDI and Selic rates are percent per business day, IPCA rates are percent for the month. Rates already stored for a date are replaced.
+        </p>
+        <form onSubmit={handleImport}>
+          <div className="form-group">
+            <label htmlFor="importIndexer">Index:</label>
+            <select
+              id="importIndexer"
+              value={importIndexer}
+              onChange={(e) => setImportIndexer(e.target.value as FixedIncomeIndexer)}
+            >
+              <option value={IndexerEnum.Cdi}>{getIndexerLabel(IndexerEnum.Cdi)}</option>
+              <option value={IndexerEnum.Selic}>{getIndexerLabel(IndexerEnum.Selic)}</option>
+              <option value={IndexerEnum.Ipca}>IPCA</option>
+            </select>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="importRates">Rates:</label>
+            <textarea
+              id="importRates"
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+              placeholder={'2024-01-02,0.043739\n03/01/2024;0,043739'}
+              required
+            />
+          </div>
+
+          <div className="form-buttons">
+            <button type="submit" className="create-btn" disabled={importing}>
+              {importing ? 'Importing...' : 'Import Rates'}
+            </button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+};
+
+export default IndexRates;
@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import type { CreateInvestmentRequest } from '../types/Investment';
+import type { CreateInvestmentRequest, ExchangeInfo } from '../types/Investment';
 import type { Account } from '../types/Account';
-import { Currency, Category } from '../types/Investment';
+import { Currency, Category, TransactionType, inferExchange, canBeIndexed } from '../types/Investment';
 import { investmentApi } from '../services/api';
 import { accountApi } from '../services/accountApi';
+import { useCurrencies } from '../hooks/useCurrencies';
+import SymbolInput from './SymbolInput';
+import FixedIncomeFields from './FixedIncomeFields';
+import TransactionCostsFields from './TransactionCostsFields';
 
 interface InvestmentFormProps {
   onSuccess: () => void;
@@ -18,14 +22,32 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSuccess }) => {
     date: new Date().toISOString().split('T')[0],
     description: '',
     category: Category.Stocks,
-    accountId: 0
+    type: TransactionType.Buy,
+    accountId: 0,
+    ticker: '',
+    exchange: null,
+    exposureCountry: '',
+    indexer: null,
+    indexerRate: null,
+    maturityDate: null,
+    isTaxExempt: false,
+    fees: null,
+    taxes: null,
+    costCurrency: null
   });
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const currencies = useCurrencies();
+  const [exchanges, setExchanges] = useState<ExchangeInfo[]>([]);
+  // Until an exchange is picked by hand it follows the symbol suffix
+  const [exchangeTouched, setExchangeTouched] = useState(false);
 
   useEffect(() => {
     fetchAccounts();
+    investmentApi.getExchanges()
+      .then(setExchanges)
+      .catch(err => console.error('Failed to fetch exchanges:', err));
   }, []);
 
   const fetchAccounts = async () => {
@@ -46,7 +68,10 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSuccess }) => {
     setError(null);
 
     try {
-      await investmentApi.create(formData);
+      // Terms only apply to fixed income
+      await investmentApi.create(canBeIndexed(formData.category)
+        ? formData
+        : { ...formData, indexer: null, indexerRate: null, maturityDate: null, isTaxExempt: false });
       setFormData({
         name: '',
         value: 0,
@@ -55,8 +80,20 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSuccess }) => {
         date: new Date().toISOString().split('T')[0],
         description: '',
         category: Category.Stocks,
-        accountId: accounts.length > 0 ? accounts[0].id : 0
+        type: TransactionType.Buy,
+        accountId: accounts.length > 0 ? accounts[0].id : 0,
+        ticker: '',
+        exchange: null,
+        exposureCountry: '',
+        indexer: null,
+        indexerRate: null,
+        maturityDate: null,
+        isTaxExempt: false,
+        fees: null,
+        taxes: null,
+        costCurrency: null
       });
+      setExchangeTouched(false);
       onSuccess();
     } catch (err) {
       setError('Failed to create investment');
@@ -74,21 +111,61 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSuccess }) => {
       processedValue = parseFloat(value) || 0;
     } else if (name === 'accountId') {
       processedValue = parseInt(value) || 0;
+    } else if (name === 'ticker') {
+      processedValue = value.toUpperCase();
+    } else if (name === 'exchange') {
+      processedValue = value || null;
+      setExchangeTouched(true);
+    } else if (name === 'indexer' || name === 'maturityDate' || name === 'costCurrency') {
+      processedValue = value || null;
+    } else if (name === 'indexerRate' || name === 'fees' || name === 'taxes') {
+      processedValue = value === '' ? null : parseFloat(value);
+    } else if (name === 'isTaxExempt') {
+      processedValue = (e.target as HTMLInputElement).checked;
     }
-    // Keep currency and category as strings
+    // Keep currency, category and type as strings
     
-    setFormData(prev => ({
-      ...prev,
-      [name]: processedValue
-    }));
+    setFormData(prev => {
+      // The ticker's suffix names the exchange, the name's is used while no ticker is set
+      const symbol = name === 'ticker' ? processedValue || prev.name : name === 'name' ? prev.ticker || value : null;
+      return {
+        ...prev,
+        [name]: processedValue,
+        ...(symbol !== null && !exchangeTouched ? { exchange: inferExchange(symbol, exchanges)?.code ?? null } : {})
+      };
+    });
   };
 
+  // Country shown when no exposure is set, the same fallback the server uses
+  const defaultCountry = exchanges.find(e => e.code === formData.exchange)?.country
+    ?? currencies.find(c => c.code === formData.currency)?.country
+    ?? '';
+  const countryOptions = [...new Set([...exchanges.map(e => e.country), ...currencies.map(c => c.country)])];
+
   return (
     <div className="investment-form">
       <h2>Register New Investment</h2>
       {error && <div className="error-message">{error}</div>}
       
       <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label htmlFor="type">Transaction Type:</label>
+          <select
+            id="type"
+            name="type"
+            value={formData.type}
+            onChange={handleInputChange}
+            required
+          >
+            <option value={TransactionType.Buy}>Buy</option>
+            <option value={TransactionType.Sell}>Sell</option>
+            <option value={TransactionType.Dividend}>Dividend</option>
+            <option value={TransactionType.Deposit}>Deposit</option>
+            <option value={TransactionType.Withdrawal}>Withdrawal</option>
+            <option value={TransactionType.Fee}>Fee</option>
+          </select>
+        </div>
+
         <div className="form-group">
           <label htmlFor="name">Investment Name:</label>
           <input
@@ -102,6 +179,18 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSuccess }) => {
           />
         </div>
 
+        <div className="form-group">
+          <label htmlFor="ticker">Ticker:</label>
+          <SymbolInput
+            id="ticker"
+            name="ticker"
+            value={formData.ticker ?? ''}
+            onChange={handleInputChange}
+            placeholder="e.g. VFV.TO, PETR4.SA, AAPL"
+          />
+          <small className="form-help">Yahoo Finance symbol used for prices; leave empty to guess it from the name</small>
+        </div>
+
         <div className="form-group">
           <label htmlFor="value">Unit Value:</label>
           <input
@@ -113,7 +202,7 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSuccess }) => {
             step="0.01"
             required
           />
-          <small className="form-help">Use positive values for investments, negative for withdrawals</small>
+          <small className="form-help">Price per unit for buys and sells; amount per unit for dividends, deposits, withdrawals and fees</small>
         </div>
 
         <div className="form-group">
@@ -138,10 +227,54 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSuccess }) => {
             onChange={handleInputChange}
             required
           >
-            <option value={Currency.BRL}>BRL (Brazil)</option>
-            <option value={Currency.CAD}>CAD (Canada)</option>
-            <option value={Currency.USD}>USD (United States)</option>
+            {currencies.map(c => (
+              <option key={c.code} value={c.code}>{c.code} ({c.country})</option>
+            ))}
+          </select>
+        </div>
+
+        <TransactionCostsFields
+          fees={formData.fees ?? null}
+          taxes={formData.taxes ?? null}
+          costCurrency={formData.costCurrency ?? null}
+          currency={formData.currency}
+          onChange={handleInputChange}
+        />
+
+        <div className="form-group">
+          <label htmlFor="exchange">Exchange:</label>
+          <select
+            id="exchange"
+            name="exchange"
+            value={formData.exchange ?? ''}
+            onChange={handleInputChange}
+          >
+            <option value="">Not listed</option>
+            {exchanges.map(e => (
+              <option key={e.code} value={e.code}>{e.code} - {e.name}</option>
+            ))}
           </select>
+          <small className="form-help">Filled in from the symbol suffix (.SA, .TO) until you pick one</small>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="exposureCountry">Country of Exposure:</label>
+          <input
+            type="text"
+            id="exposureCountry"
+            name="exposureCountry"
+            value={formData.exposureCountry ?? ''}
+            onChange={handleInputChange}
+            maxLength={100}
+            list="exposureCountries"
+            placeholder={defaultCountry}
+          />
+          <datalist id="exposureCountries">
+            {countryOptions.map(country => (
+              <option key={country} value={country} />
+            ))}
+          </datalist>
+          <small className="form-help">Leave empty to use the exchange's country, e.g. set United States for a US ETF listed on the TSX</small>
         </div>
 
         <div className="form-group">
@@ -186,8 +319,21 @@ const InvestmentForm: React.FC<InvestmentFormProps> = ({ onSuccess }) => {
             <option value={Category.Cash}>Cash</option>
             <option value={Category.ManagedPortfolioBlock}>Managed Portfolio - block</option>
           </select>
+          {formData.category === Category.Cash && (
+            <small className="form-help">In accounts that track cash, cash deposits and withdrawals start the account's cash balance; buys then draw from it and sells and dividends add to it</small>
+          )}
         </div>
 
+        {canBeIndexed(formData.category) && (
+          <FixedIncomeFields
+            indexer={formData.indexer ?? null}
+            indexerRate={formData.indexerRate ?? null}
+            maturityDate={formData.maturityDate ?? null}
+            isTaxExempt={formData.isTaxExempt ?? false}
+            onChange={handleInputChange}
+          />
+        )}
+
         <div className="form-group">
           <label htmlFor="accountId">Account:</label>
           <select
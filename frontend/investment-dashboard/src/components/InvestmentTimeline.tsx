@@ -1,6 +1,8 @@
 import React from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 import type { InvestmentTimelineData, TimelinePoint } from '../types/Investment';
+import { useCurrencies } from '../hooks/useCurrencies';
+import { formatCurrencyBreakdown, formatMoney, sortByRegistry } from '../utils/currency';
 
 interface InvestmentTimelineProps {
   timelineData: InvestmentTimelineData;
@@ -8,21 +10,31 @@ interface InvestmentTimelineProps {
   valuesHidden?: boolean;
 }
 
+// One line color per currency, in registry order
+const CURRENCY_COLORS = ['#28a745', '#dc3545', '#007bff', '#fd7e14', '#17a2b8', '#e83e8c'];
+
 const InvestmentTimeline: React.FC<InvestmentTimelineProps> = ({ timelineData, displayCurrency, valuesHidden = false }) => {
+  // Re-render once the registry arrives so symbols and line order follow it
+  const currencies = useCurrencies();
+
   const formatCurrency = (value: number, currency: string = 'CAD') => {
     if (valuesHidden) {
       return '•••••';
     }
     
     // Use the display currency if provided, otherwise use the original currency
-    const currencyCode = displayCurrency || (currency === 'BRL' ? 'BRL' : (currency === 'USD' ? 'USD' : 'CAD'));
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currencyCode,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+    return formatMoney(value, displayCurrency || currency, 0);
+  };
+
+  // Currencies with holdings today, each gets its own line
+  const heldCurrencies = sortByRegistry(
+    Object.keys(timelineData.currentValues).filter(currency => timelineData.currentValues[currency] > 0)
+  );
+  const getCurrencyColor = (currency: string) => {
+    const index = currencies.findIndex(c => c.code === currency);
+    return CURRENCY_COLORS[(index >= 0 ? index : currencies.length) % CURRENCY_COLORS.length];
   };
+  const originalCurrentValues = timelineData.originalCurrentValues ?? {};
 
   const formatDate = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -37,13 +49,21 @@ const InvestmentTimeline: React.FC<InvestmentTimelineProps> = ({ timelineData, d
     date: formatDate(point.date),
     dateValue: new Date(point.date).getTime(),
     totalValue: point.totalValue,
-    brlValue: point.brlValue,
-    cadValue: point.cadValue,
+    values: point.values,
+    originalValues: point.originalValues,
+    displayMode: point.displayMode,
   }));
 
   // Sort by date
   chartData.sort((a, b) => a.dateValue - b.dateValue);
 
+  // Portfolio goals still ahead, the nearest one is drawn on the chart
+  const today = new Date().toISOString().slice(0, 10);
+  const upcomingPortfolioGoals = timelineData.goalMarkers
+    .filter(goal => goal.accountId === null && goal.date.slice(0, 10) >= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const nextPortfolioGoal = upcomingPortfolioGoals[0];
+
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
@@ -56,30 +76,22 @@ const InvestmentTimeline: React.FC<InvestmentTimelineProps> = ({ timelineData, d
             payload.map((entry: any, index: number) => {
             const point = entry.payload;
             let displayValue = entry.value;
-            let currency = 'CAD';
+            // Currency lines are keyed "values.BRL", the total line has no currency of its own
+            const lineCurrency = String(entry.dataKey).startsWith('values.') ? String(entry.dataKey).slice('values.'.length) : null;
+            const currency = lineCurrency ?? 'CAD';
             
             // Handle original currency display mode
-            if (point.displayMode === 'original' && !displayCurrency) {
-              if (entry.name === 'BRL Value' && point.originalBrlValue !== undefined) {
-                displayValue = point.originalBrlValue;
-                currency = 'BRL';
-              } else if (entry.name === 'CAD Value' && point.originalCadValue !== undefined) {
-                displayValue = point.originalCadValue;
-                currency = 'CAD';
-              } else if (entry.name === 'Total Portfolio') {
-                // For total, show both currencies
-                const brlPart = point.originalBrlValue > 0 ? formatCurrency(point.originalBrlValue, 'BRL') : '';
-                const cadPart = point.originalCadValue > 0 ? formatCurrency(point.originalCadValue, 'CAD') : '';
-                const parts = [brlPart, cadPart].filter(Boolean);
+            if (point.displayMode === 'original' && !displayCurrency && point.originalValues) {
+              if (lineCurrency && point.originalValues[lineCurrency] !== undefined) {
+                displayValue = point.originalValues[lineCurrency];
+              } else if (!lineCurrency) {
+                // For total, show every currency
                 return (
                   <p key={index} style={{ color: entry.color }}>
-                    {entry.name}: {parts.join(' + ')}
+                    {entry.name}: {formatCurrencyBreakdown(point.originalValues, formatCurrency)}
                   </p>
                 );
               }
-            } else {
-              // Use display currency or default logic
-              currency = entry.name === 'BRL Value' ? 'BRL' : 'CAD';
             }
             
             return (
@@ -105,54 +117,27 @@ const InvestmentTimeline: React.FC<InvestmentTimelineProps> = ({ timelineData, d
             <span className="value">
               {timelineData.displayMode === 'original' && !displayCurrency ? (
                 // Show original currency breakdown
-                (() => {
-                  const parts = [];
-                  if (timelineData.originalCurrentBrlValue && timelineData.originalCurrentBrlValue > 0) {
-                    parts.push(formatCurrency(timelineData.originalCurrentBrlValue, 'BRL'));
-                  }
-                  if (timelineData.originalCurrentCadValue && timelineData.originalCurrentCadValue > 0) {
-                    parts.push(formatCurrency(timelineData.originalCurrentCadValue, 'CAD'));
-                  }
-                  return parts.join(' + ');
-                })()
+                formatCurrencyBreakdown(
+                  Object.fromEntries(heldCurrencies.map(currency => [currency, originalCurrentValues[currency] ?? 0])),
+                  formatCurrency
+                )
               ) : (
                 formatCurrency(timelineData.currentTotalValue)
               )}
             </span>
           </div>
-          {timelineData.displayMode === 'original' && !displayCurrency ? (
-            // Original mode - show individual currencies
-            <>
-              {timelineData.originalCurrentBrlValue && timelineData.originalCurrentBrlValue > 0 && (
-                <div className="summary-item">
-                  <span className="label">BRL:</span>
-                  <span className="value">{formatCurrency(timelineData.originalCurrentBrlValue, 'BRL')}</span>
-                </div>
-              )}
-              {timelineData.originalCurrentCadValue && timelineData.originalCurrentCadValue > 0 && (
-                <div className="summary-item">
-                  <span className="label">CAD:</span>
-                  <span className="value">{formatCurrency(timelineData.originalCurrentCadValue, 'CAD')}</span>
-                </div>
-              )}
-            </>
-          ) : (
-            // Converted mode - show converted values
-            <>
-              {timelineData.currentBrlValue > 0 && (
-                <div className="summary-item">
-                  <span className="label">BRL:</span>
-                  <span className="value">{formatCurrency(timelineData.currentBrlValue, 'BRL')}</span>
-                </div>
-              )}
-              {timelineData.currentCadValue > 0 && (
-                <div className="summary-item">
-                  <span className="label">CAD:</span>
-                  <span className="value">{formatCurrency(timelineData.currentCadValue, 'CAD')}</span>
-                </div>
-              )}
-            </>
-          )}
+          {heldCurrencies.map(currency => (
+            <div key={currency} className="summary-item">
+              <span className="label">{currency}:</span>
+              <span className="value">
+                {timelineData.displayMode === 'original' && !displayCurrency
+                  // Original mode - show individual currencies
+                  ? formatCurrency(originalCurrentValues[currency] ?? 0, currency)
+                  // Converted mode - show converted values
+                  : formatCurrency(timelineData.currentValues[currency], currency)}
+              </span>
+            </div>
+          ))}
         </div>
       </div>
 
@@ -187,75 +172,51 @@ const InvestmentTimeline: React.FC<InvestmentTimelineProps> = ({ timelineData, d
               name="Total Portfolio"
             />
             
-            {timelineData.currentBrlValue > 0 && (
+            {heldCurrencies.map(currency => (
               <Line 
+                key={currency}
                 type="monotone" 
-                dataKey="brlValue" 
-                stroke="#28a745" 
+                dataKey={`values.${currency}`} 
+                stroke={getCurrencyColor(currency)} 
                 strokeWidth={2}
-                dot={{ fill: '#28a745', r: 3 }}
-                name="BRL Value"
+                dot={{ fill: getCurrencyColor(currency), r: 3 }}
+                name={`${currency} Value`}
               />
-            )}
-            
-            {timelineData.currentCadValue > 0 && (
-              <Line 
-                type="monotone" 
-                dataKey="cadValue" 
-                stroke="#dc3545" 
+            ))}
+
+            {/* Show the next portfolio goal as key milestone */}
+            {nextPortfolioGoal && (
+              <ReferenceLine 
+                y={nextPortfolioGoal.value} 
+                stroke="#6f42c1"
+                strokeDasharray="8 4"
                 strokeWidth={2}
-                dot={{ fill: '#dc3545', r: 3 }}
-                name="CAD Value"
+                label={{ 
+                  value: `${nextPortfolioGoal.label}: ${formatCurrency(nextPortfolioGoal.value, nextPortfolioGoal.currency)}`, 
+                  position: 'top',
+                  fontSize: 12,
+                  fill: '#6f42c1',
+                  fontWeight: 'bold'
+                }}
               />
             )}
-
-            {/* Show only 5-year total goal as key milestone */}
-            {(() => {
-              const fiveYearGoal = timelineData.goalMarkers.find((goal: any) => 
-                goal.year === '2029' && (goal.currency === 'TOTAL' || goal.type === 'total')
-              );
-              
-              if (!fiveYearGoal) return null;
-              
-              return (
-                <ReferenceLine 
-                  y={fiveYearGoal.value} 
-                  stroke="#6f42c1"
-                  strokeDasharray="8 4"
-                  strokeWidth={2}
-                  label={{ 
-                    value: `5-Year Goal: ${formatCurrency(fiveYearGoal.value, fiveYearGoal.currency)}`, 
-                    position: 'top',
-                    fontSize: 12,
-                    fill: '#6f42c1',
-                    fontWeight: 'bold'
-                  }}
-                />
-              );
-            })()}
           </LineChart>
         </ResponsiveContainer>
       </div>
 
       {/* Simplified goal indicator */}
-      {(() => {
-        const fiveYearGoal = timelineData.goalMarkers.find((goal: any) => 
-          goal.year === '2029' && (goal.currency === 'TOTAL' || goal.type === 'total')
-        );
-        
-        if (!fiveYearGoal) return null;
-        
-        return (
-          <div className="milestone-indicator">
-            <div className="milestone-item">
+      {upcomingPortfolioGoals.length > 0 && (
+        <div className="milestone-indicator">
+          {upcomingPortfolioGoals.map(goal => (
+            <div key={goal.goalId} className="milestone-item">
               <span className="milestone-marker"></span>
               <span className="milestone-text">
-                <strong>2029 Target:</strong> {formatCurrency(fiveYearGoal.value, fiveYearGoal.currency)}
+                <strong>{goal.label} ({formatDate(goal.date)}):</strong> {formatCurrency(goal.value, goal.currency)}
               </span>
             </div>
-          </div>
-        );
-      })()}
+          ))}
+        </div>
+      )}
     </div>
   );
 };
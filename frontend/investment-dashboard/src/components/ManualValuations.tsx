@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from 'react';
+import type { HoldingPerformance } from '../types/Investment';
+import { hasMarketPrice } from '../types/Investment';
+import type { ManualValuation } from '../types/Valuation';
+import { valuationApi } from '../services/valuationApi';
+import { formatMoney } from '../utils/currency';
+
+interface ManualValuationsProps {
+  accountId: number;
+  holdings: HoldingPerformance[];
+  // Called after a valuation is added or removed so the holdings are priced again
+  onChange: () => void;
+}
+
+// Holdings are identified like the ledger does: name and currency within the account
+const getHoldingKey = (name: string, currency: string) => `${name.trim().toUpperCase()}|${currency}`;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const ManualValuations: React.FC<ManualValuationsProps> = ({ accountId, holdings, onChange }) => {
+  const [valuations, setValuations] = useState<ManualValuation[]>([]);
+  const [holdingKey, setHoldingKey] = useState('');
+  const [date, setDate] = useState(today);
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Indexed fixed income accrues on its own and ignores valuations
+  const unquoted = holdings.filter(h => h.quantity !== 0 && !hasMarketPrice(h.category) && h.indexer === null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    valuationApi.getAll(accountId)
+      .then(data => { if (isMounted) setValuations(data); })
+      .catch(err => {
+        if (isMounted) setError('Failed to load valuations');
+        console.error(err);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [accountId, refreshKey]);
+
+  const selected = unquoted.find(h => getHoldingKey(h.name, h.currency) === holdingKey) ?? unquoted[0];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await valuationApi.create({
+        accountId,
+        name: selected.name,
+        currency: selected.currency,
+        date,
+        value: parseFloat(value) || 0,
+        note: note.trim() || undefined
+      });
+      setValue('');
+      setNote('');
+      setRefreshKey(k => k + 1);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save valuation');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    if (window.confirm('Are you sure you want to delete this valuation?')) {
+      try {
+        await valuationApi.delete(id);
+        setRefreshKey(k => k + 1);
+        onChange();
+      } catch (err) {
+        setError('Failed to delete valuation');
+        console.error(err);
+      }
+    }
+  };
+
+  if (unquoted.length === 0 && valuations.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="investments-list manual-valuations">
+      <h3>Manual Valuations</h3>
+      <p className="form-help">
+        Holdings without a market price are valued from the latest statement balance or NAV entered here.
+        Purchases and sales made after it count at cost until the next valuation.
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+
+      {unquoted.length > 0 && (
+        <form onSubmit={handleSubmit}>
+          <div className="goals-form-grid">
+            <div className="form-group">
+              <label htmlFor="valuationHolding">Holding:</label>
+              <select
+                id="valuationHolding"
+                value={selected ? getHoldingKey(selected.name, selected.currency) : ''}
+                onChange={(e) => setHoldingKey(e.target.value)}
+              >
+                {unquoted.map(h => (
+                  <option key={getHoldingKey(h.name, h.currency)} value={getHoldingKey(h.name, h.currency)}>
+                    {h.name} ({h.currency})
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="valuationDate">Date:</label>
+              <input
+                type="date"
+                id="valuationDate"
+                value={date}
+                max={today()}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="valuationValue">Total Value:</label>
+              <input
+                type="number"
+                id="valuationValue"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                min="0"
+                step="0.01"
+                required
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="valuationNote">Note:</label>
+              <input
+                type="text"
+                id="valuationNote"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={200}
+                placeholder="e.g. September statement"
+              />
+            </div>
+          </div>
+
+          <div className="form-buttons">
+            <button type="submit" className="create-btn" disabled={saving}>
+              {saving ? 'Saving...' : 'Add Valuation'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {valuations.length > 0 && (
+        <div className="table-container">
+          <table>
+            <thead>
+              <tr>
+                <th>Holding</th>
+                <th>Date</th>
+                <th>Value</th>
+                <th>Note</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {valuations.map(valuation => (
+                <tr key={valuation.id}>
+                  <td>{valuation.name}</td>
+                  <td>{valuation.date.slice(0, 10)}</td>
+                  <td>{formatMoney(valuation.value, valuation.currency)}</td>
+                  <td>{valuation.note || <span className="no-performance">-</span>}</td>
+                  <td className="account-actions">
+                    <button className="delete-btn" onClick={() => handleDelete(valuation.id)}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ManualValuations;
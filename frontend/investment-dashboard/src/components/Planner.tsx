@@ -0,0 +1,278 @@
+import React, { useState, useEffect } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import type { PlannerAssumptions, PlannerSimulation } from '../types/Planner';
+import { getCategoryLabel } from '../types/Investment';
+import { plannerApi } from '../services/plannerApi';
+import { formatMoney } from '../utils/currency';
+import { useCurrencies } from '../hooks/useCurrencies';
+
+interface CategoryInput {
+  weight: string;
+  annualReturn: string;
+  annualVolatility: string;
+}
+
+const Planner: React.FC = () => {
+  const [currency, setCurrency] = useState<string>(() => {
+    // Follow the dashboard currency, Original has no single currency so CAD is used like the charts
+    const saved = localStorage.getItem('dashboardCurrency');
+    return saved && saved !== 'Original' ? saved : 'CAD';
+  });
+  const [assumptions, setAssumptions] = useState<PlannerAssumptions | null>(null);
+  const [categoryInputs, setCategoryInputs] = useState<Record<string, CategoryInput>>({});
+  const [years, setYears] = useState('30');
+  const [monthlyContribution, setMonthlyContribution] = useState('');
+  const [withdrawalStartYear, setWithdrawalStartYear] = useState('');
+  const [monthlyWithdrawal, setMonthlyWithdrawal] = useState('');
+  const [inflationRate, setInflationRate] = useState('2');
+  const [simulations, setSimulations] = useState('1000');
+  const [simulation, setSimulation] = useState<PlannerSimulation | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const currencies = useCurrencies();
+
+  useEffect(() => {
+    let isMounted = true;
+
+    plannerApi.getAssumptions(currency)
+      .then(data => {
+        if (!isMounted) return;
+        setAssumptions(data);
+        const inputs: Record<string, CategoryInput> = {};
+        data.categories.forEach(c => {
+          inputs[c.category] = {
+            weight: String(c.weight),
+            annualReturn: String(c.annualReturn),
+            annualVolatility: String(c.annualVolatility)
+          };
+        });
+        setCategoryInputs(inputs);
+        setSimulation(null);
+      })
+      .catch(err => {
+        if (isMounted) setError('Failed to load planner assumptions');
+        console.error(err);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [currency]);
+
+  const updateCategoryInput = (category: string, field: keyof CategoryInput, value: string) => {
+    setCategoryInputs(prev => ({ ...prev, [category]: { ...prev[category], [field]: value } }));
+  };
+
+  const handleRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setRunning(true);
+      setError(null);
+      const data = await plannerApi.simulate({
+        currency,
+        years: parseInt(years) || 30,
+        monthlyContribution: parseFloat(monthlyContribution) || 0,
+        withdrawalStartYear: withdrawalStartYear === '' ? null : parseInt(withdrawalStartYear),
+        monthlyWithdrawal: parseFloat(monthlyWithdrawal) || 0,
+        inflationRate: parseFloat(inflationRate) || 0,
+        simulations: parseInt(simulations) || 1000,
+        categories: Object.entries(categoryInputs).map(([category, input]) => ({
+          category,
+          weight: parseFloat(input.weight) || 0,
+          annualReturn: parseFloat(input.annualReturn) || 0,
+          annualVolatility: parseFloat(input.annualVolatility) || 0
+        }))
+      });
+      setSimulation(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to run simulation');
+      console.error(err);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => formatMoney(value, currency, 0);
+
+  // Bands are drawn as ranged areas, the outer one behind the inner one
+  const chartData = simulation?.points.map(point => ({
+    year: new Date(point.date).getFullYear(),
+    outerBand: [point.p10, point.p90],
+    innerBand: [point.p25, point.p75],
+    median: point.p50
+  })) ?? [];
+
+  return (
+    <div className="planner">
+      <div className="account-list-header">
+        <h2>Monte Carlo Planner</h2>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <form onSubmit={handleRun}>
+        <section className="investments-list">
+          <h3>Plan</h3>
+          <div className="planner-controls">
+            <div className="form-group">
+              <label htmlFor="plannerCurrency">Currency:</label>
+              <select id="plannerCurrency" value={currency} onChange={(e) => setCurrency(e.target.value)}>
+                {currencies.map(c => (
+                  <option key={c.code} value={c.code}>{c.code}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="plannerYears">Time horizon (years):</label>
+              <input type="number" id="plannerYears" value={years} onChange={(e) => setYears(e.target.value)} min="1" max="60" required />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="plannerContribution">Monthly contribution:</label>
+              <input type="number" id="plannerContribution" value={monthlyContribution} onChange={(e) => setMonthlyContribution(e.target.value)} min="0" step="0.01" placeholder="0" />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="plannerWithdrawalStart">Withdrawals start in (years):</label>
+              <input type="number" id="plannerWithdrawalStart" value={withdrawalStartYear} onChange={(e) => setWithdrawalStartYear(e.target.value)} min="0" max="60" placeholder="Never" />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="plannerWithdrawal">Monthly withdrawal:</label>
+              <input type="number" id="plannerWithdrawal" value={monthlyWithdrawal} onChange={(e) => setMonthlyWithdrawal(e.target.value)} min="0" step="0.01" placeholder="0" disabled={withdrawalStartYear === ''} />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="plannerInflation">Inflation (%/yr):</label>
+              <input type="number" id="plannerInflation" value={inflationRate} onChange={(e) => setInflationRate(e.target.value)} min="-10" max="50" step="0.1" />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="plannerSimulations">Simulations:</label>
+              <input type="number" id="plannerSimulations" value={simulations} onChange={(e) => setSimulations(e.target.value)} min="100" max="10000" step="100" />
+            </div>
+          </div>
+          <small className="form-help">Contributions and withdrawals are in today's money and rise with inflation. Contributions stop when withdrawals start.</small>
+        </section>
+
+        <section className="investments-list">
+          <div className="holdings-header">
+            <h3>Assumptions</h3>
+            {assumptions && (
+              <span>Starting value: {formatCurrency(assumptions.startingValue)}</span>
+            )}
+          </div>
+          {assumptions && assumptions.categories.length === 0 ? (
+            <p className="form-help">No open holdings to simulate yet.</p>
+          ) : (
+            <div className="table-container">
+              <table className="planner-table">
+                <thead>
+                  <tr>
+                    <th>Category</th>
+                    <th>Weight (%)</th>
+                    <th>Return (%/yr)</th>
+                    <th>Volatility (%/yr)</th>
+                    <th>History</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {assumptions?.categories.map(category => (
+                    <tr key={category.category}>
+                      <td>{getCategoryLabel(category.category)}</td>
+                      {(['weight', 'annualReturn', 'annualVolatility'] as const).map(field => (
+                        <td key={field}>
+                          <input
+                            type="number"
+                            value={categoryInputs[category.category]?.[field] ?? ''}
+                            onChange={(e) => updateCategoryInput(category.category, field, e.target.value)}
+                            step="0.01"
+                            aria-label={`${category.category} ${field}`}
+                          />
+                        </td>
+                      ))}
+                      <td>{category.hasHistory ? `${category.months} months` : 'No price history'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <small className="form-help">
+            Return and volatility come from the stored monthly closes of each category's holdings. Categories without price history start at 0% and can be set by hand.
+          </small>
+          <div className="form-buttons">
+            <button type="submit" className="create-btn" disabled={running || !assumptions}>
+              {running ? 'Simulating...' : 'Run Simulation'}
+            </button>
+          </div>
+        </section>
+      </form>
+
+      {simulation && (
+        <>
+          <section className="investments-list">
+            <div className="holdings-header">
+              <h3>Projected Value ({simulation.currency}, today's money)</h3>
+              <span className={`performance-percentage ${simulation.successRate >= 90 ? 'positive' : 'negative'}`}>
+                Never runs out in {simulation.successRate}% of {simulation.simulations} simulations
+              </span>
+            </div>
+            <ResponsiveContainer width="100%" height={360}>
+              <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="year" stroke="#666" fontSize={12} />
+                <YAxis stroke="#666" fontSize={12} tickFormatter={(value) => `${(value / 1000).toFixed(0)}K`} />
+                <Tooltip
+                  formatter={(value) => Array.isArray(value)
+                    ? `${formatCurrency(Number(value[0]))} - ${formatCurrency(Number(value[1]))}`
+                    : formatCurrency(Number(value))}
+                />
+                <Legend />
+                <Area dataKey="outerBand" stroke="none" fill="#3498db" fillOpacity={0.15} name="10th - 90th percentile" />
+                <Area dataKey="innerBand" stroke="none" fill="#3498db" fillOpacity={0.35} name="25th - 75th percentile" />
+                <Line dataKey="median" stroke="#2c3e50" strokeWidth={2} dot={false} name="Median" />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </section>
+
+          <section className="investments-list">
+            <h3>Goals</h3>
+            {simulation.goals.length === 0 ? (
+              <p className="form-help">No upcoming goals. Add goals on the Goals page to see how likely they are.</p>
+            ) : (
+              <div className="table-container">
+                <table className="planner-table">
+                  <thead>
+                    <tr>
+                      <th>Goal</th>
+                      <th>Target Date</th>
+                      <th>Target</th>
+                      <th>Probability</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {simulation.goals.map(goal => (
+                      <tr key={goal.goalId}>
+                        <td>{goal.label}</td>
+                        <td>{goal.date.slice(0, 10)}</td>
+                        <td>{formatCurrency(goal.targetValue)}</td>
+                        <td className={`performance-percentage ${goal.probability === null ? '' : goal.probability >= 75 ? 'positive' : 'negative'}`}>
+                          {goal.probability === null ? 'Beyond horizon' : `${goal.probability}%`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <small className="form-help">Account goals assume the account keeps its current share of the portfolio.</small>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Planner;
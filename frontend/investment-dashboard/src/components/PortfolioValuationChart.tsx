@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import type { ValuationTimelineData } from '../types/Investment';
+import { TimelineResolution } from '../types/Investment';
+import { BenchmarkPresets } from '../types/Account';
+import { investmentApi } from '../services/api';
+import { formatMoney } from '../utils/currency';
+
+interface PortfolioValuationChartProps {
+  displayCurrency: string;
+  valuesHidden?: boolean;
+  // Limits the chart to one account, otherwise the whole portfolio is shown
+  accountId?: number;
+  defaultBenchmark?: string;
+}
+
+const PortfolioValuationChart: React.FC<PortfolioValuationChartProps> = ({ displayCurrency, valuesHidden = false, accountId, defaultBenchmark }) => {
+  const [resolution, setResolution] = useState<TimelineResolution>(TimelineResolution.Weekly);
+  const [benchmark, setBenchmark] = useState<string>(() => {
+    // Accounts start from their own benchmark, the portfolio from the last one picked
+    if (accountId !== undefined) return defaultBenchmark || '';
+    return localStorage.getItem('dashboardBenchmark') || '';
+  });
+  const [valuationData, setValuationData] = useState<ValuationTimelineData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Original mode has no single currency, so values are shown in CAD like the other charts
+  const currency = displayCurrency === 'Original' ? 'CAD' : displayCurrency;
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchValuation = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await investmentApi.getValuationTimeline(resolution, currency, accountId, benchmark || undefined);
+        if (isMounted) setValuationData(data);
+      } catch (err) {
+        if (isMounted) setError('Failed to load portfolio valuation');
+        console.error(err);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    fetchValuation();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [resolution, currency, accountId, benchmark]);
+
+  const handleBenchmarkChange = (symbol: string) => {
+    setBenchmark(symbol);
+    if (accountId === undefined) {
+      localStorage.setItem('dashboardBenchmark', symbol);
+    }
+  };
+
+  const benchmarkOptions: { symbol: string; label: string }[] = [...BenchmarkPresets];
+  if (defaultBenchmark && !benchmarkOptions.some(option => option.symbol === defaultBenchmark)) {
+    benchmarkOptions.push({ symbol: defaultBenchmark, label: defaultBenchmark });
+  }
+
+  const formatCurrency = (value: number) => {
+    if (valuesHidden) {
+      return '•••••';
+    }
+
+    return formatMoney(value, currency, 0);
+  };
+
+  const formatDate = (dateStr: string) => {
+    const date = new Date(dateStr);
+    return resolution === TimelineResolution.Monthly
+      ? date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+      : date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: '2-digit', timeZone: 'UTC' });
+  };
+
+  const chartData = (valuationData?.points || []).map(point => ({
+    date: formatDate(point.date),
+    marketValue: point.marketValue,
+    costBasis: point.costBasis,
+    benchmarkValue: point.benchmarkValue
+  }));
+
+  // Manual valuations are marked on the first point on or after their date, once per point
+  const valuationLabels = new Map<string, string[]>();
+  (valuationData?.manualValuations || []).forEach(marker => {
+    const point = valuationData?.points.find(p => p.date >= marker.date);
+    if (!point) return;
+    const label = formatDate(point.date);
+    valuationLabels.set(label, [...(valuationLabels.get(label) || []), marker.name]);
+  });
+
+  const benchmarkSymbol = valuationData?.currentBenchmarkValue != null ? valuationData.benchmarkSymbol : null;
+
+  const growth = valuationData ? valuationData.currentMarketValue - valuationData.currentCostBasis : 0;
+
+  return (
+    <div className="investment-timeline">
+      <div className="timeline-header">
+        <h3>Market Value vs. Cost Basis ({currency})</h3>
+        <div className="timeline-summary">
+          {valuationData && (
+            <>
+              <div className="summary-item">
+                <span className="label">Market Value:</span>
+                <span className="value">{formatCurrency(valuationData.currentMarketValue)}</span>
+              </div>
+              <div className="summary-item">
+                <span className="label">Cost Basis:</span>
+                <span className="value">{formatCurrency(valuationData.currentCostBasis)}</span>
+              </div>
+              <div className="summary-item">
+                <span className="label">Growth:</span>
+                <span className={`value ${growth >= 0 ? 'positive' : 'negative'}`}>{formatCurrency(growth)}</span>
+              </div>
+              {benchmarkSymbol && valuationData.currentBenchmarkValue != null && (
+                <div className="summary-item">
+                  <span className="label">{benchmarkSymbol}:</span>
+                  <span className="value">{formatCurrency(valuationData.currentBenchmarkValue)}</span>
+                </div>
+              )}
+            </>
+          )}
+          <select
+            className="currency-select"
+            aria-label="Timeline resolution"
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value as TimelineResolution)}
+          >
+            {Object.values(TimelineResolution).map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          <select
+            className="currency-select"
+            aria-label="Benchmark"
+            value={benchmark}
+            onChange={(e) => handleBenchmarkChange(e.target.value)}
+          >
+            <option value="">No benchmark</option>
+            {benchmarkOptions.map(option => (
+              <option key={option.symbol} value={option.symbol}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="timeline-loading">Loading portfolio valuation...</div>
+      ) : error ? (
+        <div className="error-message">{error}</div>
+      ) : (
+        <>
+          <div className="timeline-chart">
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 60 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis
+                  dataKey="date"
+                  stroke="#666"
+                  fontSize={12}
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                />
+                <YAxis
+                  stroke="#666"
+                  fontSize={12}
+                  tickFormatter={(value) => valuesHidden ? '' : `$${(value / 1000).toFixed(0)}K`}
+                />
+                <Tooltip formatter={(value, name) => [formatCurrency(value as number), name]} />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="marketValue"
+                  stroke="#2c3e50"
+                  strokeWidth={3}
+                  dot={false}
+                  name="Market Value"
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="costBasis"
+                  stroke="#8884d8"
+                  strokeWidth={2}
+                  strokeDasharray="6 3"
+                  dot={false}
+                  name="Cost Basis"
+                />
+                {[...valuationLabels.entries()].map(([label, names]) => (
+                  <ReferenceLine
+                    key={label}
+                    x={label}
+                    stroke="#16a085"
+                    strokeDasharray="2 4"
+                    label={{ value: names.length === 1 ? names[0] : `${names.length} valuations`, position: 'insideTopLeft', fontSize: 10, fill: '#16a085' }}
+                  />
+                ))}
+                {benchmarkSymbol && (
+                  <Line
+                    type="monotone"
+                    dataKey="benchmarkValue"
+                    stroke="#e67e22"
+                    strokeWidth={2}
+                    dot={false}
+                    name={`Benchmark (${benchmarkSymbol})`}
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          {valuationData && valuationData.symbolsWithoutPrices.length > 0 && (
+            <p className="form-help">
+              No price history for {valuationData.symbolsWithoutPrices.join(', ')}; these holdings are shown at cost.
+            </p>
+          )}
+          {valuationLabels.size > 0 && (
+            <p className="form-help">
+              Green dotted lines mark manual valuations; holdings without a market price are valued from the latest one.
+            </p>
+          )}
+          {valuationData?.benchmarkSymbol && !benchmarkSymbol && (
+            <p className="form-help">No price history for benchmark {valuationData.benchmarkSymbol}.</p>
+          )}
+          {benchmarkSymbol && (
+            <p className="form-help">
+              The benchmark line invests the same deposits and withdrawals in {benchmarkSymbol} on the same dates.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioValuationChart;
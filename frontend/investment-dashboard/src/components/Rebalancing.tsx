@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react';
+import type { Account } from '../types/Account';
+import type { AllocationTarget, RebalancingPlan } from '../types/Allocation';
+import { AllocationDimension } from '../types/Allocation';
+import type { CurrencyInfo } from '../types/Currency';
+import { Category, getCategoryLabel } from '../types/Investment';
+import { accountApi } from '../services/accountApi';
+import { allocationApi } from '../services/allocationApi';
+import { formatMoney } from '../utils/currency';
+import { useCurrencies } from '../hooks/useCurrencies';
+
+// Groups a target can be set for, matching how holdings are grouped on the server
+const getDimensionKeys = (dimension: AllocationDimension, currencies: CurrencyInfo[]): string[] => {
+  switch (dimension) {
+    case AllocationDimension.Country:
+      return [...new Set(currencies.map(c => c.country))];
+    case AllocationDimension.Currency:
+      return currencies.map(c => c.code);
+    default:
+      return Object.values(Category);
+  }
+};
+
+const getKeyLabel = (dimension: AllocationDimension, key: string) =>
+  dimension === AllocationDimension.Category ? getCategoryLabel(key) : key;
+
+const Rebalancing: React.FC = () => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountId, setAccountId] = useState<number | null>(null);
+  const [dimension, setDimension] = useState<AllocationDimension>(AllocationDimension.Category);
+  const [currency, setCurrency] = useState<string>(() => {
+    // Follow the dashboard currency, Original has no single currency so CAD is used like the charts
+    const saved = localStorage.getItem('dashboardCurrency');
+    return saved && saved !== 'Original' ? saved : 'CAD';
+  });
+  const [targets, setTargets] = useState<AllocationTarget[]>([]);
+  const [targetInputs, setTargetInputs] = useState<Record<string, string>>({});
+  const [contribution, setContribution] = useState('');
+  const [contributionsOnly, setContributionsOnly] = useState(false);
+  const [plan, setPlan] = useState<RebalancingPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const currencies = useCurrencies();
+
+  useEffect(() => {
+    accountApi.getAll()
+      .then(setAccounts)
+      .catch(err => console.error('Failed to fetch accounts:', err));
+  }, []);
+
+  useEffect(() => {
+    allocationApi.getTargets(accountId)
+      .then(setTargets)
+      .catch(err => {
+        setError('Failed to load allocation targets');
+        console.error(err);
+      });
+  }, [accountId, refreshKey]);
+
+  useEffect(() => {
+    const inputs: Record<string, string> = {};
+    targets
+      .filter(t => t.dimension === dimension)
+      .forEach(t => { inputs[t.key] = String(t.targetPercentage); });
+    setTargetInputs(inputs);
+  }, [targets, dimension]);
+
+  const contributionAmount = parseFloat(contribution) > 0 ? parseFloat(contribution) : 0;
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchPlan = async () => {
+      try {
+        setLoading(true);
+        const data = await allocationApi.getRebalancingPlan(dimension, currency, accountId, contributionAmount, contributionsOnly);
+        if (isMounted) setPlan(data);
+      } catch (err) {
+        if (isMounted) setError('Failed to calculate rebalancing');
+        console.error(err);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    fetchPlan();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [dimension, currency, accountId, contributionAmount, contributionsOnly, refreshKey]);
+
+  // Groups with a target are offered even when nothing is held in them yet
+  const keys = Array.from(new Set([
+    ...getDimensionKeys(dimension, currencies),
+    ...(plan?.dimension === dimension ? plan.lines.map(l => l.key) : [])
+  ]));
+  const totalTarget = keys.reduce((sum, key) => sum + (parseFloat(targetInputs[key]) || 0), 0);
+
+  const handleSaveTargets = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await allocationApi.saveTargets({
+        accountId,
+        dimension,
+        targets: keys
+          .filter(key => parseFloat(targetInputs[key]) > 0)
+          .map(key => ({ key, targetPercentage: parseFloat(targetInputs[key]) }))
+      });
+      setRefreshKey(k => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save allocation targets');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => formatMoney(value, currency, 0);
+
+  const formatPercentage = (value: number | null) => value === null ? '-' : `${value.toFixed(2)}%`;
+
+  return (
+    <div className="rebalancing">
+      <div className="account-list-header">
+        <h2>Target Allocation & Rebalancing</h2>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="rebalancing-controls">
+        <div className="form-group">
+          <label htmlFor="rebalanceAccount">Scope:</label>
+          <select
+            id="rebalanceAccount"
+            value={accountId ?? ''}
+            onChange={(e) => setAccountId(e.target.value ? Number(e.target.value) : null)}
+          >
+            <option value="">Whole portfolio</option>
+            {accounts.map(account => (
+              <option key={account.id} value={account.id}>{account.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="rebalanceDimension">Allocate by:</label>
+          <select
+            id="rebalanceDimension"
+            value={dimension}
+            onChange={(e) => setDimension(e.target.value as AllocationDimension)}
+          >
+            {Object.values(AllocationDimension).map(value => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="rebalanceCurrency">Currency:</label>
+          <select id="rebalanceCurrency" value={currency} onChange={(e) => setCurrency(e.target.value)}>
+            {currencies.map(c => (
+              <option key={c.code} value={c.code}>{c.code}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="rebalanceContribution">New contribution:</label>
+          <input
+            type="number"
+            id="rebalanceContribution"
+            value={contribution}
+            onChange={(e) => setContribution(e.target.value)}
+            min="0"
+            step="0.01"
+            placeholder="0"
+          />
+        </div>
+
+        <div className="form-group rebalancing-checkbox">
+          <label>
+            <input
+              type="checkbox"
+              checked={contributionsOnly}
+              onChange={(e) => setContributionsOnly(e.target.checked)}
+            />
+            Only invest new contributions (no sales)
+          </label>
+        </div>
+      </div>
+
+      <section className="investments-list">
+        <div className="holdings-header">
+          <h3>Targets</h3>
+          <span className={`performance-percentage ${Math.abs(totalTarget - 100) < 0.005 || totalTarget === 0 ? 'positive' : 'negative'}`}>
+            Total: {totalTarget.toFixed(2)}%
+          </span>
+        </div>
+        <div className="rebalancing-targets">
+          {keys.map(key => (
+            <div className="form-group" key={key}>
+              <label htmlFor={`target-${key}`}>{getKeyLabel(dimension, key)}</label>
+              <input
+                type="number"
+                id={`target-${key}`}
+                value={targetInputs[key] ?? ''}
+                onChange={(e) => setTargetInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                min="0"
+                max="100"
+                step="0.01"
+                placeholder="0"
+              />
+            </div>
+          ))}
+        </div>
+        <button type="button" className="create-btn" onClick={handleSaveTargets} disabled={saving}>
+          {saving ? 'Saving...' : 'Save Targets'}
+        </button>
+        <small className="form-help">Targets must add up to 100%. Leave every field empty to remove the targets.</small>
+      </section>
+
+      <section className="investments-list">
+        <h3>Rebalancing ({currency})</h3>
+        {loading && !plan ? (
+          <div className="timeline-loading">Calculating rebalancing...</div>
+        ) : plan && (
+          <>
+            {!plan.hasTargets && (
+              <p className="form-help">Set targets above to see how much to buy or sell.</p>
+            )}
+            <div className="table-container">
+              <table className="rebalancing-table">
+                <thead>
+                  <tr>
+                    <th>{dimension}</th>
+                    <th>Current Value</th>
+                    <th>Current</th>
+                    <th>Target</th>
+                    <th>Drift</th>
+                    <th>Buy / Sell</th>
+                    <th>After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.lines.map(line => (
+                    <tr key={line.key}>
+                      <td>{getKeyLabel(plan.dimension, line.key)}</td>
+                      <td>{formatCurrency(line.currentValue)}</td>
+                      <td>{formatPercentage(line.currentPercentage)}</td>
+                      <td>{formatPercentage(line.targetPercentage)}</td>
+                      <td className={`performance-percentage ${line.drift === null ? '' : line.drift > 0 ? 'negative' : 'positive'}`}>
+                        {line.drift === null ? '-' : `${line.drift > 0 ? '+' : ''}${line.drift.toFixed(2)} pp`}
+                      </td>
+                      <td className={`performance-amount ${line.trade > 0 ? 'positive' : line.trade < 0 ? 'negative' : ''}`}>
+                        {line.trade === 0 ? '-' : `${line.trade > 0 ? 'Buy' : 'Sell'} ${formatCurrency(Math.abs(line.trade))}`}
+                      </td>
+                      <td>{formatPercentage(line.projectedPercentage)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr>
+                    <th>Total</th>
+                    <th>{formatCurrency(plan.totalValue)}</th>
+                    <th colSpan={5}>
+                      {plan.contribution > 0 && `+ ${formatCurrency(plan.contribution)} new contribution`}
+                    </th>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default Rebalancing;
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { PeriodReturn, ReturnPeriod } from '../types/Investment';
+import { getReturnPeriodLabel } from '../types/Investment';
+
+interface ReturnSummaryProps {
+  returns: PeriodReturn[];
+  period: ReturnPeriod;
+}
+
+const formatReturn = (value: number | null) => {
+  if (value === null) return '-';
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+};
+
+const formatStartDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const returnClassName = (value: number | null) =>
+  `performance-percentage ${value === null ? '' : value >= 0 ? 'positive' : 'negative'}`;
+
+// Time-weighted and money-weighted return of one period, side by side
+const ReturnSummary: React.FC<ReturnSummaryProps> = ({ returns, period }) => {
+  const periodReturn = returns.find(r => r.period === period);
+  if (!periodReturn) return null;
+
+  const since = !periodReturn.coversFullPeriod
+    ? `Since ${formatStartDate(periodReturn.startDate)}`
+    : null;
+
+  return (
+    <div className="return-summary" title={since ?? undefined}>
+      <span className="return-item">
+        <span className="return-label">TWR</span>
+        <span className={returnClassName(periodReturn.timeWeightedReturn)}>{formatReturn(periodReturn.timeWeightedReturn)}</span>
+      </span>
+      <span className="return-item">
+        <span className="return-label">XIRR</span>
+        <span className={returnClassName(periodReturn.moneyWeightedReturn)}>{formatReturn(periodReturn.moneyWeightedReturn)}</span>
+      </span>
+      {since && <span className="return-since">{since}</span>}
+    </div>
+  );
+};
+
+// Every period in one table, with the annualized TWR for periods longer than a year
+export const ReturnsTable: React.FC<{ returns: PeriodReturn[] }> = ({ returns }) => (
+  <div className="table-container">
+    <table className="returns-table">
+      <thead>
+        <tr>
+          <th>Period</th>
+          <th>Time-Weighted</th>
+          <th>Annualized TWR</th>
+          <th>Money-Weighted (XIRR)</th>
+        </tr>
+      </thead>
+      <tbody>
+        {returns.map(r => (
+          <tr key={r.period}>
+            <td>
+              {getReturnPeriodLabel(r.period)}
+              {!r.coversFullPeriod && <span className="return-since"> (since {formatStartDate(r.startDate)})</span>}
+            </td>
+            <td className={returnClassName(r.timeWeightedReturn)}>{formatReturn(r.timeWeightedReturn)}</td>
+            <td className={returnClassName(r.annualizedTimeWeightedReturn)}>{formatReturn(r.annualizedTimeWeightedReturn)}</td>
+            <td className={returnClassName(r.moneyWeightedReturn)}>{formatReturn(r.moneyWeightedReturn)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default ReturnSummary;
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import type { Account } from '../types/Account';
+import type { StatementImportResult } from '../types/Statement';
+import { getCategoryLabel, getTransactionTypeLabel } from '../types/Investment';
+import { statementApi } from '../services/statementApi';
+
+interface StatementImportProps {
+  // Parser id, or null to detect the broker from the file
+  parser: string | null;
+  accounts: Account[];
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+// Imports a broker statement read by a server-side parser. Lines keep an external ID, so importing
+// the same or an overlapping statement again only adds the lines that are new
+const StatementImport: React.FC<StatementImportProps> = ({ parser, accounts, onSuccess, onCancel }) => {
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [accountMap, setAccountMap] = useState<Record<string, number>>({});
+  const [defaultAccountId, setDefaultAccountId] = useState<number | null>(accounts[0]?.id ?? null);
+  const [preview, setPreview] = useState<StatementImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runPreview = async (text: string, map: Record<string, number>, accountId: number | null) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await statementApi.import({
+        content: text,
+        parser,
+        dryRun: true,
+        accountMap: map,
+        defaultAccountId: accountId
+      });
+      setPreview(result);
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof Error ? err.message : 'Failed to read the statement');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setAccountMap({});
+    await runPreview(text, {}, defaultAccountId);
+  };
+
+  const handleAccountMapChange = (sourceAccount: string, accountId: string) => {
+    const map = { ...accountMap };
+    if (accountId) {
+      map[sourceAccount] = parseInt(accountId);
+    } else {
+      delete map[sourceAccount];
+    }
+    setAccountMap(map);
+    runPreview(content, map, defaultAccountId);
+  };
+
+  const handleDefaultAccountChange = (accountId: string) => {
+    const id = accountId ? parseInt(accountId) : null;
+    setDefaultAccountId(id);
+    if (content) {
+      runPreview(content, accountMap, id);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await statementApi.import({
+        content,
+        parser,
+        dryRun: false,
+        accountMap,
+        defaultAccountId
+      });
+      if (result.invalidRows > 0) {
+        // Accounts may have changed since the preview
+        setPreview(result);
+        setError('Nothing was imported because some lines have no account');
+        return;
+      }
+
+      alert(`Imported ${result.importedCount} transactions from ${fileName}` +
+        (result.duplicateRows > 0 ? `, skipped ${result.duplicateRows} imported before` : ''));
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import the statement');
+      console.error(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const accountOptions = accounts.map(account => (
+    <option key={account.id} value={account.id}>{account.name}</option>
+  ));
+
+  return (
+    <>
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="goals-form-grid">
+        <div className="form-group">
+          <label htmlFor="statementFile">Statement File:</label>
+          <input
+            type="file"
+            id="statementFile"
+            accept=".csv,.txt,.ofx,.qfx,text/csv"
+            onChange={handleFileChange}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="statementDefaultAccount">Import Into:</label>
+          <select
+            id="statementDefaultAccount"
+            value={defaultAccountId ?? ''}
+            onChange={(e) => handleDefaultAccountChange(e.target.value)}
+          >
+            <option value="">Choose an account</option>
+            {accountOptions}
+          </select>
+          <small className="form-help">Used for lines whose statement account is not mapped below.</small>
+        </div>
+      </div>
+
+      {loading && !preview && <p className="import-summary">Reading statement...</p>}
+
+      {preview && (
+        <>
+          <p className="import-summary">
+            {fileName} ({preview.parserName}): {preview.newRows} new, {preview.duplicateRows} imported before
+            {preview.invalidRows > 0 && `, ${preview.invalidRows} need an account`}
+            {preview.skipped.length > 0 && `, ${preview.skipped.length} lines skipped`}
+          </p>
+
+          {preview.sourceAccounts.length > 0 && (
+            <div className="table-container">
+              <table className="import-mapping-table">
+                <thead>
+                  <tr>
+                    <th>Statement Account</th>
+                    <th>Import Into</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.sourceAccounts.map(sourceAccount => (
+                    <tr key={sourceAccount}>
+                      <td>{sourceAccount}</td>
+                      <td>
+                        <select
+                          value={accountMap[sourceAccount] ?? ''}
+                          onChange={(e) => handleAccountMapChange(sourceAccount, e.target.value)}
+                        >
+                          <option value="">Account with this name, else the default</option>
+                          {accountOptions}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="table-container">
+            <table>
+              <thead>
+                <tr>
+                  <th>Line</th>
+                  <th>Date</th>
+                  <th>Type</th>
+                  <th>Name</th>
+                  <th>Category</th>
+                  <th>Quantity</th>
+                  <th>Value</th>
+                  <th>Costs</th>
+                  <th>Currency</th>
+                  <th>Account</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map(({ transaction, accountName, isDuplicate, errors }) => (
+                  <tr key={transaction.externalId} className={errors.length > 0 ? 'import-row-invalid' : ''}>
+                    <td>{transaction.lineNumber}</td>
+                    <td>{new Date(transaction.date).toLocaleDateString()}</td>
+                    <td>{getTransactionTypeLabel(transaction.type)}</td>
+                    <td>{transaction.name}</td>
+                    <td>{getCategoryLabel(transaction.category)}</td>
+                    <td>{transaction.quantity}</td>
+                    <td>{transaction.value}</td>
+                    <td>{(transaction.fees ?? 0) + (transaction.taxes ?? 0) || ''}</td>
+                    <td>{transaction.currency}</td>
+                    <td>{accountName ?? transaction.sourceAccount}</td>
+                    <td>
+                      {isDuplicate ? (
+                        <span className="no-performance">Imported before</span>
+                      ) : errors.length > 0 ? (
+                        <ul className="import-errors">
+                          {errors.map((message, index) => <li key={index}>{message}</li>)}
+                        </ul>
+                      ) : (
+                        <span className="performance-amount positive">New</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {preview.skipped.length > 0 && (
+            <>
+              <h3>Skipped Lines</h3>
+              <ul className="import-errors">
+                {preview.skipped.map(line => (
+                  <li key={line.lineNumber}>Line {line.lineNumber}: {line.reason}</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+
+      <div className="import-actions">
+        <button type="button" className="secondary" onClick={onCancel} disabled={loading}>
+          Cancel
+        </button>
+        {preview && (
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={loading || preview.invalidRows > 0 || preview.newRows === 0}
+          >
+            {loading ? 'Importing...' : `Import ${preview.newRows} Transactions`}
+          </button>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default StatementImport;
@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import type { SymbolSearchResult } from '../types/Investment';
+import { stockPriceApi } from '../services/api';
+
+interface SymbolInputProps {
+  id: string;
+  name?: string;
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  placeholder?: string;
+}
+
+// Waits for typing to pause before asking Yahoo Finance
+const LOOKUP_DELAY_MS = 300;
+
+// Ticker input suggesting symbols that already have prices, then Yahoo Finance matches by ticker or name
+const SymbolInput: React.FC<SymbolInputProps> = ({ id, name, value, onChange, placeholder }) => {
+  const [storedSymbols, setStoredSymbols] = useState<string[]>([]);
+  const [results, setResults] = useState<SymbolSearchResult[]>([]);
+
+  useEffect(() => {
+    stockPriceApi.getSymbols()
+      .then(setStoredSymbols)
+      .catch(err => console.error('Failed to fetch symbols:', err));
+  }, []);
+
+  useEffect(() => {
+    const query = value.trim();
+    if (query.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    let isMounted = true;
+    const timer = setTimeout(() => {
+      stockPriceApi.lookup(query)
+        .then(data => {
+          if (isMounted) setResults(data);
+        })
+        .catch(err => console.error('Symbol lookup failed:', err));
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      isMounted = false;
+      clearTimeout(timer);
+    };
+  }, [value]);
+
+  const query = value.trim().toUpperCase();
+  const stored = query ? storedSymbols.filter(symbol => symbol.startsWith(query)).slice(0, 10) : [];
+  const found = results.filter(r => !stored.includes(r.symbol));
+
+  return (
+    <>
+      <input
+        type="text"
+        id={id}
+        name={name}
+        value={value}
+        onChange={onChange}
+        maxLength={20}
+        list={`${id}-options`}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      <datalist id={`${id}-options`}>
+        {stored.map(symbol => (
+          <option key={symbol} value={symbol}>Has prices</option>
+        ))}
+        {found.map(result => (
+          <option key={result.symbol} value={result.symbol}>
+            {result.name}{result.exchange ? ` (${result.exchange})` : ''}
+          </option>
+        ))}
+      </datalist>
+    </>
+  );
+};
+
+export default SymbolInput;
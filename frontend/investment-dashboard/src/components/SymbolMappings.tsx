@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import type { UnmappedHolding } from '../types/Investment';
+import { getCategoryLabel } from '../types/Investment';
+import { investmentApi } from '../services/api';
+import SymbolInput from './SymbolInput';
+
+// Holdings are identified like the ledger does: account, name and currency
+const getHoldingKey = (holding: UnmappedHolding) => `${holding.accountId}|${holding.name.trim().toUpperCase()}|${holding.currency}`;
+
+const SymbolMappings: React.FC = () => {
+  const [holdings, setHoldings] = useState<UnmappedHolding[]>([]);
+  const [tickers, setTickers] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchHoldings = async () => {
+      try {
+        setLoading(true);
+        const data = await investmentApi.getUnmappedHoldings();
+        if (!isMounted) return;
+        setHoldings(data);
+        const inputs: Record<string, string> = {};
+        data.forEach(h => { inputs[getHoldingKey(h)] = h.ticker ?? ''; });
+        setTickers(inputs);
+      } catch (err) {
+        if (isMounted) setError('Failed to load unmapped holdings');
+        console.error(err);
+      } finally {
+        if (isMounted) setLoading(false);
+      }
+    };
+
+    fetchHoldings();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshKey]);
+
+  const changed = holdings.filter(h => (tickers[getHoldingKey(h)] ?? '').trim() !== (h.ticker ?? ''));
+
+  const handleUseSuggestions = () => {
+    setTickers(prev => {
+      const next = { ...prev };
+      holdings
+        .filter(h => h.suggestedSymbol && !next[getHoldingKey(h)])
+        .forEach(h => { next[getHoldingKey(h)] = h.suggestedSymbol; });
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await investmentApi.saveSymbolMappings(changed.map(h => ({
+        accountId: h.accountId,
+        name: h.name,
+        currency: h.currency,
+        ticker: tickers[getHoldingKey(h)].trim() || null
+      })));
+      setMessage(`Saved ${changed.length} ticker${changed.length === 1 ? '' : 's'}. Holdings stay listed until their symbol returns a price.`);
+      setRefreshKey(k => k + 1);
+    } catch (err) {
+      setError('Failed to save tickers');
+      console.error(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="symbol-mappings">
+      <div className="account-list-header">
+        <h2>Unmapped Holdings</h2>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+      {message && <p className="import-summary">{message}</p>}
+
+      <section className="investments-list">
+        <p className="form-help">
+          These holdings are quoted on an exchange but have no price: no symbol could be guessed from their name, or the guessed symbol is unknown to Yahoo Finance. Set a ticker for each one to value it at market price.
+        </p>
+        {loading && holdings.length === 0 ? (
+          <div className="timeline-loading">Loading holdings...</div>
+        ) : holdings.length === 0 ? (
+          <p className="form-help">Every quoted holding has a working symbol.</p>
+        ) : (
+          <>
+            <div className="table-container">
+              <table className="symbol-mappings-table">
+                <thead>
+                  <tr>
+                    <th>Account</th>
+                    <th>Holding</th>
+                    <th>Currency</th>
+                    <th>Category</th>
+                    <th>Guessed Symbol</th>
+                    <th>Ticker</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {holdings.map(holding => {
+                    const key = getHoldingKey(holding);
+                    return (
+                      <tr key={key}>
+                        <td>{holding.accountName}</td>
+                        <td>{holding.name}</td>
+                        <td>{holding.currency}</td>
+                        <td>{getCategoryLabel(holding.category)}</td>
+                        <td>{holding.suggestedSymbol || <span className="no-price">None</span>}</td>
+                        <td>
+                          <SymbolInput
+                            id={`ticker-${key}`}
+                            value={tickers[key] ?? ''}
+                            onChange={(e) => setTickers(prev => ({ ...prev, [key]: e.target.value.toUpperCase() }))}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="form-buttons">
+              <button type="button" className="create-btn" onClick={handleSave} disabled={saving || changed.length === 0}>
+                {saving ? 'Saving...' : `Save ${changed.length || ''} Ticker${changed.length === 1 ? '' : 's'}`}
+              </button>
+              <button type="button" className="cancel-btn" onClick={handleUseSuggestions}>
+                Use Guessed Symbols
+              </button>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SymbolMappings;
@@ -0,0 +1,291 @@
+import React, { useState, useEffect } from 'react';
+import type { BrazilGainsReport, BrazilAssetsReport, AcbReport } from '../types/TaxReport';
+import { getCategoryLabel } from '../types/Investment';
+import { taxReportApi } from '../services/taxReportApi';
+import { formatMoney } from '../utils/currency';
+import { buildBrazilGainsTable, buildBrazilSalesTable, buildBrazilAssetsTable, buildAcbTable } from '../utils/export';
+import ExportMenu from './ExportMenu';
+import type { ExportOption } from './ExportMenu';
+
+interface TaxReportsProps {
+  year: number;
+  onYearChange: (year: number) => void;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const gainClass = (value: number) => `performance-amount ${value >= 0 ? 'positive' : 'negative'}`;
+
+const TaxReports: React.FC<TaxReportsProps> = ({ year, onYearChange }) => {
+  const [years, setYears] = useState<number[]>([]);
+  const [brazilGains, setBrazilGains] = useState<BrazilGainsReport | null>(null);
+  const [brazilAssets, setBrazilAssets] = useState<BrazilAssetsReport | null>(null);
+  const [acb, setAcb] = useState<AcbReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    taxReportApi.getYears()
+      .then(setYears)
+      .catch(err => console.error('Failed to fetch tax years:', err));
+  }, []);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const fetchReports = async () => {
+      setLoading(true);
+      setErrors([]);
+
+      // Each report fails on its own, e.g. the ACB needs exchange rates the others do not
+      const [gains, assets, acbReport] = await Promise.allSettled([
+        taxReportApi.getBrazilGains(year),
+        taxReportApi.getBrazilAssets(year),
+        taxReportApi.getAcbReport(year)
+      ]);
+      if (!isMounted) return;
+
+      const failures: string[] = [];
+      const settle = <T,>(result: PromiseSettledResult<T>): T | null => {
+        if (result.status === 'fulfilled') return result.value;
+        failures.push(result.reason instanceof Error ? result.reason.message : 'Failed to load a tax report');
+        console.error(result.reason);
+        return null;
+      };
+
+      setBrazilGains(settle(gains));
+      setBrazilAssets(settle(assets));
+      setAcb(settle(acbReport));
+      setErrors(failures);
+      setLoading(false);
+    };
+
+    fetchReports();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [year]);
+
+  // The page's own year stays selectable before it has transactions
+  const yearOptions = [...new Set([year, new Date().getFullYear(), ...years])].sort((a, b) => b - a);
+
+  const exportOptions: ExportOption[] = [
+    ...(brazilGains ? [
+      { label: 'Brazil - Monthly Gains', fileName: `brazil-gains-${year}`, build: () => buildBrazilGainsTable(brazilGains) },
+      { label: 'Brazil - Sales', fileName: `brazil-sales-${year}`, build: () => buildBrazilSalesTable(brazilGains) }
+    ] : []),
+    ...(brazilAssets ? [
+      { label: 'Brazil - Bens e Direitos', fileName: `bens-e-direitos-${year}`, build: () => buildBrazilAssetsTable(brazilAssets) }
+    ] : []),
+    ...(acb ? [
+      { label: 'Canada - ACB', fileName: `acb-${year}`, build: () => buildAcbTable(acb) }
+    ] : [])
+  ];
+
+  return (
+    <div className="tax-reports">
+      <div className="account-list-header">
+        <h2>Tax Reports {year}</h2>
+        <div className="tax-reports-controls">
+          <select
+            aria-label="Tax year"
+            value={year}
+            onChange={(e) => onYearChange(parseInt(e.target.value))}
+          >
+            {yearOptions.map(y => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+          {exportOptions.length > 0 && <ExportMenu options={exportOptions} displayCurrency="Original" />}
+        </div>
+      </div>
+
+      {errors.map(message => (
+        <div key={message} className="error-message">{message}</div>
+      ))}
+      {loading && <div className="timeline-loading">Loading tax reports...</div>}
+
+      {brazilGains && (
+        <section className="investments-list">
+          <h3>Brazil - Swing Trade Gains (Renda Variável)</h3>
+          <p className="form-help">
+            Stocks, ETFs and FIIs traded in BRL at their average cost across every regular account. Stock gains are exempt in months with stock sales up to R$20,000;
+            stocks and ETFs pay 15% and FIIs 20%, after the losses carried from earlier months
+            (opening losses: {formatMoney(brazilGains.openingCommonLoss, 'BRL')} stocks and ETFs, {formatMoney(brazilGains.openingFiiLoss, 'BRL')} FIIs).
+          </p>
+          <div className="table-container">
+            <table className="tax-report-table">
+              <thead>
+                <tr>
+                  <th>Month</th>
+                  <th>Stock Sales</th>
+                  <th>Exempt Gain</th>
+                  <th>Stocks and ETFs Gain</th>
+                  <th>Loss Carried</th>
+                  <th>Tax (15%)</th>
+                  <th>FIIs Gain</th>
+                  <th>FIIs Loss Carried</th>
+                  <th>Tax (20%)</th>
+                  <th>DARF</th>
+                </tr>
+              </thead>
+              <tbody>
+                {brazilGains.months.map(m => (
+                  <tr key={m.month}>
+                    <td>{MONTHS[m.month - 1]}</td>
+                    <td>
+                      {formatMoney(m.stockSales, 'BRL')}
+                      {m.stockSales > 0 && m.isExempt && <span className="valuation-badge">Exempt</span>}
+                    </td>
+                    <td>{formatMoney(m.exemptGain, 'BRL')}</td>
+                    <td><span className={gainClass(m.commonGain)}>{formatMoney(m.commonGain, 'BRL')}</span></td>
+                    <td>{formatMoney(m.commonLossBalance, 'BRL')}</td>
+                    <td>{formatMoney(m.commonTax, 'BRL')}</td>
+                    <td><span className={gainClass(m.fiiGain)}>{formatMoney(m.fiiGain, 'BRL')}</span></td>
+                    <td>{formatMoney(m.fiiLossBalance, 'BRL')}</td>
+                    <td>{formatMoney(m.fiiTax, 'BRL')}</td>
+                    <td><strong>{formatMoney(m.totalTax, 'BRL')}</strong></td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <th>Total</th>
+                  <th></th>
+                  <th>{formatMoney(brazilGains.totalExemptGain, 'BRL')}</th>
+                  <th colSpan={6}></th>
+                  <th>{formatMoney(brazilGains.totalTax, 'BRL')}</th>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {brazilAssets && (
+        <section className="investments-list">
+          <h3>Brazil - Bens e Direitos</h3>
+          <p className="form-help">
+            Positions on December 31 at their average cost in BRL; foreign holdings are converted at the rate of each purchase date.
+          </p>
+          {brazilAssets.assets.length === 0 ? (
+            <p className="form-help">No holdings at the end of {year - 1} or {year}.</p>
+          ) : (
+            <div className="table-container">
+              <table className="tax-report-table">
+                <thead>
+                  <tr>
+                    <th>Symbol</th>
+                    <th>Category</th>
+                    <th>Country</th>
+                    <th>Discriminação</th>
+                    <th>31/12/{year - 1}</th>
+                    <th>31/12/{year}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {brazilAssets.assets.map(asset => (
+                    <tr key={`${asset.accountName}-${asset.symbol}-${asset.currency}`}>
+                      <td>{asset.symbol}</td>
+                      <td>{getCategoryLabel(asset.category)}</td>
+                      <td>{asset.country}</td>
+                      <td>{asset.description}</td>
+                      <td>{formatMoney(asset.previousYearValue, 'BRL')}</td>
+                      <td>{formatMoney(asset.currentYearValue, 'BRL')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr>
+                    <th colSpan={4}>Total</th>
+                    <th>{formatMoney(brazilAssets.totalPreviousYear, 'BRL')}</th>
+                    <th>{formatMoney(brazilAssets.totalCurrentYear, 'BRL')}</th>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+
+      {acb && (
+        <section className="investments-list">
+          <h3>Canada - Adjusted Cost Base</h3>
+          <p className="form-help">
+            Identical securities share one cost base across every non-registered account, in CAD at the rate of each transaction date.
+            Losses are superficial when the security is bought within 30 days of the sale and still held 30 days after; the denied loss is added to the cost base.
+          </p>
+          <div className="account-summary">
+            <div className="summary-item">
+              <span className="label">Capital Gains:</span>
+              <span className={`value performance-value ${acb.totalCapitalGain >= 0 ? 'positive' : 'negative'}`}>{formatMoney(acb.totalCapitalGain, 'CAD')}</span>
+            </div>
+            <div className="summary-item">
+              <span className="label">Taxable (50%):</span>
+              <span className="value">{formatMoney(acb.totalTaxableCapitalGain, 'CAD')}</span>
+            </div>
+            <div className="summary-item">
+              <span className="label">Superficial Losses Denied:</span>
+              <span className="value">{formatMoney(acb.totalDeniedLoss, 'CAD')}</span>
+            </div>
+          </div>
+          {acb.securities.length === 0 ? (
+            <p className="form-help">No securities held or sold in {year}.</p>
+          ) : (
+            <div className="table-container">
+              <table className="tax-report-table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Type</th>
+                    <th>Account</th>
+                    <th>Quantity</th>
+                    <th>Amount (CAD)</th>
+                    <th>Capital Gain</th>
+                    <th>Shares After</th>
+                    <th>ACB After</th>
+                  </tr>
+                </thead>
+                {acb.securities.map(security => (
+                  <tbody key={security.symbol}>
+                    <tr className="tax-report-security">
+                      <td colSpan={3}>{security.symbol} - {security.name}</td>
+                      <td colSpan={2}>Opening</td>
+                      <td></td>
+                      <td>{security.openingQuantity.toLocaleString()}</td>
+                      <td>{formatMoney(security.openingAdjustedCostBase, 'CAD')}</td>
+                    </tr>
+                    {security.entries.map((entry, index) => (
+                      <tr key={index}>
+                        <td>{entry.date.split('T')[0]}</td>
+                        <td>{entry.type}</td>
+                        <td>{entry.accountName}</td>
+                        <td>{entry.quantity.toLocaleString()}</td>
+                        <td>{formatMoney(entry.amount, 'CAD')}</td>
+                        <td>
+                          {entry.capitalGain !== null ? (
+                            <span className={gainClass(entry.capitalGain)}>{formatMoney(entry.capitalGain, 'CAD')}</span>
+                          ) : (
+                            <span className="no-performance">-</span>
+                          )}
+                          {entry.deniedLoss !== null && (
+                            <span className="valuation-badge stale" title={`${formatMoney(entry.deniedLoss, 'CAD')} added to the cost base`}>Superficial</span>
+                          )}
+                        </td>
+                        <td>{entry.sharesAfter.toLocaleString()}</td>
+                        <td>{formatMoney(entry.acbAfter, 'CAD')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                ))}
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default TaxReports;
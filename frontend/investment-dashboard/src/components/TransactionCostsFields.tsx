@@ -0,0 +1,66 @@
+import React from 'react';
+import { useCurrencies } from '../hooks/useCurrencies';
+
+interface TransactionCostsFieldsProps {
+  fees: number | null;
+  taxes: number | null;
+  costCurrency: string | null;
+  currency: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => void;
+}
+
+// Commissions and taxes paid on a transaction, counted in its cost basis or taken off its proceeds
+const TransactionCostsFields: React.FC<TransactionCostsFieldsProps> = ({ fees, taxes, costCurrency, currency, onChange }) => {
+  const currencies = useCurrencies();
+
+  return (
+    <div className="transaction-costs">
+      <div className="form-group">
+        <label htmlFor="fees">Fees:</label>
+        <input
+          type="number"
+          id="fees"
+          name="fees"
+          value={fees ?? ''}
+          onChange={onChange}
+          step="0.01"
+          min="0"
+          placeholder="0.00"
+        />
+        <small className="form-help">Brokerage commission and exchange fees, e.g. B3 emolumentos</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="taxes">Taxes:</label>
+        <input
+          type="number"
+          id="taxes"
+          name="taxes"
+          value={taxes ?? ''}
+          onChange={onChange}
+          step="0.01"
+          min="0"
+          placeholder="0.00"
+        />
+        <small className="form-help">IOF on the exchange, tax withheld from a dividend</small>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="costCurrency">Paid In:</label>
+        <select
+          id="costCurrency"
+          name="costCurrency"
+          value={costCurrency ?? ''}
+          onChange={onChange}
+        >
+          <option value="">{currency} (transaction currency)</option>
+          {currencies.filter(c => c.code !== currency).map(c => (
+            <option key={c.code} value={c.code}>{c.code}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionCostsFields;
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import type { CurrencyInfo } from '../types/Currency';
+import { currencyApi } from '../services/currencyApi';
+
+// Supported currencies from the backend registry, the built-in list is used until it loads
+export const useCurrencies = (): CurrencyInfo[] => {
+  const [currencies, setCurrencies] = useState<CurrencyInfo[]>(() => currencyApi.getCurrenciesSync());
+
+  useEffect(() => {
+    let isMounted = true;
+
+    currencyApi.getCurrencies().then(data => {
+      if (isMounted) setCurrencies(data);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  return currencies;
+};
@@ -0,0 +1,68 @@
+import type { AllocationDimension, AllocationTarget, RebalancingPlan, SaveAllocationTargetsRequest } from '../types/Allocation';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export const allocationApi = {
+  async getTargets(accountId: number | null): Promise<AllocationTarget[]> {
+    const query = accountId !== null ? `?accountId=${accountId}` : '';
+    const response = await fetch(`${API_BASE_URL}/allocation/targets${query}`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch allocation targets');
+    }
+    return response.json();
+  },
+
+  async saveTargets(request: SaveAllocationTargetsRequest): Promise<AllocationTarget[]> {
+    const response = await fetch(`${API_BASE_URL}/allocation/targets`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to save allocation targets');
+    }
+    return response.json();
+  },
+
+  async getRebalancingPlan(
+    dimension: AllocationDimension,
+    currency: string,
+    accountId: number | null,
+    contribution: number,
+    contributionsOnly: boolean
+  ): Promise<RebalancingPlan> {
+    const params = new URLSearchParams({
+      dimension,
+      currency,
+      contribution: String(contribution),
+      contributionsOnly: String(contributionsOnly)
+    });
+    if (accountId !== null) {
+      params.set('accountId', String(accountId));
+    }
+
+    const response = await fetch(`${API_BASE_URL}/allocation/rebalance?${params}`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to calculate rebalancing');
+    }
+    return response.json();
+  }
+};
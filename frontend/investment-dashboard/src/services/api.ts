@@ -1,5 +1,5 @@
 import axios from 'axios';
-import type { Investment, CreateInvestmentRequest, DashboardData } from '../types/Investment';
+import type { Investment, ExchangeInfo, SymbolSearchResult, UnmappedHolding, SymbolMapping, CreateInvestmentRequest, DashboardData, ImportInvestmentRow, BulkImportResult, TimelineResolution, ValuationTimelineData, PortfolioReturns } from '../types/Investment';
 import { getApiBaseUrl } from '../utils/config';
 
 const API_BASE_URL = getApiBaseUrl();
@@ -58,6 +58,14 @@ export const investmentApi = {
     return response.data;
   },
 
+  // Markets an investment can be assigned to
+  getExchanges: async (): Promise<ExchangeInfo[]> => {
+    return withDeduplication('exchanges', async () => {
+      const response = await api.get<ExchangeInfo[]>('/investments/exchanges');
+      return response.data;
+    });
+  },
+
   // Get investment by ID
   getById: async (id: number): Promise<Investment> => {
     const response = await api.get<Investment>(`/investments/${id}`);
@@ -79,7 +87,18 @@ export const investmentApi = {
       date: date,
       description: investment.description,
       category: investment.category, // Keep as string
-      accountId: investment.accountId
+      type: investment.type,
+      accountId: investment.accountId,
+      ticker: investment.ticker || null,
+      exchange: investment.exchange ?? null,
+      exposureCountry: investment.exposureCountry || null,
+      indexer: investment.indexer ?? null,
+      indexerRate: investment.indexerRate ?? null,
+      maturityDate: investment.maturityDate || null,
+      isTaxExempt: investment.isTaxExempt ?? false,
+      fees: investment.fees ?? null,
+      taxes: investment.taxes ?? null,
+      costCurrency: investment.costCurrency ?? null
     };
 
     const response = await api.post<Investment>('/investments', payload);
@@ -101,7 +120,18 @@ export const investmentApi = {
       date: date,
       description: investment.description,
       category: investment.category, // Keep as string
-      accountId: investment.account.id
+      type: investment.type,
+      accountId: investment.account.id,
+      ticker: investment.ticker,
+      exchange: investment.exchange,
+      exposureCountry: investment.exposureCountry,
+      indexer: investment.indexer,
+      indexerRate: investment.indexerRate,
+      maturityDate: investment.maturityDate || null,
+      isTaxExempt: investment.isTaxExempt,
+      fees: investment.fees,
+      taxes: investment.taxes,
+      costCurrency: investment.costCurrency
     };
 
     await api.put(`/investments/${id}`, payload);
@@ -112,6 +142,61 @@ export const investmentApi = {
     await api.delete(`/investments/${id}`);
   },
 
+  // Validate (dry run) or commit a batch of imported rows; the decimal separator and date order are detected when not given
+  bulkImport: async (rows: ImportInvestmentRow[], dryRun: boolean, decimalSeparator?: string, dateOrder?: string): Promise<BulkImportResult> => {
+    try {
+      const response = await api.post<BulkImportResult>('/investments/bulk', {
+        dryRun,
+        rows,
+        decimalSeparator: decimalSeparator || null,
+        dateOrder: dateOrder || null
+      });
+      return response.data;
+    } catch (error) {
+      // A rejected commit still carries the per-row validation result
+      if (axios.isAxiosError<BulkImportResult>(error) && error.response?.status === 400 && error.response.data?.rows) {
+        return error.response.data;
+      }
+      throw error;
+    }
+  },
+
+  // Market value and cost basis of the portfolio over time, converted at each date's exchange rate
+  getValuationTimeline: async (
+    resolution: TimelineResolution,
+    currency: string,
+    accountId?: number,
+    benchmark?: string
+  ): Promise<ValuationTimelineData> => {
+    return withDeduplication(`valuation-${resolution}-${currency}-${accountId ?? 'all'}-${benchmark ?? 'none'}`, async () => {
+      const response = await api.get<ValuationTimelineData>('/investments/portfolio/valuation', {
+        params: { resolution, currency, accountId, benchmark }
+      });
+      return response.data;
+    });
+  },
+
+  // Time-weighted and money-weighted returns of the whole portfolio for each period
+  getPortfolioReturns: async (currency: string): Promise<PortfolioReturns> => {
+    return withDeduplication(`returns-${currency}`, async () => {
+      const response = await api.get<PortfolioReturns>('/investments/portfolio/returns', {
+        params: { currency }
+      });
+      return response.data;
+    });
+  },
+
+  // Open quoted holdings without a working symbol
+  getUnmappedHoldings: async (): Promise<UnmappedHolding[]> => {
+    const response = await api.get<UnmappedHolding[]>('/investments/symbols/unmapped');
+    return response.data;
+  },
+
+  // Set the ticker on every transaction of each holding
+  saveSymbolMappings: async (mappings: SymbolMapping[]): Promise<void> => {
+    await api.put('/investments/symbols', { mappings });
+  },
+
   // Get dashboard data
   getDashboard: async (): Promise<DashboardData> => {
     return withDeduplication('dashboard', async () => {
@@ -153,3 +238,20 @@ export const investmentApi = {
     }
   }
 };
+
+// Symbols for the ticker autocomplete
+export const stockPriceApi = {
+  // Symbols that already have stored prices
+  getSymbols: async (): Promise<string[]> => {
+    return withDeduplication('symbols', async () => {
+      const response = await api.get<string[]>('/stockprices/symbols');
+      return response.data;
+    });
+  },
+
+  // Search Yahoo Finance by ticker or company name
+  lookup: async (query: string): Promise<SymbolSearchResult[]> => {
+    const response = await api.get<SymbolSearchResult[]>('/stockprices/lookup', { params: { query } });
+    return response.data;
+  }
+};
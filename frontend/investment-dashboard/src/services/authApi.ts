@@ -20,6 +20,8 @@ export interface User {
   name: string;
   email: string;
   role: string;
+  costBasisMethod?: string;
+  homeCurrency?: string;
   createdAt: string;
 }
 
@@ -29,6 +31,16 @@ export interface AuthResponse {
   sessionToken: string;
 }
 
+export interface UpdateSettingsRequest {
+  costBasisMethod: string;
+  homeCurrency?: string;
+}
+
+export interface UpdateSettingsResponse {
+  message: string;
+  user: User;
+}
+
 export interface RegisterResponse {
   message: string;
   user: User;
@@ -74,6 +86,13 @@ export const authApi = {
     return response.data;
   },
 
+  updateSettings: async (settings: UpdateSettingsRequest): Promise<UpdateSettingsResponse> => {
+    const response = await authAxios.put('/auth/settings', settings);
+    // Keep the stored user in sync with the saved settings
+    localStorage.setItem('user', JSON.stringify(response.data.user));
+    return response.data;
+  },
+
   logout: () => {
     localStorage.removeItem('sessionToken');
     localStorage.removeItem('user');
@@ -0,0 +1,41 @@
+import type { ContributionRoomSummary } from '../types/ContributionRoom';
+import type { AccountType } from '../types/Account';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export const contributionRoomApi = {
+  async getAll(): Promise<ContributionRoomSummary[]> {
+    const response = await fetch(`${API_BASE_URL}/contributionroom`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch contribution room');
+    }
+    return response.json();
+  },
+
+  // A null amount goes back to the default room of the year
+  async setLimit(accountType: AccountType, year: number, amount: number | null): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/contributionroom/${accountType}/${year}`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ amount }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to save contribution room');
+    }
+  }
+};
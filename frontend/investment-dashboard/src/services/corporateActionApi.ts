@@ -0,0 +1,65 @@
+import type { CorporateAction, CreateCorporateActionRequest } from '../types/CorporateAction';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export const corporateActionApi = {
+  async getAll(): Promise<CorporateAction[]> {
+    const response = await fetch(`${API_BASE_URL}/corporateactions`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch corporate actions');
+    }
+    return response.json();
+  },
+
+  async create(action: CreateCorporateActionRequest): Promise<CorporateAction> {
+    const response = await fetch(`${API_BASE_URL}/corporateactions`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(action),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to save corporate action');
+    }
+    return response.json();
+  },
+
+  // Actions already stored for the same symbol, type and date are skipped
+  async import(rows: CreateCorporateActionRequest[]): Promise<number> {
+    const response = await fetch(`${API_BASE_URL}/corporateactions/import`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ rows }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to import corporate actions');
+    }
+    const result: { imported: number } = await response.json();
+    return result.imported;
+  },
+
+  async delete(id: number): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/corporateactions/${id}`, {
+      method: 'DELETE',
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to delete corporate action');
+    }
+  }
+};
@@ -1,4 +1,5 @@
 import { getApiBaseUrl } from '../utils/config';
+import type { CurrencyInfo } from '../types/Currency';
 
 const API_BASE_URL = getApiBaseUrl();
 
@@ -38,12 +39,22 @@ class CurrencyApi {
     'USDCAD': 1.37
   };
 
+  // Fallback registry in case backend is unavailable
+  private fallbackCurrencies: CurrencyInfo[] = [
+    { code: 'BRL', symbol: 'R$', locale: 'pt-BR', country: 'Brazil', countryCode: 'BRA', decimals: 2 },
+    { code: 'CAD', symbol: 'CA$', locale: 'en-CA', country: 'Canada', countryCode: 'CAN', decimals: 2 },
+    { code: 'USD', symbol: 'US$', locale: 'en-US', country: 'United States', countryCode: 'USA', decimals: 2 }
+  ];
+  private currencies: CurrencyInfo[] = this.fallbackCurrencies;
+  private currenciesLoaded = false;
+
   constructor() {
     // Initialize with fallback rates immediately
     this.cachedRates = { ...this.fallbackRates };
     
-    // Try to load real rates in background
+    // Try to load real rates and the currency registry in background
     this.loadRatesInBackground();
+    this.getCurrencies();
   }
 
   private async loadRatesInBackground(): Promise<void> {
@@ -96,6 +107,39 @@ class CurrencyApi {
     });
   }
 
+  // Supported currencies, fetched once since the registry only changes with a backend release
+  async getCurrencies(): Promise<CurrencyInfo[]> {
+    if (this.currenciesLoaded) {
+      return this.currencies;
+    }
+
+    return withDeduplication('currency-list', async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/currency/currencies`);
+        if (response.ok) {
+          const currencies: CurrencyInfo[] = await response.json();
+          if (currencies.length > 0) {
+            this.currencies = currencies;
+          }
+        }
+      } catch (error) {
+        console.warn('Failed to fetch currencies from backend, using fallback currencies:', error);
+      }
+
+      this.currenciesLoaded = true;
+      return this.currencies;
+    });
+  }
+
+  // Synchronous registry lookups for formatting, fallback currencies until getCurrencies resolves
+  getCurrenciesSync(): CurrencyInfo[] {
+    return this.currencies;
+  }
+
+  getCurrencyInfo(code: string): CurrencyInfo | undefined {
+    return this.currencies.find(c => c.code === code);
+  }
+
   async getExchangeRate(fromCurrency: string, toCurrency: string): Promise<number> {
     if (fromCurrency === toCurrency) {
       return 1.0;
@@ -147,43 +191,47 @@ class CurrencyApi {
     return amount * rate;
   }
 
-  // Synchronous version using cached rates
-  convertCurrencySync(amount: number, fromCurrency: string, toCurrency: string): number {
+  // Synchronous rate lookup using cached rates
+  getExchangeRateSync(fromCurrency: string, toCurrency: string): number {
     if (fromCurrency === toCurrency) {
-      return amount;
+      return 1.0;
     }
 
-    // Use cached rates for immediate conversion
     const rates = this.cachedRates;
     
     // Try direct rate
     const directRate = rates[`${fromCurrency}${toCurrency}`];
     if (directRate) {
-      return amount * directRate;
+      return directRate;
     }
 
     // Try reverse rate
     const reverseRate = rates[`${toCurrency}${fromCurrency}`];
     if (reverseRate) {
-      return amount * (1 / reverseRate);
+      return 1 / reverseRate;
     }
 
     // Try USD as intermediate currency
     const fromToUSD = rates[`${fromCurrency}USD`];
     const USDToTarget = rates[`USD${toCurrency}`];
     if (fromToUSD && USDToTarget) {
-      return amount * fromToUSD * USDToTarget;
+      return fromToUSD * USDToTarget;
     }
 
     // Try reverse USD conversion
     const USDToFrom = rates[`USD${fromCurrency}`];
     const targetToUSD = rates[`${toCurrency}USD`];
     if (USDToFrom && targetToUSD) {
-      return amount * (1 / USDToFrom) * targetToUSD;
+      return (1 / USDToFrom) * targetToUSD;
     }
 
     console.warn(`No conversion path found for ${fromCurrency} to ${toCurrency}, using 1:1 rate`);
-    return amount; // Fallback to 1:1 if no conversion available
+    return 1.0; // Fallback to 1:1 if no conversion available
+  }
+
+  // Synchronous version using cached rates
+  convertCurrencySync(amount: number, fromCurrency: string, toCurrency: string): number {
+    return amount * this.getExchangeRateSync(fromCurrency, toCurrency);
   }
 
   // Force refresh rates from backend
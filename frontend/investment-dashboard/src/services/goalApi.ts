@@ -0,0 +1,73 @@
+import type { Goal, CreateGoalRequest, GoalProgress } from '../types/Goal';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export const goalApi = {
+  async getAll(accountId?: number): Promise<Goal[]> {
+    const query = accountId !== undefined ? `?accountId=${accountId}` : '';
+    const response = await fetch(`${API_BASE_URL}/goals${query}`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch goals');
+    }
+    return response.json();
+  },
+
+  async getProgress(): Promise<GoalProgress[]> {
+    const response = await fetch(`${API_BASE_URL}/goals/progress`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch goal progress');
+    }
+    return response.json();
+  },
+
+  async create(goal: CreateGoalRequest): Promise<Goal> {
+    const response = await fetch(`${API_BASE_URL}/goals`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(goal),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to create goal');
+    }
+    return response.json();
+  },
+
+  async update(id: number, goal: CreateGoalRequest): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/goals/${id}`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ ...goal, id }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to update goal');
+    }
+  },
+
+  async delete(id: number): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/goals/${id}`, {
+      method: 'DELETE',
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to delete goal');
+    }
+  }
+};
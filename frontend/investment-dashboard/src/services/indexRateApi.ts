@@ -0,0 +1,56 @@
+import type { IndexRateSummary, IndexRateRow } from '../types/IndexRate';
+import type { FixedIncomeIndexer } from '../types/Investment';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export const indexRateApi = {
+  async getSummary(): Promise<IndexRateSummary[]> {
+    const response = await fetch(`${API_BASE_URL}/indexrates`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch index rates');
+    }
+    return response.json();
+  },
+
+  async import(indexer: FixedIncomeIndexer, rows: IndexRateRow[]): Promise<number> {
+    const response = await fetch(`${API_BASE_URL}/indexrates/import`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ indexer, rows }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to import index rates');
+    }
+    const result: { imported: number } = await response.json();
+    return result.imported;
+  },
+
+  // Fetches the rates published since the last stored one from the Banco Central
+  async sync(indexer: FixedIncomeIndexer): Promise<number> {
+    const response = await fetch(`${API_BASE_URL}/indexrates/sync/${indexer}`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to update index rates');
+    }
+    const result: { imported: number } = await response.json();
+    return result.imported;
+  }
+};
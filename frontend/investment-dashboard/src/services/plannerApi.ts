@@ -0,0 +1,40 @@
+import type { PlannerAssumptions, PlannerSimulation, PlannerSimulationRequest } from '../types/Planner';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export const plannerApi = {
+  async getAssumptions(currency: string): Promise<PlannerAssumptions> {
+    const response = await fetch(`${API_BASE_URL}/planner/assumptions?currency=${currency}`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch planner assumptions');
+    }
+    return response.json();
+  },
+
+  async simulate(request: PlannerSimulationRequest): Promise<PlannerSimulation> {
+    const response = await fetch(`${API_BASE_URL}/planner/simulate`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to run simulation');
+    }
+    return response.json();
+  }
+};
@@ -0,0 +1,64 @@
+import type { StatementImportRequest, StatementImportResult, StatementParserInfo } from '../types/Statement';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export const statementApi = {
+  async getParsers(): Promise<StatementParserInfo[]> {
+    const response = await fetch(`${API_BASE_URL}/statements/parsers`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch statement formats');
+    }
+    return response.json();
+  },
+
+  // Previews the statement when dryRun is set, otherwise imports the lines not imported before
+  async import(request: StatementImportRequest): Promise<StatementImportResult> {
+    const response = await fetch(`${API_BASE_URL}/statements/import`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(request),
+    });
+    // A rejected import still carries the per-line result
+    if (response.status === 400 && response.headers.get('content-type')?.includes('application/json')) {
+      return response.json();
+    }
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to import statement');
+    }
+    return response.json();
+  },
+
+  // Downloads the account's transactions and positions as an OFX file for desktop finance software
+  async exportOfx(accountId: number): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/statements/ofx/${accountId}`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to export account');
+    }
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `account-${accountId}.ofx`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,51 @@
+import type { BrazilGainsReport, BrazilAssetsReport, AcbReport } from '../types/TaxReport';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+const getReport = async <T>(path: string, year: number, failure: string): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}/taxreports/${path}?year=${year}`, {
+    headers: createAuthHeaders(),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || failure);
+  }
+  return response.json();
+};
+
+export const taxReportApi = {
+  // Tax years with transactions, newest first
+  async getYears(): Promise<number[]> {
+    const response = await fetch(`${API_BASE_URL}/taxreports/years`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch tax years');
+    }
+    return response.json();
+  },
+
+  getBrazilGains(year: number): Promise<BrazilGainsReport> {
+    return getReport('brazil/gains', year, 'Failed to fetch Brazilian gains');
+  },
+
+  getBrazilAssets(year: number): Promise<BrazilAssetsReport> {
+    return getReport('brazil/assets', year, 'Failed to fetch Bens e Direitos');
+  },
+
+  getAcbReport(year: number): Promise<AcbReport> {
+    return getReport('canada/acb', year, 'Failed to fetch the ACB report');
+  }
+};
@@ -0,0 +1,63 @@
+import type { ManualValuation, CreateManualValuationRequest, UpdateManualValuationRequest } from '../types/Valuation';
+import { getApiBaseUrl } from '../utils/config';
+
+const API_BASE_URL = getApiBaseUrl();
+
+const createAuthHeaders = () => {
+  const token = localStorage.getItem('sessionToken');
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export const valuationApi = {
+  async getAll(accountId?: number): Promise<ManualValuation[]> {
+    const query = accountId !== undefined ? `?accountId=${accountId}` : '';
+    const response = await fetch(`${API_BASE_URL}/valuations${query}`, {
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to fetch valuations');
+    }
+    return response.json();
+  },
+
+  async create(valuation: CreateManualValuationRequest): Promise<ManualValuation> {
+    const response = await fetch(`${API_BASE_URL}/valuations`, {
+      method: 'POST',
+      headers: createAuthHeaders(),
+      body: JSON.stringify(valuation),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to save valuation');
+    }
+    return response.json();
+  },
+
+  async update(id: number, valuation: UpdateManualValuationRequest): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/valuations/${id}`, {
+      method: 'PUT',
+      headers: createAuthHeaders(),
+      body: JSON.stringify({ ...valuation, id }),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(errorText || 'Failed to update valuation');
+    }
+  },
+
+  async delete(id: number): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/valuations/${id}`, {
+      method: 'DELETE',
+      headers: createAuthHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to delete valuation');
+    }
+  }
+};
@@ -1,20 +1,79 @@
 export interface Account {
   id: number;
   name: string;
-  goal1?: number;
-  goal2?: number;
-  goal3?: number;
-  goal4?: number;
-  goal5?: number;
   sortOrder: number;
+  type: AccountType;
+  benchmarkSymbol?: string;
+  contributionAmount?: number;
+  contributionFrequency: ContributionFrequency;
+  expectedAnnualReturn?: number;
+  // Cash transactions form a balance that every transaction in their currency moves
+  tracksCash: boolean;
 }
 
 export interface CreateAccountRequest {
   name: string;
-  goal1?: number;
-  goal2?: number;
-  goal3?: number;
-  goal4?: number;
-  goal5?: number;
   sortOrder: number;
-}
\ No newline at end of file
+  type: AccountType;
+  benchmarkSymbol?: string;
+  contributionAmount?: number;
+  contributionFrequency: ContributionFrequency;
+  expectedAnnualReturn?: number;
+  tracksCash?: boolean;
+}
+
+// Indexes offered when choosing what an account or the portfolio is compared against
+export const BenchmarkPresets = [
+  { symbol: '^BVSP', label: 'IBOVESPA' },
+  { symbol: '^GSPTSE', label: 'S&P/TSX Composite' },
+  { symbol: '^GSPC', label: 'S&P 500' }
+] as const;
+
+export const ContributionFrequency = {
+  Weekly: 'Weekly',
+  Biweekly: 'Biweekly',
+  Monthly: 'Monthly',
+  Quarterly: 'Quarterly',
+  Yearly: 'Yearly'
+} as const;
+
+export type ContributionFrequency = typeof ContributionFrequency[keyof typeof ContributionFrequency];
+
+export const getContributionFrequencyLabel = (frequency: string): string => {
+  switch (frequency) {
+    case 'Weekly': return 'Week';
+    case 'Biweekly': return 'Two weeks';
+    case 'Monthly': return 'Month';
+    case 'Quarterly': return 'Quarter';
+    case 'Yearly': return 'Year';
+    default: return frequency;
+  }
+};
+
+// Regular is a non-registered account in Canada and a common brokerage account in Brazil
+export const AccountType = {
+  Regular: 'Regular',
+  Tfsa: 'Tfsa',
+  Rrsp: 'Rrsp',
+  Fhsa: 'Fhsa',
+  Pgbl: 'Pgbl',
+  Vgbl: 'Vgbl'
+} as const;
+
+export type AccountType = typeof AccountType[keyof typeof AccountType];
+
+export const getAccountTypeLabel = (type: string): string => {
+  switch (type) {
+    case 'Regular': return 'Regular';
+    case 'Tfsa': return 'TFSA';
+    case 'Rrsp': return 'RRSP';
+    case 'Fhsa': return 'FHSA';
+    case 'Pgbl': return 'PGBL';
+    case 'Vgbl': return 'VGBL';
+    default: return type;
+  }
+};
+
+// VGBL contributions are not deductible, so only these types have room to track
+export const tracksContributionRoom = (type: string): boolean =>
+  type === AccountType.Tfsa || type === AccountType.Rrsp || type === AccountType.Fhsa || type === AccountType.Pgbl;
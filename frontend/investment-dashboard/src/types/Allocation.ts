@@ -0,0 +1,42 @@
+export const AllocationDimension = {
+  Category: 'Category',
+  Country: 'Country',
+  Currency: 'Currency'
+} as const;
+
+export type AllocationDimension = typeof AllocationDimension[keyof typeof AllocationDimension];
+
+export interface AllocationTarget {
+  id: number;
+  accountId: number | null;
+  dimension: AllocationDimension;
+  key: string;
+  targetPercentage: number;
+}
+
+export interface SaveAllocationTargetsRequest {
+  accountId: number | null;
+  dimension: AllocationDimension;
+  targets: { key: string; targetPercentage: number }[];
+}
+
+export interface RebalancingLine {
+  key: string;
+  currentValue: number;
+  currentPercentage: number;
+  targetPercentage: number | null;
+  drift: number | null;
+  targetValue: number;
+  trade: number;
+  projectedPercentage: number;
+}
+
+export interface RebalancingPlan {
+  dimension: AllocationDimension;
+  currency: string;
+  totalValue: number;
+  contribution: number;
+  contributionsOnly: boolean;
+  hasTargets: boolean;
+  lines: RebalancingLine[];
+}
@@ -0,0 +1,23 @@
+import type { AccountType } from './Account';
+
+export interface ContributionRoomYear {
+  year: number;
+  // Null when the year has no default room and none was entered
+  newRoom: number | null;
+  isDefault: boolean;
+  available: number | null;
+  contributions: number;
+  withdrawals: number;
+  remaining: number | null;
+  isOverContributed: boolean;
+}
+
+// Room shared by every account of one registered type
+export interface ContributionRoomSummary {
+  accountType: AccountType;
+  currency: string;
+  accounts: string[];
+  remaining: number | null;
+  isOverContributed: boolean;
+  years: ContributionRoomYear[];
+}
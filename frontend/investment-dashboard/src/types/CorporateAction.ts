@@ -0,0 +1,51 @@
+// Split, grupamento, bonificação, ticker change or merger of a security; holdings are restated by it
+// while their transactions keep the quantities and prices they were entered with
+export const CorporateActionType = {
+  Split: 'Split',
+  ReverseSplit: 'ReverseSplit',
+  Bonus: 'Bonus',
+  SymbolChange: 'SymbolChange',
+  Merger: 'Merger'
+} as const;
+
+export type CorporateActionType = typeof CorporateActionType[keyof typeof CorporateActionType];
+
+export const getCorporateActionTypeLabel = (type: string): string => {
+  switch (type) {
+    case 'Split': return 'Split';
+    case 'ReverseSplit': return 'Reverse Split';
+    case 'Bonus': return 'Bonus Shares';
+    case 'SymbolChange': return 'Symbol Change';
+    case 'Merger': return 'Merger';
+    default: return type;
+  }
+};
+
+export const changesSymbol = (type: string): boolean =>
+  type === CorporateActionType.SymbolChange || type === CorporateActionType.Merger;
+
+export interface CorporateAction {
+  id: number;
+  type: CorporateActionType;
+  // First day the security trades on the new terms
+  date: string;
+  symbol: string;
+  newSymbol: string | null;
+  // ratioFrom units held before the action become ratioTo units
+  ratioFrom: number;
+  ratioTo: number;
+  // Cost the company assigns to each bonus share
+  bonusUnitCost: number | null;
+  note: string | null;
+}
+
+export interface CreateCorporateActionRequest {
+  type: CorporateActionType;
+  date: string;
+  symbol: string;
+  newSymbol?: string;
+  ratioFrom: number;
+  ratioTo: number;
+  bonusUnitCost?: number;
+  note?: string;
+}
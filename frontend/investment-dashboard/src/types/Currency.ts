@@ -0,0 +1,10 @@
+// A supported currency as described by the backend currency registry
+export interface CurrencyInfo {
+  code: string;
+  symbol: string;
+  // BCP 47 locale used to group digits, e.g. 'pt-BR' writes 1.234,56
+  locale: string;
+  country: string;
+  countryCode: string;
+  decimals: number;
+}
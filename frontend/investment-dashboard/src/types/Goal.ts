@@ -0,0 +1,64 @@
+export interface Goal {
+  id: number;
+  accountId: number | null;
+  name: string | null;
+  targetDate: string;
+  targetAmount: number;
+  currency: string;
+}
+
+export interface CreateGoalRequest {
+  accountId: number | null;
+  name?: string;
+  targetDate: string;
+  targetAmount: number;
+  currency: string;
+}
+
+// Account goals measure their account, portfolio goals (accountId null) every account together
+export interface GoalProgress {
+  goalId: number;
+  accountId: number | null;
+  accountName: string;
+  name: string | null;
+  label: string;
+  targetDate: string;
+  targetAmount: number;
+  currency: string;
+  currentValue: number;
+  progress: number;
+  // Value expected at the target date with the contribution plan and annual return below
+  projectedValue: number;
+  status: GoalStatus;
+  annualReturn: number;
+  monthlyContribution: number;
+  // Null once the target date has passed
+  requiredMonthlyContribution: number | null;
+  contributionFromHistory: boolean;
+  returnFromHistory: boolean;
+}
+
+export const GoalStatus = {
+  OnTrack: 'OnTrack',
+  AtRisk: 'AtRisk',
+  OffTrack: 'OffTrack'
+} as const;
+
+export type GoalStatus = typeof GoalStatus[keyof typeof GoalStatus];
+
+export const getGoalStatusLabel = (status: string): string => {
+  switch (status) {
+    case 'OnTrack': return 'On track';
+    case 'AtRisk': return 'At risk';
+    case 'OffTrack': return 'Off track';
+    default: return status;
+  }
+};
+
+export const getGoalStatusClass = (status: string): string => {
+  switch (status) {
+    case 'OnTrack': return 'on-track';
+    case 'AtRisk': return 'at-risk';
+    default: return 'off-track';
+  }
+};
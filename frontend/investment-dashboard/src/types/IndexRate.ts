@@ -0,0 +1,16 @@
+import type { FixedIncomeIndexer } from './Investment';
+
+// Stored coverage of one index
+export interface IndexRateSummary {
+  indexer: FixedIncomeIndexer;
+  count: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  latestRate: number | null;
+}
+
+// Percent per business day for the CDI and the Selic, percent for the month for the IPCA
+export interface IndexRateRow {
+  date: string;
+  rate: number;
+}
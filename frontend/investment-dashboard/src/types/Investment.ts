@@ -1,3 +1,5 @@
+import type { GoalProgress } from './Goal';
+
 export interface Investment {
   id: number;
   name: string;
@@ -7,24 +9,59 @@ export interface Investment {
   date: string;
   description: string;
   category: string;
+  type: string;
   accountId: number;
   account: {
     id: number;
     name: string;
-    goal1?: number;
-    goal2?: number;
-    goal3?: number;
-    goal4?: number;
-    goal5?: number;
+    benchmarkSymbol?: string;
   };
+  // Yahoo Finance symbol picked by the user; when null the server guesses one from the name
+  ticker: string | null;
+  exchange: string | null;
+  exposureCountry: string | null;
+  // Home currency per unit of currency on the transaction date; null until a quote was found
+  fxRate: number | null;
+  // Exposure country, else the exchange's country, else the currency's
   country: string;
+  // Index-linked fixed income terms; a holding without an indexer is not accrued
+  indexer: FixedIncomeIndexer | null;
+  indexerRate: number | null;
+  maturityDate: string | null;
+  isTaxExempt: boolean;
+  // Commissions and taxes paid on the transaction, charged in costCurrency (null for the transaction's currency)
+  fees: number | null;
+  taxes: number | null;
+  costCurrency: string | null;
+  // Statement line the transaction was imported from; null when entered by hand
+  externalId: string | null;
   total: number;
 }
 
+// A market investments trade on, as served by /api/investments/exchanges
+export interface ExchangeInfo {
+  code: string;
+  name: string;
+  // Yahoo Finance symbol suffix, e.g. '.SA'; null for US listings
+  suffix: string | null;
+  country: string;
+  currency: string;
+}
+
+// Exchange named by the symbol suffix, the same inference the server applies when none is chosen
+export const inferExchange = (symbol: string, exchanges: ExchangeInfo[]): ExchangeInfo | undefined => {
+  const upper = symbol.trim().toUpperCase();
+  return exchanges.find(e => e.suffix !== null && upper.endsWith(e.suffix));
+};
+
+// Mirrors the backend enum, selectors list the currencies from the registry instead (useCurrencies)
 export const Currency = {
   BRL: 'BRL',
   CAD: 'CAD',
-  USD: 'USD'
+  USD: 'USD',
+  EUR: 'EUR',
+  GBP: 'GBP',
+  JPY: 'JPY'
 } as const;
 
 export const Category = {
@@ -38,19 +75,52 @@ export const Category = {
   ManagedPortfolioBlock: 'ManagedPortfolioBlock'
 } as const;
 
+export const TransactionType = {
+  Buy: 'Buy',
+  Sell: 'Sell',
+  Dividend: 'Dividend',
+  Deposit: 'Deposit',
+  Withdrawal: 'Withdrawal',
+  Fee: 'Fee'
+} as const;
+
+export const FixedIncomeIndexer = {
+  Prefixed: 'Prefixed',
+  Cdi: 'Cdi',
+  Selic: 'Selic',
+  Ipca: 'Ipca'
+} as const;
+
 export type Currency = typeof Currency[keyof typeof Currency];
 export type Category = typeof Category[keyof typeof Category];
+export type TransactionType = typeof TransactionType[keyof typeof TransactionType];
+export type FixedIncomeIndexer = typeof FixedIncomeIndexer[keyof typeof FixedIncomeIndexer];
 
-// Helper functions to convert string values to display strings
-export const getCurrencyLabel = (currency: string): string => {
-  switch (currency) {
-    case 'BRL': return 'BRL (Brazil)';
-    case 'CAD': return 'CAD (Canada)';
-    case 'USD': return 'USD (United States)';
-    default: return 'Unknown';
-  }
-};
+export const CostBasisMethod = {
+  AverageCost: 'AverageCost',
+  Fifo: 'Fifo'
+} as const;
+
+export type CostBasisMethod = typeof CostBasisMethod[keyof typeof CostBasisMethod];
+
+export const TimelineResolution = {
+  Daily: 'Daily',
+  Weekly: 'Weekly',
+  Monthly: 'Monthly'
+} as const;
 
+export type TimelineResolution = typeof TimelineResolution[keyof typeof TimelineResolution];
+
+export const ReturnPeriod = {
+  Ytd: 'Ytd',
+  OneYear: 'OneYear',
+  ThreeYears: 'ThreeYears',
+  SinceInception: 'SinceInception'
+} as const;
+
+export type ReturnPeriod = typeof ReturnPeriod[keyof typeof ReturnPeriod];
+
+// Helper functions to convert string values to display strings
 export const getCategoryLabel = (category: string): string => {
   switch (category) {
     case 'RendaFixa': return 'Renda Fixa';
@@ -65,6 +135,82 @@ export const getCategoryLabel = (category: string): string => {
   }
 };
 
+// Mirrors the server: only these categories are valued at market price
+export const hasMarketPrice = (category: string): boolean =>
+  category === Category.Stocks || category === Category.ETF || category === Category.FIIs;
+
+// Only fixed income can carry indexer terms and be accrued
+export const canBeIndexed = (category: string): boolean =>
+  category === Category.RendaFixa || category === Category.Bonds;
+
+export const getIndexerLabel = (indexer: string): string => {
+  switch (indexer) {
+    case 'Prefixed': return 'Prefixed';
+    case 'Cdi': return 'CDI';
+    case 'Selic': return 'Selic';
+    case 'Ipca': return 'IPCA+';
+    default: return 'None';
+  }
+};
+
+// Terms as a statement writes them, e.g. "110% CDI", "IPCA + 5.50%" or "12.00% a.a."
+export const formatIndexerTerms = (indexer: string, rate: number): string => {
+  switch (indexer) {
+    case 'Cdi':
+    case 'Selic':
+      return `${rate}% ${getIndexerLabel(indexer)}`;
+    case 'Ipca':
+      return `IPCA + ${rate.toFixed(2)}%`;
+    default:
+      return `${rate.toFixed(2)}% a.a.`;
+  }
+};
+
+export const getTransactionTypeLabel = (type: string): string => {
+  switch (type) {
+    case 'Buy': return 'Buy';
+    case 'Sell': return 'Sell';
+    case 'Dividend': return 'Dividend';
+    case 'Deposit': return 'Deposit';
+    case 'Withdrawal': return 'Withdrawal';
+    case 'Fee': return 'Fee';
+    default: return 'Buy';
+  }
+};
+
+export const getCostBasisMethodLabel = (method: string): string => {
+  switch (method) {
+    case 'AverageCost': return 'Average Cost';
+    case 'Fifo': return 'FIFO';
+    default: return 'Average Cost';
+  }
+};
+
+export const getReturnPeriodLabel = (period: string): string => {
+  switch (period) {
+    case 'Ytd': return 'YTD';
+    case 'OneYear': return '1 Year';
+    case 'ThreeYears': return '3 Years';
+    case 'SinceInception': return 'Since Inception';
+    default: return 'Since Inception';
+  }
+};
+
+// Signed cash amount of a transaction: purchases add to the position, sales remove from it
+export const getNetAmount = (investment: Pick<Investment, 'type' | 'value' | 'quantity' | 'total'>): number => {
+  const total = investment.total || (investment.value * investment.quantity);
+  switch (investment.type) {
+    case 'Sell':
+    case 'Withdrawal':
+      return -total;
+    case 'Dividend':
+    case 'Fee':
+      return 0;
+    default:
+      return total;
+  }
+};
+
 export interface CreateInvestmentRequest {
   name: string;
   value: number;
@@ -73,7 +219,80 @@ export interface CreateInvestmentRequest {
   date: string;
   description: string;
   category: string;
+  type: string;
   accountId: number;
+  ticker?: string | null;
+  exchange?: string | null;
+  exposureCountry?: string | null;
+  indexer?: FixedIncomeIndexer | null;
+  indexerRate?: number | null;
+  maturityDate?: string | null;
+  isTaxExempt?: boolean;
+  fees?: number | null;
+  taxes?: number | null;
+  costCurrency?: string | null;
+}
+
+// A symbol match from /api/stockprices/lookup
+export interface SymbolSearchResult {
+  symbol: string;
+  name: string;
+  exchange: string;
+  type: string;
+}
+
+// Open quoted holding whose symbol is missing or has never returned a price
+export interface UnmappedHolding {
+  accountId: number;
+  accountName: string;
+  name: string;
+  currency: string;
+  category: string;
+  ticker: string | null;
+  // Guessed from the name, empty when nothing could be guessed
+  suggestedSymbol: string;
+  transactionCount: number;
+}
+
+// Ticker for every transaction of one holding; an empty ticker goes back to guessing from the name
+export interface SymbolMapping {
+  accountId: number;
+  name: string;
+  currency: string;
+  ticker: string | null;
+}
+
+// Raw CSV cell values mapped to investment fields; parsed and validated by the server
+export interface ImportInvestmentRow {
+  name?: string;
+  value?: string;
+  quantity?: string;
+  currency?: string;
+  date?: string;
+  description?: string;
+  category?: string;
+  type?: string;
+  account?: string;
+}
+
+export interface ImportRowResult {
+  rowNumber: number;
+  isValid: boolean;
+  errors: string[];
+  investment?: CreateInvestmentRequest;
+  accountName?: string;
+}
+
+export interface BulkImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  importedCount: number;
+  // '.' or ',' as the numbers were read, null when the file did not tell and none was chosen
+  decimalSeparator: string | null;
+  // 'DMY' or 'MDY' as dates with a day and month were read, null when the file did not tell and none was chosen
+  dateOrder: string | null;
+  rows: ImportRowResult[];
 }
 
 export interface GroupedInvestment {
@@ -85,6 +304,17 @@ export interface GroupedInvestment {
   total: number;
   currency: string;
   country: string;
+  realizedGain: number;
+  income: number;
+  trailingIncome: number;
+  yieldOnCost: number;
+  fees: number;
+}
+
+export interface MonthlyIncome {
+  month: string;
+  currency: string;
+  amount: number;
 }
 
 export interface AssetByCategory {
@@ -100,25 +330,108 @@ export interface InvestmentPerformance {
   symbol: string;
   category: string;
   currency: string;
+  type: string;
   quantity: number;
+  openQuantity: number;
   purchasePrice: number;
   currentPrice?: number;
   totalInvested: number;
   currentValue: number;
   gainLoss: number;
   gainLossPercentage: number;
+  realizedGain: number;
   lastUpdated: string;
   hasCurrentPrice: boolean;
 }
 
+export interface HoldingPerformance {
+  name: string;
+  symbol: string;
+  category: string;
+  currency: string;
+  quantity: number;
+  averageCost: number;
+  currentPrice?: number;
+  costBasis: number;
+  currentValue: number;
+  unrealizedGain: number;
+  unrealizedGainPercentage: number;
+  realizedGain: number;
+  income: number;
+  trailingIncome: number;
+  yieldOnCost: number;
+  fees: number;
+  hasCurrentPrice: boolean;
+  // Open lots in the home currency: cost at the rate of each purchase date, value at today's rate
+  homeCostBasis: number | null;
+  homeCurrentValue: number | null;
+  // Gain from the asset's own move and from the currency moving against the home currency
+  assetReturn: number | null;
+  currencyReturn: number | null;
+  // Date of the manual valuation the value comes from, null for quoted holdings or when none was entered
+  valuationDate: string | null;
+  isValuationStale: boolean;
+  // Terms of indexed fixed income valued by accrual, with the income tax due if redeemed today
+  indexer: string | null;
+  indexerRate: number | null;
+  estimatedIncomeTax: number | null;
+  // For cash, the first date the balance went below zero, usually where a deposit is missing
+  overdrawnOn: string | null;
+}
+
 export interface AccountPerformance {
   accountId: number;
   accountName: string;
+  costBasisMethod: string;
   investments: InvestmentPerformance[];
+  holdings: HoldingPerformance[];
   totalInvested: number;
   currentValue: number;
   totalGainLoss: number;
   totalGainLossPercentage: number;
+  totalRealizedGain: number;
+  totalUnrealizedGain: number;
+  totalIncome: number;
+  totalTrailingIncome: number;
+  totalFees: number;
+  // Cash balances of the account; the gain and home currency totals leave cash out, income and fees keep it
+  totalCash: number;
+  homeCurrency: string;
+  totalHomeCostBasis: number;
+  totalHomeCurrentValue: number;
+  totalAssetReturn: number;
+  totalCurrencyReturn: number;
+  returnCurrency: string;
+  returns: PeriodReturn[];
+  costsPaid: YearlyCosts[];
+}
+
+// Fees and taxes paid in one year, in the currency they were charged in
+export interface YearlyCosts {
+  year: number;
+  currency: string;
+  fees: number;
+  taxes: number;
+  total: number;
+}
+
+// Time-weighted (TWR) and money-weighted (XIRR) returns in percent; null when they cannot be computed
+export interface PeriodReturn {
+  period: ReturnPeriod;
+  startDate: string;
+  endDate: string;
+  coversFullPeriod: boolean;
+  startValue: number;
+  endValue: number;
+  netContributions: number;
+  timeWeightedReturn: number | null;
+  annualizedTimeWeightedReturn: number | null;
+  moneyWeightedReturn: number | null;
+}
+
+export interface PortfolioReturns {
+  currency: string;
+  returns: PeriodReturn[];
 }
 
 export interface AccountGoalProgress {
@@ -126,13 +439,7 @@ export interface AccountGoalProgress {
   accountName: string;
   currentValue: number;
   currency: string;
-  goals: {
-    year1?: number;
-    year2?: number;
-    year3?: number;
-    year4?: number;
-    year5?: number;
-  };
+  goals: GoalProgress[];
   performance?: AccountPerformance;
 }
 
@@ -143,6 +450,8 @@ export interface DashboardData {
   assetsByCountry: { country: string; total: number }[];
   assetsByCategory: AssetByCategory[];
   accountGoals: AccountGoalProgress[];
+  portfolioGoals: GoalProgress[];
+  monthlyIncome: MonthlyIncome[];
   timelineData?: InvestmentTimelineData;
 }
 
@@ -150,26 +459,52 @@ export interface InvestmentTimelineData {
   timelinePoints: TimelinePoint[];
   goalMarkers: GoalMarker[];
   currentTotalValue: number;
-  currentBrlValue: number;
-  currentCadValue: number;
+  // Net cost basis per currency code
+  currentValues: Record<string, number>;
   // Optional properties for original currency display mode
-  originalCurrentBrlValue?: number;
-  originalCurrentCadValue?: number;
+  originalCurrentValues?: Record<string, number>;
   displayMode?: string;
 }
 
 export interface TimelinePoint {
   date: string;
   totalValue: number;
-  brlValue: number;
-  cadValue: number;
+  values: Record<string, number>;
   // Optional properties for original currency display mode
-  originalBrlValue?: number;
-  originalCadValue?: number;
+  originalValues?: Record<string, number>;
   displayMode?: string;
 }
 
+export interface ValuationTimelineData {
+  resolution: TimelineResolution;
+  currency: string;
+  points: ValuationPoint[];
+  currentMarketValue: number;
+  currentCostBasis: number;
+  symbolsWithoutPrices: string[];
+  benchmarkSymbol: string | null;
+  currentBenchmarkValue: number | null;
+  manualValuations: ManualValuationMarker[];
+}
+
+// A manual valuation of a holding without market price, in the timeline currency
+export interface ManualValuationMarker {
+  date: string;
+  name: string;
+  value: number;
+}
+
+export interface ValuationPoint {
+  date: string;
+  marketValue: number;
+  costBasis: number;
+  benchmarkValue: number | null;
+}
+
 export interface GoalMarker {
+  goalId: number;
+  accountId: number | null;
+  date: string;
   year: number;
   value: number;
   currency: string;
@@ -0,0 +1,68 @@
+export interface CategoryAssumption {
+  category: string;
+  value: number;
+  // Percent of the portfolio
+  weight: number;
+  // Percent per year, zero for categories without enough price history
+  annualReturn: number;
+  annualVolatility: number;
+  hasHistory: boolean;
+  months: number;
+}
+
+export interface PlannerAssumptions {
+  currency: string;
+  startingValue: number;
+  categories: CategoryAssumption[];
+}
+
+export interface CategoryAssumptionItem {
+  category: string;
+  weight: number;
+  annualReturn: number;
+  annualVolatility: number;
+}
+
+export interface PlannerSimulationRequest {
+  currency: string;
+  years: number;
+  // Contributions and withdrawals are in today's money and grow with inflation
+  monthlyContribution: number;
+  withdrawalStartYear: number | null;
+  monthlyWithdrawal: number;
+  inflationRate: number;
+  simulations: number;
+  categories: CategoryAssumptionItem[];
+}
+
+// Yearly percentiles in today's money
+export interface PlannerPercentilePoint {
+  year: number;
+  date: string;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface GoalProbability {
+  goalId: number;
+  accountId: number | null;
+  label: string;
+  date: string;
+  targetValue: number;
+  // Null when the goal is past the time horizon
+  probability: number | null;
+}
+
+export interface PlannerSimulation {
+  currency: string;
+  startingValue: number;
+  years: number;
+  simulations: number;
+  // Percent of simulations in which the portfolio never runs out
+  successRate: number;
+  points: PlannerPercentilePoint[];
+  goals: GoalProbability[];
+}
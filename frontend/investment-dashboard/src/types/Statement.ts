@@ -0,0 +1,64 @@
+// A broker statement format the server can read, as served by /api/statements/parsers
+export interface StatementParserInfo {
+  id: string;
+  name: string;
+  description: string;
+}
+
+// One statement line in our terms, before it is assigned to an account
+export interface StatementTransaction {
+  lineNumber: number;
+  // Stable across imports of the same file; lines already imported under it are skipped
+  externalId: string;
+  // Account number or institution named by the statement, empty when the file covers one account
+  sourceAccount: string;
+  date: string;
+  type: string;
+  category: string;
+  name: string;
+  quantity: number;
+  value: number;
+  currency: string;
+  exchange: string | null;
+  fees: number | null;
+  taxes: number | null;
+  description: string;
+}
+
+// A line the parser recognized but does not import, e.g. a currency conversion
+export interface StatementSkippedLine {
+  lineNumber: number;
+  reason: string;
+}
+
+export interface StatementImportRequest {
+  content: string;
+  // Detected from the content when null
+  parser: string | null;
+  dryRun: boolean;
+  accountMap: Record<string, number>;
+  // Account for lines whose statement account is not mapped
+  defaultAccountId: number | null;
+}
+
+export interface StatementImportRow {
+  transaction: StatementTransaction;
+  accountId: number | null;
+  accountName: string | null;
+  isDuplicate: boolean;
+  isValid: boolean;
+  errors: string[];
+}
+
+export interface StatementImportResult {
+  dryRun: boolean;
+  parser: string;
+  parserName: string;
+  sourceAccounts: string[];
+  rows: StatementImportRow[];
+  skipped: StatementSkippedLine[];
+  newRows: number;
+  duplicateRows: number;
+  invalidRows: number;
+  importedCount: number;
+}
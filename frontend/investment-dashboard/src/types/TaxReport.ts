@@ -0,0 +1,98 @@
+// Brazilian swing-trade results of one tax year, month by month, in BRL
+export interface BrazilGainsReport {
+  year: number;
+  // Losses carried from earlier years, stocks and ETFs share one pool and FIIs have their own
+  openingCommonLoss: number;
+  openingFiiLoss: number;
+  months: BrazilMonthlyGain[];
+  sales: TaxableSale[];
+  totalExemptGain: number;
+  totalTax: number;
+}
+
+export interface BrazilMonthlyGain {
+  month: number;
+  // Stock sales up to R$20,000 in a month are exempt
+  stockSales: number;
+  isExempt: boolean;
+  exemptGain: number;
+  commonGain: number;
+  commonLossBalance: number;
+  commonTaxBase: number;
+  commonTax: number;
+  fiiGain: number;
+  fiiLossBalance: number;
+  fiiTaxBase: number;
+  fiiTax: number;
+  totalTax: number;
+}
+
+export interface TaxableSale {
+  date: string;
+  symbol: string;
+  name: string;
+  category: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
+// Year-end positions at cost in BRL, as listed under "Bens e Direitos"
+export interface BrazilAssetsReport {
+  year: number;
+  assets: BrazilAssetItem[];
+  totalPreviousYear: number;
+  totalCurrentYear: number;
+}
+
+export interface BrazilAssetItem {
+  accountName: string;
+  symbol: string;
+  name: string;
+  category: string;
+  country: string;
+  currency: string;
+  quantity: number;
+  description: string;
+  previousYearValue: number;
+  currentYearValue: number;
+}
+
+// Canadian adjusted cost base per security, in CAD
+export interface AcbReport {
+  year: number;
+  securities: AcbSecurity[];
+  totalCapitalGain: number;
+  totalTaxableCapitalGain: number;
+  totalDeniedLoss: number;
+}
+
+export interface AcbSecurity {
+  symbol: string;
+  name: string;
+  openingQuantity: number;
+  openingAdjustedCostBase: number;
+  quantity: number;
+  adjustedCostBase: number;
+  capitalGain: number;
+  deniedLoss: number;
+  entries: AcbEntry[];
+}
+
+export interface AcbEntry {
+  date: string;
+  type: string;
+  accountName: string;
+  quantity: number;
+  currency: string;
+  // Rate to CAD on the transaction date
+  fxRate: number;
+  amount: number;
+  costBasis: number | null;
+  capitalGain: number | null;
+  // Superficial loss denied on a sale, added to the cost base of the shares bought back
+  deniedLoss: number | null;
+  sharesAfter: number;
+  acbAfter: number;
+}
@@ -0,0 +1,26 @@
+// What a holding without a market price was worth on a date, e.g. a statement balance
+export interface ManualValuation {
+  id: number;
+  accountId: number;
+  name: string;
+  currency: string;
+  date: string;
+  // Value of the whole holding, not per unit
+  value: number;
+  note: string | null;
+}
+
+export interface CreateManualValuationRequest {
+  accountId: number;
+  name: string;
+  currency: string;
+  date: string;
+  value: number;
+  note?: string;
+}
+
+export interface UpdateManualValuationRequest {
+  date: string;
+  value: number;
+  note?: string;
+}
@@ -0,0 +1,45 @@
+import { currencyApi } from '../services/currencyApi';
+
+// Amount with the registry symbol in front and digits grouped the way the currency's locale writes them.
+// fractionDigits can only lower the currency's own decimals, e.g. 0 for chart labels
+export const formatMoney = (value: number, currency: string, fractionDigits?: number): string => {
+  const info = currencyApi.getCurrencyInfo(currency);
+  if (!info) {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(value);
+  }
+
+  const digits = Math.min(fractionDigits ?? info.decimals, info.decimals);
+  const amount = new Intl.NumberFormat(info.locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(Math.abs(value));
+  return `${value < 0 ? '-' : ''}${info.symbol}${amount}`;
+};
+
+// Currency codes in registry order so breakdowns always read the same way, unknown codes go last
+export const sortByRegistry = (codes: string[]): string[] => {
+  const order = currencyApi.getCurrenciesSync().map(c => c.code);
+  const rank = (code: string) => (order.includes(code) ? order.indexOf(code) : order.length);
+  return [...codes].sort((a, b) => rank(a) - rank(b));
+};
+
+// Totals per currency code, in registry order
+export const sumByCurrency = <T extends { currency: string }>(items: T[], getValue: (item: T) => number): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  items.forEach(item => {
+    totals[item.currency] = (totals[item.currency] || 0) + getValue(item);
+  });
+  return Object.fromEntries(sortByRegistry(Object.keys(totals)).map(code => [code, totals[code]]));
+};
+
+// e.g. "R$1.000,00 + CA$500.00", currencies without holdings are left out
+export const formatCurrencyBreakdown = (totals: Record<string, number>, format: (value: number, currency: string) => string): string =>
+  Object.entries(totals)
+    .filter(([, amount]) => amount > 0)
+    .map(([currency, amount]) => format(amount, currency))
+    .join(' + ');
@@ -0,0 +1,307 @@
+import { currencyApi } from '../services/currencyApi';
+import type { Investment, GroupedInvestment, TimelinePoint, AccountPerformance } from '../types/Investment';
+import { getCategoryLabel, getTransactionTypeLabel } from '../types/Investment';
+import type { BrazilGainsReport, BrazilAssetsReport, AcbReport } from '../types/TaxReport';
+import { sortByRegistry } from './currency';
+import { toCsv } from './csv';
+import { buildXlsx } from './xlsx';
+import type { SheetCell } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' }
+];
+
+export interface ExportTable {
+  name: string;
+  columns: string[];
+  rows: SheetCell[][];
+}
+
+export interface ExportRate {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+}
+
+// Display currency chosen in the Dashboard CurrencySelector
+export const getSelectedDisplayCurrency = (): string =>
+  localStorage.getItem('dashboardCurrency') || 'Original';
+
+// Converts amounts to the display currency and remembers every rate it used
+export class ExportCurrencyConverter {
+  readonly displayCurrency: string;
+  private usedRates = new Map<string, ExportRate>();
+
+  constructor(displayCurrency: string) {
+    this.displayCurrency = displayCurrency;
+  }
+
+  get isOriginal(): boolean {
+    return this.displayCurrency === 'Original';
+  }
+
+  targetCurrency(fromCurrency: string): string {
+    return this.isOriginal ? fromCurrency : this.displayCurrency;
+  }
+
+  rate(fromCurrency: string): number {
+    const toCurrency = this.targetCurrency(fromCurrency);
+    const rate = currencyApi.getExchangeRateSync(fromCurrency, toCurrency);
+    if (fromCurrency !== toCurrency) {
+      this.usedRates.set(`${fromCurrency}${toCurrency}`, { fromCurrency, toCurrency, rate });
+    }
+    return rate;
+  }
+
+  convert(amount: number, fromCurrency: string): number {
+    return roundAmount(amount * this.rate(fromCurrency));
+  }
+
+  get rates(): ExportRate[] {
+    return Array.from(this.usedRates.values());
+  }
+}
+
+export const roundAmount = (value: number, decimals = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+// Each table keeps its amounts in the original currency and adds the rate and converted amounts next to them
+export const buildTransactionsTable = (investments: Investment[], converter: ExportCurrencyConverter): ExportTable => ({
+  name: 'Transactions',
+  columns: ['Date', 'Account', 'Name', 'Type', 'Category', 'Quantity', 'Unit Value', 'Total', 'Currency', 'FX Rate', 'Display Currency', 'Total (Display)', 'Description'],
+  rows: [...investments]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(inv => [
+      inv.date.split('T')[0],
+      inv.account?.name ?? '',
+      inv.name,
+      getTransactionTypeLabel(inv.type),
+      getCategoryLabel(inv.category),
+      inv.quantity,
+      inv.value,
+      roundAmount(inv.total),
+      inv.currency,
+      converter.rate(inv.currency),
+      converter.targetCurrency(inv.currency),
+      converter.convert(inv.total, inv.currency),
+      inv.description
+    ])
+});
+
+export const buildHoldingsTable = (holdings: GroupedInvestment[], converter: ExportCurrencyConverter): ExportTable => ({
+  name: 'Holdings',
+  columns: ['Account', 'Name', 'Category', 'Country', 'Quantity', 'Average Cost', 'Cost Basis', 'Realized Gain', 'Income', 'Income (12 months)', 'Yield on Cost %', 'Fees', 'Currency', 'FX Rate', 'Display Currency', 'Cost Basis (Display)', 'Realized Gain (Display)', 'Income (Display)'],
+  rows: holdings.map(h => [
+    h.account,
+    h.name,
+    getCategoryLabel(h.category),
+    h.country,
+    h.totalQuantity,
+    roundAmount(h.averageValue, 4),
+    roundAmount(h.total),
+    roundAmount(h.realizedGain),
+    roundAmount(h.income),
+    roundAmount(h.trailingIncome),
+    roundAmount(h.yieldOnCost),
+    roundAmount(h.fees),
+    h.currency,
+    converter.rate(h.currency),
+    converter.targetCurrency(h.currency),
+    converter.convert(h.total, h.currency),
+    converter.convert(h.realizedGain, h.currency),
+    converter.convert(h.income, h.currency)
+  ])
+});
+
+export const buildAccountPerformanceTable = (performance: AccountPerformance, converter: ExportCurrencyConverter): ExportTable => ({
+  name: `${performance.accountName} Performance`,
+  columns: ['Name', 'Symbol', 'Category', 'Quantity', 'Average Cost', 'Current Price', 'Cost Basis', 'Current Value', 'Unrealized Gain', 'Unrealized Gain %', 'Realized Gain', 'Income', 'Income (12 months)', 'Yield on Cost %', 'Fees', 'Currency', 'FX Rate', 'Display Currency', 'Cost Basis (Display)', 'Current Value (Display)', 'Unrealized Gain (Display)', 'Realized Gain (Display)'],
+  rows: performance.holdings.map(h => [
+    h.name,
+    h.symbol,
+    getCategoryLabel(h.category),
+    h.quantity,
+    roundAmount(h.averageCost, 4),
+    h.currentPrice ?? null,
+    roundAmount(h.costBasis),
+    roundAmount(h.currentValue),
+    roundAmount(h.unrealizedGain),
+    roundAmount(h.unrealizedGainPercentage),
+    roundAmount(h.realizedGain),
+    roundAmount(h.income),
+    roundAmount(h.trailingIncome),
+    roundAmount(h.yieldOnCost),
+    roundAmount(h.fees),
+    h.currency,
+    converter.rate(h.currency),
+    converter.targetCurrency(h.currency),
+    converter.convert(h.costBasis, h.currency),
+    converter.convert(h.currentValue, h.currency),
+    converter.convert(h.unrealizedGain, h.currency),
+    converter.convert(h.realizedGain, h.currency)
+  ])
+});
+
+export const buildTimelineTable = (points: TimelinePoint[], converter: ExportCurrencyConverter): ExportTable => {
+  // One column per currency that appears anywhere in the timeline
+  const currencies = sortByRegistry([...new Set(points.flatMap(point => Object.keys(point.values)))]);
+  const valueColumns = currencies.map(currency => `${currency} Value`);
+
+  return {
+    name: 'Timeline',
+    columns: converter.isOriginal
+      ? ['Date', ...valueColumns]
+      : ['Date', ...valueColumns, `Total (${converter.displayCurrency})`],
+    rows: points.map(point => {
+      const row: SheetCell[] = [point.date.split('T')[0], ...currencies.map(currency => roundAmount(point.values[currency] ?? 0))];
+      if (!converter.isOriginal) {
+        row.push(roundAmount(currencies.reduce((sum, currency) => sum + converter.convert(point.values[currency] ?? 0, currency), 0)));
+      }
+      return row;
+    })
+  };
+};
+
+// Tax reports are in the currency of the tax authority, BRL or CAD, and are never converted
+export const buildBrazilGainsTable = (report: BrazilGainsReport): ExportTable => ({
+  name: `Brazil Gains ${report.year}`,
+  columns: ['Month', 'Stock Sales', 'Exempt', 'Exempt Gain', 'Stocks and ETFs Gain', 'Stocks and ETFs Loss Carried', 'Stocks and ETFs Tax Base', 'Stocks and ETFs Tax (15%)', 'FIIs Gain', 'FIIs Loss Carried', 'FIIs Tax Base', 'FIIs Tax (20%)', 'Total Tax'],
+  rows: report.months.map(m => [
+    `${report.year}-${String(m.month).padStart(2, '0')}`,
+    m.stockSales,
+    m.isExempt ? 'Yes' : 'No',
+    m.exemptGain,
+    m.commonGain,
+    m.commonLossBalance,
+    m.commonTaxBase,
+    m.commonTax,
+    m.fiiGain,
+    m.fiiLossBalance,
+    m.fiiTaxBase,
+    m.fiiTax,
+    m.totalTax
+  ])
+});
+
+export const buildBrazilSalesTable = (report: BrazilGainsReport): ExportTable => ({
+  name: `Brazil Sales ${report.year}`,
+  columns: ['Date', 'Symbol', 'Name', 'Category', 'Quantity', 'Proceeds', 'Average Cost Basis', 'Gain'],
+  rows: report.sales.map(s => [
+    s.date.split('T')[0],
+    s.symbol,
+    s.name,
+    getCategoryLabel(s.category),
+    s.quantity,
+    s.proceeds,
+    s.costBasis,
+    s.gain
+  ])
+});
+
+export const buildBrazilAssetsTable = (report: BrazilAssetsReport): ExportTable => ({
+  name: `Bens e Direitos ${report.year}`,
+  columns: ['Account', 'Symbol', 'Category', 'Country', 'Currency', 'Quantity', 'Discriminação', `Situação em 31/12/${report.year - 1} (BRL)`, `Situação em 31/12/${report.year} (BRL)`],
+  rows: report.assets.map(a => [
+    a.accountName,
+    a.symbol,
+    getCategoryLabel(a.category),
+    a.country,
+    a.currency,
+    a.quantity,
+    a.description,
+    a.previousYearValue,
+    a.currentYearValue
+  ])
+});
+
+// One row per transaction of the year, preceded by the opening balance of each security
+export const buildAcbTable = (report: AcbReport): ExportTable => ({
+  name: `ACB ${report.year}`,
+  columns: ['Symbol', 'Date', 'Type', 'Account', 'Quantity', 'Currency', 'FX Rate', 'Amount (CAD)', 'ACB of Shares Sold (CAD)', 'Capital Gain (CAD)', 'Superficial Loss Denied (CAD)', 'Shares After', 'ACB After (CAD)'],
+  rows: report.securities.flatMap(security => [
+    [security.symbol, `${report.year}-01-01`, 'Opening', '', null, '', null, null, null, null, null, security.openingQuantity, security.openingAdjustedCostBase],
+    ...security.entries.map(e => [
+      security.symbol,
+      e.date.split('T')[0],
+      e.type,
+      e.accountName,
+      e.quantity,
+      e.currency,
+      e.fxRate,
+      e.amount,
+      e.costBasis,
+      e.capitalGain,
+      e.deniedLoss,
+      e.sharesAfter,
+      e.acbAfter
+    ])
+  ])
+});
+
+const triggerDownload = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const ratesTable = (converter: ExportCurrencyConverter): ExportTable => ({
+  name: 'Exchange Rates',
+  columns: ['From', 'To', 'Rate'],
+  rows: converter.rates.map(r => [r.fromCurrency, r.toCurrency, r.rate])
+});
+
+export const downloadExport = (
+  table: ExportTable,
+  converter: ExportCurrencyConverter,
+  format: ExportFormat,
+  fileBaseName: string
+) => {
+  const generatedAt = new Date();
+  const fileName = `${fileBaseName}-${generatedAt.toISOString().split('T')[0]}.${format}`;
+  const rates = ratesTable(converter);
+
+  if (format === 'json') {
+    const payload = {
+      name: table.name,
+      displayCurrency: converter.displayCurrency,
+      generatedAt: generatedAt.toISOString(),
+      exchangeRates: converter.rates,
+      rows: table.rows.map(row =>
+        Object.fromEntries(table.columns.map((column, index) => [column, row[index] ?? null]))
+      )
+    };
+    triggerDownload(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }), fileName);
+    return;
+  }
+
+  if (format === 'xlsx') {
+    triggerDownload(buildXlsx([
+      { name: table.name, rows: [table.columns, ...table.rows] },
+      { name: rates.name, rows: [['Display Currency', converter.displayCurrency], [], rates.columns, ...rates.rows] }
+    ]), fileName);
+    return;
+  }
+
+  // CSV has a single sheet, so the rates follow the data after a blank line
+  const csvRows: SheetCell[][] = [
+    table.columns,
+    ...table.rows,
+    [],
+    [rates.name, `Display Currency: ${converter.displayCurrency}`],
+    rates.columns,
+    ...rates.rows
+  ];
+  // Excel needs the byte order mark to read UTF-8 account names correctly
+  triggerDownload(new Blob(['\uFEFF' + toCsv(csvRows)], { type: 'text/csv;charset=utf-8' }), fileName);
+};